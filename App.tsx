@@ -1,150 +1,861 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   LayoutDashboard, 
   History, 
   Settings, 
   Plus, 
-  Minus, 
   Square, 
   X as CloseIcon, 
-  Search,
-  Filter,
-  Download,
   FileText,
-  Printer,
-  Calendar
+  LogIn,
+  LogOut,
+  Cloud,
+  CloudOff,
+  RotateCcw,
+  ArrowRightLeft,
+  CalendarClock,
+  Target,
+  AlertTriangle,
+  Receipt,
+  MonitorDown,
+  Minimize2
 } from 'lucide-react';
-import { Transaction, AIAnalysisResult, ReportFilters, PGC_CATEGORIES } from './types';
-import SummaryCard from './components/SummaryCard';
+import { User } from 'firebase/auth';
+import { Transaction, AIAnalysisResult, AIInsight, AISettings, LedgerQuery, CategoryRule, ClosedPeriod, PeriodLogEntry, ReportFilters, ChartAccount, CashAccount, RecurringTemplate, ExpectedEntry, ForecastSnapshot, Budget, CompanyProfile, OpenItem, Counterparty, Attachment, ExchangeRate, HistoryFilters, SavedView, Workspace, RemoteWorkspace, WorkspaceRole } from './types';
 import TransactionModal from './components/TransactionModal';
-import Charts from './components/Charts';
-import AnalysisPanel from './components/AnalysisPanel';
-import { analyzeTransactions } from './services/geminiService';
+import ImportWizard from './components/ImportWizard';
+import TransferModal from './components/TransferModal';
+import RecurringManager from './components/RecurringManager';
+import BudgetManager from './components/BudgetManager';
+import OpenItemsManager from './components/OpenItemsManager';
+import AttachmentPreview from './components/AttachmentPreview';
+import DashboardTab from './components/DashboardTab';
+import HistoryTab from './components/HistoryTab';
+import ReportsTab from './components/ReportsTab';
+import SettingsTab from './components/SettingsTab';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
+import { loadAISettings, saveAISettings } from './services/ai';
+import { historySearchFor } from './services/ledgerQuestions';
+import {
+  CategorizationChange,
+  CategorizationInput,
+  applySuggestion,
+  loadCategoryRules,
+  saveCategoryRules,
+  suggestCategory,
+  trainSuggester
+} from './services/categoryRules';
+import {
+  closeMonths,
+  formatMonth,
+  isInClosedPeriod,
+  loadClosedPeriods,
+  loadPeriodLog,
+  lockedBefore,
+  monthOf,
+  planClose,
+  planReopen,
+  reopenMonths,
+  saveClosedPeriods,
+  savePeriodLog
+} from './services/periodClosing';
+import {
+  DisplayMode,
+  InstallPromptEvent,
+  closeWindow,
+  currentDisplayMode,
+  isMaximized,
+  onDisplayModeChanged,
+  onInstallAvailable,
+  onMaximizedChanged,
+  toggleMaximized
+} from './services/desktop';
+import {
+  LOCAL_STORAGE_KEY,
+  LOCAL_UPLOAD_KEY,
+  createFirestoreRepository,
+  createLocalRepository,
+  localOnlyTransactions,
+  syncQueueKey,
+  withOfflineQueue,
+} from './services/transactionRepository';
+import { onUserChanged, signInWithGoogle, signOutUser } from './services/authService';
+import { appendAudit, diffTransaction } from './services/auditTrail';
+import {
+  accountType,
+  buildChart,
+  formatAccount,
+  loadCustomAccounts,
+  needsCategoryMigration,
+  resolveAccountCode,
+  saveCustomAccounts
+} from './services/chartOfAccounts';
+import { loadCompany, saveCompany } from './services/company';
+import {
+  BackupData,
+  BackupFile,
+  RestoreMode,
+  combineData,
+  createBackup,
+  downloadBackup,
+  loadBackupSettings,
+  restoreWrites,
+  saveBackupSettings
+} from './services/backup';
+import { loadImportProfiles, saveImportProfiles } from './services/csvImport';
+import { vatFromGross } from './services/vat';
+import {
+  DEFAULT_ACCOUNT_ID,
+  accountBalances,
+  accountOf,
+  loadAccounts,
+  saveAccounts
+} from './services/accounts';
+import {
+  buildOccurrence,
+  dueOccurrences,
+  loadTemplates,
+  occurrenceId,
+  saveTemplates,
+  toDateKey,
+  upcomingOccurrences
+} from './services/recurring';
+import { loadExpectedEntries, loadSnapshots, saveExpectedEntries, saveSnapshots } from './services/forecast';
+import { PeriodSelection, loadFiscalYearStart, saveFiscalYearStart } from './services/periods';
+import { budgetStatus, budgetsExceededBy, loadBudgets, saveBudgets } from './services/budgets';
+import { buildPayment, isOverdue, loadOpenItems, saveOpenItems } from './services/openItems';
+import { loadCounterparties, saveCounterparties, suggestCounterparty } from './services/counterparties';
+import {
+  createFirebaseStore,
+  createIndexedDbStore,
+  loadAttachmentThreshold,
+  saveAttachmentThreshold
+} from './services/attachments';
+import { loadExchangeRates, saveExchangeRates } from './services/currency';
+import {
+  DEFAULT_SORT,
+  loadSavedViews,
+  saveSavedViews
+} from './services/transactionQuery';
+import {
+  DEFAULT_WORKSPACE_ID,
+  acceptInvite,
+  activeWorkspaceId,
+  cancelInvite,
+  canClosePeriods,
+  canEdit,
+  createRemoteWorkspace,
+  inviteMember,
+  loadWorkspaces,
+  removeMember,
+  renameRemoteWorkspace,
+  saveWorkspaces,
+  scopedKey,
+  setMemberRole,
+  subscribeInvites,
+  subscribeMemberships,
+  workspacePath,
+} from './services/workspaces';
+import { db, storage, isConfigured } from './firebaseConfig';
+import { usePersistentState } from './hooks/usePersistentState';
+import { useSharedSetting } from './hooks/useSharedSetting';
 
-const App: React.FC = () => {
+type Tab = 'dashboard' | 'history' | 'recurring' | 'openItems' | 'budgets' | 'reports' | 'settings';
+
+const TAB_TITLES: Record<Tab, { window: string; heading: string }> = {
+  dashboard: { window: 'Visão Geral', heading: 'Painel Financeiro' },
+  history: { window: 'Histórico', heading: 'Histórico de Transações' },
+  recurring: { window: 'Agendamentos', heading: 'Lançamentos Recorrentes' },
+  openItems: { window: 'Contas a Receber e a Pagar', heading: 'Contas a Receber e a Pagar' },
+  budgets: { window: 'Orçamentos', heading: 'Controlo Orçamental' },
+  reports: { window: 'Relatórios Detalhados', heading: 'Relatórios Gerenciais' },
+  settings: { window: 'Configurações', heading: 'Configurações' },
+};
+
+interface AppProps {
+  onSwitchWorkspace: (id: string) => void;
+}
+
+const App: React.FC<AppProps> = ({ onSwitchWorkspace }) => {
   // State
-  const [transactions, setTransactions] = useState<Transaction[]>(() => {
-    const saved = localStorage.getItem('fluxowin_transactions');
-    return saved ? JSON.parse(saved) : [];
-  });
+  const [user, setUser] = useState<User | null>(null);
+  const workspaceId = activeWorkspaceId();
+  const [workspaces, setWorkspaces] = usePersistentState<Workspace[]>(loadWorkspaces, saveWorkspaces);
+  const [remoteWorkspaces, setRemoteWorkspaces] = useState<RemoteWorkspace[] | null>(null);
+  const [workspaceInvites, setWorkspaceInvites] = useState<RemoteWorkspace[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [allTransactions, setAllTransactions] = useState<Transaction[]>([]);
+  const [ledgerReady, setLedgerReady] = useState(false);
   
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'history' | 'reports'>('dashboard');
-  const [searchQuery, setSearchQuery] = useState('');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [displayMode, setDisplayMode] = useState<DisplayMode>(currentDisplayMode);
+  const [installPrompt, setInstallPrompt] = useState<InstallPromptEvent | null>(null);
+  const [maximized, setMaximized] = useState(isMaximized);
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [activeTab, setActiveTab] = useState<Tab>('dashboard');
+  const [customAccounts, setCustomAccounts] = usePersistentState<ChartAccount[]>(loadCustomAccounts, saveCustomAccounts);
+  const [cashAccounts, setCashAccounts] = usePersistentState<CashAccount[]>(loadAccounts, saveAccounts);
+  const [entryAccountId, setEntryAccountId] = useState(DEFAULT_ACCOUNT_ID);
+  const [templates, setTemplates] = usePersistentState<RecurringTemplate[]>(loadTemplates, saveTemplates);
+  const [dashboardPeriod, setDashboardPeriod] = useState<PeriodSelection>(() => ({
+    preset: 'month',
+    customStart: toDateKey(new Date(new Date().getFullYear(), new Date().getMonth(), 1)),
+    customEnd: toDateKey(new Date()),
+  }));
+  const [fiscalYearStart, setFiscalYearStart] = usePersistentState(loadFiscalYearStart, saveFiscalYearStart);
+  const [company, setCompany] = usePersistentState<CompanyProfile>(loadCompany, saveCompany);
+  const [backupSettings, setBackupSettings] = usePersistentState(loadBackupSettings, saveBackupSettings);
+  const [expectedEntries, setExpectedEntries] = usePersistentState<ExpectedEntry[]>(loadExpectedEntries, saveExpectedEntries);
+  const [forecastSnapshots, setForecastSnapshots] = usePersistentState<ForecastSnapshot[]>(loadSnapshots, saveSnapshots);
+  const [budgets, setBudgets] = usePersistentState<Budget[]>(loadBudgets, saveBudgets);
+  const [openItems, setOpenItems] = usePersistentState<OpenItem[]>(loadOpenItems, saveOpenItems);
+  const [counterparties, setCounterparties] = usePersistentState<Counterparty[]>(loadCounterparties, saveCounterparties);
+  const [statementPartyId, setStatementPartyId] = useState('');
+  const [attachmentThreshold, setAttachmentThreshold] = usePersistentState(loadAttachmentThreshold, saveAttachmentThreshold);
+  const [exchangeRates, setExchangeRates] = usePersistentState<ExchangeRate[]>(loadExchangeRates, saveExchangeRates);
+  const [previewAttachment, setPreviewAttachment] = useState<Attachment | null>(null);
+  const [budgetWarning, setBudgetWarning] = useState<string | null>(null);
+  const [historyFilters, setHistoryFilters] = useState<HistoryFilters>({
+    query: '',
+    sort: DEFAULT_SORT,
+    showDeleted: false,
+    onlyMissingAttachments: false,
+  });
+  const [savedViews, setSavedViews] = usePersistentState<SavedView[]>(loadSavedViews, saveSavedViews);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [undoDeleteIds, setUndoDeleteIds] = useState<string[]>([]);
+  // Seleção múltipla do Histórico
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   
   // Report Filters
   const [reportFilters, setReportFilters] = useState<ReportFilters>({
-    startDate: new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split('T')[0], // First day of current month
-    endDate: new Date().toISOString().split('T')[0],
+    startDate: toDateKey(new Date(new Date().getFullYear(), new Date().getMonth(), 1)), // First day of current month
+    endDate: toDateKey(new Date()),
     type: 'all',
-    category: 'all'
+    category: 'all',
+    accountId: 'all'
   });
 
   const [aiState, setAiState] = useState<AIAnalysisResult>({
-    analysis: '',
+    insights: null,
     loading: false,
     error: null,
   });
+  const [aiSettings, setAiSettings] = usePersistentState<AISettings>(loadAISettings, saveAISettings);
+  const [categoryRules, setCategoryRules] = usePersistentState<CategoryRule[]>(loadCategoryRules, saveCategoryRules);
+  const [closedPeriods, setClosedPeriods] = usePersistentState<ClosedPeriod[]>(loadClosedPeriods, saveClosedPeriods);
+  const [periodLog, setPeriodLog] = usePersistentState<PeriodLogEntry[]>(loadPeriodLog, savePeriodLog);
+
+  // Firestore da empresa ativa quando configurado e autenticado; caso contrário, localStorage
+  const repository = useMemo(
+    () => (isConfigured && user
+      ? withOfflineQueue(createFirestoreRepository(db, workspacePath(workspaceId, user.uid)), localStorage, scopedKey(syncQueueKey(user.uid)))
+      : createLocalRepository(localStorage, scopedKey(LOCAL_STORAGE_KEY))),
+    [user]
+  );
+
+  // Novos anexos vão para o Firebase Storage com sessão iniciada; os antigos são lidos de onde foram guardados
+  const localAttachments = useMemo(() => createIndexedDbStore(), []);
+  const cloudAttachments = useMemo(
+    () => (isConfigured && user ? createFirebaseStore(storage, workspacePath(workspaceId, user.uid)) : null),
+    [user]
+  );
+
+  // Papel na empresa partilhada ativa (null = ainda desconhecido ou sem empresa partilhada)
+  const activeRemote = remoteWorkspaces?.find(r => r.id === workspaceId);
+  const workspaceRole: WorkspaceRole | null = activeRemote && user ? activeRemote.members[user.uid] || null : null;
+  // Numa empresa partilhada só se escreve com um papel conhecido que o permita: as regras do Firestore
+  // recusariam as restantes escritas. Sem sessão ou na empresa principal o acesso é total.
+  const sharedWorkspace = isConfigured && !!user && workspaceId !== DEFAULT_WORKSPACE_ID;
+  const canWrite = sharedWorkspace ? workspaceRole !== null && canEdit(workspaceRole) : true;
+  const readOnly = !canWrite;
+  // Fechar e reabrir períodos é do proprietário (firestore.rules recusa as escritas do contabilista)
+  const canClose = sharedWorkspace ? workspaceRole !== null && canClosePeriods(workspaceRole) : true;
+  const auditUser = user ? (user.email || user.displayName || user.uid) : 'Utilizador local';
+  const attachmentStoreFor = (a: Attachment) => {
+    if (a.storage === 'local') return localAttachments;
+    if (!cloudAttachments) throw new Error('Inicie sessão para aceder aos anexos na nuvem.');
+    return cloudAttachments;
+  };
 
   // Effects
+  useEffect(() => onUserChanged(setUser), []);
+
+  useEffect(() => onDisplayModeChanged(setDisplayMode), []);
+
+  useEffect(() => onInstallAvailable(setInstallPrompt), []);
+
+  useEffect(() => onMaximizedChanged(setMaximized), []);
+
+  // Empresas partilhadas de que o utilizador é membro e convites pendentes para o seu email
   useEffect(() => {
-    localStorage.setItem('fluxowin_transactions', JSON.stringify(transactions));
-  }, [transactions]);
+    setRemoteWorkspaces(null);
+    if (!isConfigured || !user) return;
+    return subscribeMemberships(db, user.uid, setRemoteWorkspaces);
+  }, [user]);
 
-  // Derived State
-  const summary = React.useMemo(() => {
-    const income = transactions.filter(t => t.type === 'income').reduce((acc, t) => acc + t.amount, 0);
-    const expense = transactions.filter(t => t.type === 'expense').reduce((acc, t) => acc + t.amount, 0);
-    return {
-      totalIncome: income,
-      totalExpense: expense,
-      balance: income - expense
+  useEffect(() => {
+    setWorkspaceInvites([]);
+    if (!isConfigured || !user?.email) return;
+    return subscribeInvites(db, user.email, setWorkspaceInvites);
+  }, [user]);
+
+  // Empresas partilhadas por outros membros (ou criadas noutro dispositivo) entram na lista deste navegador
+  useEffect(() => {
+    if (!remoteWorkspaces) return;
+    setWorkspaces(prev => {
+      const names = new Map(remoteWorkspaces.map(r => [r.id, r.name]));
+      const known = new Set(prev.map(w => w.id));
+      return [
+        ...prev.map(w => (names.get(w.id) && names.get(w.id) !== w.name ? { ...w, name: names.get(w.id)! } : w)),
+        ...remoteWorkspaces.filter(r => !known.has(r.id)).map(r => ({ id: r.id, name: r.name })),
+      ];
+    });
+  }, [remoteWorkspaces]);
+
+  // Empresa criada sem sessão iniciada: é registada na nuvem com o utilizador como proprietário
+  useEffect(() => {
+    if (!remoteWorkspaces || !user || !sharedWorkspace || activeRemote) return;
+    const local = workspaces.find(w => w.id === workspaceId);
+    if (local) {
+      createRemoteWorkspace(db, local, user.uid, user.email || '')
+        .catch(err => console.warn('Sem acesso a esta empresa na nuvem.', err));
+    }
+  }, [remoteWorkspaces, user]);
+
+  // O nome nos dados da empresa é o nome mostrado no seletor (e aos restantes membros)
+  useEffect(() => {
+    const name = company.name.trim();
+    if (!name) return;
+    setWorkspaces(prev => prev.map(w => (w.id === workspaceId && w.name !== name ? { ...w, name } : w)));
+    if (activeRemote && workspaceRole === 'owner' && activeRemote.name !== name) {
+      renameRemoteWorkspace(db, workspaceId, name).catch(err => console.warn('Não foi possível renomear a empresa.', err));
+    }
+  }, [company.name, workspaceRole]);
+
+  // Empresa nova: a denominação começa com o nome dado no seletor
+  useEffect(() => {
+    const current = workspaces.find(w => w.id === workspaceId);
+    if (!company.name && current && workspaceId !== DEFAULT_WORKSPACE_ID) setCompany(prev => ({ ...prev, name: current.name }));
+  }, []);
+
+  // O leitor só consulta relatórios (enquanto o papel é desconhecido fica apenas sem edição)
+  const isViewer = workspaceRole !== null && !canEdit(workspaceRole);
+  useEffect(() => {
+    if (isViewer) setActiveTab('reports');
+  }, [isViewer]);
+
+  useEffect(() => {
+    setLedgerReady(false);
+    return repository.subscribe(list => {
+      setAllTransactions([...list].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
+      setLedgerReady(true);
+    });
+  }, [repository]);
+
+  // Primeira sessão neste navegador: o livro local que ainda não está na nuvem é oferecido para envio
+  useEffect(() => {
+    if (!ledgerReady || !isConfigured || !user || !canWrite) return;
+    const marker = scopedKey(`${LOCAL_UPLOAD_KEY}:${user.uid}`);
+    if (localStorage.getItem(marker)) return;
+    localStorage.setItem(marker, new Date().toISOString());
+    const saved = localStorage.getItem(scopedKey(LOCAL_STORAGE_KEY));
+    const local = localOnlyTransactions(saved ? JSON.parse(saved) : [], allTransactions);
+    if (local.length === 0) return;
+    if (window.confirm(`Há ${local.length} transação(ões) guardadas só neste navegador. Enviá-las para a nuvem? Se não, continuam disponíveis aqui sem sessão iniciada.`)) {
+      repository.saveMany(local);
+    }
+  }, [ledgerReady, user, canWrite]);
+
+  // Definições que acompanham o livro na nuvem: o que um membro altera chega aos restantes
+  const ledgerPath = isConfigured && user ? workspacePath(workspaceId, user.uid) : null;
+  useSharedSetting(ledgerPath, 'chart', customAccounts, setCustomAccounts, canWrite, auditUser);
+  useSharedSetting(ledgerPath, 'accounts', cashAccounts, setCashAccounts, canWrite, auditUser);
+  useSharedSetting(ledgerPath, 'counterparties', counterparties, setCounterparties, canWrite, auditUser);
+  useSharedSetting(ledgerPath, 'openItems', openItems, setOpenItems, canWrite, auditUser);
+  useSharedSetting(ledgerPath, 'budgets', budgets, setBudgets, canWrite, auditUser);
+  useSharedSetting(ledgerPath, 'closedPeriods', closedPeriods, setClosedPeriods, canClose, auditUser, (periods: ClosedPeriod[]) => ({ lockedBefore: lockedBefore(periods) }));
+  useSharedSetting(ledgerPath, 'periodLog', periodLog, setPeriodLog, canClose, auditUser);
+  useSharedSetting(ledgerPath, 'categoryRules', categoryRules, setCategoryRules, canWrite, auditUser);
+  useSharedSetting(ledgerPath, 'exchangeRates', exchangeRates, setExchangeRates, canWrite, auditUser);
+
+  useEffect(() => {
+    if (!budgetWarning) return;
+    const timer = window.setTimeout(() => setBudgetWarning(null), 10000);
+    return () => window.clearTimeout(timer);
+  }, [budgetWarning]);
+
+  useEffect(() => {
+    if (undoDeleteIds.length === 0) return;
+    const timer = window.setTimeout(() => setUndoDeleteIds([]), 8000);
+    return () => window.clearTimeout(timer);
+  }, [undoDeleteIds]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
     };
-  }, [transactions]);
-
-  const filteredTransactions = transactions
-    .filter(t => t.description.toLowerCase().includes(searchQuery.toLowerCase()) || t.category.toLowerCase().includes(searchQuery.toLowerCase()))
-    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-  // Logic for Reports Tab
-  const reportData = React.useMemo(() => {
-    return transactions.filter(t => {
-      const tDate = new Date(t.date).getTime();
-      const sDate = new Date(reportFilters.startDate).getTime();
-      // Set end date to end of day
-      const eDateObj = new Date(reportFilters.endDate);
-      eDateObj.setHours(23, 59, 59, 999);
-      const eDate = eDateObj.getTime();
-
-      const dateMatch = tDate >= sDate && tDate <= eDate;
-      const typeMatch = reportFilters.type === 'all' || t.type === reportFilters.type;
-      const catMatch = reportFilters.category === 'all' || t.category === reportFilters.category;
-
-      return dateMatch && typeMatch && catMatch;
-    }).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-  }, [transactions, reportFilters]);
+  }, []);
+
+  // Derived State
+  // Transações eliminadas logicamente ou pendentes de confirmação ficam fora de totais, gráficos e relatórios
+  const transactions = useMemo(() => allTransactions.filter(t => !t.deletedAt && !t.pending), [allTransactions]);
+  const pendingTransactions = useMemo(() => allTransactions.filter(t => !t.deletedAt && t.pending), [allTransactions]);
+  const chart = useMemo(() => buildChart(customAccounts), [customAccounts]);
+
+  // Sugestões de categoria: regras do utilizador primeiro, depois o que foi aprendido com o livro
+  const suggesterModel = useMemo(() => trainSuggester(transactions), [transactions]);
+  const suggestFor = useMemo(
+    () => (input: CategorizationInput) => suggestCategory(input, categoryRules, suggesterModel),
+    [categoryRules, suggesterModel]
+  );
+
+  // Migração automática: rótulos antigos ("6.3 - Fornecimentos...") passam a códigos do plano de contas
+  useEffect(() => {
+    // Os meses fechados não são alterados; migram quando o período for reaberto
+    const pending = allTransactions.filter(t => needsCategoryMigration(chart, t) && !isInClosedPeriod(closedPeriods, t.date));
+    if (pending.length === 0 || !canWrite) return;
+    repository.saveMany(pending.map(t => {
+      const category = resolveAccountCode(chart, t.category);
+      return appendAudit({ ...t, category }, 'update', 'Migração automática', diffTransaction(t, { ...t, category }));
+    }));
+  }, [allTransactions, chart, repository, canWrite, closedPeriods]);
+
+  // Ao abrir a aplicação: gera as ocorrências vencidas dos modelos recorrentes como pendentes
+  useEffect(() => {
+    if (!ledgerReady || !canWrite) return;
+    const existingIds = new Set(allTransactions.map(t => t.id));
+    // Ocorrências em meses fechados esperam pela reabertura do período
+    const due = dueOccurrences(templates, existingIds, toDateKey(new Date()), date => isInClosedPeriod(closedPeriods, date));
+    if (due.occurrences.length > 0) {
+      repository.saveMany(due.occurrences.map(t => appendAudit(t, 'create', 'Agendamento automático')));
+    }
+    if (due.templates.some((t, i) => t.generatedThrough !== templates[i].generatedThrough)) {
+      setTemplates(due.templates);
+    }
+  }, [ledgerReady, templates, canWrite, closedPeriods]);
+
+  const upcoming = useMemo(() => {
+    const today = new Date();
+    const existingIds = new Set(allTransactions.map(t => t.id));
+    return upcomingOccurrences(
+      templates,
+      toDateKey(today),
+      toDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 30))
+    ).filter(o => !existingIds.has(occurrenceId(o.template.id, o.date)));
+  }, [templates, allTransactions]);
+
+  // Receitas e despesas, sem transferências entre contas próprias
+  const movements = useMemo(() => transactions.filter(t => t.type !== 'transfer'), [transactions]);
+  const balances = useMemo(() => accountBalances(cashAccounts, transactions), [cashAccounts, transactions]);
+  const activeCashAccounts = cashAccounts.filter(a => !a.archived);
+  const accountName = (id: string) => cashAccounts.find(a => a.id === id)?.name || 'Conta removida';
+  const accountLabel = (code: string) => formatAccount(chart, code);
+  const categoryLabel = (t: Transaction) =>
+    t.type === 'transfer' ? `${accountName(accountOf(t))} → ${accountName(t.toAccountId || '')}` : accountLabel(t.category);
+
+  const overdueItems = useMemo(() => openItems.filter(i => isOverdue(i, allTransactions)), [openItems, allTransactions]);
+
+  const currentBudgets = useMemo(
+    () => budgets.map(b => budgetStatus(b, movements, new Date())),
+    [budgets, movements]
+  );
 
   // Handlers
+  const isLocked = (date: string) => isInClosedPeriod(closedPeriods, date);
+
+  // Devolve true (e avisa) quando alguma das datas está num período fechado
+  const blockedByClose = (...dates: string[]) => {
+    const locked = dates.find(isLocked);
+    if (!locked) return false;
+    window.alert(`O período de ${formatMonth(monthOf(locked))} está fechado. Reabra-o em Definições para o alterar.`);
+    return true;
+  };
+
   const handleAddTransaction = (newTx: Omit<Transaction, 'id'>) => {
+    if (blockedByClose(newTx.date)) return;
     const transaction: Transaction = {
       ...newTx,
+      category: newTx.type === 'transfer' ? '' : resolveAccountCode(chart, newTx.category),
+      accountId: newTx.accountId || entryAccountId,
+      counterpartyId: newTx.counterpartyId || (newTx.type === 'transfer' ? undefined : suggestCounterparty(counterparties, newTx.description)?.id),
       id: crypto.randomUUID()
     };
-    setTransactions(prev => [transaction, ...prev]);
+    const exceeded = budgetsExceededBy(budgets, movements, transaction);
+    if (exceeded.length > 0) {
+      setBudgetWarning(exceeded
+        .map(s => `${formatAccount(chart, s.budget.category)}: ${formatMZN(s.actual)} de ${formatMZN(s.budget.amount)}`)
+        .join(' • '));
+    }
+    repository.save(appendAudit(transaction, 'create', auditUser));
   };
 
-  const handleDeleteTransaction = (id: string) => {
-    if(window.confirm("Tem a certeza que deseja eliminar esta transação?")) {
-      setTransactions(prev => prev.filter(t => t.id !== id));
+  // Importação em lote: uma única escrita no repositório para todas as linhas aceites
+  const handleImportTransactions = (rows: Omit<Transaction, 'id'>[]) => {
+    const open = rows.filter(row => !isLocked(row.date));
+    if (open.length < rows.length) {
+      window.alert(`${rows.length - open.length} linha(s) com data em períodos fechados não foram importadas.`);
+    }
+    repository.saveMany(open.map(row => appendAudit(
+      {
+        ...row,
+        category: resolveAccountCode(chart, row.category),
+        accountId: row.accountId || entryAccountId,
+        counterpartyId: row.counterpartyId || suggestCounterparty(counterparties, row.description)?.id,
+        id: crypto.randomUUID()
+      },
+      'create',
+      auditUser
+    )));
+  };
+
+  // Versão auditada da transação alterada, ou null quando nada muda
+  const applyChanges = (original: Transaction, changes: Omit<Transaction, 'id'>): Transaction | null => {
+    const updated: Transaction = {
+      ...original,
+      ...changes,
+      category: original.type === 'transfer' ? '' : resolveAccountCode(chart, changes.category),
+      id: original.id,
+      history: original.history,
+      deletedAt: original.deletedAt
+    };
+    // Valor alterado: o IVA é recalculado com o mesmo regime
+    if (updated.vat && updated.amount !== original.amount) {
+      updated.vat = vatFromGross(updated.amount, updated.vat.regime);
     }
+    const diff = diffTransaction(original, updated);
+    return diff.length > 0 ? appendAudit(updated, 'update', auditUser, diff) : null;
+  };
+
+  const handleUpdateTransaction = (original: Transaction, changes: Omit<Transaction, 'id'>) => {
+    if (blockedByClose(original.date, changes.date)) return;
+    const updated = applyChanges(original, changes);
+    if (updated) repository.save(updated);
+  };
+
+  // Aplica a mesma alteração a várias transações; devolve quantas foram ignoradas
+  const handleBulkUpdate = (change: (t: Transaction) => Omit<Transaction, 'id'> | null, selection: Transaction[]) => {
+    const targets = selection.map(t => {
+      const changes = isLocked(t.date) ? null : change(t);
+      return { original: t, changes: changes && isLocked(changes.date) ? null : changes };
+    });
+    const updated = targets
+      .filter(({ changes }) => changes !== null)
+      .map(({ original, changes }) => applyChanges(original, changes!))
+      .filter((t): t is Transaction => t !== null);
+    if (updated.length > 0) repository.saveMany(updated);
+    return targets.filter(({ changes }) => changes === null).length;
   };
 
-  const handleAIAnalysis = async () => {
-    if (transactions.length === 0) {
-      setAiState({ analysis: '', loading: false, error: 'Adicione transações primeiro para gerar uma análise.' });
+  // Transferências não têm categoria e a classe da conta tem de corresponder ao tipo (6 gastos, 7 proveitos)
+  const handleBulkRecategorize = (code: string, selection: Transaction[]) => handleBulkUpdate(t => {
+    const type = accountType(code);
+    if (t.type === 'transfer' || (type !== null && type !== t.type)) return null;
+    return { ...t, category: code };
+  }, selection);
+
+  const handleBulkSetDate = (dateKey: string, selection: Transaction[]) =>
+    handleBulkUpdate(t => ({ ...t, date: new Date(`${dateKey}T12:00:00`).toISOString() }), selection);
+
+  const handleBulkSetAccount = (accountId: string, selection: Transaction[]) =>
+    handleBulkUpdate(t => (t.type === 'transfer' ? null : { ...t, accountId }), selection);
+
+  const handleBulkAddTags = (tags: string[], selection: Transaction[]) =>
+    handleBulkUpdate(t => ({ ...t, tags: Array.from(new Set([...(t.tags || []), ...tags])) }), selection);
+
+  const handleBulkDelete = (selection: Transaction[]) => {
+    const targets = selection.filter(t => !isLocked(t.date));
+    const locked = selection.length - targets.length;
+    if (targets.length === 0) {
+      if (locked > 0) window.alert('Todas as transações selecionadas estão em períodos fechados.');
       return;
     }
+    const note = locked > 0 ? ` ${locked} em períodos fechados não serão eliminadas.` : '';
+    if (!window.confirm(`Eliminar ${targets.length} transação(ões)? Pode restaurá-las em "Mostrar eliminadas".${note}`)) return;
+    const deletedAt = new Date().toISOString();
+    repository.saveMany(targets.map(t => appendAudit({ ...t, deletedAt }, 'delete', auditUser)));
+    setUndoDeleteIds(targets.map(t => t.id));
+    setSelectedIds(new Set());
+  };
 
-    setAiState({ analysis: '', loading: true, error: null });
+  // Todos os ficheiros são enviados antes de gravar a transação, numa única alteração auditada.
+  // Num período fechado nada é enviado; se um envio falhar, os restantes são apagados e o erro chega ao painel
+  const handleUploadAttachments = async (t: Transaction, files: File[]) => {
+    if (blockedByClose(t.date)) return;
+    const store = cloudAttachments || localAttachments;
+    const results = await Promise.allSettled(files.map(file => store.put(t.id, file)));
+    const added = results.flatMap(r => (r.status === 'fulfilled' ? [r.value] : []));
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failed) {
+      await Promise.allSettled(added.map(attachment => store.remove(attachment)));
+      throw failed.reason;
+    }
+    handleUpdateTransaction(t, { ...t, attachments: [...(t.attachments || []), ...added] });
+  };
+
+  const handleRemoveAttachment = async (t: Transaction, attachment: Attachment) => {
     try {
-      const result = await analyzeTransactions(transactions);
-      setAiState({ analysis: result, loading: false, error: null });
+      await attachmentStoreFor(attachment).remove(attachment);
     } catch (err) {
-      setAiState({ analysis: '', loading: false, error: 'Erro ao comunicar com o serviço de IA. Verifique sua chave API.' });
+      // Ficheiro já inexistente na nuvem: basta retirar a referência
+      if ((err as { code?: string }).code !== 'storage/object-not-found') throw err;
     }
+    handleUpdateTransaction(t, { ...t, attachments: (t.attachments || []).filter(a => a.id !== attachment.id) });
+  };
+
+  const loadAttachment = async (attachment: Attachment) => attachmentStoreFor(attachment).get(attachment);
+
+  const handleSaveCounterparty = (counterparty: Counterparty) => {
+    setCounterparties(prev => (prev.some(c => c.id === counterparty.id)
+      ? prev.map(c => (c.id === counterparty.id ? counterparty : c))
+      : [...prev, counterparty]));
   };
 
-  const exportToCSV = () => {
-    const headers = ["Data", "Descrição", "Categoria", "Tipo", "Valor (MZN)"];
-    const rows = reportData.map(t => [
-      new Date(t.date).toLocaleDateString('pt-MZ'),
-      `"${t.description.replace(/"/g, '""')}"`,
-      `"${t.category}"`,
-      t.type === 'income' ? 'Receita' : 'Despesa',
-      t.amount.toFixed(2).replace('.', ',')
-    ]);
+  // Associação em lote dos movimentos antigos cuja descrição menciona a contraparte
+  const handleLinkCounterparty = (counterparty: Counterparty, matches: Transaction[]) => {
+    repository.saveMany(matches.filter(t => !isLocked(t.date)).map(t => {
+      const linked = { ...t, counterpartyId: counterparty.id };
+      return appendAudit(linked, 'update', auditUser, diffTransaction(t, linked));
+    }));
+  };
+
+  const updateTemplate = (template: RecurringTemplate) => {
+    setTemplates(prev => prev.map(t => (t.id === template.id ? template : t)));
+  };
 
-    const csvContent = "data:text/csv;charset=utf-8," 
-      + headers.join(";") + "\n" 
-      + rows.map(e => e.join(";")).join("\n");
+  const skipOccurrence = (templateId: string, date: string) => {
+    setTemplates(prev => prev.map(t => (t.id === templateId ? { ...t, skippedDates: [...t.skippedDates, date] } : t)));
+  };
 
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", `relatorio_fluxo_${reportFilters.startDate}_${reportFilters.endDate}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleConfirmPending = (t: Transaction) => {
+    handleUpdateTransaction(t, { ...t, pending: false });
   };
 
-  const handlePrint = () => {
-    window.print();
+  const handleSkipPending = (t: Transaction) => {
+    if (blockedByClose(t.date)) return;
+    repository.save(appendAudit({ ...t, deletedAt: new Date().toISOString() }, 'delete', auditUser));
+    if (t.recurringId) skipOccurrence(t.recurringId, toDateKey(new Date(t.date)));
+  };
+
+  const handleConfirmUpcoming = (template: RecurringTemplate, date: string) => {
+    const occurrence = buildOccurrence(template, date);
+    if (blockedByClose(occurrence.date)) return;
+    repository.save(appendAudit({ ...occurrence, pending: false }, 'create', auditUser));
+  };
+
+  // O pagamento é uma transação normal ligada à fatura; o saldo em aberto é calculado a partir delas
+  const handlePayOpenItem = (item: OpenItem, amount: number, date: string, accountId: string, rate?: number) => {
+    buildPayment(item, amount, date, accountId, rate).forEach(tx => handleAddTransaction(tx));
+  };
+
+  const currentData = (): BackupData => ({
+    transactions: allTransactions,
+    accounts: cashAccounts,
+    customAccounts,
+    templates,
+    budgets,
+    openItems,
+    counterparties,
+    exchangeRates,
+    expectedEntries,
+    forecastSnapshots,
+    importProfiles: loadImportProfiles(),
+    savedViews,
+    categoryRules,
+    closedPeriods,
+    periodLog,
+    company,
+    fiscalYearStart,
+  });
+
+  const handleBackup = () => {
+    const backup = createBackup(currentData());
+    downloadBackup(backup);
+    setBackupSettings(prev => ({ ...prev, lastBackupAt: backup.createdAt }));
+  };
+
+  // Restauro: só as transações novas ou alteradas são gravadas; em "substituir" as restantes são apagadas
+  const handleRestore = async (backup: BackupFile, mode: RestoreMode) => {
+    const current = currentData();
+    const combined = combineData(current, backup.data, mode);
+    const { writes, skipped } = restoreWrites(current.transactions, combined.transactions, isLocked, auditUser);
+    await repository.saveMany(writes);
+    if (skipped > 0) {
+      window.alert(`${skipped} transação(ões) em períodos fechados não foram alteradas. Reabra o período para as restaurar.`);
+    }
+
+    setCashAccounts(combined.accounts);
+    setCustomAccounts(combined.customAccounts);
+    setTemplates(combined.templates);
+    setBudgets(combined.budgets);
+    setOpenItems(combined.openItems);
+    setCounterparties(combined.counterparties);
+    setExchangeRates(combined.exchangeRates);
+    setExpectedEntries(combined.expectedEntries);
+    setForecastSnapshots(combined.forecastSnapshots);
+    setCompany(combined.company);
+    setFiscalYearStart(combined.fiscalYearStart);
+    setSavedViews(combined.savedViews);
+    setCategoryRules(combined.categoryRules);
+    setClosedPeriods(combined.closedPeriods);
+    setPeriodLog(combined.periodLog);
+    saveImportProfiles(combined.importProfiles);
+  };
+
+  // A lista é gravada já: a troca de empresa volta a montar a aplicação antes dos efeitos
+  const handleCreateWorkspace = (name: string) => {
+    const workspace: Workspace = { id: crypto.randomUUID(), name };
+    saveWorkspaces([...workspaces, workspace]);
+    if (isConfigured && user) {
+      createRemoteWorkspace(db, workspace, user.uid, user.email || '')
+        .catch(err => console.warn('A empresa será registada na nuvem mais tarde.', err));
+    }
+    onSwitchWorkspace(workspace.id);
+  };
+
+  const handleAcceptInvite = async (workspace: RemoteWorkspace) => {
+    if (!user?.email) return;
+    await acceptInvite(db, workspace, user.uid, user.email);
+    saveWorkspaces([...workspaces.filter(w => w.id !== workspace.id), { id: workspace.id, name: workspace.name }]);
+    onSwitchWorkspace(workspace.id);
+  };
+
+  const handleSaveTransaction = (tx: Omit<Transaction, 'id'>) => {
+    if (editingTransaction) {
+      handleUpdateTransaction(editingTransaction, tx);
+    } else {
+      handleAddTransaction(tx);
+    }
+  };
+
+  const openNewTransaction = () => {
+    setEditingTransaction(null);
+    setIsModalOpen(true);
+  };
+
+  const openEditTransaction = (t: Transaction) => {
+    setEditingTransaction(t);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingTransaction(null);
+  };
+
+  // Eliminação lógica: a transação mantém-se no livro e pode ser restaurada
+  const handleDeleteTransaction = (id: string) => {
+    const target = allTransactions.find(t => t.id === id);
+    if (!target || target.deletedAt || blockedByClose(target.date)) return;
+    repository.save(appendAudit({ ...target, deletedAt: new Date().toISOString() }, 'delete', auditUser));
+    setUndoDeleteIds([id]);
+  };
+
+  const handleRestoreTransaction = (id: string) => {
+    const target = allTransactions.find(t => t.id === id);
+    if (!target || !target.deletedAt || blockedByClose(target.date)) return;
+    const { deletedAt, ...rest } = target;
+    repository.save(appendAudit(rest, 'restore', auditUser));
+    if (undoDeleteIds.includes(id)) setUndoDeleteIds(undoDeleteIds.filter(x => x !== id));
+  };
+
+  const handleUndoDelete = () => {
+    const targets = allTransactions.filter(t => undoDeleteIds.includes(t.id) && t.deletedAt && !isLocked(t.date));
+    repository.saveMany(targets.map(({ deletedAt, ...rest }) => appendAudit(rest, 'restore', auditUser)));
+    setUndoDeleteIds([]);
+  };
+
+  // Fecho até ao mês: regista os saldos de fecho de cada mês ainda aberto
+  const handleClosePeriod = (through: string) => {
+    const plan = planClose(through, closedPeriods, allTransactions);
+    if (plan.error) {
+      window.alert(plan.error);
+      return;
+    }
+    const range = plan.months.length > 1
+      ? `${plan.months.length} meses (${formatMonth(plan.months[0])} a ${formatMonth(through)})`
+      : formatMonth(through);
+    if (!window.confirm(`Fechar ${range}? As transações até ao fim de ${formatMonth(through)} ficam bloqueadas.`)) return;
+    const { periods, log } = closeMonths(plan.months, cashAccounts, allTransactions, auditUser);
+    setClosedPeriods(prev => [...prev, ...periods]);
+    setPeriodLog(prev => [...prev, ...log]);
+  };
+
+  const handleReopenPeriod = (from: string, reason: string) => {
+    const months = planReopen(from, closedPeriods);
+    if (months.length === 0) return;
+    if (months.length > 1 && !window.confirm(`Reabrir ${formatMonth(from)} reabre também os ${months.length - 1} mês(es) fechados seguintes. Continuar?`)) return;
+    setClosedPeriods(prev => prev.filter(p => !months.includes(p.month)));
+    setPeriodLog(prev => [...prev, ...reopenMonths(months, reason, auditUser)]);
+  };
+
+  // O pedido de instalação só pode ser mostrado uma vez
+  const handleInstall = async () => {
+    if (!installPrompt) return;
+    await installPrompt.prompt();
+    await installPrompt.userChoice;
+    setInstallPrompt(null);
+  };
+
+  const handleSignIn = async () => {
+    try {
+      await signInWithGoogle();
+    } catch (err) {
+      window.alert('Não foi possível iniciar sessão com o Google.');
+    }
+  };
+
+  // Abre o Histórico com os movimentos do resultado já selecionados (prontos para as ações em massa)
+  const handleShowInHistory = (transactionIds: string[]) => {
+    setHistoryFilters(prev => ({ ...prev, query: '', showDeleted: false, onlyMissingAttachments: false }));
+    setActiveViewId(null);
+    setSelectedIds(new Set(transactionIds));
+    setActiveTab('history');
+  };
+
+  const handleOpenQueryInHistory = (query: LedgerQuery) => {
+    setHistoryFilters(prev => ({ ...prev, query: historySearchFor(query, counterparties), showDeleted: false, onlyMissingAttachments: false }));
+    setActiveViewId(null);
+    setActiveTab('history');
+  };
+
+  const handleOpenQueryInReports = (query: LedgerQuery) => {
+    setReportFilters(prev => ({
+      ...prev,
+      startDate: query.from,
+      endDate: query.to,
+      type: query.type,
+      category: query.category || 'all',
+    }));
+    setActiveTab('reports');
+  };
+
+  const handleApplyCategorization = (changes: CategorizationChange[]) => {
+    const byId = new Map(changes.map(c => [c.transaction.id, c.suggestion]));
+    handleBulkUpdate(t => applySuggestion(t, byId.get(t.id)!), changes.map(c => c.transaction));
+  };
+
+  const handleApplyAICategory = (insight: AIInsight) => {
+    const targets = allTransactions.filter(t => insight.transactionIds.includes(t.id) && !t.deletedAt);
+    handleBulkRecategorize(insight.suggestedCategory!, targets);
+    setAiState(prev => ({ ...prev, insights: prev.insights && prev.insights.filter(i => i !== insight) }));
   };
 
   const formatMZN = (val: number) => {
     return new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
   };
 
+  const amountClass = (t: Transaction) =>
+    t.type === 'income' ? 'text-emerald-600' : t.type === 'expense' ? 'text-rose-600' : 'text-slate-600';
+
+  const amountSign = (t: Transaction) => (t.type === 'income' ? '+ ' : t.type === 'expense' ? '- ' : '');
+
   return (
     <div className="flex h-screen w-full bg-[#f0f3f9] text-slate-800 overflow-hidden font-sans select-none">
       
@@ -157,29 +868,93 @@ const App: React.FC = () => {
           <span className="font-semibold text-xl tracking-tight text-slate-800">FluxoWin</span>
         </div>
 
+        <WorkspaceSwitcher
+          workspaces={workspaces}
+          activeId={workspaceId}
+          role={workspaceRole}
+          invites={workspaceInvites}
+          userEmail={user?.email || ''}
+          onSwitch={onSwitchWorkspace}
+          onCreate={handleCreateWorkspace}
+          onAcceptInvite={handleAcceptInvite}
+        />
+
         <nav className="flex-1 px-3 py-4 space-y-1">
-          <button 
-            onClick={() => setActiveTab('dashboard')}
-            className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm font-medium transition-all ${
-              activeTab === 'dashboard' 
-                ? 'bg-white text-blue-600 shadow-sm ring-1 ring-slate-200' 
-                : 'text-slate-600 hover:bg-slate-100'
-            }`}
-          >
-            <LayoutDashboard size={18} />
-            Visão Geral
-          </button>
-          <button 
-             onClick={() => setActiveTab('history')}
-             className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm font-medium transition-all ${
-              activeTab === 'history' 
-                ? 'bg-white text-blue-600 shadow-sm ring-1 ring-slate-200' 
-                : 'text-slate-600 hover:bg-slate-100'
-            }`}
-          >
-            <History size={18} />
-            Histórico
-          </button>
+          {/* O leitor só vê os relatórios */}
+          {!readOnly && (
+            <>
+              <button 
+                onClick={() => setActiveTab('dashboard')}
+                className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm font-medium transition-all ${
+                  activeTab === 'dashboard' 
+                    ? 'bg-white text-blue-600 shadow-sm ring-1 ring-slate-200' 
+                    : 'text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                <LayoutDashboard size={18} />
+                Visão Geral
+              </button>
+              <button 
+                 onClick={() => setActiveTab('history')}
+                 className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm font-medium transition-all ${
+                  activeTab === 'history' 
+                    ? 'bg-white text-blue-600 shadow-sm ring-1 ring-slate-200' 
+                    : 'text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                <History size={18} />
+                Histórico
+              </button>
+              <button 
+                 onClick={() => setActiveTab('recurring')}
+                 className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm font-medium transition-all ${
+                  activeTab === 'recurring' 
+                    ? 'bg-white text-blue-600 shadow-sm ring-1 ring-slate-200' 
+                    : 'text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                <CalendarClock size={18} />
+                Agendamentos
+                {pendingTransactions.length > 0 && (
+                  <span className="ml-auto text-[10px] font-semibold bg-amber-100 text-amber-700 rounded-full px-2 py-0.5">
+                    {pendingTransactions.length}
+                  </span>
+                )}
+              </button>
+              <button 
+                 onClick={() => setActiveTab('openItems')}
+                 className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm font-medium transition-all ${
+                  activeTab === 'openItems' 
+                    ? 'bg-white text-blue-600 shadow-sm ring-1 ring-slate-200' 
+                    : 'text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                <Receipt size={18} />
+                Faturas
+                {overdueItems.length > 0 && (
+                  <span className="ml-auto text-[10px] font-semibold bg-rose-100 text-rose-700 rounded-full px-2 py-0.5">
+                    {overdueItems.length}
+                  </span>
+                )}
+              </button>
+              <button 
+                 onClick={() => setActiveTab('budgets')}
+                 className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm font-medium transition-all ${
+                  activeTab === 'budgets' 
+                    ? 'bg-white text-blue-600 shadow-sm ring-1 ring-slate-200' 
+                    : 'text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                <Target size={18} />
+                Orçamentos
+                {currentBudgets.some(s => s.exceeded) && (
+                  <span className="ml-auto text-[10px] font-semibold bg-rose-100 text-rose-700 rounded-full px-2 py-0.5">
+                    {currentBudgets.filter(s => s.exceeded).length}
+                  </span>
+                )}
+              </button>
+            </>
+          )}
           <button 
              onClick={() => setActiveTab('reports')}
              className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm font-medium transition-all ${
@@ -191,8 +966,48 @@ const App: React.FC = () => {
             <FileText size={18} />
             Relatórios
           </button>
+          {!readOnly && (
+            <button 
+               onClick={() => setActiveTab('settings')}
+               className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm font-medium transition-all ${
+                activeTab === 'settings' 
+                  ? 'bg-white text-blue-600 shadow-sm ring-1 ring-slate-200' 
+                  : 'text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              <Settings size={18} />
+              Configurações
+            </button>
+          )}
         </nav>
 
+        {isConfigured && (
+          <div className="px-4 py-3 border-t border-slate-200">
+            {user ? (
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-slate-700 truncate">{user.displayName || user.email}</p>
+                  <p className={`text-[11px] flex items-center gap-1 ${isOnline ? 'text-emerald-600' : 'text-amber-600'}`}>
+                    {isOnline ? <Cloud size={12} /> : <CloudOff size={12} />}
+                    {isOnline ? 'Sincronizado na nuvem' : 'Offline - alterações em fila'}
+                  </p>
+                </div>
+                <button onClick={signOutUser} title="Terminar sessão" className="text-slate-400 hover:text-slate-700">
+                  <LogOut size={16} />
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={handleSignIn}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50 transition-colors"
+              >
+                <LogIn size={16} />
+                Entrar com Google
+              </button>
+            )}
+          </div>
+        )}
+
         <div className="p-4 border-t border-slate-200">
            <div className="bg-blue-50 rounded-lg p-4 border border-blue-100">
              <p className="text-xs font-semibold text-blue-800 mb-1">Dica PGC</p>
@@ -209,15 +1024,28 @@ const App: React.FC = () => {
         {/* Windows Title Bar Simulation */}
         <header className="h-10 bg-slate-50 border-b border-slate-200 flex items-center justify-between px-4 drag-handle shrink-0 print:hidden">
           <div className="text-xs text-slate-500 flex items-center gap-2">
-            <span>Fluxo de Caixa - {activeTab === 'dashboard' ? 'Visão Geral' : activeTab === 'history' ? 'Histórico' : 'Relatórios Detalhados'}</span>
+            <span>Fluxo de Caixa - {TAB_TITLES[activeTab].window}</span>
           </div>
           <div className="flex items-center gap-4">
-             {/* Window Controls (Visual Only) */}
-             <div className="flex gap-4 text-slate-400">
-                <Minus size={14} className="hover:text-slate-600 cursor-pointer"/>
-                <Square size={12} className="hover:text-slate-600 cursor-pointer"/>
-                <CloseIcon size={14} className="hover:text-red-500 cursor-pointer"/>
-             </div>
+             {installPrompt && (
+               <button onClick={handleInstall} className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800">
+                 <MonitorDown size={14} />
+                 Instalar aplicação
+               </button>
+             )}
+             {/* Window Controls: sem a barra do sistema, os botões nativos já ocupam esta área */}
+             {displayMode !== 'overlay' && (
+               <div className="flex gap-4 text-slate-400">
+                  <button onClick={toggleMaximized} title={maximized ? 'Restaurar' : 'Maximizar'} className="hover:text-slate-600">
+                    {maximized ? <Minimize2 size={12} /> : <Square size={12} />}
+                  </button>
+                  {displayMode === 'standalone' && (
+                    <button onClick={closeWindow} title="Fechar" className="hover:text-red-500">
+                      <CloseIcon size={14} />
+                    </button>
+                  )}
+               </div>
+             )}
           </div>
         </header>
 
@@ -228,290 +1056,217 @@ const App: React.FC = () => {
           <div className="mb-8 flex items-center justify-between print:mb-4">
             <div>
               <h1 className="text-2xl font-bold text-slate-800">
-                {activeTab === 'dashboard' ? 'Painel Financeiro' : activeTab === 'history' ? 'Histórico de Transações' : 'Relatórios Gerenciais'}
+                {TAB_TITLES[activeTab].heading}
               </h1>
               <p className="text-sm text-slate-500 mt-1">
                 {new Date().toLocaleDateString('pt-MZ', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
               </p>
             </div>
-            {activeTab !== 'reports' && (
-              <button 
-                onClick={() => setIsModalOpen(true)}
-                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2.5 rounded-lg shadow-md shadow-blue-500/20 flex items-center gap-2 text-sm font-medium transition-all active:scale-95 print:hidden"
-              >
-                <Plus size={18} />
-                Nova Transação
-              </button>
+            {(activeTab === 'dashboard' || activeTab === 'history') && (
+              <div className="flex items-center gap-3 print:hidden">
+                {activeCashAccounts.length > 1 && (
+                  <>
+                    <select
+                      value={entryAccountId}
+                      onChange={(e) => setEntryAccountId(e.target.value)}
+                      title="Conta para novos lançamentos"
+                      className="text-sm border border-slate-300 rounded-lg px-3 py-2.5 bg-white text-slate-700 focus:outline-none"
+                    >
+                      {activeCashAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                    </select>
+                    <button 
+                      onClick={() => setIsTransferOpen(true)}
+                      className="bg-white hover:bg-slate-50 text-slate-700 border border-slate-300 px-4 py-2.5 rounded-lg flex items-center gap-2 text-sm font-medium transition-all active:scale-95"
+                    >
+                      <ArrowRightLeft size={18} />
+                      Transferência
+                    </button>
+                  </>
+                )}
+                <button 
+                  onClick={openNewTransaction}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2.5 rounded-lg shadow-md shadow-blue-500/20 flex items-center gap-2 text-sm font-medium transition-all active:scale-95"
+                >
+                  <Plus size={18} />
+                  Nova Transação
+                </button>
+              </div>
             )}
           </div>
 
           {activeTab === 'dashboard' && (
-            <div className="space-y-6">
-              {/* Cards Row */}
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                <SummaryCard title="Entradas" amount={summary.totalIncome} type="income" />
-                <SummaryCard title="Saídas" amount={summary.totalExpense} type="expense" />
-                <SummaryCard title="Saldo Atual" amount={summary.balance} type="balance" />
-              </div>
-
-              {/* Charts & AI Analysis Row */}
-              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-[400px]">
-                <div className="lg:col-span-2 bg-white p-6 rounded-lg shadow-sm border border-slate-200 flex flex-col">
-                  <div className="flex items-center justify-between mb-6">
-                    <h3 className="font-semibold text-slate-800">Fluxo de Saldo</h3>
-                    <select className="text-xs border border-slate-200 rounded px-2 py-1 bg-slate-50 text-slate-600 focus:outline-none">
-                      <option>Últimos 30 dias</option>
-                      <option>Este Ano</option>
-                    </select>
-                  </div>
-                  <div className="flex-1">
-                    <Charts transactions={transactions} />
-                  </div>
-                </div>
-                
-                <div className="lg:col-span-1 h-full">
-                  <AnalysisPanel 
-                    analysis={aiState.analysis} 
-                    loading={aiState.loading} 
-                    error={aiState.error}
-                    onAnalyze={handleAIAnalysis}
-                  />
-                </div>
-              </div>
-
-              {/* Recent Transactions Mini-Table */}
-              <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
-                <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
-                  <h3 className="font-semibold text-slate-800">Últimas Movimentações</h3>
-                  <button onClick={() => setActiveTab('history')} className="text-xs text-blue-600 hover:underline font-medium">Ver tudo</button>
-                </div>
-                <div className="divide-y divide-slate-100">
-                  {transactions.slice(0, 5).map((t) => (
-                    <div key={t.id} className="px-6 py-3 flex items-center justify-between hover:bg-slate-50 transition-colors">
-                      <div className="flex items-center gap-3">
-                        <div className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold ${t.type === 'income' ? 'bg-emerald-100 text-emerald-600' : 'bg-rose-100 text-rose-600'}`}>
-                          {t.type === 'income' ? <Plus size={14} /> : <Minus size={14} />}
-                        </div>
-                        <div>
-                          <p className="text-sm font-medium text-slate-800">{t.description}</p>
-                          <p className="text-xs text-slate-500">{t.category} • {new Date(t.date).toLocaleDateString('pt-MZ')}</p>
-                        </div>
-                      </div>
-                      <span className={`text-sm font-semibold ${t.type === 'income' ? 'text-emerald-600' : 'text-rose-600'}`}>
-                        {t.type === 'income' ? '+' : '-'} {formatMZN(t.amount)}
-                      </span>
-                    </div>
-                  ))}
-                  {transactions.length === 0 && (
-                    <div className="px-6 py-8 text-center text-sm text-slate-400">Nenhuma transação registrada.</div>
-                  )}
-                </div>
-              </div>
-            </div>
+            <DashboardTab
+              transactions={transactions}
+              allTransactions={allTransactions}
+              pending={pendingTransactions}
+              templates={templates}
+              openItems={openItems}
+              accounts={cashAccounts}
+              balances={balances}
+              chart={chart}
+              counterparties={counterparties}
+              fiscalYearStart={fiscalYearStart}
+              budgets={currentBudgets}
+              period={dashboardPeriod}
+              onPeriodChange={setDashboardPeriod}
+              expectedEntries={expectedEntries}
+              onExpectedEntriesChange={setExpectedEntries}
+              forecastSnapshots={forecastSnapshots}
+              onForecastSnapshotsChange={setForecastSnapshots}
+              aiSettings={aiSettings}
+              onAiSettingsChange={setAiSettings}
+              aiResult={aiState}
+              onAiResultChange={setAiState}
+              onApplyAICategory={canWrite ? handleApplyAICategory : undefined}
+              backupSettings={backupSettings}
+              onBackup={handleBackup}
+              categoryLabel={categoryLabel}
+              onNavigate={setActiveTab}
+              onShowInHistory={handleShowInHistory}
+              onOpenQueryInHistory={handleOpenQueryInHistory}
+              onOpenQueryInReports={handleOpenQueryInReports}
+            />
           )}
 
           {activeTab === 'history' && (
-            <div className="bg-white rounded-lg shadow-sm border border-slate-200 flex flex-col h-full min-h-[500px]">
-              {/* Toolbar */}
-              <div className="p-4 border-b border-slate-200 flex gap-4 items-center bg-slate-50/50">
-                <div className="relative flex-1 max-w-md">
-                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
-                  <input 
-                    type="text" 
-                    placeholder="Buscar transações..." 
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="w-full pl-9 pr-4 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
-                  />
-                </div>
-              </div>
-
-              {/* Table Header */}
-              <div className="grid grid-cols-12 gap-4 px-6 py-3 bg-slate-50 border-b border-slate-200 text-xs font-semibold text-slate-500 uppercase tracking-wider">
-                <div className="col-span-2">Data</div>
-                <div className="col-span-4">Descrição</div>
-                <div className="col-span-3">Categoria (PGC-NIRF)</div>
-                <div className="col-span-2 text-right">Valor</div>
-                <div className="col-span-1 text-right">Ações</div>
-              </div>
-
-              {/* Table Body */}
-              <div className="flex-1 overflow-auto divide-y divide-slate-100">
-                {filteredTransactions.length > 0 ? (
-                  filteredTransactions.map(t => (
-                    <div key={t.id} className="grid grid-cols-12 gap-4 px-6 py-3 items-center hover:bg-slate-50 transition-colors text-sm group">
-                      <div className="col-span-2 text-slate-600">{new Date(t.date).toLocaleDateString('pt-MZ')}</div>
-                      <div className="col-span-4 font-medium text-slate-800">{t.description}</div>
-                      <div className="col-span-3">
-                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-slate-100 text-slate-600 border border-slate-200 truncate max-w-full">
-                          {t.category}
-                        </span>
-                      </div>
-                      <div className={`col-span-2 text-right font-semibold ${t.type === 'income' ? 'text-emerald-600' : 'text-rose-600'}`}>
-                        {t.type === 'income' ? '+' : '-'} {formatMZN(t.amount)}
-                      </div>
-                      <div className="col-span-1 text-right opacity-0 group-hover:opacity-100 transition-opacity">
-                        <button 
-                          onClick={() => handleDeleteTransaction(t.id)}
-                          className="text-red-500 hover:text-red-700 text-xs underline"
-                        >
-                          Excluir
-                        </button>
-                      </div>
-                    </div>
-                  ))
-                ) : (
-                  <div className="p-12 text-center text-slate-400">
-                    <History className="w-12 h-12 mx-auto mb-3 opacity-20" />
-                    <p>Nenhuma transação encontrada.</p>
-                  </div>
-                )}
-              </div>
-            </div>
+            <HistoryTab
+              transactions={transactions}
+              allTransactions={allTransactions}
+              chart={chart}
+              accounts={cashAccounts}
+              counterparties={counterparties}
+              exchangeRates={exchangeRates}
+              closedPeriods={closedPeriods}
+              attachmentThreshold={attachmentThreshold}
+              company={company}
+              filters={historyFilters}
+              onFiltersChange={(changes) => setHistoryFilters(prev => ({ ...prev, ...changes }))}
+              activeViewId={activeViewId}
+              onActiveViewChange={setActiveViewId}
+              savedViews={savedViews}
+              onSavedViewsChange={setSavedViews}
+              selectedIds={selectedIds}
+              onSelectedIdsChange={setSelectedIds}
+              readOnly={readOnly}
+              categoryLabel={categoryLabel}
+              accountName={accountName}
+              onEdit={openEditTransaction}
+              onUpdate={handleUpdateTransaction}
+              onDelete={handleDeleteTransaction}
+              onRestore={handleRestoreTransaction}
+              onUploadAttachments={handleUploadAttachments}
+              onRemoveAttachment={handleRemoveAttachment}
+              onPreviewAttachment={setPreviewAttachment}
+              onBulkRecategorize={handleBulkRecategorize}
+              onBulkSetDate={handleBulkSetDate}
+              onBulkSetAccount={handleBulkSetAccount}
+              onBulkAddTags={handleBulkAddTags}
+              onBulkDelete={handleBulkDelete}
+            />
           )}
 
           {activeTab === 'reports' && (
-            <div className="flex flex-col gap-6">
-              
-              {/* Filters Panel - Windows 11 Style Card */}
-              <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200 print:hidden">
-                <div className="flex items-center gap-2 mb-4 text-slate-800 font-semibold border-b border-slate-100 pb-2">
-                   <Filter size={16} />
-                   <h2>Configuração do Relatório</h2>
-                </div>
-                
-                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-                  <div>
-                    <label className="block text-xs font-medium text-slate-500 mb-1">Data Início</label>
-                    <div className="relative">
-                       <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
-                       <input 
-                        type="date"
-                        value={reportFilters.startDate}
-                        onChange={(e) => setReportFilters(prev => ({ ...prev, startDate: e.target.value }))}
-                        className="w-full pl-9 pr-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20"
-                      />
-                    </div>
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-slate-500 mb-1">Data Fim</label>
-                    <div className="relative">
-                       <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
-                       <input 
-                        type="date"
-                        value={reportFilters.endDate}
-                        onChange={(e) => setReportFilters(prev => ({ ...prev, endDate: e.target.value }))}
-                        className="w-full pl-9 pr-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20"
-                      />
-                    </div>
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-slate-500 mb-1">Tipo de Operação</label>
-                    <select 
-                      value={reportFilters.type}
-                      onChange={(e) => setReportFilters(prev => ({ ...prev, type: e.target.value as any }))}
-                      className="w-full px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 bg-white"
-                    >
-                      <option value="all">Todas</option>
-                      <option value="income">Receitas (Classe 7)</option>
-                      <option value="expense">Despesas (Classe 6)</option>
-                    </select>
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-slate-500 mb-1">Categoria PGC-NIRF</label>
-                    <select 
-                      value={reportFilters.category}
-                      onChange={(e) => setReportFilters(prev => ({ ...prev, category: e.target.value }))}
-                      className="w-full px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 bg-white"
-                    >
-                      <option value="all">Todas as Categorias</option>
-                      {PGC_CATEGORIES.map(cat => (
-                        <option key={cat} value={cat}>{cat}</option>
-                      ))}
-                    </select>
-                  </div>
-                </div>
+            <ReportsTab
+              transactions={transactions}
+              allTransactions={allTransactions}
+              chart={chart}
+              accounts={cashAccounts}
+              counterparties={counterparties}
+              openItems={openItems}
+              closedPeriods={closedPeriods}
+              fiscalYearStart={fiscalYearStart}
+              company={company}
+              filters={reportFilters}
+              onFiltersChange={(changes) => setReportFilters(prev => ({ ...prev, ...changes }))}
+              statementPartyId={statementPartyId}
+              onStatementPartyChange={setStatementPartyId}
+              categoryLabel={categoryLabel}
+              accountName={accountName}
+              readOnly={readOnly}
+              onImport={() => setIsImportOpen(true)}
+            />
+          )}
 
-                <div className="mt-4 pt-4 border-t border-slate-100 flex gap-3 justify-end">
-                   <button 
-                    onClick={exportToCSV}
-                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50 active:bg-slate-100 transition-colors"
-                   >
-                     <FileText size={16} />
-                     Exportar CSV
-                   </button>
-                   <button 
-                    onClick={handlePrint}
-                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-slate-800 border border-slate-800 rounded-md hover:bg-slate-900 shadow-sm transition-colors"
-                   >
-                     <Printer size={16} />
-                     Imprimir / Salvar PDF
-                   </button>
-                </div>
-              </div>
+          {activeTab === 'recurring' && (
+            <RecurringManager
+              templates={templates}
+              pending={pendingTransactions}
+              upcoming={upcoming}
+              chart={chart}
+              accounts={cashAccounts}
+              onAddTemplate={(template) => setTemplates(prev => [...prev, template])}
+              onUpdateTemplate={updateTemplate}
+              onRemoveTemplate={(id) => setTemplates(prev => prev.filter(t => t.id !== id))}
+              onConfirmPending={handleConfirmPending}
+              onSkipPending={handleSkipPending}
+              onConfirmUpcoming={handleConfirmUpcoming}
+              onSkipUpcoming={(template, date) => skipOccurrence(template.id, date)}
+              suggest={suggestFor}
+            />
+          )}
 
-              {/* Report Preview / Table */}
-              <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden min-h-[400px]">
-                <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center print:bg-white print:border-b-2 print:border-black">
-                   <h3 className="font-bold text-slate-800">
-                     Relatório de Movimentos
-                     <span className="block text-xs font-normal text-slate-500 mt-1">
-                       {new Date(reportFilters.startDate).toLocaleDateString('pt-MZ')} até {new Date(reportFilters.endDate).toLocaleDateString('pt-MZ')}
-                     </span>
-                   </h3>
-                   <div className="text-right text-xs text-slate-500 hidden print:block">
-                     Gerado em: {new Date().toLocaleString('pt-MZ')}
-                   </div>
-                </div>
+          {activeTab === 'openItems' && (
+            <OpenItemsManager
+              items={openItems}
+              transactions={allTransactions}
+              chart={chart}
+              accounts={cashAccounts}
+              counterparties={counterparties}
+              rates={exchangeRates}
+              onAdd={(item) => setOpenItems(prev => [...prev, item])}
+              onUpdate={(item) => setOpenItems(prev => prev.map(i => (i.id === item.id ? item : i)))}
+              onRemove={(id) => setOpenItems(prev => prev.filter(i => i.id !== id))}
+              onPay={handlePayOpenItem}
+            />
+          )}
 
-                <div className="overflow-x-auto">
-                  <table className="w-full text-sm text-left">
-                    <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200 print:bg-white print:text-black">
-                      <tr>
-                        <th className="px-6 py-3 font-semibold">Data</th>
-                        <th className="px-6 py-3 font-semibold">Descrição</th>
-                        <th className="px-6 py-3 font-semibold">Categoria (PGC)</th>
-                        <th className="px-6 py-3 font-semibold text-right">Entrada</th>
-                        <th className="px-6 py-3 font-semibold text-right">Saída</th>
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y divide-slate-100">
-                      {reportData.map((t) => (
-                        <tr key={t.id} className="hover:bg-slate-50 transition-colors print:hover:bg-transparent">
-                          <td className="px-6 py-3 text-slate-600">{new Date(t.date).toLocaleDateString('pt-MZ')}</td>
-                          <td className="px-6 py-3 font-medium text-slate-800">{t.description}</td>
-                          <td className="px-6 py-3 text-slate-600">{t.category}</td>
-                          <td className="px-6 py-3 text-right text-emerald-600 font-medium">
-                            {t.type === 'income' ? formatMZN(t.amount) : '-'}
-                          </td>
-                          <td className="px-6 py-3 text-right text-rose-600 font-medium">
-                            {t.type === 'expense' ? formatMZN(t.amount) : '-'}
-                          </td>
-                        </tr>
-                      ))}
-                      {reportData.length === 0 && (
-                        <tr>
-                          <td colSpan={5} className="px-6 py-12 text-center text-slate-400">
-                            Nenhum dado encontrado com os filtros selecionados.
-                          </td>
-                        </tr>
-                      )}
-                    </tbody>
-                    <tfoot className="bg-slate-50 border-t border-slate-200 font-bold text-slate-800 print:bg-slate-100">
-                      <tr>
-                        <td colSpan={3} className="px-6 py-3 text-right uppercase text-xs tracking-wider">Totais do Período</td>
-                        <td className="px-6 py-3 text-right text-emerald-600">
-                          {formatMZN(reportData.filter(t => t.type === 'income').reduce((acc, t) => acc + t.amount, 0))}
-                        </td>
-                        <td className="px-6 py-3 text-right text-rose-600">
-                          {formatMZN(reportData.filter(t => t.type === 'expense').reduce((acc, t) => acc + t.amount, 0))}
-                        </td>
-                      </tr>
-                    </tfoot>
-                  </table>
-                </div>
-              </div>
-            </div>
+          {activeTab === 'budgets' && (
+            <BudgetManager budgets={budgets} chart={chart} transactions={movements} onChange={setBudgets} />
+          )}
+
+          {activeTab === 'settings' && (
+            <SettingsTab
+              transactions={transactions}
+              allTransactions={allTransactions}
+              chart={chart}
+              customAccounts={customAccounts}
+              onCustomAccountsChange={setCustomAccounts}
+              accounts={cashAccounts}
+              balances={balances}
+              onAccountsChange={setCashAccounts}
+              fiscalYearStart={fiscalYearStart}
+              onFiscalYearStartChange={setFiscalYearStart}
+              attachmentThreshold={attachmentThreshold}
+              onAttachmentThresholdChange={setAttachmentThreshold}
+              attachmentsInCloud={!!cloudAttachments}
+              company={company}
+              onCompanyChange={setCompany}
+              closedPeriods={closedPeriods}
+              periodLog={periodLog}
+              canClosePeriods={canClose}
+              onClosePeriod={handleClosePeriod}
+              onReopenPeriod={handleReopenPeriod}
+              workspace={user && activeRemote ? activeRemote : null}
+              uid={user?.uid || ''}
+              onInvite={(email, role) => inviteMember(db, workspaceId, email, role)}
+              onCancelInvite={(email) => cancelInvite(db, workspaceId, email)}
+              onSetRole={(uid, role) => setMemberRole(db, workspaceId, uid, role)}
+              onRemoveMember={(uid) => removeMember(db, workspaceId, uid)}
+              backupSettings={backupSettings}
+              onBackupSettingsChange={setBackupSettings}
+              onBackup={handleBackup}
+              onRestore={handleRestore}
+              counterparties={counterparties}
+              onCounterpartiesChange={setCounterparties}
+              onSaveCounterparty={handleSaveCounterparty}
+              onLinkCounterparty={handleLinkCounterparty}
+              exchangeRates={exchangeRates}
+              onExchangeRatesChange={setExchangeRates}
+              categoryRules={categoryRules}
+              onCategoryRulesChange={setCategoryRules}
+              suggester={suggesterModel}
+              onApplyCategorization={handleApplyCategorization}
+            />
           )}
 
         </div>
@@ -519,10 +1274,63 @@ const App: React.FC = () => {
 
       <TransactionModal 
         isOpen={isModalOpen} 
-        onClose={() => setIsModalOpen(false)} 
-        onSave={handleAddTransaction} 
+        onClose={closeModal} 
+        onSave={handleSaveTransaction} 
+        initialData={editingTransaction}
+        chart={chart}
+        accounts={cashAccounts}
+        defaultAccountId={entryAccountId}
+        counterparties={counterparties}
+        rates={exchangeRates}
+        suggest={suggestFor}
+      />
+
+      <TransferModal
+        isOpen={isTransferOpen}
+        accounts={cashAccounts}
+        onClose={() => setIsTransferOpen(false)}
+        onSave={handleAddTransaction}
       />
+
+      <ImportWizard
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        existing={allTransactions}
+        chart={chart}
+        accounts={cashAccounts}
+        onImport={handleImportTransactions}
+        suggest={suggestFor}
+      />
+
+      <AttachmentPreview attachment={previewAttachment} load={loadAttachment} onClose={() => setPreviewAttachment(null)} />
+
+      {/* Undo toast after soft delete */}
+      {undoDeleteIds.length > 0 && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 bg-slate-800 text-white text-sm rounded-lg shadow-lg px-4 py-3 flex items-center gap-4 z-50 print:hidden">
+          <span>{undoDeleteIds.length === 1 ? 'Transação eliminada.' : `${undoDeleteIds.length} transações eliminadas.`}</span>
+          <button
+            onClick={handleUndoDelete}
+            className="flex items-center gap-1 font-semibold text-blue-300 hover:text-blue-200"
+          >
+            <RotateCcw size={14} />
+            Desfazer
+          </button>
+        </div>
+      )}
       
+      {budgetWarning && (
+        <div className="fixed top-12 right-6 max-w-md bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-lg shadow-lg px-4 py-3 flex items-start gap-3 z-50 print:hidden">
+          <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+          <div>
+            <p className="font-semibold">Orçamento excedido</p>
+            <p className="text-xs mt-1">{budgetWarning}</p>
+          </div>
+          <button onClick={() => setBudgetWarning(null)} className="text-amber-600 hover:text-amber-800">
+            <CloseIcon size={14} />
+          </button>
+        </div>
+      )}
+
       {/* Print Styles */}
       <style>{`
         @media print {
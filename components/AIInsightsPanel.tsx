@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Loader2, PiggyBank, Sparkles, Tag } from 'lucide-react';
+import { AIAnalysisResult, AIInsight, AIInsightKind, AIProviderId, AISettings, Transaction } from '../types';
+import { AIRequest, INSIGHT_LABELS, PROVIDER_LABELS, isProviderAvailable } from '../services/ai';
+
+interface AIInsightsPanelProps {
+  settings: AISettings;
+  request: AIRequest;
+  result: AIAnalysisResult;
+  transactions: Transaction[];
+  accountLabel: (code: string) => string;
+  onChangeSettings: (settings: AISettings) => void;
+  onAnalyze: () => void;
+  onShowInHistory: (transactionIds: string[]) => void;
+  onApplyCategory?: (insight: AIInsight) => void; // ausente sem permissão de edição
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const KIND_STYLES: Record<AIInsightKind, { icon: React.ReactNode; className: string }> = {
+  anomaly: { icon: <AlertTriangle size={14} />, className: 'text-amber-700 bg-amber-50 border-amber-200' },
+  category: { icon: <Tag size={14} />, className: 'text-blue-700 bg-blue-50 border-blue-200' },
+  saving: { icon: <PiggyBank size={14} />, className: 'text-emerald-700 bg-emerald-50 border-emerald-200' },
+};
+
+const MAX_LINKED = 4;
+
+// Análise do período: o utilizador escolhe o fornecedor e o que é partilhado, e pode ver exatamente o que é enviado
+const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
+  settings, request, result, transactions, accountLabel, onChangeSettings, onAnalyze, onShowInHistory, onApplyCategory,
+}) => {
+  const [showPayload, setShowPayload] = useState(false);
+  const byId = new Map(transactions.map(t => [t.id, t]));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden h-full flex flex-col">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Sparkles size={16} className="text-blue-600" />
+          Análise Inteligente
+        </h3>
+        <button
+          onClick={onAnalyze}
+          disabled={result.loading}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {result.loading && <Loader2 size={12} className="animate-spin" />}
+          Analisar período
+        </button>
+      </div>
+
+      <div className="px-6 py-3 border-b border-slate-100 space-y-2 text-xs text-slate-600">
+        <select
+          value={settings.provider}
+          onChange={(e) => onChangeSettings({ ...settings, provider: e.target.value as AIProviderId })}
+          className="w-full px-2 py-1.5 border border-slate-300 rounded-md bg-white"
+        >
+          {(Object.keys(PROVIDER_LABELS) as AIProviderId[]).map(id => (
+            <option key={id} value={id} disabled={!isProviderAvailable(id)}>
+              {PROVIDER_LABELS[id]}{isProviderAvailable(id) ? '' : ' - sem chave API'}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.shareDescriptions}
+            onChange={(e) => onChangeSettings({ ...settings, shareDescriptions: e.target.checked })}
+            className="rounded border-slate-300"
+          />
+          Partilhar descrições (sem números, emails nem nomes)
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.shareCounterparties}
+            onChange={(e) => onChangeSettings({ ...settings, shareCounterparties: e.target.checked })}
+            className="rounded border-slate-300"
+          />
+          Partilhar totais por cliente/fornecedor (pseudónimos)
+        </label>
+        <button onClick={() => setShowPayload(!showPayload)} className="text-blue-600 hover:underline">
+          {showPayload ? 'Ocultar' : 'Ver'} dados enviados ({request.input.items.length} movimentos, {request.input.accounts.length} contas)
+        </button>
+        {showPayload && (
+          <pre className="max-h-48 overflow-auto bg-slate-50 border border-slate-200 rounded p-2 text-[11px] text-slate-700">
+            {JSON.stringify(request.input, null, 2)}
+          </pre>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {result.error && <p className="text-sm text-rose-600">{result.error}</p>}
+        {!result.error && !result.loading && result.insights === null && (
+          <p className="text-sm text-slate-500">
+            Procure anomalias, movimentos por classificar e oportunidades de poupança no período selecionado.
+            Só são enviados totais e uma amostra limitada de movimentos.
+          </p>
+        )}
+        {result.insights && result.insights.length === 0 && (
+          <p className="text-sm text-slate-500">Nada de invulgar neste período.</p>
+        )}
+        {result.insights && result.insights.map((insight, i) => {
+          const linked = insight.transactionIds.map(id => byId.get(id)).filter(Boolean) as Transaction[];
+          return (
+            <div key={i} className={`border rounded-md p-3 text-sm space-y-2 ${KIND_STYLES[insight.kind].className}`}>
+              <div className="flex items-center gap-1 text-[11px] font-semibold uppercase tracking-wider">
+                {KIND_STYLES[insight.kind].icon}
+                {INSIGHT_LABELS[insight.kind]}
+              </div>
+              <p className="font-semibold text-slate-800">{insight.title}</p>
+              {insight.detail && <p className="text-slate-600 text-xs">{insight.detail}</p>}
+              {linked.length > 0 && (
+                <ul className="text-xs text-slate-600 space-y-0.5">
+                  {linked.slice(0, MAX_LINKED).map(t => (
+                    <li key={t.id} className="flex justify-between gap-2">
+                      <span className="truncate">{new Date(t.date).toLocaleDateString('pt-MZ')} {t.description}</span>
+                      <span className="shrink-0 font-medium">{formatMZN(t.amount)}</span>
+                    </li>
+                  ))}
+                  {linked.length > MAX_LINKED && <li className="text-slate-400">+ {linked.length - MAX_LINKED} movimento(s)</li>}
+                </ul>
+              )}
+              <div className="flex items-center gap-3 text-xs">
+                {linked.length > 0 && (
+                  <button onClick={() => onShowInHistory(linked.map(t => t.id))} className="font-medium hover:underline">
+                    Ver no Histórico
+                  </button>
+                )}
+                {insight.suggestedCategory && onApplyCategory && (
+                  <button onClick={() => onApplyCategory(insight)} className="font-medium hover:underline">
+                    Aplicar {accountLabel(insight.suggestedCategory)}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AIInsightsPanel;
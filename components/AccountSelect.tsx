@@ -0,0 +1,39 @@
+import React from 'react';
+import { ChartAccount, TransactionType } from '../types';
+import { UNCATEGORIZED_CODE, accountDepth, accountType } from '../services/chartOfAccounts';
+
+interface AccountSelectProps {
+  chart: ChartAccount[];
+  value: string;
+  onChange: (code: string) => void;
+  allLabel?: string; // quando definido, acrescenta a opção "all"
+  type?: TransactionType | 'all'; // restringe às contas da classe correspondente
+  className?: string;
+}
+
+const optionLabel = (a: ChartAccount) => {
+  if (a.code === UNCATEGORIZED_CODE) return 'Outros (não classificado)';
+  return a.parentCode === null ? `Classe ${a.code} - ${a.name}` : `${a.code} - ${a.name}`;
+};
+
+// Seletor hierárquico do plano de contas: classes, contas e subcontas indentadas
+const AccountSelect: React.FC<AccountSelectProps> = ({ chart, value, onChange, allLabel, type = 'all', className }) => {
+  const visible = chart.filter(a => type === 'all' || accountType(a.code) === type || accountType(a.code) === null);
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={className || 'w-full px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 bg-white'}
+    >
+      {allLabel && <option value="all">{allLabel}</option>}
+      {visible.map(a => (
+        <option key={a.code} value={a.code}>
+          {'\u00A0\u00A0\u00A0'.repeat(accountDepth(a.code))}{optionLabel(a)}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default AccountSelect;
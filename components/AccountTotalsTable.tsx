@@ -0,0 +1,52 @@
+import React from 'react';
+import { ChartAccount, Transaction } from '../types';
+import { accountDepth, rollupTotals } from '../services/chartOfAccounts';
+
+interface AccountTotalsTableProps {
+  transactions: Transaction[];
+  chart: ChartAccount[];
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+// Totais por classe, conta e subconta; cada linha inclui os movimentos das contas-filhas
+const AccountTotalsTable: React.FC<AccountTotalsTableProps> = ({ transactions, chart }) => {
+  const totals = rollupTotals(transactions, chart);
+  const rows = chart.filter(a => totals.has(a.code));
+  const unknown = transactions.filter(t => !chart.some(a => a.code === t.category));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 print:bg-white">
+        <h3 className="font-bold text-slate-800">Totais por Conta (PGC-NIRF)</h3>
+      </div>
+      <table className="w-full text-sm text-left">
+        <tbody className="divide-y divide-slate-100">
+          {rows.map(a => (
+            <tr key={a.code} className={a.parentCode === null ? 'bg-slate-50/60 font-semibold' : ''}>
+              <td className="px-6 py-2 text-slate-700" style={{ paddingLeft: 24 + accountDepth(a.code) * 20 }}>
+                <span className="font-mono text-xs text-slate-500 mr-2">{a.code}</span>
+                {a.name}
+              </td>
+              <td className="px-6 py-2 text-right font-medium text-slate-800">{formatMZN(totals.get(a.code) || 0)}</td>
+            </tr>
+          ))}
+          {unknown.length > 0 && (
+            <tr>
+              <td className="px-6 py-2 text-slate-500 italic">Contas inexistentes no plano</td>
+              <td className="px-6 py-2 text-right text-slate-500">{formatMZN(unknown.reduce((acc, t) => acc + t.amount, 0))}</td>
+            </tr>
+          )}
+          {rows.length === 0 && unknown.length === 0 && (
+            <tr>
+              <td colSpan={2} className="px-6 py-8 text-center text-slate-400">Sem movimentos no período.</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default AccountTotalsTable;
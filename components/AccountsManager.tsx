@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Plus, Archive, ArchiveRestore } from 'lucide-react';
+import { CashAccount } from '../types';
+import { ACCOUNT_KIND_LABELS, DEFAULT_ACCOUNT_ID } from '../services/accounts';
+
+interface AccountsManagerProps {
+  accounts: CashAccount[];
+  balances: Map<string, number>;
+  onChange: (accounts: CashAccount[]) => void;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const AccountsManager: React.FC<AccountsManagerProps> = ({ accounts, balances, onChange }) => {
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<CashAccount['kind']>('bank');
+  const [openingBalance, setOpeningBalance] = useState('');
+
+  const handleAdd = () => {
+    if (!name.trim()) return;
+    onChange([...accounts, { id: crypto.randomUUID(), name: name.trim(), kind, openingBalance: Number(openingBalance) || 0 }]);
+    setName('');
+    setOpeningBalance('');
+  };
+
+  const update = (id: string, changes: Partial<CashAccount>) => {
+    onChange(accounts.map(a => (a.id === id ? { ...a, ...changes } : a)));
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="font-semibold text-slate-800">Contas e Caixas</h3>
+        <p className="text-xs text-slate-500 mt-1">Caixa, contas bancárias e carteiras móveis com os respetivos saldos de abertura.</p>
+      </div>
+
+      <div className="p-4 border-b border-slate-100 grid grid-cols-1 md:grid-cols-4 gap-3 items-end text-sm">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Nome</label>
+          <input
+            type="text"
+            placeholder="ex.: BCI - Conta Corrente"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Tipo</label>
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as CashAccount['kind'])}
+            className="w-full px-3 py-2 border border-slate-300 rounded-md bg-white"
+          >
+            {Object.entries(ACCOUNT_KIND_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Saldo de abertura (MZN)</label>
+          <input
+            type="number"
+            step="0.01"
+            value={openingBalance}
+            onChange={(e) => setOpeningBalance(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-md"
+          />
+        </div>
+        <button
+          onClick={handleAdd}
+          className="flex items-center justify-center gap-2 px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+        >
+          <Plus size={16} />
+          Adicionar Conta
+        </button>
+      </div>
+
+      <table className="w-full text-sm text-left">
+        <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+          <tr>
+            <th className="px-6 py-2 font-semibold">Conta</th>
+            <th className="px-6 py-2 font-semibold">Tipo</th>
+            <th className="px-6 py-2 font-semibold text-right">Saldo de Abertura</th>
+            <th className="px-6 py-2 font-semibold text-right">Saldo Atual</th>
+            <th className="px-6 py-2"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {accounts.map(a => (
+            <tr key={a.id} className={a.archived ? 'opacity-50' : ''}>
+              <td className="px-6 py-2">
+                <input
+                  type="text"
+                  value={a.name}
+                  onChange={(e) => update(a.id, { name: e.target.value })}
+                  className="w-full bg-transparent font-medium text-slate-800 focus:outline-none focus:ring-1 focus:ring-blue-300 rounded px-1"
+                />
+              </td>
+              <td className="px-6 py-2 text-slate-600">{ACCOUNT_KIND_LABELS[a.kind]}</td>
+              <td className="px-6 py-2 text-right">
+                <input
+                  type="number"
+                  step="0.01"
+                  value={a.openingBalance}
+                  onChange={(e) => update(a.id, { openingBalance: Number(e.target.value) || 0 })}
+                  className="w-32 text-right bg-transparent focus:outline-none focus:ring-1 focus:ring-blue-300 rounded px-1"
+                />
+              </td>
+              <td className={`px-6 py-2 text-right font-semibold ${(balances.get(a.id) || 0) < 0 ? 'text-rose-600' : 'text-slate-800'}`}>
+                {formatMZN(balances.get(a.id) || 0)}
+              </td>
+              <td className="px-6 py-2 text-right">
+                {a.id !== DEFAULT_ACCOUNT_ID && (
+                  <button
+                    onClick={() => update(a.id, { archived: !a.archived })}
+                    title={a.archived ? 'Reativar' : 'Arquivar'}
+                    className="text-slate-400 hover:text-slate-700"
+                  >
+                    {a.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default AccountsManager;
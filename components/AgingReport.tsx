@@ -0,0 +1,68 @@
+import React from 'react';
+import { OpenItem, OpenItemKind, Transaction } from '../types';
+import { AGING_BUCKETS, AGING_LABELS, AgingRow, agingReport } from '../services/openItems';
+
+interface AgingReportProps {
+  items: OpenItem[];
+  transactions: Transaction[];
+  asOf: Date;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const KIND_TITLES: Record<OpenItemKind, string> = {
+  receivable: 'Clientes (a receber)',
+  payable: 'Fornecedores (a pagar)',
+};
+
+// Antiguidade de saldos em aberto por contraparte, na data final do período do relatório
+const AgingReport: React.FC<AgingReportProps> = ({ items, transactions, asOf }) => {
+  const renderRow = (row: AgingRow, total?: boolean) => (
+    <tr key={row.counterparty} className={total ? 'bg-slate-50 font-bold text-slate-800' : ''}>
+      <td className="px-6 py-2 text-slate-700">{row.counterparty}</td>
+      {AGING_BUCKETS.map(b => (
+        <td key={b} className={`px-4 py-2 text-right ${b === 'd90plus' && row.buckets[b] > 0 ? 'text-rose-600' : 'text-slate-700'}`}>
+          {row.buckets[b] ? formatMZN(row.buckets[b]) : '-'}
+        </td>
+      ))}
+      <td className="px-6 py-2 text-right font-semibold text-slate-800">{formatMZN(row.total)}</td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 print:bg-white">
+        <h3 className="font-bold text-slate-800">
+          Antiguidade de Saldos
+          <span className="block text-xs font-normal text-slate-500 mt-1">Valores em aberto em {asOf.toLocaleDateString('pt-MZ')}, por dias desde o vencimento</span>
+        </h3>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          {(['receivable', 'payable'] as OpenItemKind[]).map(kind => {
+            const report = agingReport(items, transactions, kind, asOf);
+            return (
+              <tbody key={kind} className="divide-y divide-slate-100 border-b border-slate-200">
+                <tr className="text-xs text-slate-500 uppercase bg-slate-50/60">
+                  <th className="px-6 py-2 font-semibold">{KIND_TITLES[kind]}</th>
+                  {AGING_BUCKETS.map(b => <th key={b} className="px-4 py-2 font-semibold text-right">{AGING_LABELS[b]}</th>)}
+                  <th className="px-6 py-2 font-semibold text-right">Total</th>
+                </tr>
+                {report.rows.map(row => renderRow(row))}
+                {report.rows.length === 0 && (
+                  <tr>
+                    <td colSpan={AGING_BUCKETS.length + 2} className="px-6 py-4 text-center text-slate-400">Sem saldos em aberto.</td>
+                  </tr>
+                )}
+                {report.rows.length > 0 && renderRow(report.totals, true)}
+              </tbody>
+            );
+          })}
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AgingReport;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Paperclip, Eye, Trash2, Cloud, HardDrive } from 'lucide-react';
+import { Attachment } from '../types';
+import { formatFileSize, validateAttachment } from '../services/attachments';
+
+interface AttachmentPanelProps {
+  attachments: Attachment[];
+  readOnly?: boolean;
+  onUpload: (files: File[]) => Promise<void>;
+  onRemove: (attachment: Attachment) => Promise<void>;
+  onPreview: (attachment: Attachment) => void;
+}
+
+// Comprovativos de uma transação: lista, pré-visualização e envio de imagens/PDF
+const AttachmentPanel: React.FC<AttachmentPanelProps> = ({ attachments, readOnly, onUpload, onRemove, onPreview }) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    const errors = files.map(validateAttachment).filter((msg): msg is string => msg !== null);
+    if (errors.length > 0) {
+      setError(errors.join(' '));
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await onUpload(files);
+    } catch (err) {
+      setError('Não foi possível guardar o anexo.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (attachment: Attachment) => {
+    if (!window.confirm(`Remover o anexo "${attachment.name}"?`)) return;
+    setBusy(true);
+    try {
+      await onRemove(attachment);
+    } catch (err) {
+      setError('Não foi possível remover o anexo.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="text-xs">
+      <label className="block font-medium text-slate-500 mb-1">Comprovativos</label>
+      <div className="flex flex-wrap items-center gap-2">
+        {attachments.map(a => (
+          <div key={a.id} className="flex items-center gap-2 px-2 py-1.5 bg-white border border-slate-200 rounded-md">
+            {a.storage === 'cloud' ? <Cloud size={12} className="text-slate-400" /> : <HardDrive size={12} className="text-slate-400" />}
+            <button onClick={() => onPreview(a)} className="flex items-center gap-1 text-slate-700 hover:text-blue-600" title="Pré-visualizar">
+              <Eye size={12} />
+              <span className="max-w-[180px] truncate">{a.name}</span>
+            </button>
+            <span className="text-slate-400">{formatFileSize(a.size)}</span>
+            {!readOnly && (
+              <button onClick={() => handleRemove(a)} disabled={busy} title="Remover" className="text-slate-400 hover:text-red-600">
+                <Trash2 size={12} />
+              </button>
+            )}
+          </div>
+        ))}
+        {!readOnly && (
+          <label className={`flex items-center gap-1 px-2 py-1.5 border border-dashed border-slate-300 rounded-md text-slate-600 hover:bg-white cursor-pointer ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+            <Paperclip size={12} />
+            {busy ? 'A guardar...' : 'Anexar imagem ou PDF'}
+            <input type="file" accept="image/*,application/pdf" multiple onChange={handleFiles} className="hidden" />
+          </label>
+        )}
+      </div>
+      {error && <p className="text-rose-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default AttachmentPanel;
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { X, Paperclip, Download } from 'lucide-react';
+import { Attachment } from '../types';
+
+interface AttachmentPreviewProps {
+  attachment: Attachment | null;
+  load: (attachment: Attachment) => Promise<Blob>;
+  onClose: () => void;
+}
+
+// Janela de pré-visualização: imagem ou PDF a partir de um URL temporário do ficheiro
+const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({ attachment, load, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!attachment) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setUrl(null);
+    setError(null);
+    load(attachment)
+      .then(blob => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError(attachment.storage === 'cloud'
+            ? 'Não foi possível obter o anexo da nuvem. Verifique a sessão e a ligação.'
+            : 'O anexo não existe neste navegador (foi guardado noutro dispositivo ou os dados do site foram limpos).');
+        }
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment]);
+
+  if (!attachment) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex items-center justify-center z-50 print:hidden" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl border border-slate-200 w-full max-w-4xl h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="h-10 px-4 flex items-center justify-between border-b border-slate-200 bg-slate-50 rounded-t-lg shrink-0">
+          <span className="text-xs text-slate-600 flex items-center gap-2 min-w-0">
+            <Paperclip size={14} />
+            <span className="truncate">{attachment.name}</span>
+          </span>
+          <div className="flex items-center gap-4">
+            {url && (
+              <a href={url} download={attachment.name} title="Descarregar" className="text-slate-400 hover:text-slate-700">
+                <Download size={14} />
+              </a>
+            )}
+            <button onClick={onClose} className="text-slate-400 hover:text-red-500">
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 min-h-0 flex items-center justify-center bg-slate-100 rounded-b-lg overflow-auto">
+          {error && <p className="text-sm text-rose-600 px-6 text-center">{error}</p>}
+          {!error && !url && <p className="text-sm text-slate-400">A carregar...</p>}
+          {url && attachment.mimeType === 'application/pdf' && (
+            <iframe src={url} title={attachment.name} className="w-full h-full rounded-b-lg" />
+          )}
+          {url && attachment.mimeType.startsWith('image/') && (
+            <img src={url} alt={attachment.name} className="max-w-full max-h-full object-contain" />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentPreview;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Attachment, AuditEntry, VatDetails } from '../types';
+import { ACTION_LABELS, FIELD_LABELS } from '../services/auditTrail';
+import { getVatRegime } from '../services/vat';
+
+interface AuditTrailProps {
+  history: AuditEntry[];
+}
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (field === 'amount' && typeof value === 'number') {
+    return new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(value);
+  }
+  if (field === 'date' && typeof value === 'string') {
+    return new Date(value).toLocaleDateString('pt-MZ');
+  }
+  if (field === 'vat' && typeof value === 'object') {
+    const vat = value as VatDetails;
+    return `${getVatRegime(vat.regime).label} - ${formatValue('amount', vat.tax)}`;
+  }
+  if (field === 'attachments' && Array.isArray(value)) {
+    return value.length > 0 ? (value as Attachment[]).map(a => a.name).join(', ') : '—';
+  }
+  if (field === 'tags' && Array.isArray(value)) {
+    return (value as string[]).map(tag => `#${tag}`).join(' ');
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Sim' : 'Não';
+  }
+  if (field === 'type') {
+    return value === 'income' ? 'Receita' : 'Despesa';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const AuditTrail: React.FC<AuditTrailProps> = ({ history }) => {
+  if (history.length === 0) {
+    return <p className="text-xs text-slate-400">Sem registos de auditoria para esta transação.</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {[...history].reverse().map((entry, index) => (
+        <li key={`${entry.at}-${index}`} className="text-xs">
+          <div className="flex items-center gap-2 text-slate-600">
+            <span className="font-semibold text-slate-800">{ACTION_LABELS[entry.action]}</span>
+            <span>por {entry.by}</span>
+            <span className="text-slate-400">• {new Date(entry.at).toLocaleString('pt-MZ')}</span>
+          </div>
+          {entry.changes && entry.changes.length > 0 && (
+            <table className="mt-1 w-full max-w-xl">
+              <tbody>
+                {entry.changes.map(change => (
+                  <tr key={change.field} className="text-slate-500">
+                    <td className="pr-3 py-0.5 w-28">{FIELD_LABELS[change.field] || change.field}</td>
+                    <td className="pr-3 py-0.5 line-through text-rose-500">{formatValue(change.field, change.oldValue)}</td>
+                    <td className="py-0.5 text-emerald-600">{formatValue(change.field, change.newValue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default AuditTrail;
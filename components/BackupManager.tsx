@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { Transaction } from '../types';
+import { BackupFile, BackupSettings, RestoreMode, parseBackup, previewRestore } from '../services/backup';
+
+interface BackupManagerProps {
+  transactions: Transaction[];
+  settings: BackupSettings;
+  onSettingsChange: (settings: BackupSettings) => void;
+  onBackup: () => void;
+  onRestore: (backup: BackupFile, mode: RestoreMode) => void;
+}
+
+const formatDate = (iso?: string) => (iso ? new Date(iso).toLocaleDateString('pt-MZ') : '—');
+
+const BackupManager: React.FC<BackupManagerProps> = ({ transactions, settings, onSettingsChange, onBackup, onRestore }) => {
+  const [loaded, setLoaded] = useState<{ backup: BackupFile; sourceVersion: number; fileName: string } | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = parseBackup(await file.text());
+    if ('errors' in result) {
+      setLoaded(null);
+      setErrors(result.errors);
+    } else {
+      setLoaded({ backup: result.backup, sourceVersion: result.sourceVersion, fileName: file.name });
+      setErrors([]);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!loaded) return;
+    if (mode === 'replace' && !window.confirm('Substituir todos os dados atuais pelo conteúdo do backup?')) return;
+    onRestore(loaded.backup, mode);
+    setLoaded(null);
+  };
+
+  const preview = loaded ? previewRestore(transactions, loaded.backup.data.transactions, mode) : null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="font-semibold text-slate-800">Cópia de Segurança</h3>
+        <p className="text-xs text-slate-500 mt-1">Ficheiro JSON com o livro de transações, contas, plano de contas, modelos, orçamentos e restantes definições. Os ficheiros anexados às transações não são incluídos.</p>
+      </div>
+
+      <div className="p-4 flex flex-wrap items-center gap-3 text-sm border-b border-slate-100">
+        <button
+          onClick={onBackup}
+          className="flex items-center gap-2 px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+        >
+          <Download size={16} />
+          Exportar Backup
+        </button>
+        <label className="flex items-center gap-2 px-4 py-2 font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50 cursor-pointer">
+          <Upload size={16} />
+          Restaurar Backup
+          <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+        </label>
+        <span className="text-xs text-slate-500">Último backup: {formatDate(settings.lastBackupAt)}</span>
+        <label className="ml-auto flex items-center gap-2 text-xs text-slate-600">
+          <input
+            type="checkbox"
+            checked={settings.reminderEnabled}
+            onChange={(e) => onSettingsChange({ ...settings, reminderEnabled: e.target.checked })}
+            className="rounded border-slate-300"
+          />
+          Lembrar semanalmente
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="px-6 py-3 text-xs text-rose-700 bg-rose-50 border-b border-rose-100">
+          <p className="font-semibold mb-1">O ficheiro não pode ser restaurado:</p>
+          <ul className="list-disc pl-4 space-y-0.5">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {loaded && preview && (
+        <div className="p-4 text-sm space-y-3">
+          <p className="text-slate-700">
+            <span className="font-medium">{loaded.fileName}</span> • criado em {formatDate(loaded.backup.createdAt)}
+            {loaded.sourceVersion < loaded.backup.version && (
+              <span className="text-xs text-amber-700"> • convertido da versão {loaded.sourceVersion} para a {loaded.backup.version}</span>
+            )}
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-xs">
+            <div><p className="text-slate-500">Transações</p><p className="font-semibold text-slate-800">{preview.total}</p></div>
+            <div><p className="text-slate-500">Novas</p><p className="font-semibold text-emerald-600">{preview.added}</p></div>
+            <div><p className="text-slate-500">Atualizadas</p><p className="font-semibold text-blue-600">{preview.updated}</p></div>
+            <div><p className="text-slate-500">A remover</p><p className="font-semibold text-rose-600">{preview.removed}</p></div>
+            <div><p className="text-slate-500">Intervalo</p><p className="font-semibold text-slate-800">{formatDate(preview.firstDate)} - {formatDate(preview.lastDate)}</p></div>
+          </div>
+          <p className="text-xs text-slate-500">
+            {loaded.backup.data.accounts.length} conta(s) • {loaded.backup.data.customAccounts.length} subconta(s) personalizada(s) •{' '}
+            {loaded.backup.data.templates.length} modelo(s) recorrente(s) • {loaded.backup.data.budgets.length} orçamento(s) •{' '}
+            {loaded.backup.data.openItems.length} fatura(s) em aberto
+          </p>
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-700">
+            <label className="flex items-center gap-2">
+              <input type="radio" name="restore-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+              Juntar aos dados atuais
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="restore-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+              Substituir todos os dados
+            </label>
+            <div className="ml-auto flex gap-2">
+              <button onClick={() => setLoaded(null)} className="px-3 py-1.5 font-medium text-slate-600 hover:text-slate-800">Cancelar</button>
+              <button
+                onClick={handleConfirm}
+                className={`px-3 py-1.5 font-medium text-white rounded-md ${mode === 'replace' ? 'bg-rose-600 hover:bg-rose-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+              >
+                Restaurar
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupManager;
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { FileText, Plus, Trash2 } from 'lucide-react';
+import { Budget, BudgetPeriod, ChartAccount, Transaction } from '../types';
+import { BUDGET_PERIOD_LABELS, budgetStatus } from '../services/budgets';
+import { UNCATEGORIZED_CODE, formatAccount } from '../services/chartOfAccounts';
+import { csvNumber, csvText, downloadCSV } from '../services/csvExport';
+import AccountSelect from './AccountSelect';
+
+interface BudgetManagerProps {
+  budgets: Budget[];
+  chart: ChartAccount[];
+  transactions: Transaction[];
+  onChange: (budgets: Budget[]) => void;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const formatPct = (val: number) => `${val >= 0 ? '+' : ''}${val.toFixed(1)}%`;
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-md bg-white';
+
+const BudgetManager: React.FC<BudgetManagerProps> = ({ budgets, chart, transactions, onChange }) => {
+  const [category, setCategory] = useState('6.3');
+  const [period, setPeriod] = useState<BudgetPeriod>('monthly');
+  const [amount, setAmount] = useState('');
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const [year, monthIndex] = month.split('-').map(Number);
+  const reference = new Date(year, monthIndex - 1, 1);
+  const statuses = budgets.map(b => budgetStatus(b, transactions, reference));
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(amount);
+    if (!(value > 0)) {
+      setError('Indique um valor orçado positivo.');
+      return;
+    }
+    if (category === UNCATEGORIZED_CODE) {
+      setError('Escolha uma conta do plano.');
+      return;
+    }
+    // Um orçamento por conta e periodicidade: voltar a definir substitui o valor
+    const existing = budgets.find(b => b.category === category && b.period === period);
+    onChange(existing
+      ? budgets.map(b => (b.id === existing.id ? { ...b, amount: value } : b))
+      : [...budgets, { id: crypto.randomUUID(), category, period, amount: value }]);
+    setAmount('');
+    setError(null);
+  };
+
+  const handleExport = () => {
+    const headers = ["Conta", "Periodicidade", "Orçado", "Real", "Variação (MZN)", "Variação (%)"];
+    const rows = statuses.map(s => [
+      csvText(formatAccount(chart, s.budget.category)),
+      BUDGET_PERIOD_LABELS[s.budget.period],
+      csvNumber(s.budget.amount),
+      csvNumber(s.actual),
+      csvNumber(s.variance),
+      s.variancePct.toFixed(1),
+    ]);
+    downloadCSV(`orcamento_vs_real_${month}.csv`, headers, rows);
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+          <h3 className="font-semibold text-slate-800">Orçamentos por Conta</h3>
+          <p className="text-xs text-slate-500 mt-1">O orçamento de uma conta inclui os movimentos das suas subcontas (6.3 abrange 6.3.1, 6.3.2...).</p>
+        </div>
+        <form onSubmit={handleAdd} className="p-4 grid grid-cols-1 md:grid-cols-4 gap-3 items-end text-sm">
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Conta PGC-NIRF</label>
+            <AccountSelect chart={chart} value={category} onChange={setCategory} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Periodicidade</label>
+            <select value={period} onChange={(e) => setPeriod(e.target.value as BudgetPeriod)} className={inputClass}>
+              {Object.entries(BUDGET_PERIOD_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Valor Orçado (MZN)</label>
+            <input type="number" step="0.01" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} className={inputClass} required />
+          </div>
+          <button type="submit" className="md:col-start-4 flex items-center justify-center gap-2 px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700">
+            <Plus size={16} />
+            Definir Orçamento
+          </button>
+          {error && <p className="md:col-span-4 text-xs text-rose-600">{error}</p>}
+        </form>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center">
+          <h3 className="font-bold text-slate-800">
+            Orçamento vs. Real
+            <span className="block text-xs font-normal text-slate-500 mt-1">Orçamentos anuais comparam com o ano civil do mês escolhido</span>
+          </h3>
+          <div className="flex items-center gap-2">
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => e.target.value && setMonth(e.target.value)}
+              className="text-xs border border-slate-300 rounded-md px-2 py-1.5 bg-white"
+            />
+            <button
+              onClick={handleExport}
+              disabled={statuses.length === 0}
+              className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50"
+            >
+              <FileText size={14} />
+              Exportar
+            </button>
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-3 font-semibold">Conta</th>
+                <th className="px-6 py-3 font-semibold">Periodicidade</th>
+                <th className="px-6 py-3 font-semibold text-right">Orçado</th>
+                <th className="px-6 py-3 font-semibold text-right">Real</th>
+                <th className="px-6 py-3 font-semibold text-right">Variação</th>
+                <th className="px-6 py-3 font-semibold text-right">%</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {statuses.map(s => (
+                <tr key={s.budget.id} className="group">
+                  <td className="px-6 py-2 text-slate-700">{formatAccount(chart, s.budget.category)}</td>
+                  <td className="px-6 py-2 text-slate-500">{BUDGET_PERIOD_LABELS[s.budget.period]}</td>
+                  <td className="px-6 py-2 text-right">{formatMZN(s.budget.amount)}</td>
+                  <td className="px-6 py-2 text-right">{formatMZN(s.actual)}</td>
+                  <td className={`px-6 py-2 text-right font-semibold ${s.variance >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{formatMZN(s.variance)}</td>
+                  <td className={`px-6 py-2 text-right ${s.variance >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{formatPct(s.variancePct)}</td>
+                  <td className="px-6 py-2 text-right">
+                    <button
+                      onClick={() => onChange(budgets.filter(b => b.id !== s.budget.id))}
+                      title="Remover orçamento"
+                      className="text-slate-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {statuses.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-slate-400">Nenhum orçamento definido.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetManager;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { ChartAccount } from '../types';
+import { BUDGET_PERIOD_LABELS, BudgetStatus } from '../services/budgets';
+import { accountType, formatAccount } from '../services/chartOfAccounts';
+
+interface BudgetProgressProps {
+  statuses: BudgetStatus[];
+  chart: ChartAccount[];
+  onManage: () => void;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+// Gastos: verde até 80%, âmbar até 100%, vermelho acima; receitas ficam sempre a azul
+const barColor = (status: BudgetStatus) => {
+  if (accountType(status.budget.category) === 'income') return 'bg-blue-500';
+  if (status.usedPct > 100) return 'bg-rose-500';
+  return status.usedPct > 80 ? 'bg-amber-500' : 'bg-emerald-500';
+};
+
+const BudgetProgress: React.FC<BudgetProgressProps> = ({ statuses, chart, onManage }) => (
+  <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+    <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+      <h3 className="font-semibold text-slate-800">Execução Orçamental</h3>
+      <button onClick={onManage} className="text-xs text-blue-600 hover:underline font-medium">Gerir orçamentos</button>
+    </div>
+    <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+      {statuses.map(s => (
+        <div key={s.budget.id}>
+          <div className="flex justify-between text-xs mb-1">
+            <span className="font-medium text-slate-700 truncate">
+              {formatAccount(chart, s.budget.category)}
+              <span className="ml-1 text-slate-400">({BUDGET_PERIOD_LABELS[s.budget.period].toLowerCase()})</span>
+            </span>
+            <span className={s.exceeded ? 'text-rose-600 font-semibold' : 'text-slate-500'}>
+              {formatMZN(s.actual)} / {formatMZN(s.budget.amount)}
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+            <div className={`h-full rounded-full ${barColor(s)}`} style={{ width: `${Math.min(100, s.usedPct)}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default BudgetProgress;
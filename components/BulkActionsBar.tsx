@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Download, Trash2, X } from 'lucide-react';
+import { CashAccount, ChartAccount } from '../types';
+import { normalizeTag } from '../services/transactionQuery';
+import { toDateKey } from '../services/recurring';
+import AccountSelect from './AccountSelect';
+
+type BulkAction = 'category' | 'date' | 'account' | 'tags';
+
+const ACTION_LABELS: Record<BulkAction, string> = {
+  category: 'Recategorizar',
+  date: 'Alterar data',
+  account: 'Atribuir conta',
+  tags: 'Adicionar etiquetas',
+};
+
+interface BulkActionsBarProps {
+  count: number;
+  chart: ChartAccount[];
+  accounts: CashAccount[];
+  tagSuggestions: string[];
+  // Cada ação devolve quantas transações foram ignoradas por não se aplicar (ex.: transferências)
+  onRecategorize: (code: string) => number;
+  onSetDate: (dateKey: string) => number;
+  onSetAccount: (accountId: string) => number;
+  onAddTags: (tags: string[]) => number;
+  onDelete: () => void;
+  onExport: () => void;
+  onClear: () => void;
+}
+
+// Barra de ações sobre as transações selecionadas no Histórico
+const BulkActionsBar: React.FC<BulkActionsBarProps> = ({
+  count, chart, accounts, tagSuggestions, onRecategorize, onSetDate, onSetAccount, onAddTags, onDelete, onExport, onClear,
+}) => {
+  const [action, setAction] = useState<BulkAction>('category');
+  const [category, setCategory] = useState('all');
+  const [date, setDate] = useState(toDateKey(new Date()));
+  const [accountId, setAccountId] = useState(accounts[0]?.id || '');
+  const [tags, setTags] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const parsedTags = tags.split(/[,\s]+/).map(normalizeTag).filter(Boolean);
+  const ready = action === 'category' ? category !== 'all'
+    : action === 'date' ? !!date
+    : action === 'account' ? !!accountId
+    : parsedTags.length > 0;
+
+  const handleApply = () => {
+    const skipped = action === 'category' ? onRecategorize(category)
+      : action === 'date' ? onSetDate(date)
+      : action === 'account' ? onSetAccount(accountId)
+      : onAddTags(parsedTags);
+    const applied = count - skipped;
+    setNotice(`${ACTION_LABELS[action]}: ${applied} alterada(s)${skipped > 0 ? `, ${skipped} ignorada(s) (transferências ou tipo diferente da conta)` : ''}.`);
+    if (action === 'tags') setTags('');
+  };
+
+  return (
+    <div className="px-6 py-3 border-b border-blue-100 bg-blue-50 text-xs space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-semibold text-blue-800">{count} selecionada(s)</span>
+        <select value={action} onChange={(e) => setAction(e.target.value as BulkAction)} className="px-2 py-1.5 border border-slate-300 rounded-md bg-white">
+          {(Object.keys(ACTION_LABELS) as BulkAction[]).map(a => <option key={a} value={a}>{ACTION_LABELS[a]}</option>)}
+        </select>
+        {action === 'category' && (
+          <AccountSelect chart={chart} value={category} onChange={setCategory} allLabel="Escolha a conta..." className="px-2 py-1.5 border border-slate-300 rounded-md bg-white max-w-xs" />
+        )}
+        {action === 'date' && (
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="px-2 py-1.5 border border-slate-300 rounded-md" />
+        )}
+        {action === 'account' && (
+          <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className="px-2 py-1.5 border border-slate-300 rounded-md bg-white">
+            {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+        )}
+        {action === 'tags' && (
+          <>
+            <input
+              type="text"
+              list="bulk-tag-suggestions"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="obra-matola, viatura"
+              className="w-48 px-2 py-1.5 border border-slate-300 rounded-md"
+            />
+            <datalist id="bulk-tag-suggestions">
+              {tagSuggestions.map(s => <option key={s} value={s} />)}
+            </datalist>
+          </>
+        )}
+        <button
+          onClick={handleApply}
+          disabled={!ready}
+          className="px-3 py-1.5 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          Aplicar
+        </button>
+
+        <div className="ml-auto flex items-center gap-4">
+          <button onClick={onExport} className="flex items-center gap-1 text-slate-700 hover:text-blue-700">
+            <Download size={14} />
+            Exportar
+          </button>
+          <button onClick={onDelete} className="flex items-center gap-1 text-red-600 hover:text-red-800">
+            <Trash2 size={14} />
+            Excluir
+          </button>
+          <button onClick={onClear} title="Limpar seleção" className="text-slate-400 hover:text-slate-700">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+      {notice && <p className="text-blue-800">{notice}</p>}
+    </div>
+  );
+};
+
+export default BulkActionsBar;
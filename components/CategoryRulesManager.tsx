@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2 } from 'lucide-react';
+import { CategoryRule, ChartAccount, Transaction } from '../types';
+import { formatAccount } from '../services/chartOfAccounts';
+import { previewRule, ruleError } from '../services/categoryRules';
+import { normalizeTag } from '../services/transactionQuery';
+import AccountSelect from './AccountSelect';
+
+interface CategoryRulesManagerProps {
+  rules: CategoryRule[];
+  chart: ChartAccount[];
+  transactions: Transaction[];
+  onChange: (rules: CategoryRule[]) => void;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-md bg-white';
+
+const EMPTY_RULE: CategoryRule = { id: '', name: '', enabled: true, match: 'contains', pattern: '', category: 'all' };
+
+const MAX_PREVIEW = 8;
+
+const describeRule = (rule: CategoryRule) => [
+  rule.match === 'regex' ? `/${rule.pattern}/` : `contém "${rule.pattern}"`,
+  rule.type === 'income' ? 'receitas' : rule.type === 'expense' ? 'despesas' : '',
+  rule.minAmount !== undefined ? `≥ ${formatMZN(rule.minAmount)}` : '',
+  rule.maxAmount !== undefined ? `≤ ${formatMZN(rule.maxAmount)}` : '',
+].filter(Boolean).join(', ');
+
+// Regras de categorização: a primeira regra ativa que corresponde à descrição, tipo e valor define a conta
+const CategoryRulesManager: React.FC<CategoryRulesManagerProps> = ({ rules, chart, transactions, onChange }) => {
+  const [draft, setDraft] = useState<CategoryRule | null>(null);
+  const [tagsText, setTagsText] = useState('');
+
+  const startEdit = (rule: CategoryRule) => {
+    setDraft(rule);
+    setTagsText((rule.tags || []).join(', '));
+  };
+
+  const amountField = (value: string) => (value === '' ? undefined : Number(value));
+  const error = draft ? ruleError(draft) || (draft.name.trim() ? null : 'Dê um nome à regra.') : null;
+  const preview = draft && !ruleError(draft) ? previewRule(draft, transactions) : null;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || error) return;
+    const tags = tagsText.split(/[,\s]+/).map(normalizeTag).filter(Boolean);
+    const rule: CategoryRule = { ...draft, name: draft.name.trim(), tags: tags.length > 0 ? tags : undefined, id: draft.id || crypto.randomUUID() };
+    onChange(draft.id ? rules.map(r => (r.id === draft.id ? rule : r)) : [...rules, rule]);
+    setDraft(null);
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...rules];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-slate-800">Regras de Categorização</h3>
+          <p className="text-xs text-slate-500 mt-1">
+            Aplicadas por ordem às importações e às transações em "Outros"; sem regra, vale o que foi aprendido com o histórico.
+          </p>
+        </div>
+        {!draft && (
+          <button onClick={() => startEdit(EMPTY_RULE)} className="flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-800">
+            <Plus size={16} />
+            Nova regra
+          </button>
+        )}
+      </div>
+
+      {rules.length === 0 && !draft && <p className="px-6 py-4 text-sm text-slate-500">Ainda não há regras.</p>}
+      <div className="divide-y divide-slate-100 text-sm">
+        {rules.map((rule, index) => (
+          <div key={rule.id} className={`px-6 py-2 flex items-center gap-4 ${rule.enabled ? '' : 'opacity-50'}`}>
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(e) => onChange(rules.map(r => (r.id === rule.id ? { ...r, enabled: e.target.checked } : r)))}
+              title="Ativa"
+              className="rounded border-slate-300"
+            />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-slate-800 truncate">{rule.name}</p>
+              <p className="text-xs text-slate-500 truncate">
+                {describeRule(rule)} → {formatAccount(chart, rule.category)}
+                {rule.tags && rule.tags.length > 0 && ` ${rule.tags.map(t => `#${t}`).join(' ')}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 text-slate-400">
+              <button onClick={() => move(index, -1)} disabled={index === 0} title="Subir prioridade" className="hover:text-slate-700 disabled:opacity-30">
+                <ArrowUp size={14} />
+              </button>
+              <button onClick={() => move(index, 1)} disabled={index === rules.length - 1} title="Descer prioridade" className="hover:text-slate-700 disabled:opacity-30">
+                <ArrowDown size={14} />
+              </button>
+              <button onClick={() => startEdit(rule)} title="Editar" className="hover:text-blue-600">
+                <Pencil size={14} />
+              </button>
+              <button
+                onClick={() => window.confirm(`Eliminar a regra "${rule.name}"?`) && onChange(rules.filter(r => r.id !== rule.id))}
+                title="Eliminar"
+                className="hover:text-red-600"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSave} className="p-4 border-t border-slate-100 space-y-3 text-sm">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Nome</label>
+              <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="ex.: Combustível" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Descrição</label>
+              <select value={draft.match} onChange={(e) => setDraft({ ...draft, match: e.target.value as CategoryRule['match'] })} className={inputClass}>
+                <option value="contains">Contém o texto</option>
+                <option value="regex">Expressão regular</option>
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-medium text-slate-500 mb-1">{draft.match === 'regex' ? 'Expressão' : 'Texto'}</label>
+              <input
+                type="text"
+                value={draft.pattern}
+                onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+                placeholder={draft.match === 'regex' ? '^(galp|petromoc)\\b' : 'galp'}
+                className={`${inputClass} ${draft.match === 'regex' ? 'font-mono' : ''}`}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Tipo</label>
+              <select
+                value={draft.type || ''}
+                onChange={(e) => setDraft({ ...draft, type: (e.target.value || undefined) as CategoryRule['type'] })}
+                className={inputClass}
+              >
+                <option value="">Receitas e despesas</option>
+                <option value="expense">Despesas</option>
+                <option value="income">Receitas</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Valor mínimo</label>
+              <input type="number" step="0.01" min="0" value={draft.minAmount ?? ''} onChange={(e) => setDraft({ ...draft, minAmount: amountField(e.target.value) })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Valor máximo</label>
+              <input type="number" step="0.01" min="0" value={draft.maxAmount ?? ''} onChange={(e) => setDraft({ ...draft, maxAmount: amountField(e.target.value) })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Etiquetas</label>
+              <input type="text" value={tagsText} onChange={(e) => setTagsText(e.target.value)} placeholder="viatura, frota" className={inputClass} />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-medium text-slate-500 mb-1">Conta PGC-NIRF</label>
+              <AccountSelect
+                chart={chart}
+                value={draft.category}
+                onChange={(category) => setDraft({ ...draft, category })}
+                allLabel="Escolha a conta..."
+                type={draft.type || 'all'}
+                className={inputClass}
+              />
+            </div>
+            <div className="md:col-span-2 flex gap-3 justify-end">
+              <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">
+                Cancelar
+              </button>
+              <button type="submit" disabled={!!error} className="px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50">
+                Guardar regra
+              </button>
+            </div>
+          </div>
+          {error && <p className="text-xs text-rose-600">{error}</p>}
+
+          {preview && (
+            <div className="text-xs text-slate-600 bg-slate-50 border border-slate-200 rounded-md p-3 space-y-1">
+              <p className="font-medium text-slate-700">
+                Em "Outros", esta regra classificaria {preview.changes.length} {preview.changes.length === 1 ? 'transação' : 'transações'}
+                {preview.conflicting > 0 && ` (${preview.conflicting} já classificada(s) noutra conta também correspondem e não são alteradas)`}.
+              </p>
+              {preview.changes.slice(0, MAX_PREVIEW).map(t => (
+                <p key={t.id} className="flex justify-between gap-4">
+                  <span className="truncate">{new Date(t.date).toLocaleDateString('pt-MZ')} {t.description}</span>
+                  <span className="shrink-0">{formatMZN(t.amount)} → {draft.category}</span>
+                </p>
+              ))}
+              {preview.changes.length > MAX_PREVIEW && <p className="text-slate-400">+ {preview.changes.length - MAX_PREVIEW} transação(ões)</p>}
+            </div>
+          )}
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default CategoryRulesManager;
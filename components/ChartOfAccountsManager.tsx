@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { ChartAccount } from '../types';
+import { UNCATEGORIZED_CODE, accountDepth, getAccount, nextChildCode } from '../services/chartOfAccounts';
+
+interface ChartOfAccountsManagerProps {
+  chart: ChartAccount[];
+  usedCodes: Set<string>;
+  onAdd: (account: ChartAccount) => void;
+  onRemove: (code: string) => void;
+}
+
+const ChartOfAccountsManager: React.FC<ChartOfAccountsManagerProps> = ({ chart, usedCodes, onAdd, onRemove }) => {
+  const [parentCode, setParentCode] = useState('6.3');
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const parents = chart.filter(a => a.code !== UNCATEGORIZED_CODE);
+  const suggestedCode = nextChildCode(chart, parentCode);
+
+  const handleAdd = () => {
+    const finalCode = (code || suggestedCode).trim();
+    if (!name.trim()) {
+      setError('Indique o nome da conta.');
+      return;
+    }
+    if (!finalCode.startsWith(`${parentCode}.`) || !/^\d+(\.\d+)*$/.test(finalCode)) {
+      setError(`O código deve ser numérico e começar por ${parentCode}.`);
+      return;
+    }
+    if (getAccount(chart, finalCode)) {
+      setError(`Já existe uma conta com o código ${finalCode}.`);
+      return;
+    }
+    onAdd({ code: finalCode, name: name.trim(), parentCode, custom: true });
+    setCode('');
+    setName('');
+    setError(null);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="font-semibold text-slate-800">Plano de Contas (PGC-NIRF)</h3>
+        <p className="text-xs text-slate-500 mt-1">Acrescente subcontas próprias; os filtros e totais incluem automaticamente as contas-filhas.</p>
+      </div>
+
+      <div className="p-4 border-b border-slate-100 grid grid-cols-1 md:grid-cols-4 gap-3 items-end text-sm">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Conta-mãe</label>
+          <select
+            value={parentCode}
+            onChange={(e) => setParentCode(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-md bg-white"
+          >
+            {parents.map(a => <option key={a.code} value={a.code}>{a.code} - {a.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Código</label>
+          <input
+            type="text"
+            placeholder={suggestedCode}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Nome</label>
+          <input
+            type="text"
+            placeholder="ex.: Vigilância e Segurança"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-md"
+          />
+        </div>
+        <button
+          onClick={handleAdd}
+          className="flex items-center justify-center gap-2 px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+        >
+          <Plus size={16} />
+          Adicionar Subconta
+        </button>
+        {error && <p className="md:col-span-4 text-xs text-rose-600">{error}</p>}
+      </div>
+
+      <div className="max-h-[420px] overflow-auto divide-y divide-slate-100 text-sm">
+        {chart.map(a => (
+          <div key={a.code} className="px-6 py-2 flex items-center justify-between hover:bg-slate-50 group">
+            <div style={{ paddingLeft: accountDepth(a.code) * 20 }} className={a.parentCode === null ? 'font-semibold text-slate-800' : 'text-slate-700'}>
+              <span className="font-mono text-xs text-slate-500 mr-2">{a.code}</span>
+              {a.name}
+              {a.custom && <span className="ml-2 text-[10px] uppercase text-blue-600">personalizada</span>}
+            </div>
+            {a.custom && (
+              <button
+                onClick={() => onRemove(a.code)}
+                disabled={usedCodes.has(a.code) || chart.some(c => c.parentCode === a.code)}
+                title={usedCodes.has(a.code) ? 'Conta com movimentos - não pode ser removida' : 'Remover conta'}
+                className="text-slate-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-slate-400 opacity-0 group-hover:opacity-100"
+              >
+                <Trash2 size={14} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ChartOfAccountsManager;
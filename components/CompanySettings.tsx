@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { CompanyProfile } from '../types';
+import { isValidNuit } from '../services/company';
+
+interface CompanySettingsProps {
+  company: CompanyProfile;
+  onChange: (company: CompanyProfile) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-md bg-white';
+
+// O logótipo fica no localStorage com os restantes dados da empresa
+const MAX_LOGO_SIZE = 200 * 1024;
+
+const CompanySettings: React.FC<CompanySettingsProps> = ({ company, onChange }) => {
+  const [logoError, setLogoError] = useState<string | null>(null);
+
+  const handleLogo = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      setLogoError('O logótipo deve ser uma imagem PNG ou JPEG.');
+      return;
+    }
+    if (file.size > MAX_LOGO_SIZE) {
+      setLogoError('O logótipo não pode exceder 200 KB.');
+      return;
+    }
+    setLogoError(null);
+    const reader = new FileReader();
+    reader.onload = () => onChange({ ...company, logo: String(reader.result) });
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="font-semibold text-slate-800">Dados da Empresa</h3>
+        <p className="text-xs text-slate-500 mt-1">Aparecem no cabeçalho dos relatórios exportados em Excel e PDF (o logótipo apenas no PDF).</p>
+      </div>
+      <div className="p-4 grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Denominação</label>
+          <input type="text" value={company.name} onChange={(e) => onChange({ ...company, name: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">NUIT</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            maxLength={9}
+            placeholder="9 dígitos"
+            value={company.nuit}
+            onChange={(e) => onChange({ ...company, nuit: e.target.value.replace(/\D/g, '') })}
+            className={inputClass}
+          />
+          {company.nuit && !isValidNuit(company.nuit) && <p className="text-xs text-rose-600 mt-1">O NUIT deve ter 9 dígitos.</p>}
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Endereço</label>
+          <input type="text" value={company.address || ''} onChange={(e) => onChange({ ...company, address: e.target.value })} className={inputClass} />
+        </div>
+      </div>
+      <div className="px-4 pb-4 flex items-center gap-4 text-sm">
+        {company.logo && <img src={company.logo} alt="Logótipo" className="h-12 max-w-[8rem] object-contain border border-slate-200 rounded" />}
+        <label className="text-xs font-medium text-blue-600 hover:text-blue-800 underline cursor-pointer">
+          {company.logo ? 'Substituir logótipo' : 'Carregar logótipo (PNG/JPEG)'}
+          <input type="file" accept="image/png,image/jpeg" onChange={handleLogo} className="hidden" />
+        </label>
+        {company.logo && (
+          <button onClick={() => onChange({ ...company, logo: undefined })} className="text-xs text-slate-500 hover:text-red-600 underline">
+            Remover
+          </button>
+        )}
+        {logoError && <span className="text-xs text-rose-600">{logoError}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default CompanySettings;
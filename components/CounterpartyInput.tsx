@@ -0,0 +1,38 @@
+import React from 'react';
+import { Counterparty } from '../types';
+import { COUNTERPARTY_KIND_LABELS } from '../services/counterparties';
+
+interface CounterpartyInputProps {
+  id: string; // usado para ligar o campo à lista de sugestões
+  directory: Counterparty[];
+  value: string;
+  onChange: (name: string) => void;
+  placeholder?: string;
+  required?: boolean;
+  className?: string;
+}
+
+// Campo de texto livre com sugestões do diretório de clientes e fornecedores
+const CounterpartyInput: React.FC<CounterpartyInputProps> = ({ id, directory, value, onChange, placeholder, required, className }) => (
+  <>
+    <input
+      type="text"
+      list={`${id}-options`}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      required={required}
+      autoComplete="off"
+      className={className || 'w-full px-3 py-2 border border-slate-300 rounded-md bg-white'}
+    />
+    <datalist id={`${id}-options`}>
+      {directory.map(c => (
+        <option key={c.id} value={c.name}>
+          {COUNTERPARTY_KIND_LABELS[c.kind]}{c.nuit ? ` • NUIT ${c.nuit}` : ''}
+        </option>
+      ))}
+    </datalist>
+  </>
+);
+
+export default CounterpartyInput;
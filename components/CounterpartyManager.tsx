@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Pencil, Link2 } from 'lucide-react';
+import { Counterparty, CounterpartyKind, Transaction } from '../types';
+import { COUNTERPARTY_KIND_LABELS, findCounterparty, unlinkedMatches } from '../services/counterparties';
+import { isValidNuit } from '../services/company';
+
+interface CounterpartyManagerProps {
+  counterparties: Counterparty[];
+  transactions: Transaction[];
+  onSave: (counterparty: Counterparty) => void;
+  onRemove: (id: string) => void;
+  onLink: (counterparty: Counterparty, transactions: Transaction[]) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-md bg-white';
+
+const EMPTY_FORM = { name: '', kind: 'supplier' as CounterpartyKind, nuit: '', email: '', phone: '', address: '', aliases: '' };
+
+const CounterpartyManager: React.FC<CounterpartyManagerProps> = ({ counterparties, transactions, onSave, onRemove, onLink }) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const linkedCount = (c: Counterparty) => transactions.filter(t => t.counterpartyId === c.id && !t.deletedAt).length;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = form.name.trim();
+    if (!name) {
+      setError('Indique o nome.');
+      return;
+    }
+    if (form.nuit && !isValidNuit(form.nuit)) {
+      setError('O NUIT deve ter 9 dígitos.');
+      return;
+    }
+    const aliases = form.aliases.split(',').map(a => a.trim()).filter(Boolean);
+    const others = counterparties.filter(c => c.id !== editingId);
+    const clash = [name, ...aliases].map(n => findCounterparty(others, n)).find(Boolean);
+    if (clash) {
+      setError(`"${clash.name}" já usa este nome ou nome alternativo.`);
+      return;
+    }
+    onSave({
+      id: editingId || crypto.randomUUID(),
+      name,
+      kind: form.kind,
+      nuit: form.nuit || undefined,
+      email: form.email.trim() || undefined,
+      phone: form.phone.trim() || undefined,
+      address: form.address.trim() || undefined,
+      aliases,
+    });
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setError(null);
+  };
+
+  const startEdit = (c: Counterparty) => {
+    setEditingId(c.id);
+    setForm({
+      name: c.name,
+      kind: c.kind,
+      nuit: c.nuit || '',
+      email: c.email || '',
+      phone: c.phone || '',
+      address: c.address || '',
+      aliases: c.aliases.join(', '),
+    });
+    setError(null);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setError(null);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="font-semibold text-slate-800">Clientes e Fornecedores</h3>
+        <p className="text-xs text-slate-500 mt-1">
+          Os nomes alternativos agrupam as variações das descrições (ex.: "VODACOM MZ", "Vodacom Moç.") na mesma contraparte.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-4 border-b border-slate-100 grid grid-cols-1 md:grid-cols-4 gap-3 items-end text-sm">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Nome</label>
+          <input type="text" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClass} required />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Tipo</label>
+          <select value={form.kind} onChange={(e) => setForm({ ...form, kind: e.target.value as CounterpartyKind })} className={inputClass}>
+            {Object.entries(COUNTERPARTY_KIND_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">NUIT</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            maxLength={9}
+            placeholder="9 dígitos"
+            value={form.nuit}
+            onChange={(e) => setForm({ ...form, nuit: e.target.value.replace(/\D/g, '') })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Telefone</label>
+          <input type="tel" value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Email</label>
+          <input type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Endereço</label>
+          <input type="text" value={form.address} onChange={(e) => setForm({ ...form, address: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Nomes alternativos</label>
+          <input
+            type="text"
+            placeholder="separados por vírgulas"
+            value={form.aliases}
+            onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex gap-2">
+          <button type="submit" className="flex-1 flex items-center justify-center gap-2 px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700">
+            <Plus size={16} />
+            {editingId ? 'Guardar' : 'Adicionar'}
+          </button>
+          {editingId && (
+            <button type="button" onClick={cancelEdit} className="px-3 py-2 font-medium text-slate-600 hover:text-slate-800">Cancelar</button>
+          )}
+        </div>
+        {error && <p className="md:col-span-4 text-xs text-rose-600">{error}</p>}
+      </form>
+
+      <div className="divide-y divide-slate-100 text-sm">
+        {[...counterparties].sort((a, b) => a.name.localeCompare(b.name)).map(c => {
+          const linked = linkedCount(c);
+          const matches = unlinkedMatches(c, transactions);
+          return (
+            <div key={c.id} className="px-6 py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-medium text-slate-800">{c.name}</p>
+                <p className="text-xs text-slate-500 truncate">
+                  {COUNTERPARTY_KIND_LABELS[c.kind]}
+                  {c.nuit && ` • NUIT ${c.nuit}`}
+                  {c.phone && ` • ${c.phone}`}
+                  {c.email && ` • ${c.email}`}
+                  {c.aliases.length > 0 && ` • também: ${c.aliases.join(', ')}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-4 shrink-0">
+                <span className="text-xs text-slate-500">{linked} movimento(s)</span>
+                {matches.length > 0 && (
+                  <button
+                    onClick={() => onLink(c, matches)}
+                    title="Associar os movimentos cuja descrição menciona este nome"
+                    className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:underline"
+                  >
+                    <Link2 size={14} /> Associar {matches.length}
+                  </button>
+                )}
+                <button onClick={() => startEdit(c)} title="Editar" className="text-slate-400 hover:text-blue-600">
+                  <Pencil size={14} />
+                </button>
+                <button
+                  onClick={() => onRemove(c.id)}
+                  disabled={linked > 0}
+                  title={linked > 0 ? 'Com movimentos associados' : 'Remover'}
+                  className="text-slate-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-slate-400"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        {counterparties.length === 0 && <div className="px-6 py-6 text-center text-slate-400">Nenhum cliente ou fornecedor registado.</div>}
+      </div>
+    </div>
+  );
+};
+
+export default CounterpartyManager;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { ChartAccount, Counterparty, OpenItem, Transaction } from '../types';
+import { COUNTERPARTY_KIND_LABELS, counterpartyStatement } from '../services/counterparties';
+import { OPEN_ITEM_STATUS_LABELS, openItemStatus, outstandingAmount } from '../services/openItems';
+import { formatAccount } from '../services/chartOfAccounts';
+import { PeriodRange, formatRange } from '../services/periods';
+
+interface CounterpartyStatementProps {
+  counterparties: Counterparty[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  transactions: Transaction[];
+  openItems: OpenItem[];
+  allTransactions: Transaction[]; // inclui pagamentos para o saldo das faturas
+  chart: ChartAccount[];
+  range: PeriodRange;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const formatDay = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('pt-MZ');
+};
+
+// Extrato por cliente/fornecedor: movimentos do período do relatório, totais e faturas associadas
+const CounterpartyStatement: React.FC<CounterpartyStatementProps> = ({
+  counterparties,
+  selectedId,
+  onSelect,
+  transactions,
+  openItems,
+  allTransactions,
+  chart,
+  range,
+}) => {
+  const selected = counterparties.find(c => c.id === selectedId);
+  const statement = selected ? counterpartyStatement(selected, transactions, openItems, range) : null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 flex flex-wrap justify-between items-center gap-3 print:bg-white">
+        <h3 className="font-bold text-slate-800">
+          Extrato por Cliente / Fornecedor
+          <span className="block text-xs font-normal text-slate-500 mt-1">{formatRange(range)}</span>
+        </h3>
+        <select
+          value={selectedId}
+          onChange={(e) => onSelect(e.target.value)}
+          className="px-3 py-2 text-sm border border-slate-300 rounded-md bg-white print:hidden"
+        >
+          <option value="">Escolha uma contraparte...</option>
+          {[...counterparties].sort((a, b) => a.name.localeCompare(b.name)).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+      </div>
+
+      {!selected && (
+        <div className="px-6 py-8 text-center text-sm text-slate-400">
+          {counterparties.length === 0 ? 'Registe clientes e fornecedores em Configurações.' : 'Escolha um cliente ou fornecedor para ver o extrato.'}
+        </div>
+      )}
+
+      {selected && statement && (
+        <>
+          <div className="px-6 py-3 text-xs text-slate-500 border-b border-slate-100">
+            {COUNTERPARTY_KIND_LABELS[selected.kind]}
+            {selected.nuit && ` • NUIT ${selected.nuit}`}
+            {selected.address && ` • ${selected.address}`}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <th className="px-6 py-3 font-semibold">Data</th>
+                  <th className="px-6 py-3 font-semibold">Descrição</th>
+                  <th className="px-6 py-3 font-semibold">Categoria (PGC)</th>
+                  <th className="px-6 py-3 font-semibold text-right">Recebido</th>
+                  <th className="px-6 py-3 font-semibold text-right">Pago</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {statement.movements.map(t => (
+                  <tr key={t.id}>
+                    <td className="px-6 py-2 text-slate-600">{new Date(t.date).toLocaleDateString('pt-MZ')}</td>
+                    <td className="px-6 py-2 text-slate-800">{t.description}</td>
+                    <td className="px-6 py-2 text-slate-600">{formatAccount(chart, t.category)}</td>
+                    <td className="px-6 py-2 text-right text-emerald-600">{t.type === 'income' ? formatMZN(t.amount) : '-'}</td>
+                    <td className="px-6 py-2 text-right text-rose-600">{t.type === 'expense' ? formatMZN(t.amount) : '-'}</td>
+                  </tr>
+                ))}
+                {statement.movements.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-6 text-center text-slate-400">Sem movimentos no período.</td>
+                  </tr>
+                )}
+              </tbody>
+              <tfoot className="bg-slate-50 border-t border-slate-200 font-bold text-slate-800">
+                <tr>
+                  <td colSpan={3} className="px-6 py-3 text-right uppercase text-xs tracking-wider">Totais do Período</td>
+                  <td className="px-6 py-3 text-right text-emerald-600">{formatMZN(statement.received)}</td>
+                  <td className="px-6 py-3 text-right text-rose-600">{formatMZN(statement.paid)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          {statement.openItems.length > 0 && (
+            <div className="px-6 py-4 border-t border-slate-200 text-xs">
+              <p className="font-semibold text-slate-700 mb-2">Faturas</p>
+              <div className="space-y-1">
+                {statement.openItems.map(item => (
+                  <div key={item.id} className="flex justify-between gap-4 text-slate-600">
+                    <span>{item.reference || item.description} • vence {formatDay(item.dueDate)} • {OPEN_ITEM_STATUS_LABELS[openItemStatus(item, allTransactions)]}</span>
+                    <span className="font-medium text-slate-800">{formatMZN(outstandingAmount(item, allTransactions))} em aberto</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CounterpartyStatement;
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { ExchangeRate, Transaction } from '../types';
+import { BASE_CURRENCY, CURRENCIES, currencyFields, formatMoney, isForeign, rateOn, toBase } from '../services/currency';
+import { toDateKey } from '../services/recurring';
+
+interface CurrencyEditorProps {
+  transaction: Transaction;
+  rates: ExchangeRate[];
+  onSave: (fields: ReturnType<typeof currencyFields>) => void;
+}
+
+// Moeda original de uma transação: o valor em MZN passa a ser o valor original convertido à taxa indicada
+const CurrencyEditor: React.FC<CurrencyEditorProps> = ({ transaction, rates, onSave }) => {
+  const [currency, setCurrency] = useState(transaction.currency || BASE_CURRENCY);
+  const [original, setOriginal] = useState(String(transaction.originalAmount ?? transaction.amount));
+  const [rate, setRate] = useState(transaction.exchangeRate ? String(transaction.exchangeRate) : '');
+  // A tabela de câmbios usa o dia local do movimento
+  const day = toDateKey(new Date(transaction.date));
+
+  useEffect(() => {
+    setCurrency(transaction.currency || BASE_CURRENCY);
+    setOriginal(String(transaction.originalAmount ?? transaction.amount));
+    setRate(transaction.exchangeRate ? String(transaction.exchangeRate) : '');
+  }, [transaction]);
+
+  const handleCurrencyChange = (value: string) => {
+    setCurrency(value);
+    const suggested = rateOn(rates, value, day);
+    setRate(isForeign(value) && suggested ? String(suggested) : '');
+  };
+
+  const originalValue = Number(original.replace(',', '.'));
+  const rateValue = Number(rate.replace(',', '.'));
+  const foreign = isForeign(currency);
+  const invalid = !(originalValue > 0) || (foreign && !(rateValue > 0));
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 text-xs">
+      <div>
+        <label className="block font-medium text-slate-500 mb-1">Moeda</label>
+        <select value={currency} onChange={(e) => handleCurrencyChange(e.target.value)} className="px-2 py-1.5 border border-slate-300 rounded-md bg-white">
+          {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+        </select>
+      </div>
+      {foreign && (
+        <>
+          <div>
+            <label className="block font-medium text-slate-500 mb-1">Valor ({currency})</label>
+            <input type="number" step="0.01" value={original} onChange={(e) => setOriginal(e.target.value)} className="w-28 px-2 py-1.5 border border-slate-300 rounded-md" />
+          </div>
+          <div>
+            <label className="block font-medium text-slate-500 mb-1">Taxa (MZN)</label>
+            <input type="number" step="0.0001" value={rate} onChange={(e) => setRate(e.target.value)} className="w-24 px-2 py-1.5 border border-slate-300 rounded-md" />
+          </div>
+          {!invalid && <span className="pb-2 text-slate-500">= {formatMoney(toBase(originalValue, rateValue))}</span>}
+          {!rateOn(rates, currency, day) && <span className="pb-2 text-amber-600">Sem taxa na tabela para esta data.</span>}
+        </>
+      )}
+      <button
+        onClick={() => onSave(currencyFields(currency, foreign ? originalValue : transaction.amount, rateValue))}
+        disabled={invalid}
+        className="px-3 py-1.5 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+      >
+        Guardar moeda
+      </button>
+    </div>
+  );
+};
+
+export default CurrencyEditor;
@@ -0,0 +1,395 @@
+import React, { useMemo, useState } from 'react';
+import { Plus, Minus, Download, Calendar, ArrowRightLeft, CalendarClock } from 'lucide-react';
+import {
+  AIAnalysisResult,
+  AIInsight,
+  AISettings,
+  CashAccount,
+  ChartAccount,
+  Counterparty,
+  ExpectedEntry,
+  ForecastSnapshot,
+  LedgerQuery,
+  OpenItem,
+  RecurringTemplate,
+  Transaction,
+} from '../types';
+import { analyzeWithAI, askLedger, buildAIRequest, createAIProvider } from '../services/ai';
+import { answerQuery } from '../services/ledgerQuestions';
+import { formatAccount } from '../services/chartOfAccounts';
+import { BackupSettings, isBackupDue } from '../services/backup';
+import { BudgetStatus } from '../services/budgets';
+import { buildForecast } from '../services/forecast';
+import { expectedFromOpenItems } from '../services/openItems';
+import {
+  PERIOD_LABELS,
+  PREVIOUS_LABELS,
+  PeriodPreset,
+  PeriodSelection,
+  formatRange,
+  isInPeriod,
+  percentChange,
+  previousPeriod,
+  resolvePeriod
+} from '../services/periods';
+import SummaryCard from './SummaryCard';
+import Charts from './Charts';
+import AIInsightsPanel from './AIInsightsPanel';
+import LedgerChat from './LedgerChat';
+import ForecastChart from './ForecastChart';
+import ForecastPanel from './ForecastPanel';
+import BudgetProgress from './BudgetProgress';
+
+// Vista do cartão "Fluxo de Saldo": período selecionado ou previsão a N dias
+type BalanceView = 'period' | 'forecast30' | 'forecast90' | 'forecast365';
+
+const FORECAST_HORIZONS: Partial<Record<BalanceView, number>> = { forecast30: 30, forecast90: 90, forecast365: 365 };
+
+// Separadores para onde o painel encaminha
+type DashboardLink = 'history' | 'recurring' | 'budgets' | 'settings';
+
+interface DashboardTabProps {
+  transactions: Transaction[]; // confirmadas e não eliminadas
+  allTransactions: Transaction[];
+  pending: Transaction[]; // recorrentes por confirmar
+  templates: RecurringTemplate[];
+  openItems: OpenItem[];
+  accounts: CashAccount[];
+  balances: Map<string, number>;
+  chart: ChartAccount[];
+  counterparties: Counterparty[];
+  fiscalYearStart: number;
+  budgets: BudgetStatus[];
+  // O período e o resultado da análise ficam na aplicação para sobreviverem à troca de separador
+  period: PeriodSelection;
+  onPeriodChange: (period: PeriodSelection) => void;
+  expectedEntries: ExpectedEntry[];
+  onExpectedEntriesChange: (entries: ExpectedEntry[]) => void;
+  forecastSnapshots: ForecastSnapshot[];
+  onForecastSnapshotsChange: (snapshots: ForecastSnapshot[]) => void;
+  aiSettings: AISettings;
+  onAiSettingsChange: (settings: AISettings) => void;
+  aiResult: AIAnalysisResult;
+  onAiResultChange: (result: AIAnalysisResult) => void;
+  onApplyAICategory?: (insight: AIInsight) => void; // ausente sem permissão de edição
+  backupSettings: BackupSettings;
+  onBackup: () => void;
+  categoryLabel: (t: Transaction) => string;
+  onNavigate: (tab: DashboardLink) => void;
+  onShowInHistory: (transactionIds: string[]) => void;
+  onOpenQueryInHistory: (query: LedgerQuery) => void;
+  onOpenQueryInReports: (query: LedgerQuery) => void;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const amountClass = (t: Transaction) =>
+  t.type === 'income' ? 'text-emerald-600' : t.type === 'expense' ? 'text-rose-600' : 'text-slate-600';
+
+const amountSign = (t: Transaction) => (t.type === 'income' ? '+ ' : t.type === 'expense' ? '- ' : '');
+
+// Separador Visão Geral: cartões do período, saldo e previsão, análise de IA, orçamentos e últimas movimentações
+const DashboardTab: React.FC<DashboardTabProps> = ({
+  transactions,
+  allTransactions,
+  pending,
+  templates,
+  openItems,
+  accounts,
+  balances,
+  chart,
+  counterparties,
+  fiscalYearStart,
+  budgets,
+  period,
+  onPeriodChange,
+  expectedEntries,
+  onExpectedEntriesChange,
+  forecastSnapshots,
+  onForecastSnapshotsChange,
+  aiSettings,
+  onAiSettingsChange,
+  aiResult,
+  onAiResultChange,
+  onApplyAICategory,
+  backupSettings,
+  onBackup,
+  categoryLabel,
+  onNavigate,
+  onShowInHistory,
+  onOpenQueryInHistory,
+  onOpenQueryInReports,
+}) => {
+  const [balanceView, setBalanceView] = useState<BalanceView>('period');
+
+  // Receitas e despesas, sem transferências entre contas próprias
+  const movements = useMemo(() => transactions.filter(t => t.type !== 'transfer'), [transactions]);
+  const activeAccounts = accounts.filter(a => !a.archived);
+  const accountLabel = (code: string) => formatAccount(chart, code);
+
+  const openingBalance = accounts.reduce((acc, a) => acc + a.openingBalance, 0);
+  const currentBalance = useMemo(
+    () => movements.reduce((acc, t) => acc + (t.type === 'income' ? t.amount : -t.amount), openingBalance),
+    [movements, openingBalance]
+  );
+
+  // Período do painel: cartões, gráfico, últimas movimentações e análise de IA usam o mesmo intervalo
+  const dashboardRange = useMemo(() => resolvePeriod(period, fiscalYearStart), [period, fiscalYearStart]);
+  const previousRange = useMemo(() => previousPeriod(period.preset, dashboardRange), [period.preset, dashboardRange]);
+  const dashboardTransactions = useMemo(() => transactions.filter(t => isInPeriod(t, dashboardRange)), [transactions, dashboardRange]);
+  const dashboardMovements = useMemo(() => dashboardTransactions.filter(t => t.type !== 'transfer'), [dashboardTransactions]);
+
+  // O que a análise de IA pode enviar, segundo as opções de privacidade (visível no painel antes de enviar)
+  const aiRequest = useMemo(() => buildAIRequest(
+    dashboardMovements,
+    transactions.filter(t => isInPeriod(t, previousRange)),
+    { chart, counterparties, range: dashboardRange, previousRange, settings: aiSettings }
+  ), [dashboardMovements, transactions, previousRange, dashboardRange, chart, counterparties, aiSettings]);
+
+  // Entradas e saídas do período; o saldo é o de fecho (abertura das contas + movimentos até ao fim do período)
+  const summarize = (range: { start: Date; end: Date }) => {
+    const until = movements.filter(t => new Date(t.date) < range.end);
+    const inRange = until.filter(t => isInPeriod(t, range));
+    const income = inRange.filter(t => t.type === 'income').reduce((acc, t) => acc + t.amount, 0);
+    const expense = inRange.filter(t => t.type === 'expense').reduce((acc, t) => acc + t.amount, 0);
+    return {
+      totalIncome: income,
+      totalExpense: expense,
+      balance: until.reduce((acc, t) => acc + (t.type === 'income' ? t.amount : -t.amount), openingBalance)
+    };
+  };
+
+  const summary = useMemo(() => summarize(dashboardRange), [movements, openingBalance, dashboardRange]);
+  const previousSummary = useMemo(() => summarize(previousRange), [movements, openingBalance, previousRange]);
+
+  const forecastHorizon = FORECAST_HORIZONS[balanceView];
+
+  // Faturas em aberto entram na previsão como entradas/saídas esperadas na data de vencimento
+  const forecast = useMemo(
+    () => (forecastHorizon
+      ? buildForecast(movements, pending, currentBalance, templates, [...expectedEntries, ...expectedFromOpenItems(openItems, allTransactions)], forecastHorizon)
+      : []),
+    [forecastHorizon, movements, pending, currentBalance, templates, expectedEntries, openItems, allTransactions]
+  );
+
+  const handleSaveForecast = () => {
+    if (!forecastHorizon) return;
+    onForecastSnapshotsChange([
+      { id: crypto.randomUUID(), createdAt: new Date().toISOString(), horizonDays: forecastHorizon, startBalance: currentBalance, points: forecast },
+      ...forecastSnapshots,
+    ]);
+  };
+
+  const handleAnalyze = async () => {
+    if (dashboardMovements.length === 0) {
+      onAiResultChange({ insights: null, loading: false, error: 'Não há transações no período selecionado para analisar.' });
+      return;
+    }
+
+    onAiResultChange({ insights: null, loading: true, error: null });
+    try {
+      const insights = await analyzeWithAI(createAIProvider(aiSettings.provider), aiRequest, dashboardMovements, chart);
+      onAiResultChange({ insights, loading: false, error: null });
+    } catch (err) {
+      onAiResultChange({ insights: null, loading: false, error: 'Erro ao comunicar com o serviço de IA. Verifique sua chave API.' });
+    }
+  };
+
+  // A pergunta é traduzida pelo fornecedor escolhido e executada sobre o livro local
+  const handleAsk = async (question: string) => {
+    const query = await askLedger(createAIProvider(aiSettings.provider), question, { chart, counterparties, fiscalYearStart });
+    return query && answerQuery(query, transactions, { chart, counterparties });
+  };
+
+  return (
+    <div className="space-y-6">
+      {pending.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg px-4 py-3 flex items-center justify-between text-sm text-amber-800">
+          <span className="flex items-center gap-2">
+            <CalendarClock size={16} />
+            {pending.length} lançamento(s) recorrente(s) aguardam confirmação.
+          </span>
+          <button onClick={() => onNavigate('recurring')} className="text-xs font-semibold hover:underline">Rever</button>
+        </div>
+      )}
+
+      {isBackupDue(backupSettings) && allTransactions.length > 0 && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg px-4 py-3 flex items-center justify-between text-sm text-blue-800">
+          <span className="flex items-center gap-2">
+            <Download size={16} />
+            {backupSettings.lastBackupAt
+              ? `Última cópia de segurança em ${new Date(backupSettings.lastBackupAt).toLocaleDateString('pt-MZ')}.`
+              : 'Ainda não fez nenhuma cópia de segurança dos seus dados.'}
+          </span>
+          <div className="flex gap-4">
+            <button onClick={() => onNavigate('settings')} className="text-xs font-medium hover:underline">Configurar</button>
+            <button onClick={onBackup} className="text-xs font-semibold hover:underline">Fazer backup agora</button>
+          </div>
+        </div>
+      )}
+
+      {/* Period selector */}
+      <div className="bg-white px-4 py-3 rounded-lg shadow-sm border border-slate-200 flex flex-wrap items-center gap-3 text-sm">
+        <Calendar size={16} className="text-slate-400" />
+        <select
+          value={period.preset}
+          onChange={(e) => onPeriodChange({ ...period, preset: e.target.value as PeriodPreset })}
+          className="px-2 py-1.5 border border-slate-300 rounded-md bg-white text-slate-700 focus:outline-none"
+        >
+          {Object.entries(PERIOD_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        {period.preset === 'custom' && (
+          <>
+            <input
+              type="date"
+              value={period.customStart}
+              onChange={(e) => e.target.value && onPeriodChange({ ...period, customStart: e.target.value })}
+              className="px-2 py-1.5 border border-slate-300 rounded-md"
+            />
+            <span className="text-slate-400">até</span>
+            <input
+              type="date"
+              value={period.customEnd}
+              onChange={(e) => e.target.value && onPeriodChange({ ...period, customEnd: e.target.value })}
+              className="px-2 py-1.5 border border-slate-300 rounded-md"
+            />
+          </>
+        )}
+        <span className="text-xs text-slate-500">{formatRange(dashboardRange)}</span>
+        <span className="ml-auto text-xs text-slate-400">Comparação: {PREVIOUS_LABELS[period.preset]} ({formatRange(previousRange)})</span>
+      </div>
+
+      {/* Cards Row */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {([
+          { title: 'Entradas', type: 'income', current: summary.totalIncome, previous: previousSummary.totalIncome, higherIsBetter: true },
+          { title: 'Saídas', type: 'expense', current: summary.totalExpense, previous: previousSummary.totalExpense, higherIsBetter: false },
+          { title: 'Saldo no Fim do Período', type: 'balance', current: summary.balance, previous: previousSummary.balance, higherIsBetter: true },
+        ] as const).map(({ title, type, current, previous, higherIsBetter }) => {
+          const change = percentChange(current, previous);
+          return (
+            <div key={type} className="flex flex-col gap-2">
+              <SummaryCard title={title} amount={current} type={type} />
+              <p className="px-1 text-xs text-slate-500">
+                {change === null ? (
+                  <>Sem base de comparação</>
+                ) : (
+                  <>
+                    <span className={`font-semibold ${change === 0 ? 'text-slate-600' : (change > 0) === higherIsBetter ? 'text-emerald-600' : 'text-rose-600'}`}>
+                      {change > 0 ? '+' : ''}{change.toFixed(1)}%
+                    </span>
+                    {' '}vs. {PREVIOUS_LABELS[period.preset]} ({formatMZN(previous)})
+                  </>
+                )}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Per-account balances */}
+      {activeAccounts.length > 1 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+          {activeAccounts.map(a => (
+            <SummaryCard key={a.id} title={a.name} amount={balances.get(a.id) || 0} type="balance" />
+          ))}
+        </div>
+      )}
+
+      {/* Charts & AI Analysis Row */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-[400px]">
+        <div className="lg:col-span-2 bg-white p-6 rounded-lg shadow-sm border border-slate-200 flex flex-col">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="font-semibold text-slate-800">Fluxo de Saldo</h3>
+            <select
+              value={balanceView}
+              onChange={(e) => setBalanceView(e.target.value as BalanceView)}
+              className="text-xs border border-slate-200 rounded px-2 py-1 bg-slate-50 text-slate-600 focus:outline-none"
+            >
+              <option value="period">{PERIOD_LABELS[period.preset]}</option>
+              <optgroup label="Previsão">
+                <option value="forecast30">Próximos 30 dias</option>
+                <option value="forecast90">Próximos 90 dias</option>
+                <option value="forecast365">Próximos 365 dias</option>
+              </optgroup>
+            </select>
+          </div>
+          <div className="flex-1">
+            {forecastHorizon ? <ForecastChart points={forecast} /> : <Charts transactions={dashboardMovements} />}
+          </div>
+        </div>
+        
+        <div className="lg:col-span-1 h-full">
+          <AIInsightsPanel
+            settings={aiSettings}
+            request={aiRequest}
+            result={aiResult}
+            transactions={dashboardMovements}
+            accountLabel={accountLabel}
+            onChangeSettings={onAiSettingsChange}
+            onAnalyze={handleAnalyze}
+            onShowInHistory={onShowInHistory}
+            onApplyCategory={onApplyAICategory}
+          />
+        </div>
+      </div>
+
+      <LedgerChat
+        provider={aiSettings.provider}
+        onAsk={handleAsk}
+        onOpenHistory={onOpenQueryInHistory}
+        onOpenReports={onOpenQueryInReports}
+      />
+
+      {forecastHorizon && (
+        <ForecastPanel
+          points={forecast}
+          expected={expectedEntries}
+          snapshots={forecastSnapshots}
+          transactions={movements}
+          openingBalance={openingBalance}
+          onAddExpected={(entry) => onExpectedEntriesChange([...expectedEntries, entry])}
+          onRemoveExpected={(id) => onExpectedEntriesChange(expectedEntries.filter(e => e.id !== id))}
+          onSaveSnapshot={handleSaveForecast}
+          onRemoveSnapshot={(id) => onForecastSnapshotsChange(forecastSnapshots.filter(s => s.id !== id))}
+        />
+      )}
+
+      {budgets.length > 0 && (
+        <BudgetProgress statuses={budgets} chart={chart} onManage={() => onNavigate('budgets')} />
+      )}
+
+      {/* Recent Transactions Mini-Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h3 className="font-semibold text-slate-800">Últimas Movimentações</h3>
+          <button onClick={() => onNavigate('history')} className="text-xs text-blue-600 hover:underline font-medium">Ver tudo</button>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {dashboardTransactions.slice(0, 5).map((t) => (
+            <div key={t.id} className="px-6 py-3 flex items-center justify-between hover:bg-slate-50 transition-colors">
+              <div className="flex items-center gap-3">
+                <div className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold ${t.type === 'income' ? 'bg-emerald-100 text-emerald-600' : t.type === 'expense' ? 'bg-rose-100 text-rose-600' : 'bg-slate-100 text-slate-600'}`}>
+                  {t.type === 'income' ? <Plus size={14} /> : t.type === 'expense' ? <Minus size={14} /> : <ArrowRightLeft size={14} />}
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-slate-800">{t.description}</p>
+                  <p className="text-xs text-slate-500">{categoryLabel(t)} • {new Date(t.date).toLocaleDateString('pt-MZ')}</p>
+                </div>
+              </div>
+              <span className={`text-sm font-semibold ${amountClass(t)}`}>
+                {amountSign(t)}{formatMZN(t.amount)}
+              </span>
+            </div>
+          ))}
+          {dashboardTransactions.length === 0 && (
+            <div className="px-6 py-8 text-center text-sm text-slate-400">Nenhuma transação no período.</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DashboardTab;
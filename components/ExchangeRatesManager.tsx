@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { ExchangeRate } from '../types';
+import { BASE_CURRENCY, CURRENCIES, formatRate, rateOn } from '../services/currency';
+import { toDateKey } from '../services/recurring';
+
+interface ExchangeRatesManagerProps {
+  rates: ExchangeRate[];
+  onChange: (rates: ExchangeRate[]) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-md bg-white';
+
+const formatDay = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('pt-MZ');
+};
+
+// Tabela de câmbios mantida pelo utilizador; cada taxa vale a partir da sua data até à seguinte
+const ExchangeRatesManager: React.FC<ExchangeRatesManagerProps> = ({ rates, onChange }) => {
+  const foreign = CURRENCIES.filter(c => c.code !== BASE_CURRENCY);
+  const [currency, setCurrency] = useState(foreign[0].code);
+  const [date, setDate] = useState(toDateKey(new Date()));
+  const [rate, setRate] = useState('');
+  const today = toDateKey(new Date());
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(rate.replace(',', '.'));
+    if (!(value > 0)) return;
+    // Uma taxa por moeda e data: voltar a introduzir substitui
+    onChange([
+      ...rates.filter(r => !(r.currency === currency && r.date === date)),
+      { id: crypto.randomUUID(), currency, date, rate: value },
+    ]);
+    setRate('');
+  };
+
+  const sorted = [...rates].sort((a, b) => a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="font-semibold text-slate-800">Taxas de Câmbio</h3>
+        <p className="text-xs text-slate-500 mt-1">
+          MZN por unidade de moeda estrangeira. Nas transações e faturas noutra moeda é sugerida a última taxa até à data do movimento.
+        </p>
+      </div>
+
+      <div className="px-6 py-3 border-b border-slate-100 flex flex-wrap gap-6 text-xs text-slate-600">
+        {foreign.map(c => {
+          const current = rateOn(rates, c.code, today);
+          return (
+            <span key={c.code}>
+              <span className="font-semibold text-slate-800">{c.code}</span> {current ? formatRate(current) : 'sem taxa'}
+            </span>
+          );
+        })}
+      </div>
+
+      <form onSubmit={handleAdd} className="p-4 border-b border-slate-100 grid grid-cols-1 md:grid-cols-4 gap-3 items-end text-sm">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Moeda</label>
+          <select value={currency} onChange={(e) => setCurrency(e.target.value)} className={inputClass}>
+            {foreign.map(c => <option key={c.code} value={c.code}>{c.code} - {c.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">A partir de</label>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} required />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Taxa (MZN)</label>
+          <input type="number" step="0.0001" min="0" value={rate} onChange={(e) => setRate(e.target.value)} className={inputClass} required />
+        </div>
+        <button type="submit" className="flex items-center justify-center gap-2 px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700">
+          <Plus size={16} />
+          Guardar Taxa
+        </button>
+      </form>
+
+      <div className="divide-y divide-slate-100 text-sm max-h-64 overflow-y-auto">
+        {sorted.map(r => (
+          <div key={r.id} className="px-6 py-2 flex items-center justify-between">
+            <span className="text-slate-700">
+              <span className="font-medium">{r.currency}</span> • {formatDay(r.date)}
+            </span>
+            <div className="flex items-center gap-4">
+              <span className="font-mono text-slate-800">{formatRate(r.rate)}</span>
+              <button onClick={() => onChange(rates.filter(x => x.id !== r.id))} title="Remover" className="text-slate-400 hover:text-red-600">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+        {rates.length === 0 && <div className="px-6 py-6 text-center text-slate-400">Nenhuma taxa registada.</div>}
+      </div>
+    </div>
+  );
+};
+
+export default ExchangeRatesManager;
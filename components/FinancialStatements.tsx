@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { ChartAccount, Transaction } from '../types';
+import { accountDepth, formatAccount, getAccount, isWithinAccount } from '../services/chartOfAccounts';
+import { PeriodRange, formatRange, previousPeriod } from '../services/periods';
+import { ACTIVITY_LABELS, CashFlowActivity, cashFlowStatement, incomeStatement, priorYearRange } from '../services/statements';
+
+interface FinancialStatementsProps {
+  transactions: Transaction[];
+  chart: ChartAccount[];
+  range: PeriodRange;
+  openingBalance: number;
+}
+
+type Comparison = 'priorYear' | 'previousPeriod';
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const formatChange = (current: number, previous: number) =>
+  previous === 0 ? '—' : `${((current - previous) / Math.abs(previous) * 100).toFixed(1)}%`;
+
+const ACTIVITIES: CashFlowActivity[] = ['operating', 'investing', 'financing'];
+
+const StatementRow: React.FC<{ label: React.ReactNode; current: number; previous: number; depth?: number; strong?: boolean }> = ({
+  label,
+  current,
+  previous,
+  depth = 0,
+  strong = false,
+}) => (
+  <tr className={strong ? 'bg-slate-50/60 font-semibold text-slate-800' : 'text-slate-700'}>
+    <td className="px-6 py-2" style={{ paddingLeft: 24 + depth * 20 }}>{label}</td>
+    <td className={`px-6 py-2 text-right ${current < 0 ? 'text-rose-600' : ''}`}>{formatMZN(current)}</td>
+    <td className={`px-6 py-2 text-right text-slate-500 ${previous < 0 ? 'text-rose-500' : ''}`}>{formatMZN(previous)}</td>
+    <td className="px-6 py-2 text-right text-xs text-slate-500">{formatChange(current, previous)}</td>
+  </tr>
+);
+
+// Demonstração de Resultados e Demonstração de Fluxos de Caixa com coluna comparativa
+const FinancialStatements: React.FC<FinancialStatementsProps> = ({ transactions, chart, range, openingBalance }) => {
+  const [comparison, setComparison] = useState<Comparison>('priorYear');
+  const compareRange = comparison === 'priorYear' ? priorYearRange(range) : previousPeriod('custom', range);
+
+  const dr = incomeStatement(transactions, chart, range);
+  const drPrev = incomeStatement(transactions, chart, compareRange);
+  const dfc = cashFlowStatement(transactions, chart, range, openingBalance);
+  const dfcPrev = cashFlowStatement(transactions, chart, compareRange, openingBalance);
+
+  const accountsOfClass = (classCode: string) =>
+    chart.filter(a => a.parentCode !== null && isWithinAccount(a.code, classCode) && (dr.totals.has(a.code) || drPrev.totals.has(a.code)));
+
+  const header = (title: string, subtitle: string) => (
+    <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center print:bg-white">
+      <h3 className="font-bold text-slate-800">
+        {title}
+        <span className="block text-xs font-normal text-slate-500 mt-1">{subtitle}</span>
+      </h3>
+    </div>
+  );
+
+  const columns = (
+    <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200 print:bg-white print:text-black">
+      <tr>
+        <th className="px-6 py-3 font-semibold"></th>
+        <th className="px-6 py-3 font-semibold text-right">{formatRange(range)}</th>
+        <th className="px-6 py-3 font-semibold text-right">{formatRange(compareRange)}</th>
+        <th className="px-6 py-3 font-semibold text-right">Var.</th>
+      </tr>
+    </thead>
+  );
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-center justify-end gap-2 text-xs text-slate-500 print:hidden">
+        <span>Coluna comparativa:</span>
+        <select
+          value={comparison}
+          onChange={(e) => setComparison(e.target.value as Comparison)}
+          className="border border-slate-300 rounded-md px-2 py-1.5 bg-white text-slate-700"
+        >
+          <option value="priorYear">Mesmo período do ano anterior</option>
+          <option value="previousPeriod">Período imediatamente anterior</option>
+        </select>
+      </div>
+
+      {/* Income statement */}
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+        {header('Demonstração de Resultados', 'Por natureza, agrupada por classe e conta PGC-NIRF; inclui todas as contas e categorias')}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            {columns}
+            <tbody className="divide-y divide-slate-100">
+              {([['7', 'Proveitos'], ['6', 'Gastos']] as const).map(([classCode, title]) => (
+                <React.Fragment key={classCode}>
+                  <tr className="bg-slate-100/60">
+                    <td colSpan={4} className="px-6 py-2 text-xs font-bold uppercase tracking-wider text-slate-600">Classe {classCode} - {title}</td>
+                  </tr>
+                  {accountsOfClass(classCode).map(a => (
+                    <StatementRow
+                      key={a.code}
+                      label={<><span className="font-mono text-xs text-slate-500 mr-2">{a.code}</span>{getAccount(chart, a.code)?.name}</>}
+                      current={dr.totals.get(a.code) || 0}
+                      previous={drPrev.totals.get(a.code) || 0}
+                      depth={accountDepth(a.code) - 1}
+                    />
+                  ))}
+                  {classCode === '7' && (dr.unclassifiedIncome > 0 || drPrev.unclassifiedIncome > 0) && (
+                    <StatementRow label="Proveitos não classificados" current={dr.unclassifiedIncome} previous={drPrev.unclassifiedIncome} />
+                  )}
+                  {classCode === '6' && (dr.unclassifiedExpense > 0 || drPrev.unclassifiedExpense > 0) && (
+                    <StatementRow label="Gastos não classificados" current={dr.unclassifiedExpense} previous={drPrev.unclassifiedExpense} />
+                  )}
+                  <StatementRow
+                    label={`Total dos ${title}`}
+                    current={classCode === '7' ? dr.revenue : dr.expenses}
+                    previous={classCode === '7' ? drPrev.revenue : drPrev.expenses}
+                    strong
+                  />
+                </React.Fragment>
+              ))}
+              <StatementRow label="Resultado Operacional" current={dr.operatingResult} previous={drPrev.operatingResult} strong />
+              <StatementRow label="Gastos Financeiros" current={-dr.financialExpenses} previous={-drPrev.financialExpenses} />
+              <StatementRow label="Resultado Líquido do Período" current={dr.netResult} previous={drPrev.netResult} strong />
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Cash-flow statement */}
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+        {header('Demonstração de Fluxos de Caixa', 'Método directo; recebimentos positivos, pagamentos negativos, sem transferências entre contas próprias')}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            {columns}
+            <tbody className="divide-y divide-slate-100">
+              {ACTIVITIES.map(activity => {
+                const codes = Array.from(new Set([...dfc.lines[activity].keys(), ...dfcPrev.lines[activity].keys()]));
+                return (
+                  <React.Fragment key={activity}>
+                    <tr className="bg-slate-100/60">
+                      <td colSpan={4} className="px-6 py-2 text-xs font-bold uppercase tracking-wider text-slate-600">{ACTIVITY_LABELS[activity]}</td>
+                    </tr>
+                    {codes.map(code => (
+                      <StatementRow
+                        key={code}
+                        label={formatAccount(chart, code)}
+                        current={dfc.lines[activity].get(code) || 0}
+                        previous={dfcPrev.lines[activity].get(code) || 0}
+                        depth={1}
+                      />
+                    ))}
+                    <StatementRow
+                      label={`Fluxo das ${ACTIVITY_LABELS[activity].toLowerCase()}`}
+                      current={dfc.net[activity]}
+                      previous={dfcPrev.net[activity]}
+                      strong
+                    />
+                  </React.Fragment>
+                );
+              })}
+              <StatementRow label="Variação de caixa e equivalentes" current={dfc.netChange} previous={dfcPrev.netChange} strong />
+              <StatementRow label="Caixa e equivalentes no início do período" current={dfc.openingCash} previous={dfcPrev.openingCash} />
+              <StatementRow label="Caixa e equivalentes no fim do período" current={dfc.closingCash} previous={dfcPrev.closingCash} strong />
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FinancialStatements;
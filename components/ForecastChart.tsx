@@ -0,0 +1,57 @@
+import React from 'react';
+import { Area, AreaChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ForecastPoint } from '../types';
+
+interface ForecastChartProps {
+  points: ForecastPoint[];
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const formatDay = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('pt-MZ', { day: '2-digit', month: 'short' });
+};
+
+const ForecastChart: React.FC<ForecastChartProps> = ({ points }) => {
+  if (points.length === 0) {
+    return <div className="h-full flex items-center justify-center text-sm text-slate-400">Sem dados para projetar.</div>;
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <AreaChart data={points} margin={{ top: 5, right: 10, left: 10, bottom: 0 }}>
+        <defs>
+          <linearGradient id="forecastBalance" x1="0" y1="0" x2="0" y2="1">
+            <stop offset="5%" stopColor="#2563eb" stopOpacity={0.25} />
+            <stop offset="95%" stopColor="#2563eb" stopOpacity={0} />
+          </linearGradient>
+        </defs>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+        <XAxis dataKey="date" tickFormatter={formatDay} tick={{ fontSize: 11, fill: '#64748b' }} minTickGap={24} />
+        <YAxis tickFormatter={(v: number) => new Intl.NumberFormat('pt-MZ', { notation: 'compact' }).format(v)} tick={{ fontSize: 11, fill: '#64748b' }} width={60} />
+        <Tooltip
+          labelFormatter={(label) => formatDay(String(label))}
+          formatter={(value) => [formatMZN(Number(value)), 'Saldo previsto']}
+        />
+        <ReferenceLine y={0} stroke="#e11d48" strokeDasharray="4 4" />
+        <Area
+          type="monotone"
+          dataKey="balance"
+          stroke="#2563eb"
+          strokeWidth={2}
+          strokeDasharray="6 3"
+          fill="url(#forecastBalance)"
+          dot={(props: { cx?: number; cy?: number; index?: number; payload?: ForecastPoint }) =>
+            props.payload && props.payload.balance < 0
+              ? <circle key={props.index} cx={props.cx} cy={props.cy} r={3} fill="#e11d48" />
+              : <g key={props.index} />
+          }
+        />
+      </AreaChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default ForecastChart;
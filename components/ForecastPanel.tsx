@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Plus, Save, Trash2 } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ExpectedEntry, ForecastPoint, ForecastSnapshot, Transaction } from '../types';
+import { compareWithActual } from '../services/forecast';
+import { toDateKey } from '../services/recurring';
+
+interface ForecastPanelProps {
+  points: ForecastPoint[];
+  expected: ExpectedEntry[];
+  snapshots: ForecastSnapshot[];
+  transactions: Transaction[];
+  openingBalance: number;
+  onAddExpected: (entry: ExpectedEntry) => void;
+  onRemoveExpected: (id: string) => void;
+  onSaveSnapshot: () => void;
+  onRemoveSnapshot: (id: string) => void;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const formatDay = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('pt-MZ');
+};
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-md bg-white';
+
+const ForecastPanel: React.FC<ForecastPanelProps> = ({
+  points,
+  expected,
+  snapshots,
+  transactions,
+  openingBalance,
+  onAddExpected,
+  onRemoveExpected,
+  onSaveSnapshot,
+  onRemoveSnapshot,
+}) => {
+  const [date, setDate] = useState(toDateKey(new Date()));
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [type, setType] = useState<'income' | 'expense'>('income');
+  const [snapshotId, setSnapshotId] = useState<string>('');
+
+  const negativeDays = points.filter(p => p.balance < 0);
+  const lowest = points.reduce<ForecastPoint | null>((min, p) => (!min || p.balance < min.balance ? p : min), null);
+  const todayKey = toDateKey(new Date());
+
+  const selected = snapshots.find(s => s.id === snapshotId) || snapshots[0];
+  const comparison = selected ? compareWithActual(selected, transactions, openingBalance) : [];
+  const compared = comparison.filter(c => c.actual !== null);
+  const lastCompared = compared[compared.length - 1];
+  const closed = selected ? selected.points[selected.points.length - 1]?.date < todayKey : false;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(amount);
+    if (!description.trim() || !(value > 0)) return;
+    onAddExpected({ id: crypto.randomUUID(), date, description: description.trim(), amount: value, type });
+    setDescription('');
+    setAmount('');
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Negative balance warnings */}
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+          <h3 className="font-semibold text-slate-800">Alertas de Tesouraria</h3>
+          <p className="text-xs text-slate-500 mt-1">Projeção baseada em modelos recorrentes, padrões periódicos, médias por categoria e valores esperados.</p>
+        </div>
+        <div className="p-6 text-sm space-y-3">
+          {lowest && (
+            <p className="text-slate-600">
+              Saldo mínimo previsto: <span className={`font-semibold ${lowest.balance < 0 ? 'text-rose-600' : 'text-slate-800'}`}>{formatMZN(lowest.balance)}</span> em {formatDay(lowest.date)}.
+            </p>
+          )}
+          {negativeDays.length > 0 ? (
+            <>
+              <p className="flex items-center gap-2 text-rose-700 font-medium">
+                <AlertTriangle size={16} />
+                {negativeDays.length} dia(s) com saldo negativo, a partir de {formatDay(negativeDays[0].date)}.
+              </p>
+              <div className="max-h-40 overflow-auto divide-y divide-slate-100 border border-rose-100 rounded-md">
+                {negativeDays.map(p => (
+                  <div key={p.date} className="px-3 py-1.5 flex justify-between text-xs">
+                    <span className="text-slate-600">{formatDay(p.date)}</span>
+                    <span className="font-semibold text-rose-600">{formatMZN(p.balance)}</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-emerald-700">O saldo mantém-se positivo em todo o horizonte.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Manual expected inflows / outflows */}
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+          <h3 className="font-semibold text-slate-800">Entradas e Saídas Esperadas</h3>
+        </div>
+        <form onSubmit={handleAdd} className="p-4 border-b border-slate-100 grid grid-cols-2 md:grid-cols-5 gap-3 items-end text-sm">
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Descrição</label>
+            <input type="text" placeholder="ex.: Pagamento do cliente X" value={description} onChange={(e) => setDescription(e.target.value)} className={inputClass} required />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Data</label>
+            <input type="date" min={todayKey} value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} required />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Valor (MZN)</label>
+            <input type="number" step="0.01" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} className={inputClass} required />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Tipo</label>
+            <select value={type} onChange={(e) => setType(e.target.value as 'income' | 'expense')} className={inputClass}>
+              <option value="income">Entrada</option>
+              <option value="expense">Saída</option>
+            </select>
+          </div>
+          <button type="submit" className="col-span-2 md:col-span-5 flex items-center justify-center gap-2 px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700">
+            <Plus size={16} />
+            Adicionar Previsão
+          </button>
+        </form>
+        <div className="max-h-48 overflow-auto divide-y divide-slate-100 text-sm">
+          {[...expected].sort((a, b) => a.date.localeCompare(b.date)).map(e => (
+            <div key={e.id} className={`px-6 py-2 flex items-center justify-between ${e.date < todayKey ? 'opacity-50' : ''}`}>
+              <div>
+                <p className="font-medium text-slate-800">{e.description}</p>
+                <p className="text-xs text-slate-500">{formatDay(e.date)}</p>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className={`font-semibold ${e.type === 'income' ? 'text-emerald-600' : 'text-rose-600'}`}>
+                  {e.type === 'income' ? '+' : '-'}{formatMZN(e.amount)}
+                </span>
+                <button onClick={() => onRemoveExpected(e.id)} title="Remover" className="text-slate-400 hover:text-red-600">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+          {expected.length === 0 && <div className="px-6 py-6 text-center text-slate-400">Nenhum valor esperado.</div>}
+        </div>
+      </div>
+
+      {/* Forecast vs actual */}
+      <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-4">
+          <div>
+            <h3 className="font-semibold text-slate-800">Previsão vs. Real</h3>
+            <p className="text-xs text-slate-500 mt-1">Guarde a previsão atual para a comparar com o saldo efetivo à medida que o período decorre.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {snapshots.length > 0 && (
+              <select
+                value={selected?.id}
+                onChange={(e) => setSnapshotId(e.target.value)}
+                className="text-xs border border-slate-200 rounded px-2 py-1 bg-white text-slate-600 focus:outline-none"
+              >
+                {snapshots.map(s => (
+                  <option key={s.id} value={s.id}>
+                    {new Date(s.createdAt).toLocaleDateString('pt-MZ')} • {s.horizonDays} dias
+                  </option>
+                ))}
+              </select>
+            )}
+            {selected && (
+              <button onClick={() => onRemoveSnapshot(selected.id)} title="Remover previsão guardada" className="text-slate-400 hover:text-red-600">
+                <Trash2 size={14} />
+              </button>
+            )}
+            <button
+              onClick={onSaveSnapshot}
+              disabled={points.length === 0}
+              className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50"
+            >
+              <Save size={14} />
+              Guardar Previsão
+            </button>
+          </div>
+        </div>
+        {selected && compared.length > 0 ? (
+          <div className="p-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-xs text-slate-500">{closed ? 'Saldo previsto no fim' : `Previsto a ${formatDay(lastCompared.date)}`}</p>
+                <p className="font-semibold text-slate-800">{formatMZN(lastCompared.forecast)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-500">Saldo real</p>
+                <p className="font-semibold text-slate-800">{formatMZN(lastCompared.actual!)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-500">Desvio</p>
+                <p className={`font-semibold ${lastCompared.actual! - lastCompared.forecast >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                  {formatMZN(lastCompared.actual! - lastCompared.forecast)}
+                </p>
+              </div>
+            </div>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={comparison} margin={{ top: 5, right: 10, left: 10, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+                  <XAxis dataKey="date" tickFormatter={(v: string) => formatDay(v).slice(0, 5)} tick={{ fontSize: 11, fill: '#64748b' }} minTickGap={24} />
+                  <YAxis tickFormatter={(v: number) => new Intl.NumberFormat('pt-MZ', { notation: 'compact' }).format(v)} tick={{ fontSize: 11, fill: '#64748b' }} width={60} />
+                  <Tooltip labelFormatter={(label) => formatDay(String(label))} formatter={(value) => formatMZN(Number(value))} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Line type="monotone" dataKey="forecast" name="Previsto" stroke="#2563eb" strokeDasharray="6 3" dot={false} />
+                  <Line type="monotone" dataKey="actual" name="Real" stroke="#059669" dot={false} connectNulls={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        ) : (
+          <div className="px-6 py-8 text-center text-sm text-slate-400">
+            {selected ? 'A previsão guardada começa amanhã; a comparação aparece à medida que os dias passam.' : 'Nenhuma previsão guardada.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ForecastPanel;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Transaction } from '../types';
+import { FX_GAIN_ACCOUNT, FX_LOSS_ACCOUNT } from '../services/currency';
+import { PeriodRange, formatRange, isInPeriod } from '../services/periods';
+
+interface FxDifferencesReportProps {
+  transactions: Transaction[];
+  range: PeriodRange;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+// Diferenças de câmbio realizadas na liquidação de faturas em moeda estrangeira (7.8.1 ganhos, 6.9.2 perdas)
+const FxDifferencesReport: React.FC<FxDifferencesReportProps> = ({ transactions, range }) => {
+  const rows = transactions
+    .filter(t => t.fxDifference && isInPeriod(t, range))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const gains = rows.filter(t => t.type === 'income').reduce((acc, t) => acc + t.amount, 0);
+  const losses = rows.filter(t => t.type === 'expense').reduce((acc, t) => acc + t.amount, 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 print:bg-white">
+        <h3 className="font-bold text-slate-800">
+          Diferenças de Câmbio Realizadas
+          <span className="block text-xs font-normal text-slate-500 mt-1">{formatRange(range)}</span>
+        </h3>
+      </div>
+      <table className="w-full text-sm text-left">
+        <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+          <tr>
+            <th className="px-6 py-3 font-semibold">Data</th>
+            <th className="px-6 py-3 font-semibold">Descrição</th>
+            <th className="px-6 py-3 font-semibold text-right">Ganho ({FX_GAIN_ACCOUNT})</th>
+            <th className="px-6 py-3 font-semibold text-right">Perda ({FX_LOSS_ACCOUNT})</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {rows.map(t => (
+            <tr key={t.id}>
+              <td className="px-6 py-2 text-slate-600">{new Date(t.date).toLocaleDateString('pt-MZ')}</td>
+              <td className="px-6 py-2 text-slate-800">{t.description}</td>
+              <td className="px-6 py-2 text-right text-emerald-600">{t.type === 'income' ? formatMZN(t.amount) : '-'}</td>
+              <td className="px-6 py-2 text-right text-rose-600">{t.type === 'expense' ? formatMZN(t.amount) : '-'}</td>
+            </tr>
+          ))}
+          {rows.length === 0 && (
+            <tr>
+              <td colSpan={4} className="px-6 py-6 text-center text-slate-400">Sem diferenças de câmbio no período.</td>
+            </tr>
+          )}
+        </tbody>
+        <tfoot className="bg-slate-50 border-t border-slate-200 font-bold text-slate-800">
+          <tr>
+            <td colSpan={2} className="px-6 py-3 text-right uppercase text-xs tracking-wider">Resultado cambial: {formatMZN(gains - losses)}</td>
+            <td className="px-6 py-3 text-right text-emerald-600">{formatMZN(gains)}</td>
+            <td className="px-6 py-3 text-right text-rose-600">{formatMZN(losses)}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default FxDifferencesReport;
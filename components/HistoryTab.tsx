@@ -0,0 +1,506 @@
+import React, { useMemo, useState } from 'react';
+import {
+  History,
+  Search,
+  Pencil,
+  ChevronDown,
+  ChevronRight,
+  AlertTriangle,
+  Paperclip,
+  ArrowUp,
+  ArrowDown,
+  HelpCircle,
+  Lock
+} from 'lucide-react';
+import {
+  Attachment,
+  CashAccount,
+  ChartAccount,
+  ClosedPeriod,
+  CompanyProfile,
+  Counterparty,
+  ExchangeRate,
+  HistoryFilters,
+  HistorySortKey,
+  SavedView,
+  Transaction,
+} from '../types';
+import { accountOf } from '../services/accounts';
+import { needsAttachment } from '../services/attachments';
+import { originalLabel } from '../services/currency';
+import { isInClosedPeriod } from '../services/periodClosing';
+import { toDateKey } from '../services/recurring';
+import { exportXlsx } from '../services/reportExport';
+import { movementsTable } from '../services/reportTables';
+import { QUERY_HELP, matchesQuery, parseQuery, sortTransactions } from '../services/transactionQuery';
+import VirtualList from './VirtualList';
+import BulkActionsBar from './BulkActionsBar';
+import SavedViewsMenu from './SavedViewsMenu';
+import VatEditor from './VatEditor';
+import CurrencyEditor from './CurrencyEditor';
+import TagEditor from './TagEditor';
+import AttachmentPanel from './AttachmentPanel';
+import AuditTrail from './AuditTrail';
+
+interface HistoryTabProps {
+  transactions: Transaction[]; // confirmadas e não eliminadas
+  allTransactions: Transaction[];
+  chart: ChartAccount[];
+  accounts: CashAccount[];
+  counterparties: Counterparty[];
+  exchangeRates: ExchangeRate[];
+  closedPeriods: ClosedPeriod[];
+  attachmentThreshold: number;
+  company: CompanyProfile;
+  // Pesquisa, vista ativa e seleção ficam na aplicação: o painel abre o Histórico já filtrado ou selecionado
+  filters: HistoryFilters;
+  onFiltersChange: (changes: Partial<HistoryFilters>) => void;
+  activeViewId: string | null;
+  onActiveViewChange: (id: string | null) => void;
+  savedViews: SavedView[];
+  onSavedViewsChange: (views: SavedView[]) => void;
+  selectedIds: Set<string>;
+  onSelectedIdsChange: (ids: Set<string>) => void;
+  readOnly: boolean;
+  categoryLabel: (t: Transaction) => string;
+  accountName: (id: string) => string;
+  onEdit: (t: Transaction) => void;
+  onUpdate: (original: Transaction, changes: Omit<Transaction, 'id'>) => void;
+  onDelete: (id: string) => void;
+  onRestore: (id: string) => void;
+  onUploadAttachments: (t: Transaction, files: File[]) => Promise<void>;
+  onRemoveAttachment: (t: Transaction, attachment: Attachment) => Promise<void>;
+  onPreviewAttachment: (attachment: Attachment) => void;
+  // Ações em massa; devolvem quantas transações foram ignoradas
+  onBulkRecategorize: (code: string, selection: Transaction[]) => number;
+  onBulkSetDate: (dateKey: string, selection: Transaction[]) => number;
+  onBulkSetAccount: (accountId: string, selection: Transaction[]) => number;
+  onBulkAddTags: (tags: string[], selection: Transaction[]) => number;
+  onBulkDelete: (selection: Transaction[]) => void;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const amountClass = (t: Transaction) =>
+  t.type === 'income' ? 'text-emerald-600' : t.type === 'expense' ? 'text-rose-600' : 'text-slate-600';
+
+const amountSign = (t: Transaction) => (t.type === 'income' ? '+ ' : t.type === 'expense' ? '- ' : '');
+
+// Separador Histórico: pesquisa avançada, vistas guardadas, seleção múltipla e edição linha a linha
+const HistoryTab: React.FC<HistoryTabProps> = ({
+  transactions,
+  allTransactions,
+  chart,
+  accounts,
+  counterparties,
+  exchangeRates,
+  closedPeriods,
+  attachmentThreshold,
+  company,
+  filters,
+  onFiltersChange,
+  activeViewId,
+  onActiveViewChange,
+  savedViews,
+  onSavedViewsChange,
+  selectedIds,
+  onSelectedIdsChange,
+  readOnly,
+  categoryLabel,
+  accountName,
+  onEdit,
+  onUpdate,
+  onDelete,
+  onRestore,
+  onUploadAttachments,
+  onRemoveAttachment,
+  onPreviewAttachment,
+  onBulkRecategorize,
+  onBulkSetDate,
+  onBulkSetAccount,
+  onBulkAddTags,
+  onBulkDelete,
+}) => {
+  const [showQueryHelp, setShowQueryHelp] = useState(false);
+  const [expandedHistoryId, setExpandedHistoryId] = useState<string | null>(null);
+  // A âncora é a última linha clicada (intervalos com Shift)
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+
+  const isLocked = (date: string) => isInClosedPeriod(closedPeriods, date);
+  const counterpartyName = (id?: string) => (id ? counterparties.find(c => c.id === id)?.name || '' : '');
+
+  const missingAttachments = useMemo(
+    () => transactions.filter(t => needsAttachment(t, attachmentThreshold)),
+    [transactions, attachmentThreshold]
+  );
+
+  const historyQuery = useMemo(() => parseQuery(filters.query), [filters.query]);
+
+  // Pesquisa avançada (sintaxe em QUERY_HELP) e ordenação pelas colunas
+  const filteredTransactions = useMemo(() => {
+    const names = new Map(counterparties.map(c => [c.id, c.name]));
+    const context = { categoryLabel, counterpartyName: (id?: string) => (id ? names.get(id) || '' : '') };
+    const matching = (filters.showDeleted ? allTransactions : transactions)
+      .filter(t => !filters.onlyMissingAttachments || needsAttachment(t, attachmentThreshold))
+      .filter(t => matchesQuery(t, historyQuery, context));
+    return sortTransactions(matching, filters.sort, categoryLabel);
+  }, [allTransactions, transactions, filters, attachmentThreshold, historyQuery, counterparties, chart, accounts]);
+
+  // As ações em massa só atingem as linhas selecionadas que a pesquisa atual mostra
+  const selectedTransactions = useMemo(
+    () => filteredTransactions.filter(t => selectedIds.has(t.id) && !t.deletedAt),
+    [filteredTransactions, selectedIds]
+  );
+  const selectableTransactions = filteredTransactions.filter(t => !t.deletedAt);
+  const allMatchingSelected = selectableTransactions.length > 0 && selectedTransactions.length === selectableTransactions.length;
+
+  const allTags = useMemo(
+    () => Array.from(new Set(allTransactions.flatMap(t => t.tags || []))).sort(),
+    [allTransactions]
+  );
+
+  // Qualquer alteração manual aos filtros deixa de corresponder à vista guardada
+  const handleFiltersChange = (changes: Partial<HistoryFilters>) => {
+    onFiltersChange(changes);
+    onActiveViewChange(null);
+  };
+
+  // Coluna já ordenada inverte o sentido; datas e valores começam pelo maior
+  const handleSortBy = (key: HistorySortKey) => {
+    const { sort } = filters;
+    handleFiltersChange({
+      sort: sort.key === key
+        ? { key, direction: sort.direction === 'asc' ? 'desc' : 'asc' }
+        : { key, direction: key === 'date' || key === 'amount' ? 'desc' : 'asc' },
+    });
+  };
+
+  const handleApplyView = (view: SavedView) => {
+    onFiltersChange({ query: view.query, sort: view.sort, showDeleted: view.showDeleted, onlyMissingAttachments: view.onlyMissingAttachments });
+    onActiveViewChange(view.id);
+  };
+
+  // Guardar com o nome de uma vista existente substitui-a
+  const handleSaveView = (name: string) => {
+    const existing = savedViews.find(v => v.name.toLowerCase() === name.toLowerCase());
+    const view: SavedView = { ...filters, id: existing?.id || crypto.randomUUID(), name };
+    onSavedViewsChange(existing ? savedViews.map(v => (v.id === existing.id ? view : v)) : [...savedViews, view]);
+    onActiveViewChange(view.id);
+  };
+
+  const handleDeleteView = (id: string) => {
+    onSavedViewsChange(savedViews.filter(v => v.id !== id));
+    onActiveViewChange(null);
+  };
+
+  // Clique simples alterna a linha; com Shift aplica o estado da linha a todo o intervalo desde a âncora
+  const handleToggleSelect = (t: Transaction, shiftKey: boolean) => {
+    const select = !selectedIds.has(t.id);
+    const next = new Set(selectedIds);
+    const from = selectionAnchor ? selectableTransactions.findIndex(x => x.id === selectionAnchor) : -1;
+    const to = selectableTransactions.findIndex(x => x.id === t.id);
+    const range = shiftKey && from >= 0 && to >= 0
+      ? selectableTransactions.slice(Math.min(from, to), Math.max(from, to) + 1)
+      : [t];
+    range.forEach(x => (select ? next.add(x.id) : next.delete(x.id)));
+    onSelectedIdsChange(next);
+    setSelectionAnchor(t.id);
+  };
+
+  const handleSelectAllMatching = () => {
+    onSelectedIdsChange(allMatchingSelected ? new Set() : new Set(selectableTransactions.map(t => t.id)));
+    setSelectionAnchor(null);
+  };
+
+  // Exporta só a seleção, no mesmo formato do Relatório de Movimentos
+  const handleExportSelected = async () => {
+    const rows = [...selectedTransactions].sort((a, b) => a.date.localeCompare(b.date));
+    if (rows.length === 0) return;
+    const end = new Date(rows[rows.length - 1].date);
+    const range = {
+      start: new Date(`${toDateKey(new Date(rows[0].date))}T00:00:00`),
+      end: new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1),
+    };
+    const table = movementsTable(rows, 'all', range, { category: categoryLabel, account: accountName, accountOf });
+    try {
+      await exportXlsx(`movimentos_selecionados_${toDateKey(new Date())}.xlsx`, company, [{ ...table, title: 'Movimentos Selecionados' }]);
+    } catch (err) {
+      window.alert('Não foi possível gerar o ficheiro do relatório.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 flex flex-col h-full min-h-[500px]">
+      {/* Toolbar */}
+      <div className="p-4 border-b border-slate-200 flex flex-wrap gap-4 items-center bg-slate-50/50">
+        <div className="relative flex-1 min-w-[16rem] max-w-xl">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+          <input 
+            type="text" 
+            placeholder="Buscar transações... (ex.: tipo:despesa valor:>5000 data:2024-03 #obra)" 
+            value={filters.query}
+            onChange={(e) => handleFiltersChange({ query: e.target.value })}
+            className="w-full pl-9 pr-9 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+          />
+          <button
+            onClick={() => setShowQueryHelp(!showQueryHelp)}
+            title="Filtros disponíveis"
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-blue-600"
+          >
+            <HelpCircle size={16} />
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          <input
+            type="checkbox"
+            checked={filters.showDeleted}
+            onChange={(e) => handleFiltersChange({ showDeleted: e.target.checked })}
+            className="rounded border-slate-300"
+          />
+          Mostrar eliminadas
+        </label>
+        <label className={`flex items-center gap-2 text-xs ${missingAttachments.length > 0 ? 'text-amber-700' : 'text-slate-600'}`}>
+          <input
+            type="checkbox"
+            checked={filters.onlyMissingAttachments}
+            onChange={(e) => handleFiltersChange({ onlyMissingAttachments: e.target.checked })}
+            className="rounded border-slate-300"
+          />
+          Sem comprovativo ({missingAttachments.length})
+        </label>
+        <div className="ml-auto">
+          <SavedViewsMenu
+            views={savedViews}
+            activeId={activeViewId}
+            onApply={handleApplyView}
+            onSave={handleSaveView}
+            onDelete={handleDeleteView}
+          />
+        </div>
+      </div>
+
+      {(showQueryHelp || historyQuery.errors.length > 0) && (
+        <div className="px-6 py-3 border-b border-slate-200 bg-white text-xs space-y-2">
+          {historyQuery.errors.length > 0 && (
+            <p className="text-amber-700">
+              Filtro não reconhecido (ignorado): {historyQuery.errors.join(', ')}
+            </p>
+          )}
+          {showQueryHelp && (
+            <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-slate-600">
+              {QUERY_HELP.map(h => (
+                <div key={h.example} className="flex gap-2">
+                  <dt className="font-mono text-slate-800 shrink-0">{h.example}</dt>
+                  <dd>{h.meaning}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+      )}
+
+      {/* Table Header */}
+      <div className="relative grid grid-cols-12 gap-4 px-6 py-3 bg-slate-50 border-b border-slate-200 text-xs font-semibold text-slate-500 uppercase tracking-wider">
+        {!readOnly && (
+          <input
+            type="checkbox"
+            checked={allMatchingSelected}
+            onChange={handleSelectAllMatching}
+            title="Selecionar todas as transações da pesquisa"
+            className="absolute left-1.5 top-1/2 -translate-y-1/2 rounded border-slate-300"
+          />
+        )}
+        {([
+          ['date', 'Data', 'col-span-2'],
+          ['description', 'Descrição', 'col-span-4'],
+          ['category', 'Categoria (PGC-NIRF)', 'col-span-3'],
+          ['amount', 'Valor', 'col-span-2 justify-end'],
+        ] as [HistorySortKey, string, string][]).map(([key, label, className]) => (
+          <button
+            key={key}
+            onClick={() => handleSortBy(key)}
+            className={`${className} flex items-center gap-1 uppercase tracking-wider hover:text-slate-800 ${filters.sort.key === key ? 'text-slate-800' : ''}`}
+          >
+            {label}
+            {filters.sort.key === key && (filters.sort.direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+          </button>
+        ))}
+        <div className="col-span-1 text-right">Ações</div>
+      </div>
+      <div className="px-6 py-1.5 border-b border-slate-100 text-xs text-slate-400">
+        {filteredTransactions.length} {filteredTransactions.length === 1 ? 'transação' : 'transações'}
+      </div>
+      {selectedTransactions.length > 0 && (
+        <BulkActionsBar
+          count={selectedTransactions.length}
+          chart={chart}
+          accounts={accounts}
+          tagSuggestions={allTags}
+          onRecategorize={(code) => onBulkRecategorize(code, selectedTransactions)}
+          onSetDate={(dateKey) => onBulkSetDate(dateKey, selectedTransactions)}
+          onSetAccount={(accountId) => onBulkSetAccount(accountId, selectedTransactions)}
+          onAddTags={(tags) => onBulkAddTags(tags, selectedTransactions)}
+          onDelete={() => onBulkDelete(selectedTransactions)}
+          onExport={handleExportSelected}
+          onClear={() => onSelectedIdsChange(new Set())}
+        />
+      )}
+
+      {/* Table Body - só as linhas visíveis são desenhadas */}
+      {filteredTransactions.length > 0 ? (
+        <VirtualList
+          items={filteredTransactions}
+          itemKey={t => t.id}
+          estimatedHeight={49}
+          className="flex-1 min-h-0"
+          itemClassName="border-b border-slate-100"
+          renderItem={t => (
+            <>
+            <div className={`relative grid grid-cols-12 gap-4 px-6 py-3 items-center hover:bg-slate-50 transition-colors text-sm group ${t.deletedAt ? 'opacity-50' : ''} ${selectedIds.has(t.id) && !t.deletedAt ? 'bg-blue-50/60' : ''}`}>
+              {!readOnly && !t.deletedAt && (
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(t.id)}
+                  onChange={(e) => handleToggleSelect(t, (e.nativeEvent as MouseEvent).shiftKey)}
+                  title="Selecionar (Shift para um intervalo)"
+                  className="absolute left-1.5 top-1/2 -translate-y-1/2 rounded border-slate-300"
+                />
+              )}
+              <div className="col-span-2 text-slate-600 flex items-center gap-1">
+                <button
+                  onClick={() => setExpandedHistoryId(expandedHistoryId === t.id ? null : t.id)}
+                  title="Histórico de alterações"
+                  className="text-slate-400 hover:text-slate-700"
+                >
+                  {expandedHistoryId === t.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                </button>
+                {new Date(t.date).toLocaleDateString('pt-MZ')}
+                {isLocked(t.date) && (
+                  <span title="Período fechado" className="text-slate-400">
+                    <Lock size={12} />
+                  </span>
+                )}
+              </div>
+              <div className={`col-span-4 font-medium text-slate-800 ${t.deletedAt ? 'line-through' : ''}`}>
+                {t.description}
+                {t.attachments && t.attachments.length > 0 && (
+                  <button
+                    onClick={() => onPreviewAttachment(t.attachments![0])}
+                    title={`${t.attachments.length} comprovativo(s)`}
+                    className="inline-flex items-center gap-0.5 ml-2 text-xs font-normal text-slate-400 hover:text-blue-600"
+                  >
+                    <Paperclip size={12} />
+                    {t.attachments.length > 1 && t.attachments.length}
+                  </button>
+                )}
+                {needsAttachment(t, attachmentThreshold) && (
+                  <span title={`Despesa acima de ${formatMZN(attachmentThreshold)} sem comprovativo`} className="inline-flex ml-2 text-amber-500 align-middle">
+                    <AlertTriangle size={12} />
+                  </span>
+                )}
+                {(accounts.length > 1 || t.counterpartyId) && t.type !== 'transfer' && (
+                  <span className="block text-xs font-normal text-slate-400">
+                    {[counterpartyName(t.counterpartyId), accounts.length > 1 ? accountName(accountOf(t)) : ''].filter(Boolean).join(' • ')}
+                  </span>
+                )}
+                {t.tags && t.tags.length > 0 && (
+                  <span className="block text-xs font-normal text-blue-600">{t.tags.map(tag => `#${tag}`).join(' ')}</span>
+                )}
+              </div>
+              <div className="col-span-3">
+                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-slate-100 text-slate-600 border border-slate-200 truncate max-w-full">
+                  {categoryLabel(t)}
+                </span>
+              </div>
+              <div className={`col-span-2 text-right font-semibold ${amountClass(t)}`}>
+                {amountSign(t)}{formatMZN(t.amount)}
+                {originalLabel(t) && <span className="block text-xs font-normal text-slate-400">{originalLabel(t)}</span>}
+              </div>
+              <div className="col-span-1 flex justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                {isLocked(t.date) ? null : t.deletedAt ? (
+                  <button
+                    onClick={() => onRestore(t.id)}
+                    className="text-blue-600 hover:text-blue-800 text-xs underline"
+                  >
+                    Restaurar
+                  </button>
+                ) : (
+                  <>
+                    {t.type !== 'transfer' && (
+                      <button
+                        onClick={() => onEdit(t)}
+                        title="Editar"
+                        className="text-slate-500 hover:text-blue-600"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                    )}
+                    <button 
+                      onClick={() => onDelete(t.id)}
+                      className="text-red-500 hover:text-red-700 text-xs underline"
+                    >
+                      Excluir
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+            {expandedHistoryId === t.id && (
+              <div className="px-12 py-3 bg-slate-50 border-t border-slate-100 space-y-3">
+                {!t.deletedAt && !isLocked(t.date) && t.type !== 'transfer' && (
+                  <div className="flex flex-wrap items-end gap-6">
+                    <div className="text-xs">
+                      <label className="block font-medium text-slate-500 mb-1">Conta</label>
+                      <select
+                        value={accountOf(t)}
+                        onChange={(e) => onUpdate(t, { ...t, accountId: e.target.value })}
+                        className="px-2 py-1.5 border border-slate-300 rounded-md bg-white"
+                      >
+                        {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                      </select>
+                    </div>
+                    <div className="text-xs">
+                      <label className="block font-medium text-slate-500 mb-1">Cliente / Fornecedor</label>
+                      <select
+                        value={t.counterpartyId || ''}
+                        onChange={(e) => onUpdate(t, { ...t, counterpartyId: e.target.value || undefined })}
+                        className="px-2 py-1.5 border border-slate-300 rounded-md bg-white"
+                      >
+                        <option value="">Sem contraparte</option>
+                        {counterparties.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                      </select>
+                    </div>
+                    <VatEditor transaction={t} onSave={(vat) => onUpdate(t, { ...t, vat })} />
+                    {!t.openItemId && <CurrencyEditor transaction={t} rates={exchangeRates} onSave={(fields) => onUpdate(t, { ...t, ...fields })} />}
+                  </div>
+                )}
+                {!t.deletedAt && !isLocked(t.date) && (
+                  <TagEditor tags={t.tags || []} suggestions={allTags} onChange={(tags) => onUpdate(t, { ...t, tags: tags.length > 0 ? tags : undefined })} />
+                )}
+                {(!t.deletedAt || (t.attachments && t.attachments.length > 0)) && (
+                  <AttachmentPanel
+                    attachments={t.attachments || []}
+                    readOnly={!!t.deletedAt || isLocked(t.date)}
+                    onUpload={(files) => onUploadAttachments(t, files)}
+                    onRemove={(attachment) => onRemoveAttachment(t, attachment)}
+                    onPreview={onPreviewAttachment}
+                  />
+                )}
+                <AuditTrail history={t.history || []} />
+              </div>
+            )}
+            </>
+          )}
+        />
+      ) : (
+        <div className="p-12 text-center text-slate-400">
+          <History className="w-12 h-12 mx-auto mb-3 opacity-20" />
+          <p>Nenhuma transação encontrada.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryTab;
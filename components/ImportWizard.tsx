@@ -0,0 +1,408 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Upload, AlertTriangle, Save } from 'lucide-react';
+import { Transaction, ChartAccount, CashAccount } from '../types';
+import AccountSelect from './AccountSelect';
+import { UNCATEGORIZED_CODE, formatAccount, resolveAccountCode } from '../services/chartOfAccounts';
+import { CategorizationInput, CategorySuggestion, applySuggestion } from '../services/categoryRules';
+import {
+  CsvDelimiter,
+  ImportField,
+  ImportProfile,
+  IMPORT_FIELD_LABELS,
+  buildImportRows,
+  detectDelimiter,
+  loadImportProfiles,
+  parseCSV,
+  saveImportProfiles,
+} from '../services/csvImport';
+
+interface ImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existing: Transaction[];
+  chart: ChartAccount[];
+  accounts: CashAccount[];
+  onImport: (transactions: Omit<Transaction, 'id'>[]) => void;
+  suggest: (input: CategorizationInput) => CategorySuggestion | null;
+}
+
+type Step = 'source' | 'mapping' | 'preview';
+
+const EMPTY_PROFILE: ImportProfile = {
+  name: '',
+  delimiter: ';',
+  hasHeader: true,
+  mapping: {},
+  defaultCategory: 'Outros',
+};
+
+const FIELDS: ImportField[] = ['date', 'description', 'amount', 'debit', 'credit', 'category'];
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, existing, chart, accounts, onImport, suggest }) => {
+  const [step, setStep] = useState<Step>('source');
+  const [rawText, setRawText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [encoding, setEncoding] = useState('utf-8');
+  const [profile, setProfile] = useState<ImportProfile>(EMPTY_PROFILE);
+  const [profiles, setProfiles] = useState<ImportProfile[]>(loadImportProfiles);
+  const [toggled, setToggled] = useState<Set<number>>(new Set());
+  const [useSuggestions, setUseSuggestions] = useState(true);
+
+  useEffect(() => {
+    if (isOpen) {
+      // Perfis podem ter mudado entretanto (p.ex. após restaurar um backup)
+      setProfiles(loadImportProfiles());
+    } else {
+      setStep('source');
+      setRawText('');
+      setFileName('');
+      setToggled(new Set());
+    }
+  }, [isOpen]);
+
+  const rows = useMemo(() => (rawText ? parseCSV(rawText, profile.delimiter) : []), [rawText, profile.delimiter]);
+  const columns = useMemo(() => {
+    const width = rows.reduce((max, r) => Math.max(max, r.length), 0);
+    return Array.from({ length: width }, (_, i) => (profile.hasHeader && rows[0]?.[i]) || `Coluna ${i + 1}`);
+  }, [rows, profile.hasHeader]);
+
+  const importRows = useMemo(
+    () => (step === 'preview' ? buildImportRows(rows, profile, existing) : []),
+    [step, rows, profile, existing]
+  );
+
+  // Linhas sem categoria no ficheiro (ou com a de omissão "Outros") recebem a sugestão das regras ou do histórico
+  const suggestions = useMemo(() => {
+    const map = new Map<number, CategorySuggestion>();
+    importRows.forEach(row => {
+      if (!row.transaction || resolveAccountCode(chart, row.transaction.category) !== UNCATEGORIZED_CODE) return;
+      const suggestion = suggest(row.transaction);
+      if (suggestion) map.set(row.line, suggestion);
+    });
+    return map;
+  }, [importRows, chart, suggest]);
+
+  if (!isOpen) return null;
+
+  const handleFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result || '');
+      setRawText(text);
+      setFileName(file.name);
+      setProfile(prev => ({ ...prev, delimiter: detectDelimiter(text) }));
+    };
+    reader.readAsText(file, encoding);
+  };
+
+  const applyProfile = (name: string) => {
+    const selected = profiles.find(p => p.name === name);
+    if (selected) setProfile(selected);
+  };
+
+  const setMapping = (field: ImportField, value: string) => {
+    setProfile(prev => {
+      const mapping = { ...prev.mapping };
+      if (value === '') delete mapping[field];
+      else mapping[field] = Number(value);
+      return { ...prev, mapping };
+    });
+  };
+
+  const handleSaveProfile = () => {
+    if (!profile.name.trim()) return;
+    const next = [...profiles.filter(p => p.name !== profile.name), profile];
+    setProfiles(next);
+    saveImportProfiles(next);
+  };
+
+  const goToPreview = () => {
+    setStep('preview');
+    setToggled(new Set());
+  };
+
+  // Por omissão os prováveis duplicados ficam desmarcados; `toggled` guarda as linhas alteradas pelo utilizador
+  const isIncluded = (line: number, duplicate: boolean) => duplicate === toggled.has(line);
+
+  const toggleRow = (line: number) => {
+    setToggled(prev => {
+      const next = new Set(prev);
+      if (next.has(line)) next.delete(line);
+      else next.add(line);
+      return next;
+    });
+  };
+
+  const selected = importRows.filter(r => r.transaction && isIncluded(r.line, !!r.duplicateOf));
+  const hasAmount = profile.mapping.amount !== undefined || profile.mapping.debit !== undefined || profile.mapping.credit !== undefined;
+  const canPreview = profile.mapping.date !== undefined && hasAmount;
+
+  const handleCommit = () => {
+    const accountId = profile.accountId || accounts[0]?.id;
+    onImport(selected.map(r => {
+      const suggestion = useSuggestions ? suggestions.get(r.line) : undefined;
+      return { ...(suggestion ? applySuggestion(r.transaction!, suggestion) : r.transaction!), accountId };
+    }));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex items-center justify-center z-50 print:hidden">
+      <div className="bg-white rounded-lg shadow-2xl border border-slate-200 w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="h-10 px-4 flex items-center justify-between border-b border-slate-200 bg-slate-50 rounded-t-lg">
+          <span className="text-xs text-slate-600">
+            Importar Extrato — {step === 'source' ? '1. Ficheiro' : step === 'mapping' ? '2. Mapeamento de colunas' : '3. Pré-visualização'}
+          </span>
+          <button onClick={onClose} className="text-slate-400 hover:text-red-500">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 text-sm">
+          {step === 'source' && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Perfil de banco</label>
+                  <select
+                    value={profile.name}
+                    onChange={(e) => applyProfile(e.target.value)}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-md bg-white"
+                  >
+                    <option value="">Novo mapeamento</option>
+                    {profiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Conta de destino</label>
+                  <select
+                    value={profile.accountId || accounts[0]?.id || ''}
+                    onChange={(e) => setProfile(prev => ({ ...prev, accountId: e.target.value }))}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-md bg-white"
+                  >
+                    {accounts.filter(a => !a.archived).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Codificação</label>
+                  <select
+                    value={encoding}
+                    onChange={(e) => setEncoding(e.target.value)}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-md bg-white"
+                  >
+                    <option value="utf-8">UTF-8</option>
+                    <option value="windows-1252">Windows-1252 (Excel)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Separador</label>
+                  <select
+                    value={profile.delimiter}
+                    onChange={(e) => setProfile(prev => ({ ...prev, delimiter: e.target.value as CsvDelimiter }))}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-md bg-white"
+                  >
+                    <option value=";">Ponto e vírgula (;)</option>
+                    <option value=",">Vírgula (,)</option>
+                    <option value={'\t'}>Tabulação</option>
+                  </select>
+                </div>
+              </div>
+
+              <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed border-slate-300 rounded-lg p-8 cursor-pointer hover:bg-slate-50">
+                <Upload className="text-slate-400" />
+                <span className="text-slate-600">{fileName || 'Selecione o ficheiro CSV do banco ou M-Pesa/e-Mola'}</span>
+                <input
+                  type="file"
+                  accept=".csv,.txt,text/csv"
+                  className="hidden"
+                  onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+                />
+              </label>
+
+              <label className="flex items-center gap-2 text-xs text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={profile.hasHeader}
+                  onChange={(e) => setProfile(prev => ({ ...prev, hasHeader: e.target.checked }))}
+                />
+                A primeira linha contém os nomes das colunas
+              </label>
+
+              {rows.length > 0 && (
+                <p className="text-xs text-slate-500">{rows.length} linhas lidas, {columns.length} colunas.</p>
+              )}
+            </div>
+          )}
+
+          {step === 'mapping' && (
+            <div className="space-y-4">
+              <p className="text-xs text-slate-500">
+                Indique a coluna correspondente a cada campo. Use "Valor" para colunas com sinal ou "Débito"/"Crédito" quando o extrato as separa.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {FIELDS.map(field => (
+                  <div key={field}>
+                    <label className="block text-xs font-medium text-slate-500 mb-1">{IMPORT_FIELD_LABELS[field]}</label>
+                    <select
+                      value={profile.mapping[field] ?? ''}
+                      onChange={(e) => setMapping(field, e.target.value)}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-md bg-white"
+                    >
+                      <option value="">— Não importar —</option>
+                      {columns.map((name, i) => (
+                        <option key={i} value={i}>
+                          {name} {rows[profile.hasHeader ? 1 : 0]?.[i] ? `(ex.: ${rows[profile.hasHeader ? 1 : 0][i]})` : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Categoria por omissão</label>
+                  <AccountSelect
+                    chart={chart}
+                    value={profile.defaultCategory}
+                    onChange={(code) => setProfile(prev => ({ ...prev, defaultCategory: code }))}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-md bg-white"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-end gap-2 pt-4 border-t border-slate-100">
+                <div className="flex-1">
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Guardar como perfil</label>
+                  <input
+                    type="text"
+                    placeholder="ex.: BCI - Conta Corrente"
+                    value={profile.name}
+                    onChange={(e) => setProfile(prev => ({ ...prev, name: e.target.value }))}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-md"
+                  />
+                </div>
+                <button
+                  onClick={handleSaveProfile}
+                  disabled={!profile.name.trim()}
+                  className="flex items-center gap-2 px-4 py-2 font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50"
+                >
+                  <Save size={16} />
+                  Guardar perfil
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <table className="w-full text-left">
+              <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <th className="px-3 py-2"></th>
+                  <th className="px-3 py-2">Linha</th>
+                  <th className="px-3 py-2">Data</th>
+                  <th className="px-3 py-2">Descrição</th>
+                  <th className="px-3 py-2">Categoria</th>
+                  <th className="px-3 py-2 text-right">Valor</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {importRows.map(row => (
+                  <tr key={row.line} className={row.error ? 'bg-rose-50/50 text-slate-400' : row.duplicateOf ? 'bg-amber-50/60' : ''}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        disabled={!row.transaction}
+                        checked={!!row.transaction && isIncluded(row.line, !!row.duplicateOf)}
+                        onChange={() => toggleRow(row.line)}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-slate-500">{row.line}</td>
+                    {row.transaction ? (
+                      <>
+                        <td className="px-3 py-2">{new Date(row.transaction.date).toLocaleDateString('pt-MZ')}</td>
+                        <td className="px-3 py-2">
+                          {row.transaction.description}
+                          {row.duplicateOf && (
+                            <span className="ml-2 inline-flex items-center gap-1 text-xs text-amber-700">
+                              <AlertTriangle size={12} />
+                              Possível duplicado de "{row.duplicateOf.description}"
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-slate-600">
+                          {useSuggestions && suggestions.has(row.line) ? (
+                            <>
+                              {formatAccount(chart, suggestions.get(row.line)!.category)}
+                              <span className="block text-xs text-blue-600">{suggestions.get(row.line)!.reason}</span>
+                            </>
+                          ) : formatAccount(chart, resolveAccountCode(chart, row.transaction.category))}
+                        </td>
+                        <td className={`px-3 py-2 text-right font-medium ${row.transaction.type === 'income' ? 'text-emerald-600' : 'text-rose-600'}`}>
+                          {row.transaction.type === 'income' ? '+' : '-'} {formatMZN(row.transaction.amount)}
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={4} className="px-3 py-2 text-rose-600">{row.error}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 rounded-b-lg flex justify-between items-center">
+          <span className="text-xs text-slate-500">
+            {step === 'preview' && `${selected.length} de ${importRows.length} linhas selecionadas`}
+            {step === 'preview' && suggestions.size > 0 && (
+              <label className="ml-4 inline-flex items-center gap-2">
+                <input type="checkbox" checked={useSuggestions} onChange={(e) => setUseSuggestions(e.target.checked)} />
+                Aplicar {suggestions.size} sugestão(ões) de categoria
+              </label>
+            )}
+          </span>
+          <div className="flex gap-3">
+            {step !== 'source' && (
+              <button
+                onClick={() => setStep(step === 'preview' ? 'mapping' : 'source')}
+                className="px-4 py-2 font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50"
+              >
+                Voltar
+              </button>
+            )}
+            {step === 'source' && (
+              <button
+                onClick={() => setStep('mapping')}
+                disabled={rows.length === 0}
+                className="px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Seguinte
+              </button>
+            )}
+            {step === 'mapping' && (
+              <button
+                onClick={goToPreview}
+                disabled={!canPreview}
+                className="px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Pré-visualizar
+              </button>
+            )}
+            {step === 'preview' && (
+              <button
+                onClick={handleCommit}
+                disabled={selected.length === 0}
+                className="px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Importar {selected.length} transações
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Loader2, MessageSquare, Send } from 'lucide-react';
+import { AIProviderId, LedgerQuery } from '../types';
+import { PROVIDER_LABELS } from '../services/ai';
+import { LedgerAnswer, QUESTION_EXAMPLES } from '../services/ledgerQuestions';
+
+interface LedgerChatProps {
+  provider: AIProviderId;
+  onAsk: (question: string) => Promise<LedgerAnswer | null>;
+  onOpenHistory: (query: LedgerQuery) => void;
+  onOpenReports: (query: LedgerQuery) => void;
+}
+
+interface ChatMessage {
+  id: string;
+  question: string;
+  answer?: LedgerAnswer;
+  error?: string;
+  loading: boolean;
+}
+
+// Perguntas em português sobre o livro; o fornecedor só traduz a pergunta, os valores são calculados localmente
+const LedgerChat: React.FC<LedgerChatProps> = ({ provider, onAsk, onOpenHistory, onOpenReports }) => {
+  const [question, setQuestion] = useState('');
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+
+  const update = (id: string, changes: Partial<ChatMessage>) =>
+    setMessages(prev => prev.map(m => (m.id === id ? { ...m, ...changes } : m)));
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text) return;
+    const id = crypto.randomUUID();
+    setMessages(prev => [...prev, { id, question: text, loading: true }]);
+    setQuestion('');
+    try {
+      const answer = await onAsk(text);
+      update(id, answer
+        ? { answer, loading: false }
+        : { error: 'Não foi possível interpretar a pergunta. Indique o período, o tipo ou a conta.', loading: false });
+    } catch (err) {
+      update(id, { error: 'Erro ao comunicar com o serviço de IA. Tente o fornecedor local.', loading: false });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <MessageSquare size={16} className="text-blue-600" />
+          Perguntas sobre o Livro
+        </h3>
+        <span className="text-xs text-slate-400">{PROVIDER_LABELS[provider]}</span>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto p-4 space-y-3 text-sm">
+        {messages.length === 0 && (
+          <div className="text-slate-500 space-y-1">
+            <p>Exemplos:</p>
+            {QUESTION_EXAMPLES.map(example => (
+              <button key={example} onClick={() => setQuestion(example)} className="block text-left text-blue-600 hover:underline">
+                {example}
+              </button>
+            ))}
+          </div>
+        )}
+        {messages.map(m => (
+          <div key={m.id} className="space-y-1">
+            <p className="font-medium text-slate-800">{m.question}</p>
+            {m.loading && <Loader2 size={14} className="animate-spin text-slate-400" />}
+            {m.error && <p className="text-rose-600">{m.error}</p>}
+            {m.answer && (
+              <div className="bg-slate-50 border border-slate-200 rounded-md px-3 py-2 space-y-1">
+                <p className="text-slate-700">{m.answer.text}</p>
+                <div className="flex gap-4 text-xs">
+                  <button onClick={() => onOpenHistory(m.answer!.query)} className="text-blue-600 hover:underline">
+                    Ver no Histórico
+                  </button>
+                  {!m.answer.query.counterpartyId && (
+                    <button onClick={() => onOpenReports(m.answer!.query)} className="text-blue-600 hover:underline">
+                      Ver em Relatórios
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAsk} className="p-4 border-t border-slate-100 flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Quanto gastámos em FST no último trimestre?"
+          className="flex-1 px-3 py-2 text-sm border border-slate-300 rounded-md"
+        />
+        <button type="submit" title="Perguntar" className="px-3 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700">
+          <Send size={16} />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LedgerChat;
@@ -0,0 +1,425 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Ban, Wallet, ChevronDown, ChevronRight } from 'lucide-react';
+import { CashAccount, ChartAccount, Counterparty, ExchangeRate, OpenItem, OpenItemKind, Transaction } from '../types';
+import {
+  OPEN_ITEM_KIND_LABELS,
+  OPEN_ITEM_STATUS_LABELS,
+  OpenItemStatus,
+  daysOverdue,
+  itemTotal,
+  openItemStatus,
+  outstandingAmount,
+  outstandingBase,
+  paidAmount,
+  paymentsOf
+} from '../services/openItems';
+import { BASE_CURRENCY, CURRENCIES, FX_GAIN_ACCOUNT, formatMoney, isForeign, originalLabel, rateOn, toBase } from '../services/currency';
+import { toDateKey } from '../services/recurring';
+import { findCounterparty } from '../services/counterparties';
+import AccountSelect from './AccountSelect';
+import CounterpartyInput from './CounterpartyInput';
+
+interface OpenItemsManagerProps {
+  items: OpenItem[];
+  transactions: Transaction[];
+  chart: ChartAccount[];
+  accounts: CashAccount[];
+  counterparties: Counterparty[];
+  rates: ExchangeRate[];
+  onAdd: (item: OpenItem) => void;
+  onUpdate: (item: OpenItem) => void;
+  onRemove: (id: string) => void;
+  onPay: (item: OpenItem, amount: number, date: string, accountId: string, rate?: number) => void;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const itemCurrency = (item: OpenItem) => item.currency || BASE_CURRENCY;
+
+const formatDay = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('pt-MZ');
+};
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-md bg-white';
+
+const STATUS_CLASSES: Record<OpenItemStatus, string> = {
+  open: 'bg-blue-50 text-blue-700',
+  partial: 'bg-amber-50 text-amber-700',
+  paid: 'bg-emerald-50 text-emerald-700',
+  cancelled: 'bg-slate-100 text-slate-500',
+};
+
+const DEFAULT_CATEGORY: Record<OpenItemKind, string> = { receivable: '7.1', payable: '6.3' };
+
+const addDays = (key: string, days: number) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return toDateKey(new Date(y, m - 1, d + days));
+};
+
+const OpenItemsManager: React.FC<OpenItemsManagerProps> = ({ items, transactions, chart, accounts, counterparties, rates, onAdd, onUpdate, onRemove, onPay }) => {
+  const activeAccounts = accounts.filter(a => !a.archived);
+  const today = toDateKey(new Date());
+
+  const [kind, setKind] = useState<OpenItemKind>('receivable');
+  const [counterparty, setCounterparty] = useState('');
+  const [reference, setReference] = useState('');
+  const [description, setDescription] = useState('');
+  const [issueDate, setIssueDate] = useState(today);
+  const [dueDate, setDueDate] = useState(addDays(today, 30));
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(BASE_CURRENCY);
+  const [rate, setRate] = useState('');
+  const [category, setCategory] = useState(DEFAULT_CATEGORY.receivable);
+  const [accountId, setAccountId] = useState(activeAccounts[0]?.id || '');
+  const [error, setError] = useState<string | null>(null);
+
+  const [kindFilter, setKindFilter] = useState<OpenItemKind | 'all'>('all');
+  const [showSettled, setShowSettled] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [paying, setPaying] = useState<{ id: string; amount: string; date: string; accountId: string; rate: string } | null>(null);
+
+  const suggestedRate = (code: string, date: string) => {
+    const value = rateOn(rates, code, date);
+    return value && isForeign(code) ? String(value) : '';
+  };
+
+  const changeKind = (value: OpenItemKind) => {
+    setKind(value);
+    setCategory(DEFAULT_CATEGORY[value]);
+  };
+
+  const changeCurrency = (value: string) => {
+    setCurrency(value);
+    setRate(suggestedRate(value, issueDate));
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(amount);
+    const rateValue = Number(rate);
+    if (!counterparty.trim() || !(value > 0)) {
+      setError('Indique a contraparte e um valor positivo.');
+      return;
+    }
+    if (isForeign(currency) && !(rateValue > 0)) {
+      setError(`Indique a taxa de câmbio ${currency}/MZN da data de emissão.`);
+      return;
+    }
+    if (dueDate < issueDate) {
+      setError('O vencimento não pode ser anterior à data de emissão.');
+      return;
+    }
+    const known = findCounterparty(counterparties, counterparty);
+    onAdd({
+      id: crypto.randomUUID(),
+      kind,
+      counterparty: known ? known.name : counterparty.trim(),
+      counterpartyId: known?.id,
+      reference: reference.trim() || undefined,
+      description: description.trim() || (kind === 'receivable' ? 'Fatura a cliente' : 'Fatura de fornecedor'),
+      issueDate,
+      dueDate,
+      amount: isForeign(currency) ? toBase(value, rateValue) : value,
+      ...(isForeign(currency) ? { currency, originalAmount: value, exchangeRate: rateValue } : {}),
+      category,
+      accountId: accountId || undefined,
+    });
+    setCounterparty('');
+    setReference('');
+    setDescription('');
+    setAmount('');
+    setError(null);
+  };
+
+  const startPayment = (item: OpenItem) => {
+    setPaying({
+      id: item.id,
+      amount: String(outstandingAmount(item, transactions)),
+      date: today,
+      accountId: item.accountId || activeAccounts[0]?.id || '',
+      rate: suggestedRate(itemCurrency(item), today) || String(item.exchangeRate || ''),
+    });
+  };
+
+  const confirmPayment = (item: OpenItem) => {
+    if (!paying) return;
+    const value = Math.round(Number(paying.amount) * 100) / 100;
+    const outstanding = outstandingAmount(item, transactions);
+    if (!(value > 0) || value > outstanding) {
+      window.alert(`Indique um valor entre 0 e ${formatMoney(outstanding, itemCurrency(item))}.`);
+      return;
+    }
+    const rateValue = Number(paying.rate);
+    if (isForeign(item.currency) && !(rateValue > 0)) {
+      window.alert('Indique a taxa de câmbio do dia do pagamento.');
+      return;
+    }
+    onPay(item, value, paying.date, paying.accountId, isForeign(item.currency) ? rateValue : undefined);
+    setPaying(null);
+  };
+
+  const rows = items
+    .map(item => ({ item, status: openItemStatus(item, transactions), outstanding: outstandingAmount(item, transactions) }))
+    .filter(({ item, status }) =>
+      (kindFilter === 'all' || item.kind === kindFilter) && (showSettled || status === 'open' || status === 'partial'))
+    .sort((a, b) => a.item.dueDate.localeCompare(b.item.dueDate));
+
+  const totals = (k: OpenItemKind) => {
+    const open = items.filter(i => i.kind === k);
+    return {
+      outstanding: open.reduce((acc, i) => acc + outstandingBase(i, transactions), 0),
+      overdue: open.filter(i => daysOverdue(i) > 0).reduce((acc, i) => acc + outstandingBase(i, transactions), 0),
+    };
+  };
+  const receivable = totals('receivable');
+  const payable = totals('payable');
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-4">
+          <p className="text-xs font-medium text-slate-500 uppercase tracking-wider">A receber de clientes</p>
+          <p className="text-2xl font-bold text-emerald-600 mt-1">{formatMZN(receivable.outstanding)}</p>
+          <p className={`text-xs mt-1 ${receivable.overdue > 0 ? 'text-rose-600' : 'text-slate-400'}`}>Vencido: {formatMZN(receivable.overdue)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-4">
+          <p className="text-xs font-medium text-slate-500 uppercase tracking-wider">A pagar a fornecedores</p>
+          <p className="text-2xl font-bold text-rose-600 mt-1">{formatMZN(payable.outstanding)}</p>
+          <p className={`text-xs mt-1 ${payable.overdue > 0 ? 'text-rose-600' : 'text-slate-400'}`}>Vencido: {formatMZN(payable.overdue)}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+          <h3 className="font-semibold text-slate-800">Nova Fatura em Aberto</h3>
+          <p className="text-xs text-slate-500 mt-1">Faturas emitidas a clientes e contas de fornecedores; cada pagamento registado cria a transação correspondente.</p>
+        </div>
+        <form onSubmit={handleAdd} className="p-4 grid grid-cols-1 md:grid-cols-4 gap-3 items-end text-sm">
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Tipo</label>
+            <select value={kind} onChange={(e) => changeKind(e.target.value as OpenItemKind)} className={inputClass}>
+              <option value="receivable">Fatura a cliente (a receber)</option>
+              <option value="payable">Conta de fornecedor (a pagar)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">{kind === 'receivable' ? 'Cliente' : 'Fornecedor'}</label>
+            <CounterpartyInput
+              id="open-item-counterparty"
+              directory={counterparties.filter(c => c.kind === 'both' || c.kind === (kind === 'receivable' ? 'customer' : 'supplier'))}
+              value={counterparty}
+              onChange={setCounterparty}
+              required
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">N.º da fatura</label>
+            <input type="text" placeholder="ex.: FT 2024/015" value={reference} onChange={(e) => setReference(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Valor</label>
+            <div className="flex gap-2">
+              <select value={currency} onChange={(e) => changeCurrency(e.target.value)} className="px-2 py-2 border border-slate-300 rounded-md bg-white">
+                {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+              </select>
+              <input type="number" step="0.01" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} className={inputClass} required />
+            </div>
+          </div>
+          {isForeign(currency) && (
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Taxa {currency}/MZN na emissão</label>
+              <input type="number" step="0.0001" min="0" value={rate} onChange={(e) => setRate(e.target.value)} className={inputClass} required />
+            </div>
+          )}
+          <div className={isForeign(currency) ? '' : 'md:col-span-2'}>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Descrição</label>
+            <input type="text" value={description} onChange={(e) => setDescription(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Emissão</label>
+            <input type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} className={inputClass} required />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Vencimento</label>
+            <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className={inputClass} required />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Categoria PGC-NIRF</label>
+            <AccountSelect chart={chart} value={category} onChange={setCategory} type={kind === 'receivable' ? 'income' : 'expense'} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Conta / Caixa</label>
+            <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClass}>
+              {activeAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+          </div>
+          <button type="submit" className="flex items-center justify-center gap-2 px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700">
+            <Plus size={16} />
+            Registar Fatura
+          </button>
+          {error && <p className="md:col-span-4 text-xs text-rose-600">{error}</p>}
+        </form>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex flex-wrap items-center justify-between gap-3">
+          <h3 className="font-semibold text-slate-800">Faturas</h3>
+          <div className="flex items-center gap-4 text-xs text-slate-600">
+            <select value={kindFilter} onChange={(e) => setKindFilter(e.target.value as OpenItemKind | 'all')} className="px-2 py-1 border border-slate-300 rounded-md bg-white">
+              <option value="all">Todas</option>
+              <option value="receivable">A receber</option>
+              <option value="payable">A pagar</option>
+            </select>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={showSettled} onChange={(e) => setShowSettled(e.target.checked)} className="rounded border-slate-300" />
+              Mostrar liquidadas e anuladas
+            </label>
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-4 py-3 font-semibold">Contraparte</th>
+                <th className="px-4 py-3 font-semibold">Fatura</th>
+                <th className="px-4 py-3 font-semibold">Vencimento</th>
+                <th className="px-4 py-3 font-semibold text-right">Valor</th>
+                <th className="px-4 py-3 font-semibold text-right">Pago</th>
+                <th className="px-4 py-3 font-semibold text-right">Em aberto</th>
+                <th className="px-4 py-3 font-semibold">Estado</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.map(({ item, status, outstanding }) => {
+                const overdueDays = outstanding > 0 ? daysOverdue(item) : 0;
+                const payments = paymentsOf(item, transactions);
+                return (
+                  <React.Fragment key={item.id}>
+                    <tr className="hover:bg-slate-50">
+                      <td className="px-4 py-3">
+                        <button
+                          onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
+                          className="flex items-center gap-1 font-medium text-slate-800"
+                        >
+                          {expandedId === item.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                          {item.counterparty}
+                        </button>
+                        <span className="text-xs text-slate-400 ml-5">{OPEN_ITEM_KIND_LABELS[item.kind]}</span>
+                      </td>
+                      <td className="px-4 py-3 text-slate-600">
+                        {item.reference || '-'}
+                        <span className="block text-xs text-slate-400">{item.description}</span>
+                      </td>
+                      <td className="px-4 py-3 text-slate-600">
+                        {formatDay(item.dueDate)}
+                        {overdueDays > 0 && <span className="block text-xs text-rose-600">vencida há {overdueDays} dia(s)</span>}
+                      </td>
+                      <td className="px-4 py-3 text-right text-slate-700">
+                        {formatMoney(itemTotal(item), itemCurrency(item))}
+                        {isForeign(item.currency) && <span className="block text-xs text-slate-400">{formatMZN(item.amount)}</span>}
+                      </td>
+                      <td className="px-4 py-3 text-right text-slate-500">{formatMoney(paidAmount(item, transactions), itemCurrency(item))}</td>
+                      <td className={`px-4 py-3 text-right font-semibold ${item.kind === 'receivable' ? 'text-emerald-600' : 'text-rose-600'}`}>
+                        {formatMoney(outstanding, itemCurrency(item))}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`text-[11px] font-medium rounded-full px-2 py-0.5 ${STATUS_CLASSES[status]}`}>{OPEN_ITEM_STATUS_LABELS[status]}</span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center justify-end gap-3">
+                          {outstanding > 0 && (
+                            <button onClick={() => startPayment(item)} className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:underline">
+                              <Wallet size={14} /> {item.kind === 'receivable' ? 'Receber' : 'Pagar'}
+                            </button>
+                          )}
+                          {status !== 'paid' && status !== 'cancelled' && (
+                            <button
+                              onClick={() => window.confirm('Anular esta fatura? O valor em falta deixa de contar como em aberto.')
+                                && onUpdate({ ...item, cancelledAt: new Date().toISOString() })}
+                              title="Anular"
+                              className="text-slate-400 hover:text-slate-700"
+                            >
+                              <Ban size={14} />
+                            </button>
+                          )}
+                          {payments.length === 0 && (
+                            <button onClick={() => onRemove(item.id)} title="Remover" className="text-slate-400 hover:text-red-600">
+                              <Trash2 size={14} />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                    {paying?.id === item.id && (
+                      <tr className="bg-blue-50/50">
+                        <td colSpan={8} className="px-4 py-3">
+                          <div className="flex flex-wrap items-end gap-3 text-sm">
+                            <div>
+                              <label className="block text-xs font-medium text-slate-500 mb-1">Valor ({itemCurrency(item)})</label>
+                              <input type="number" step="0.01" min="0" value={paying.amount} onChange={(e) => setPaying({ ...paying, amount: e.target.value })} className={inputClass} />
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-slate-500 mb-1">Data</label>
+                              <input
+                                type="date"
+                                value={paying.date}
+                                onChange={(e) => setPaying({ ...paying, date: e.target.value, rate: suggestedRate(itemCurrency(item), e.target.value) || paying.rate })}
+                                className={inputClass}
+                              />
+                            </div>
+                            {isForeign(item.currency) && (
+                              <div>
+                                <label className="block text-xs font-medium text-slate-500 mb-1">Taxa do dia (emissão: {item.exchangeRate})</label>
+                                <input type="number" step="0.0001" min="0" value={paying.rate} onChange={(e) => setPaying({ ...paying, rate: e.target.value })} className={inputClass} />
+                              </div>
+                            )}
+                            <div>
+                              <label className="block text-xs font-medium text-slate-500 mb-1">Conta / Caixa</label>
+                              <select value={paying.accountId} onChange={(e) => setPaying({ ...paying, accountId: e.target.value })} className={inputClass}>
+                                {activeAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                              </select>
+                            </div>
+                            <button onClick={() => confirmPayment(item)} className="px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700">
+                              Registar {item.kind === 'receivable' ? 'Recebimento' : 'Pagamento'}
+                            </button>
+                            <button onClick={() => setPaying(null)} className="px-3 py-2 font-medium text-slate-600 hover:text-slate-800">Cancelar</button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                    {expandedId === item.id && (
+                      <tr className="bg-slate-50/60">
+                        <td colSpan={8} className="px-10 py-3 text-xs text-slate-600">
+                          <p className="mb-1">Emitida em {formatDay(item.issueDate)}{item.cancelledAt && ` • anulada em ${new Date(item.cancelledAt).toLocaleDateString('pt-MZ')}`}</p>
+                          {transactions.filter(t => t.openItemId === item.id && !t.deletedAt).map(t => (
+                            <p key={t.id} className={t.fxDifference ? 'text-slate-400' : ''}>
+                              {new Date(t.date).toLocaleDateString('pt-MZ')} • {t.description} • {formatMZN(t.amount)}
+                              {t.fxDifference && (t.category === FX_GAIN_ACCOUNT ? ' (ganho)' : ' (perda)')}
+                              {originalLabel(t) && ` (${originalLabel(t)})`}
+                            </p>
+                          ))}
+                          {payments.length === 0 && <p className="text-slate-400">Sem pagamentos registados.</p>}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-6 py-10 text-center text-slate-400">Nenhuma fatura em aberto.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OpenItemsManager;
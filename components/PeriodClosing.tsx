@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Lock, Unlock } from 'lucide-react';
+import { CashAccount, ClosedPeriod, PeriodLogEntry } from '../types';
+import { fiscalYearEndMonth, formatMonth, monthKey } from '../services/periodClosing';
+
+interface PeriodClosingProps {
+  closed: ClosedPeriod[];
+  log: PeriodLogEntry[];
+  accounts: CashAccount[];
+  fiscalYearStart: number;
+  readOnly: boolean; // só o proprietário fecha e reabre
+  onClose: (through: string) => void;
+  onReopen: (from: string, reason: string) => void;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-md bg-white';
+
+const MAX_LOG = 20;
+
+// Fecho mensal ou do exercício: bloqueia as transações dos meses declarados e regista os saldos de fecho
+const PeriodClosing: React.FC<PeriodClosingProps> = ({ closed, log, accounts, fiscalYearStart, readOnly, onClose, onReopen }) => {
+  const today = new Date();
+  const [month, setMonth] = useState(monthKey(new Date(today.getFullYear(), today.getMonth() - 1, 1)));
+  const [reopening, setReopening] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+
+  const accountName = (id: string) => accounts.find(a => a.id === id)?.name || id;
+  const sorted = [...closed].sort((a, b) => b.month.localeCompare(a.month));
+  const yearEnd = month ? fiscalYearEndMonth(new Date(`${month}-01T12:00:00`), fiscalYearStart) : '';
+
+  const handleReopen = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reopening || !reason.trim()) return;
+    onReopen(reopening, reason.trim());
+    setReopening(null);
+    setReason('');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="font-semibold text-slate-800">Fecho de Períodos</h3>
+        <p className="text-xs text-slate-500 mt-1">
+          Depois de declarado, o mês fica fechado: as transações com data até ao fim dele não podem ser criadas, alteradas nem eliminadas.
+          {' '}Reabrir exige um motivo e fica registado.
+        </p>
+      </div>
+
+      {readOnly ? (
+        <p className="px-6 py-3 border-b border-slate-100 text-xs text-slate-500">Só o proprietário da empresa fecha e reabre períodos.</p>
+      ) : (
+        <div className="p-4 border-b border-slate-100 flex flex-wrap items-end gap-3 text-sm">
+          <div className="w-48">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Mês</label>
+            <input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className={inputClass} />
+          </div>
+          <button
+            onClick={() => onClose(month)}
+            disabled={!month}
+            className="flex items-center gap-2 px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Lock size={16} />
+            Fechar até este mês
+          </button>
+          <button
+            onClick={() => onClose(yearEnd)}
+            disabled={!month}
+            className="px-4 py-2 font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50"
+          >
+            Fechar exercício (até {yearEnd && formatMonth(yearEnd)})
+          </button>
+        </div>
+      )}
+
+      {sorted.length === 0 && <p className="px-6 py-4 text-sm text-slate-500">Ainda não há meses fechados.</p>}
+      <div className="max-h-80 overflow-y-auto divide-y divide-slate-100 text-sm">
+        {sorted.map(p => (
+          <div key={p.month} className="px-6 py-2">
+            <div className="flex items-center gap-4">
+              <Lock size={14} className="text-slate-400 shrink-0" />
+              <span className="w-40 shrink-0 font-medium text-slate-800 capitalize">{formatMonth(p.month)}</span>
+              <span
+                className="flex-1 min-w-0 truncate text-slate-600"
+                title={Object.entries(p.balances).map(([id, value]) => `${accountName(id)}: ${formatMZN(value)}`).join('\n')}
+              >
+                Saldo de fecho {formatMZN(Object.values(p.balances).reduce((acc, v) => acc + v, 0))}
+              </span>
+              <span className="shrink-0 text-xs text-slate-400">
+                {new Date(p.closedAt).toLocaleDateString('pt-MZ')} • {p.closedBy}
+              </span>
+              {!readOnly && (
+                <button
+                  onClick={() => {
+                    setReopening(reopening === p.month ? null : p.month);
+                    setReason('');
+                  }}
+                  title="Reabrir"
+                  className="text-slate-400 hover:text-amber-600"
+                >
+                  <Unlock size={14} />
+                </button>
+              )}
+            </div>
+            {reopening === p.month && (
+              <form onSubmit={handleReopen} className="mt-2 flex gap-2">
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Motivo da reabertura (obrigatório)"
+                  autoFocus
+                  className="flex-1 px-3 py-1.5 border border-slate-300 rounded-md"
+                />
+                <button
+                  type="submit"
+                  disabled={!reason.trim()}
+                  className="px-3 py-1.5 font-medium text-white bg-amber-600 rounded-md hover:bg-amber-700 disabled:opacity-50"
+                >
+                  Reabrir
+                </button>
+              </form>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {log.length > 0 && (
+        <div className="border-t border-slate-100 px-6 py-3 text-xs text-slate-500 space-y-1">
+          <p className="font-medium text-slate-700">Registo</p>
+          {[...log].sort((a, b) => b.at.localeCompare(a.at)).slice(0, MAX_LOG).map(entry => (
+            <p key={entry.id}>
+              {new Date(entry.at).toLocaleString('pt-MZ')} — {entry.action === 'close' ? 'Fecho' : 'Reabertura'} de {formatMonth(entry.month)} por {entry.by}
+              {entry.reason && `: "${entry.reason}"`}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PeriodClosing;
@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { Plus, Check, SkipForward, Pause, Play, Trash2 } from 'lucide-react';
+import { CashAccount, ChartAccount, RecurrenceFrequency, RecurringTemplate, Transaction } from '../types';
+import { FREQUENCY_LABELS, toDateKey } from '../services/recurring';
+import { accountType, formatAccount } from '../services/chartOfAccounts';
+import { CategorizationInput, CategorySuggestion } from '../services/categoryRules';
+import AccountSelect from './AccountSelect';
+
+interface RecurringManagerProps {
+  templates: RecurringTemplate[];
+  pending: Transaction[];
+  upcoming: { template: RecurringTemplate; date: string }[];
+  chart: ChartAccount[];
+  accounts: CashAccount[];
+  onAddTemplate: (template: RecurringTemplate) => void;
+  onUpdateTemplate: (template: RecurringTemplate) => void;
+  onRemoveTemplate: (id: string) => void;
+  onConfirmPending: (transaction: Transaction) => void;
+  onSkipPending: (transaction: Transaction) => void;
+  onConfirmUpcoming: (template: RecurringTemplate, date: string) => void;
+  onSkipUpcoming: (template: RecurringTemplate, date: string) => void;
+  suggest: (input: CategorizationInput) => CategorySuggestion | null;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const formatDay = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('pt-MZ');
+};
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-md bg-white';
+
+const RecurringManager: React.FC<RecurringManagerProps> = ({
+  templates,
+  pending,
+  upcoming,
+  chart,
+  accounts,
+  onAddTemplate,
+  onUpdateTemplate,
+  onRemoveTemplate,
+  onConfirmPending,
+  onSkipPending,
+  onConfirmUpcoming,
+  onSkipUpcoming,
+  suggest,
+}) => {
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [category, setCategory] = useState('6.3.5');
+  const [accountId, setAccountId] = useState(accounts[0]?.id || '');
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('monthly');
+  const [repeatEvery, setRepeatEvery] = useState('1');
+  const [startDate, setStartDate] = useState(toDateKey(new Date()));
+  const [endMode, setEndMode] = useState<'never' | 'date' | 'count'>('never');
+  const [endDate, setEndDate] = useState('');
+  const [count, setCount] = useState('12');
+
+  // Sugestão enquanto se escreve a descrição; só é usada se o utilizador a aceitar
+  const suggestion = description.trim().length >= 3 ? suggest({ description, amount: Number(amount) || 0 }) : null;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(amount);
+    if (!description.trim() || !(value > 0)) return;
+    onAddTemplate({
+      id: crypto.randomUUID(),
+      description: description.trim(),
+      amount: value,
+      type: accountType(category) === 'income' ? 'income' : 'expense',
+      category,
+      accountId: accountId || undefined,
+      frequency,
+      interval: Math.max(1, Number(repeatEvery) || 1),
+      startDate,
+      endDate: endMode === 'date' && endDate ? endDate : undefined,
+      count: endMode === 'count' ? Math.max(1, Number(count) || 1) : undefined,
+      skippedDates: [],
+      active: true,
+    });
+    setDescription('');
+    setAmount('');
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      {/* Pending review */}
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+          <h3 className="font-semibold text-slate-800">Pendentes de Confirmação</h3>
+          <p className="text-xs text-slate-500 mt-1">Lançamentos gerados automaticamente; só contam nos totais depois de confirmados.</p>
+        </div>
+        <div className="divide-y divide-slate-100 text-sm">
+          {pending.map(t => (
+            <div key={t.id} className="px-6 py-3 flex items-center justify-between">
+              <div>
+                <p className="font-medium text-slate-800">{t.description}</p>
+                <p className="text-xs text-slate-500">{formatAccount(chart, t.category)} • {new Date(t.date).toLocaleDateString('pt-MZ')}</p>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className={`font-semibold ${t.type === 'income' ? 'text-emerald-600' : 'text-rose-600'}`}>{formatMZN(t.amount)}</span>
+                <button onClick={() => onConfirmPending(t)} className="flex items-center gap-1 text-xs font-medium text-emerald-700 hover:underline">
+                  <Check size={14} /> Confirmar
+                </button>
+                <button onClick={() => onSkipPending(t)} className="flex items-center gap-1 text-xs font-medium text-slate-500 hover:underline">
+                  <SkipForward size={14} /> Saltar
+                </button>
+              </div>
+            </div>
+          ))}
+          {pending.length === 0 && <div className="px-6 py-6 text-center text-slate-400">Nenhum lançamento pendente.</div>}
+        </div>
+      </div>
+
+      {/* Upcoming */}
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+          <h3 className="font-semibold text-slate-800">Próximos 30 dias</h3>
+        </div>
+        <div className="divide-y divide-slate-100 text-sm">
+          {upcoming.map(({ template, date }) => (
+            <div key={`${template.id}-${date}`} className="px-6 py-3 flex items-center justify-between">
+              <div>
+                <p className="font-medium text-slate-800">{template.description}</p>
+                <p className="text-xs text-slate-500">{formatDay(date)} • {FREQUENCY_LABELS[template.frequency]}</p>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className={`font-semibold ${template.type === 'income' ? 'text-emerald-600' : 'text-rose-600'}`}>{formatMZN(template.amount)}</span>
+                <button onClick={() => onConfirmUpcoming(template, date)} className="flex items-center gap-1 text-xs font-medium text-emerald-700 hover:underline">
+                  <Check size={14} /> Lançar já
+                </button>
+                <button onClick={() => onSkipUpcoming(template, date)} className="flex items-center gap-1 text-xs font-medium text-slate-500 hover:underline">
+                  <SkipForward size={14} /> Saltar
+                </button>
+              </div>
+            </div>
+          ))}
+          {upcoming.length === 0 && <div className="px-6 py-6 text-center text-slate-400">Sem ocorrências previstas.</div>}
+        </div>
+      </div>
+
+      {/* Templates */}
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+          <h3 className="font-semibold text-slate-800">Modelos Recorrentes</h3>
+        </div>
+
+        <form onSubmit={handleAdd} className="p-4 border-b border-slate-100 grid grid-cols-1 md:grid-cols-4 gap-3 items-end text-sm">
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Descrição</label>
+            <input type="text" placeholder="ex.: Renda do escritório" value={description} onChange={(e) => setDescription(e.target.value)} className={inputClass} required />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Valor (MZN)</label>
+            <input type="number" step="0.01" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} className={inputClass} required />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Conta / Caixa</label>
+            <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClass}>
+              {accounts.filter(a => !a.archived).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Categoria PGC-NIRF</label>
+            <AccountSelect chart={chart} value={category} onChange={setCategory} className={inputClass} />
+            {suggestion && suggestion.category !== category && (
+              <p className="mt-1 text-xs text-slate-500">
+                Sugestão: {formatAccount(chart, suggestion.category)} ({suggestion.reason}){' '}
+                <button type="button" onClick={() => setCategory(suggestion.category)} className="font-medium text-blue-600 hover:underline">
+                  Usar
+                </button>
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Frequência</label>
+            <select value={frequency} onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency)} className={inputClass}>
+              {Object.entries(FREQUENCY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Repetir a cada</label>
+            <input type="number" min="1" value={repeatEvery} onChange={(e) => setRepeatEvery(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Início</label>
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} required />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Termina</label>
+            <select value={endMode} onChange={(e) => setEndMode(e.target.value as 'never' | 'date' | 'count')} className={inputClass}>
+              <option value="never">Nunca</option>
+              <option value="date">Numa data</option>
+              <option value="count">Após N ocorrências</option>
+            </select>
+          </div>
+          <div>
+            {endMode === 'date' && (
+              <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+            )}
+            {endMode === 'count' && (
+              <input type="number" min="1" value={count} onChange={(e) => setCount(e.target.value)} className={inputClass} />
+            )}
+          </div>
+          <button type="submit" className="flex items-center justify-center gap-2 px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700">
+            <Plus size={16} />
+            Criar Modelo
+          </button>
+        </form>
+
+        <div className="divide-y divide-slate-100 text-sm">
+          {templates.map(template => (
+            <div key={template.id} className={`px-6 py-3 flex items-center justify-between ${template.active ? '' : 'opacity-50'}`}>
+              <div>
+                <p className="font-medium text-slate-800">{template.description}</p>
+                <p className="text-xs text-slate-500">
+                  {formatAccount(chart, template.category)} • {FREQUENCY_LABELS[template.frequency]}
+                  {template.interval > 1 && ` (a cada ${template.interval})`} • desde {formatDay(template.startDate)}
+                  {template.endDate && ` até ${formatDay(template.endDate)}`}
+                  {template.count !== undefined && ` • ${template.count} ocorrências`}
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className={`font-semibold ${template.type === 'income' ? 'text-emerald-600' : 'text-rose-600'}`}>{formatMZN(template.amount)}</span>
+                <button
+                  onClick={() => onUpdateTemplate({ ...template, active: !template.active })}
+                  title={template.active ? 'Suspender' : 'Retomar'}
+                  className="text-slate-400 hover:text-slate-700"
+                >
+                  {template.active ? <Pause size={14} /> : <Play size={14} />}
+                </button>
+                <button onClick={() => onRemoveTemplate(template.id)} title="Remover modelo" className="text-slate-400 hover:text-red-600">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+          {templates.length === 0 && <div className="px-6 py-6 text-center text-slate-400">Nenhum modelo recorrente.</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecurringManager;
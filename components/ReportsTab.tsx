@@ -0,0 +1,376 @@
+import React, { useMemo, useState } from 'react';
+import { Filter, Calendar, Upload, FileSpreadsheet, FileText } from 'lucide-react';
+import {
+  CashAccount,
+  ChartAccount,
+  ClosedPeriod,
+  CompanyProfile,
+  Counterparty,
+  OpenItem,
+  ReportFilters,
+  Transaction,
+} from '../types';
+import { accountOf, flowFor, touchesAccount } from '../services/accounts';
+import { formatAccount, isWithinAccount } from '../services/chartOfAccounts';
+import { originalLabel } from '../services/currency';
+import { formatMonth, openingBalanceAt } from '../services/periodClosing';
+import { formatRange, isInPeriod, resolvePeriod } from '../services/periods';
+import { exportPdf, exportXlsx } from '../services/reportExport';
+import {
+  accountTotalsTable,
+  agingTable,
+  cashFlowTable,
+  counterpartyStatementTable,
+  fxDifferencesTable,
+  incomeStatementTable,
+  movementsTable,
+  vatTable
+} from '../services/reportTables';
+import AccountSelect from './AccountSelect';
+import AccountTotalsTable from './AccountTotalsTable';
+import VatReport from './VatReport';
+import FinancialStatements from './FinancialStatements';
+import FxDifferencesReport from './FxDifferencesReport';
+import AgingReport from './AgingReport';
+import CounterpartyStatement from './CounterpartyStatement';
+
+interface ReportsTabProps {
+  transactions: Transaction[]; // confirmadas e não eliminadas
+  allTransactions: Transaction[];
+  chart: ChartAccount[];
+  accounts: CashAccount[];
+  counterparties: Counterparty[];
+  openItems: OpenItem[];
+  closedPeriods: ClosedPeriod[];
+  fiscalYearStart: number;
+  company: CompanyProfile;
+  // Os filtros ficam na aplicação para sobreviverem à troca de separador
+  filters: ReportFilters;
+  onFiltersChange: (changes: Partial<ReportFilters>) => void;
+  statementPartyId: string;
+  onStatementPartyChange: (id: string) => void;
+  categoryLabel: (t: Transaction) => string;
+  accountName: (id: string) => string;
+  readOnly: boolean;
+  onImport: () => void;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+// Separador Relatórios: movimentos, IVA, demonstrações, antiguidade de saldos e extratos, no ecrã e exportados
+const ReportsTab: React.FC<ReportsTabProps> = ({
+  transactions,
+  allTransactions,
+  chart,
+  accounts,
+  counterparties,
+  openItems,
+  closedPeriods,
+  fiscalYearStart,
+  company,
+  filters,
+  onFiltersChange,
+  statementPartyId,
+  onStatementPartyChange,
+  categoryLabel,
+  accountName,
+  readOnly,
+  onImport,
+}) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const movements = useMemo(() => transactions.filter(t => t.type !== 'transfer'), [transactions]);
+  const openingBalance = accounts.reduce((acc, a) => acc + a.openingBalance, 0);
+  const accountLabel = (code: string) => formatAccount(chart, code);
+
+  const reportRange = useMemo(() => resolvePeriod(
+    { preset: 'custom', customStart: filters.startDate, customEnd: filters.endDate },
+    fiscalYearStart
+  ), [filters.startDate, filters.endDate, fiscalYearStart]);
+
+  // Todos os relatórios usam o mesmo intervalo em datas locais
+  const periodTransactions = useMemo(() => transactions.filter(t => isInPeriod(t, reportRange)), [transactions, reportRange]);
+
+  // Transferências só aparecem no relatório quando se filtra uma conta concreta
+  const reportData = useMemo(() => {
+    return periodTransactions.filter(t => {
+      if (t.type === 'transfer') {
+        return filters.accountId !== 'all' && filters.type === 'all' && filters.category === 'all'
+          && touchesAccount(t, filters.accountId);
+      }
+      const typeMatch = filters.type === 'all' || t.type === filters.type;
+      const catMatch = filters.category === 'all' || isWithinAccount(t.category, filters.category);
+      const accountMatch = filters.accountId === 'all' || accountOf(t) === filters.accountId;
+
+      return typeMatch && catMatch && accountMatch;
+    }).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }, [periodTransactions, filters.type, filters.category, filters.accountId]);
+
+  const reportMovements = useMemo(() => reportData.filter(t => t.type !== 'transfer'), [reportData]);
+  const reportTotals = useMemo(() => reportData.reduce((acc, t) => {
+    const { inflow, outflow } = flowFor(t, filters.accountId);
+    return { inflow: acc.inflow + inflow, outflow: acc.outflow + outflow };
+  }, { inflow: 0, outflow: 0 }), [reportData, filters.accountId]);
+
+  // Saldo de abertura do relatório (só sem filtro de tipo ou categoria): o do fecho do mês anterior quando existe
+  const reportOpening = useMemo(
+    () => (filters.type === 'all' && filters.category === 'all'
+      ? openingBalanceAt(reportRange.start, filters.accountId, accounts, transactions, closedPeriods)
+      : null),
+    [filters.type, filters.category, filters.accountId, reportRange, accounts, transactions, closedPeriods]
+  );
+  const reportOpeningLabel = reportOpening?.carriedFrom
+    ? `Saldo de abertura (transportado do fecho de ${formatMonth(reportOpening.carriedFrom.month)})`
+    : 'Saldo de abertura';
+
+  // Antiguidade de saldos no último dia do intervalo
+  const agingDate = new Date(reportRange.end.getFullYear(), reportRange.end.getMonth(), reportRange.end.getDate() - 1);
+
+  // Um relatório por folha (Excel) ou por secção (PDF), a partir dos mesmos dados mostrados no ecrã
+  const statementParty = counterparties.find(c => c.id === statementPartyId);
+  const hasForeignCurrency = allTransactions.some(t => t.currency || t.fxDifference) || openItems.some(i => i.currency);
+  const buildReportTables = () => [
+    movementsTable(
+      reportData,
+      filters.accountId,
+      reportRange,
+      { category: categoryLabel, account: accountName, accountOf },
+      reportOpening ? { amount: reportOpening.amount, label: reportOpeningLabel } : undefined
+    ),
+    accountTotalsTable(reportMovements, chart, reportRange),
+    vatTable(movements, reportRange),
+    incomeStatementTable(transactions, chart, reportRange),
+    cashFlowTable(transactions, chart, reportRange, openingBalance, accountLabel),
+    agingTable(openItems, allTransactions, 'receivable', agingDate),
+    agingTable(openItems, allTransactions, 'payable', agingDate),
+    ...(hasForeignCurrency ? [fxDifferencesTable(transactions, reportRange)] : []),
+    ...(statementParty ? [counterpartyStatementTable(statementParty, transactions, openItems, reportRange, accountLabel)] : []),
+  ];
+
+  const handleExport = async (format: 'xlsx' | 'pdf') => {
+    const filename = `relatorio_fluxo_${filters.startDate}_${filters.endDate}.${format}`;
+    setIsExporting(true);
+    try {
+      if (format === 'xlsx') {
+        await exportXlsx(filename, company, buildReportTables());
+      } else {
+        exportPdf(filename, company, buildReportTables());
+      }
+    } catch (err) {
+      window.alert('Não foi possível gerar o ficheiro do relatório.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      
+      {/* Filters Panel - Windows 11 Style Card */}
+      <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200 print:hidden">
+        <div className="flex items-center gap-2 mb-4 text-slate-800 font-semibold border-b border-slate-100 pb-2">
+           <Filter size={16} />
+           <h2>Configuração do Relatório</h2>
+        </div>
+        
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Data Início</label>
+            <div className="relative">
+               <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+               <input 
+                type="date"
+                value={filters.startDate}
+                onChange={(e) => onFiltersChange({ startDate: e.target.value })}
+                className="w-full pl-9 pr-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Data Fim</label>
+            <div className="relative">
+               <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+               <input 
+                type="date"
+                value={filters.endDate}
+                onChange={(e) => onFiltersChange({ endDate: e.target.value })}
+                className="w-full pl-9 pr-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Tipo de Operação</label>
+            <select 
+              value={filters.type}
+              onChange={(e) => onFiltersChange({ type: e.target.value as ReportFilters['type'] })}
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 bg-white"
+            >
+              <option value="all">Todas</option>
+              <option value="income">Receitas (Classe 7)</option>
+              <option value="expense">Despesas (Classe 6)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Categoria PGC-NIRF</label>
+            <AccountSelect
+              chart={chart}
+              value={filters.category}
+              onChange={(code) => onFiltersChange({ category: code })}
+              type={filters.type}
+              allLabel="Todas as Categorias"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Conta / Caixa</label>
+            <select 
+              value={filters.accountId}
+              onChange={(e) => onFiltersChange({ accountId: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 bg-white"
+            >
+              <option value="all">Todas as Contas</option>
+              {accounts.map(a => (
+                <option key={a.id} value={a.id}>{a.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="mt-4 pt-4 border-t border-slate-100 flex gap-3 justify-end">
+           {!readOnly && (
+             <button 
+              onClick={onImport}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50 active:bg-slate-100 transition-colors"
+             >
+               <Upload size={16} />
+               Importar Extrato
+             </button>
+           )}
+           <button 
+            onClick={() => handleExport('xlsx')}
+            disabled={isExporting}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50 active:bg-slate-100 transition-colors disabled:opacity-50"
+           >
+             <FileSpreadsheet size={16} />
+             Exportar Excel
+           </button>
+           <button 
+            onClick={() => handleExport('pdf')}
+            disabled={isExporting}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-slate-800 border border-slate-800 rounded-md hover:bg-slate-900 shadow-sm transition-colors disabled:opacity-50"
+           >
+             <FileText size={16} />
+             Exportar PDF
+           </button>
+        </div>
+      </div>
+
+      {/* Report Preview / Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden min-h-[400px]">
+        <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center print:bg-white print:border-b-2 print:border-black">
+           <h3 className="font-bold text-slate-800">
+             Relatório de Movimentos
+             <span className="block text-xs font-normal text-slate-500 mt-1">
+               {formatRange(reportRange)}
+             </span>
+           </h3>
+           <div className="text-right text-xs text-slate-500 hidden print:block">
+             Gerado em: {new Date().toLocaleString('pt-MZ')}
+           </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200 print:bg-white print:text-black">
+              <tr>
+                <th className="px-6 py-3 font-semibold">Data</th>
+                <th className="px-6 py-3 font-semibold">Descrição</th>
+                <th className="px-6 py-3 font-semibold">Categoria (PGC)</th>
+                <th className="px-6 py-3 font-semibold text-right">Entrada</th>
+                <th className="px-6 py-3 font-semibold text-right">Saída</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {reportOpening && (
+                <tr className="bg-slate-50/50 font-medium text-slate-700">
+                  <td colSpan={3} className="px-6 py-3">{reportOpeningLabel}</td>
+                  <td colSpan={2} className="px-6 py-3 text-right">{formatMZN(reportOpening.amount)}</td>
+                </tr>
+              )}
+              {reportData.map((t) => (
+                <tr key={t.id} className="hover:bg-slate-50 transition-colors print:hover:bg-transparent">
+                  <td className="px-6 py-3 text-slate-600">{new Date(t.date).toLocaleDateString('pt-MZ')}</td>
+                  <td className="px-6 py-3 font-medium text-slate-800">
+                    {t.description}
+                    {originalLabel(t) && <span className="block text-xs font-normal text-slate-400">{originalLabel(t)}</span>}
+                  </td>
+                  <td className="px-6 py-3 text-slate-600">{categoryLabel(t)}</td>
+                  <td className="px-6 py-3 text-right text-emerald-600 font-medium">
+                    {flowFor(t, filters.accountId).inflow ? formatMZN(t.amount) : '-'}
+                  </td>
+                  <td className="px-6 py-3 text-right text-rose-600 font-medium">
+                    {flowFor(t, filters.accountId).outflow ? formatMZN(t.amount) : '-'}
+                  </td>
+                </tr>
+              ))}
+              {reportData.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-slate-400">
+                    Nenhum dado encontrado com os filtros selecionados.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+            <tfoot className="bg-slate-50 border-t border-slate-200 font-bold text-slate-800 print:bg-slate-100">
+              <tr>
+                <td colSpan={3} className="px-6 py-3 text-right uppercase text-xs tracking-wider">Totais do Período</td>
+                <td className="px-6 py-3 text-right text-emerald-600">
+                  {formatMZN(reportTotals.inflow)}
+                </td>
+                <td className="px-6 py-3 text-right text-rose-600">
+                  {formatMZN(reportTotals.outflow)}
+                </td>
+              </tr>
+              {reportOpening && (
+                <tr>
+                  <td colSpan={3} className="px-6 py-3 text-right uppercase text-xs tracking-wider">Saldo Final</td>
+                  <td colSpan={2} className="px-6 py-3 text-right">
+                    {formatMZN(reportOpening.amount + reportTotals.inflow - reportTotals.outflow)}
+                  </td>
+                </tr>
+              )}
+            </tfoot>
+          </table>
+        </div>
+      </div>
+
+      <AccountTotalsTable transactions={reportMovements} chart={chart} />
+
+      <VatReport transactions={movements} range={reportRange} />
+
+      <FinancialStatements
+        transactions={transactions}
+        chart={chart}
+        range={reportRange}
+        openingBalance={openingBalance}
+      />
+
+      {hasForeignCurrency && <FxDifferencesReport transactions={transactions} range={reportRange} />}
+
+      <AgingReport items={openItems} transactions={allTransactions} asOf={agingDate} />
+
+      <CounterpartyStatement
+        counterparties={counterparties}
+        selectedId={statementPartyId}
+        onSelect={onStatementPartyChange}
+        transactions={transactions}
+        openItems={openItems}
+        allTransactions={allTransactions}
+        chart={chart}
+        range={reportRange}
+      />
+    </div>
+  );
+};
+
+export default ReportsTab;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Bookmark, Trash2 } from 'lucide-react';
+import { SavedView } from '../types';
+
+interface SavedViewsMenuProps {
+  views: SavedView[];
+  activeId: string | null;
+  onApply: (view: SavedView) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// Vistas guardadas do Histórico: aplicar, guardar a pesquisa atual com um nome e remover
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ views, activeId, onApply, onSave, onDelete }) => {
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+    setNaming(false);
+  };
+
+  const sorted = [...views].sort((a, b) => a.name.localeCompare(b.name, 'pt'));
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <Bookmark size={14} className="text-slate-400" />
+      <select
+        value={activeId || ''}
+        onChange={(e) => {
+          const view = views.find(v => v.id === e.target.value);
+          if (view) onApply(view);
+        }}
+        className="px-2 py-1.5 border border-slate-300 rounded-md bg-white max-w-[12rem]"
+      >
+        <option value="">Vistas guardadas ({views.length})</option>
+        {sorted.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+      </select>
+      {activeId && (
+        <button
+          onClick={() => window.confirm('Remover esta vista guardada?') && onDelete(activeId)}
+          title="Remover vista"
+          className="text-slate-400 hover:text-red-600"
+        >
+          <Trash2 size={14} />
+        </button>
+      )}
+      {naming ? (
+        <form onSubmit={handleSave} className="flex items-center gap-1">
+          <input
+            autoFocus
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && setNaming(false)}
+            placeholder="Nome da vista"
+            className="w-32 px-2 py-1.5 border border-slate-300 rounded-md"
+          />
+          <button type="submit" className="px-2 py-1.5 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700">Guardar</button>
+        </form>
+      ) : (
+        <button onClick={() => setNaming(true)} className="text-blue-600 hover:text-blue-800 underline">
+          Guardar vista
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewsMenu;
@@ -0,0 +1,217 @@
+import React, { useMemo } from 'react';
+import {
+  CashAccount,
+  CategoryRule,
+  ChartAccount,
+  ClosedPeriod,
+  CompanyProfile,
+  Counterparty,
+  ExchangeRate,
+  PeriodLogEntry,
+  RemoteWorkspace,
+  Transaction,
+  WorkspaceRole,
+} from '../types';
+import { BackupFile, BackupSettings, RestoreMode } from '../services/backup';
+import { CategorizationChange, SuggesterModel, isUncategorized, planUncategorized } from '../services/categoryRules';
+import { formatAccount } from '../services/chartOfAccounts';
+import { isInClosedPeriod } from '../services/periodClosing';
+import CompanySettings from './CompanySettings';
+import PeriodClosing from './PeriodClosing';
+import WorkspaceMembers from './WorkspaceMembers';
+import BackupManager from './BackupManager';
+import CounterpartyManager from './CounterpartyManager';
+import AccountsManager from './AccountsManager';
+import ExchangeRatesManager from './ExchangeRatesManager';
+import ChartOfAccountsManager from './ChartOfAccountsManager';
+import CategoryRulesManager from './CategoryRulesManager';
+import UncategorizedReview from './UncategorizedReview';
+
+interface SettingsTabProps {
+  transactions: Transaction[]; // confirmadas e não eliminadas
+  allTransactions: Transaction[];
+  chart: ChartAccount[];
+  customAccounts: ChartAccount[];
+  onCustomAccountsChange: (accounts: ChartAccount[]) => void;
+  accounts: CashAccount[];
+  balances: Map<string, number>;
+  onAccountsChange: (accounts: CashAccount[]) => void;
+  fiscalYearStart: number;
+  onFiscalYearStartChange: (month: number) => void;
+  attachmentThreshold: number;
+  onAttachmentThresholdChange: (threshold: number) => void;
+  attachmentsInCloud: boolean;
+  company: CompanyProfile;
+  onCompanyChange: (company: CompanyProfile) => void;
+  closedPeriods: ClosedPeriod[];
+  periodLog: PeriodLogEntry[];
+  canClosePeriods: boolean;
+  onClosePeriod: (through: string) => void;
+  onReopenPeriod: (from: string, reason: string) => void;
+  // Empresa partilhada ativa (null no livro pessoal) e a gestão dos seus membros
+  workspace: RemoteWorkspace | null;
+  uid: string;
+  onInvite: (email: string, role: WorkspaceRole) => Promise<void>;
+  onCancelInvite: (email: string) => Promise<void>;
+  onSetRole: (uid: string, role: WorkspaceRole) => Promise<void>;
+  onRemoveMember: (uid: string) => Promise<void>;
+  backupSettings: BackupSettings;
+  onBackupSettingsChange: (settings: BackupSettings) => void;
+  onBackup: () => void;
+  onRestore: (backup: BackupFile, mode: RestoreMode) => void;
+  counterparties: Counterparty[];
+  onCounterpartiesChange: (counterparties: Counterparty[]) => void;
+  onSaveCounterparty: (counterparty: Counterparty) => void;
+  onLinkCounterparty: (counterparty: Counterparty, transactions: Transaction[]) => void;
+  exchangeRates: ExchangeRate[];
+  onExchangeRatesChange: (rates: ExchangeRate[]) => void;
+  categoryRules: CategoryRule[];
+  onCategoryRulesChange: (rules: CategoryRule[]) => void;
+  suggester: SuggesterModel;
+  onApplyCategorization: (changes: CategorizationChange[]) => void;
+}
+
+// Separador Configurações: exercício, empresa, fecho de períodos, cópias de segurança e tabelas de apoio
+const SettingsTab: React.FC<SettingsTabProps> = ({
+  transactions,
+  allTransactions,
+  chart,
+  customAccounts,
+  onCustomAccountsChange,
+  accounts,
+  balances,
+  onAccountsChange,
+  fiscalYearStart,
+  onFiscalYearStartChange,
+  attachmentThreshold,
+  onAttachmentThresholdChange,
+  attachmentsInCloud,
+  company,
+  onCompanyChange,
+  closedPeriods,
+  periodLog,
+  canClosePeriods,
+  onClosePeriod,
+  onReopenPeriod,
+  workspace,
+  uid,
+  onInvite,
+  onCancelInvite,
+  onSetRole,
+  onRemoveMember,
+  backupSettings,
+  onBackupSettingsChange,
+  onBackup,
+  onRestore,
+  counterparties,
+  onCounterpartiesChange,
+  onSaveCounterparty,
+  onLinkCounterparty,
+  exchangeRates,
+  onExchangeRatesChange,
+  categoryRules,
+  onCategoryRulesChange,
+  suggester,
+  onApplyCategorization,
+}) => {
+  const usedCodes = useMemo(() => new Set(allTransactions.map(t => t.category)), [allTransactions]);
+
+  // Sem categoria: o plano só propõe alterações fora dos períodos fechados
+  const uncategorizedCount = useMemo(() => transactions.filter(isUncategorized).length, [transactions]);
+  const categorizationPlan = useMemo(
+    () => planUncategorized(transactions.filter(t => !isInClosedPeriod(closedPeriods, t.date)), categoryRules, suggester),
+    [transactions, categoryRules, suggester, closedPeriods]
+  );
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 px-6 py-4 flex items-center justify-between gap-4">
+        <div>
+          <h3 className="font-semibold text-slate-800">Exercício Fiscal</h3>
+          <p className="text-xs text-slate-500 mt-1">Mês em que começa o exercício, usado no período "Exercício Fiscal" do painel.</p>
+        </div>
+        <select
+          value={fiscalYearStart}
+          onChange={(e) => onFiscalYearStartChange(Number(e.target.value))}
+          className="px-3 py-2 text-sm border border-slate-300 rounded-md bg-white"
+        >
+          {Array.from({ length: 12 }, (_, month) => (
+            <option key={month} value={month}>
+              {new Date(2000, month, 1).toLocaleDateString('pt-MZ', { month: 'long' })}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 px-6 py-4 flex items-center justify-between gap-4">
+        <div>
+          <h3 className="font-semibold text-slate-800">Comprovativos</h3>
+          <p className="text-xs text-slate-500 mt-1">
+            Despesas a partir deste valor sem recibo ou fatura anexados ficam assinaladas no Histórico (0 desativa).
+            {' '}Os anexos ficam {attachmentsInCloud ? 'no Firebase Storage' : 'apenas neste navegador'}.
+          </p>
+        </div>
+        <input
+          type="number"
+          min="0"
+          step="100"
+          value={attachmentThreshold}
+          onChange={(e) => onAttachmentThresholdChange(Math.max(0, Number(e.target.value) || 0))}
+          className="w-36 px-3 py-2 text-sm border border-slate-300 rounded-md bg-white text-right"
+        />
+      </div>
+      <CompanySettings company={company} onChange={onCompanyChange} />
+      <PeriodClosing
+        closed={closedPeriods}
+        log={periodLog}
+        accounts={accounts}
+        fiscalYearStart={fiscalYearStart}
+        readOnly={!canClosePeriods}
+        onClose={onClosePeriod}
+        onReopen={onReopenPeriod}
+      />
+      {workspace && (
+        <WorkspaceMembers
+          workspace={workspace}
+          uid={uid}
+          onInvite={onInvite}
+          onCancelInvite={onCancelInvite}
+          onSetRole={onSetRole}
+          onRemove={onRemoveMember}
+        />
+      )}
+      <BackupManager
+        transactions={allTransactions}
+        settings={backupSettings}
+        onSettingsChange={onBackupSettingsChange}
+        onBackup={onBackup}
+        onRestore={onRestore}
+      />
+      <CounterpartyManager
+        counterparties={counterparties}
+        transactions={allTransactions}
+        onSave={onSaveCounterparty}
+        onRemove={(id) => onCounterpartiesChange(counterparties.filter(c => c.id !== id))}
+        onLink={onLinkCounterparty}
+      />
+      <AccountsManager accounts={accounts} balances={balances} onChange={onAccountsChange} />
+      <ExchangeRatesManager rates={exchangeRates} onChange={onExchangeRatesChange} />
+      <ChartOfAccountsManager
+        chart={chart}
+        usedCodes={usedCodes}
+        onAdd={(account) => onCustomAccountsChange([...customAccounts, account])}
+        onRemove={(code) => onCustomAccountsChange(customAccounts.filter(a => a.code !== code))}
+      />
+      <CategoryRulesManager rules={categoryRules} chart={chart} transactions={transactions} onChange={onCategoryRulesChange} />
+      {uncategorizedCount > 0 && (
+        <UncategorizedReview
+          changes={categorizationPlan}
+          uncategorizedCount={uncategorizedCount}
+          accountLabel={(code) => formatAccount(chart, code)}
+          onApply={onApplyCategorization}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SettingsTab;
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { normalizeTag } from '../services/transactionQuery';
+
+interface TagEditorProps {
+  tags: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+}
+
+// Etiquetas de uma transação (projeto, obra, viatura...), pesquisáveis no Histórico com #etiqueta
+const TagEditor: React.FC<TagEditorProps> = ({ tags, suggestions, onChange }) => {
+  const [draft, setDraft] = useState('');
+
+  const handleAdd = () => {
+    const added = draft.split(/[,\s]+/).map(normalizeTag).filter(tag => tag && !tags.includes(tag));
+    setDraft('');
+    if (added.length > 0) onChange([...tags, ...Array.from(new Set(added))]);
+  };
+
+  return (
+    <div className="text-xs">
+      <label className="block font-medium text-slate-500 mb-1">Etiquetas</label>
+      <div className="flex flex-wrap items-center gap-1.5">
+        {tags.map(tag => (
+          <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 border border-blue-100">
+            #{tag}
+            <button onClick={() => onChange(tags.filter(t => t !== tag))} title="Remover etiqueta" className="text-blue-400 hover:text-red-600">
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          list="tag-suggestions"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          onBlur={() => draft.trim() && handleAdd()}
+          placeholder="Nova etiqueta"
+          className="w-32 px-2 py-1 border border-slate-300 rounded-md"
+        />
+        <datalist id="tag-suggestions">
+          {suggestions.filter(s => !tags.includes(s)).map(s => <option key={s} value={s} />)}
+        </datalist>
+      </div>
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,258 @@
+import React, { useEffect, useState } from 'react';
+import { X, Pencil, Plus } from 'lucide-react';
+import { CashAccount, ChartAccount, Counterparty, ExchangeRate, Transaction, VatRegime } from '../types';
+import { UNCATEGORIZED_CODE, accountType, formatAccount } from '../services/chartOfAccounts';
+import { accountOf } from '../services/accounts';
+import { toDateKey } from '../services/recurring';
+import { VAT_REGIMES, vatFromGross } from '../services/vat';
+import { findCounterparty, suggestCounterparty } from '../services/counterparties';
+import { CategorizationInput, CategorySuggestion } from '../services/categoryRules';
+import { BASE_CURRENCY, CURRENCIES, currencyFields, formatMoney, isForeign, rateOn } from '../services/currency';
+import AccountSelect from './AccountSelect';
+import CounterpartyInput from './CounterpartyInput';
+
+type EntryType = 'income' | 'expense';
+
+interface TransactionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (transaction: Omit<Transaction, 'id'>) => void;
+  initialData: Transaction | null; // null = nova transação
+  chart: ChartAccount[];
+  accounts: CashAccount[];
+  defaultAccountId: string;
+  counterparties: Counterparty[];
+  rates: ExchangeRate[];
+  suggest: (input: CategorizationInput) => CategorySuggestion | null;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-md bg-white';
+
+// Lançamento manual de uma receita ou despesa; também corrige uma transação existente (valor, data, conta...)
+const TransactionModal: React.FC<TransactionModalProps> = ({ isOpen, onClose, onSave, initialData, chart, accounts, defaultAccountId, counterparties, rates, suggest }) => {
+  const [type, setType] = useState<EntryType>('expense');
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(() => toDateKey(new Date()));
+  const [category, setCategory] = useState(UNCATEGORIZED_CODE);
+  const [accountId, setAccountId] = useState(defaultAccountId);
+  const [vatRegime, setVatRegime] = useState<VatRegime | ''>('');
+  const [counterparty, setCounterparty] = useState('');
+  const [currency, setCurrency] = useState(BASE_CURRENCY);
+  const [rate, setRate] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setType(initialData?.type === 'income' ? 'income' : 'expense');
+    setDescription(initialData?.description || '');
+    setAmount(initialData ? String(initialData.originalAmount ?? initialData.amount) : '');
+    setCurrency(initialData?.currency || BASE_CURRENCY);
+    setRate(initialData?.exchangeRate ? String(initialData.exchangeRate) : '');
+    setDate(toDateKey(initialData ? new Date(initialData.date) : new Date()));
+    setCategory(initialData?.category || UNCATEGORIZED_CODE);
+    setAccountId(initialData ? accountOf(initialData) : defaultAccountId);
+    setVatRegime(initialData?.vat?.regime || '');
+    setCounterparty(counterparties.find(c => c.id === initialData?.counterpartyId)?.name || '');
+  }, [isOpen, initialData]);
+
+  if (!isOpen) return null;
+
+  const value = Number(amount.replace(',', '.'));
+  const rateValue = Number(rate.replace(',', '.'));
+  const foreign = isForeign(currency);
+  const valid = description.trim() !== '' && value > 0 && date !== '' && (!foreign || rateValue > 0);
+  // Noutra moeda, o valor registado é o original convertido para MZN
+  const money = currencyFields(currency, value || 0, rateValue);
+  const selectable = accounts.filter(a => !a.archived || a.id === accountId);
+  // Mesmo regime e valor: mantém o imposto gravado (pode ter sido acertado à mão no detalhe)
+  const vat = !vatRegime
+    ? undefined
+    : initialData?.vat && initialData.vat.regime === vatRegime && initialData.amount === money.amount
+      ? initialData.vat
+      : vatFromGross(money.amount, vatRegime);
+  // Sugestão enquanto se escreve a descrição; só é usada se o utilizador a aceitar
+  const suggestion = description.trim().length >= 3 ? suggest({ description, amount: money.amount, type }) : null;
+  const knownCounterparty = findCounterparty(counterparties, counterparty);
+  const directory = counterparties.filter(c => c.kind === 'both' || c.kind === (type === 'income' ? 'customer' : 'supplier'));
+  // Sem contraparte indicada, a aplicação sugere uma do diretório que a descrição mencione
+  const counterpartySuggestion = counterparty.trim() === '' ? suggestCounterparty(directory, description) : undefined;
+
+  // A classe da conta tem de corresponder ao tipo (6 gastos, 7 proveitos)
+  const handleTypeChange = (next: EntryType) => {
+    setType(next);
+    const target = accountType(category);
+    if (target !== null && target !== next) setCategory(UNCATEGORIZED_CODE);
+  };
+
+  // A taxa sugerida é a da tabela de câmbios no dia do movimento
+  const handleCurrencyChange = (next: string) => {
+    setCurrency(next);
+    const suggested = rateOn(rates, next, date);
+    setRate(isForeign(next) && suggested ? String(suggested) : '');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valid) return;
+    // Mesmo dia: mantém o instante original para não registar uma alteração de data que não houve
+    const sameDay = initialData && toDateKey(new Date(initialData.date)) === date;
+    onSave({
+      type,
+      description: description.trim(),
+      ...money,
+      date: sameDay ? initialData.date : new Date(`${date}T12:00:00`).toISOString(),
+      category,
+      accountId: initialData && accountOf(initialData) === accountId ? initialData.accountId : accountId,
+      vat,
+      counterpartyId: knownCounterparty?.id,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex items-center justify-center z-50 print:hidden">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-2xl border border-slate-200 w-full max-w-lg">
+        <div className="h-10 px-4 flex items-center justify-between border-b border-slate-200 bg-slate-50 rounded-t-lg">
+          <span className="text-xs text-slate-600 flex items-center gap-2">
+            {initialData ? <Pencil size={14} /> : <Plus size={14} />}
+            {initialData ? 'Editar Transação' : 'Nova Transação'}
+          </span>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-red-500">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 text-sm">
+          <div className="grid grid-cols-2 gap-2">
+            {(['expense', 'income'] as EntryType[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => handleTypeChange(option)}
+                className={`px-4 py-2 rounded-md border font-medium ${
+                  type === option
+                    ? option === 'income' ? 'bg-emerald-50 border-emerald-300 text-emerald-700' : 'bg-rose-50 border-rose-300 text-rose-700'
+                    : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                {option === 'income' ? 'Receita' : 'Despesa'}
+              </button>
+            ))}
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Descrição</label>
+            <input
+              type="text"
+              placeholder="ex.: Fatura EDM março"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClass}
+              required
+              autoFocus
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">{type === 'income' ? 'Cliente' : 'Fornecedor'}</label>
+            <CounterpartyInput
+              id="transaction-counterparty"
+              directory={directory}
+              value={counterparty}
+              onChange={setCounterparty}
+              placeholder="Opcional"
+              className={inputClass}
+            />
+            {counterparty.trim() && !knownCounterparty && (
+              <p className="mt-1 text-xs text-amber-600">Não está no diretório: registe-a em Configurações › Clientes e Fornecedores para a associar.</p>
+            )}
+            {counterpartySuggestion && (
+              <p className="mt-1 text-xs text-slate-500">
+                Sugestão: {counterpartySuggestion.name}{' '}
+                <button type="button" onClick={() => setCounterparty(counterpartySuggestion.name)} className="font-medium text-blue-600 hover:underline">
+                  Usar
+                </button>
+              </p>
+            )}
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Valor ({currency})</label>
+              <input type="number" step="0.01" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} className={inputClass} required />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Moeda</label>
+              <select value={currency} onChange={(e) => handleCurrencyChange(e.target.value)} className={inputClass}>
+                {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Data</label>
+              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} required />
+            </div>
+          </div>
+          {foreign && (
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Taxa (MZN)</label>
+                <input type="number" step="0.0001" min="0" value={rate} onChange={(e) => setRate(e.target.value)} className={inputClass} required />
+              </div>
+              <p className="col-span-2 self-end pb-2 text-xs text-slate-500">
+                {rateValue > 0 && value > 0 && <>= {formatMoney(money.amount)} </>}
+                {!rateOn(rates, currency, date) && <span className="text-amber-600">Sem taxa na tabela para esta data.</span>}
+              </p>
+            </div>
+          )}
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Conta PGC-NIRF</label>
+            <AccountSelect chart={chart} value={category} onChange={setCategory} type={type} className={inputClass} />
+            {suggestion && suggestion.category !== category && (
+              <p className="mt-1 text-xs text-slate-500">
+                Sugestão: {formatAccount(chart, suggestion.category)} ({suggestion.reason}){' '}
+                <button type="button" onClick={() => setCategory(suggestion.category)} className="font-medium text-blue-600 hover:underline">
+                  Usar
+                </button>
+              </p>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">
+                IVA {type === 'income' ? 'liquidado' : 'dedutível'}
+              </label>
+              <select value={vatRegime} onChange={(e) => setVatRegime(e.target.value as VatRegime | '')} className={inputClass}>
+                <option value="">Sem IVA</option>
+                {VAT_REGIMES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+              </select>
+            </div>
+            {vat && (
+              <p className="self-end pb-2 text-xs text-slate-500">
+                Imposto {formatMZN(vat.tax)} • Base {formatMZN(vat.base)}
+              </p>
+            )}
+          </div>
+          {selectable.length > 1 && (
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Conta / Caixa</label>
+              <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClass}>
+                {selectable.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 rounded-b-lg flex justify-end gap-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">
+            Cancelar
+          </button>
+          <button type="submit" disabled={!valid} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50">
+            {initialData ? 'Guardar alterações' : 'Adicionar'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TransactionModal;
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { X, ArrowRightLeft } from 'lucide-react';
+import { CashAccount, Transaction } from '../types';
+import { toDateKey } from '../services/recurring';
+
+interface TransferModalProps {
+  isOpen: boolean;
+  accounts: CashAccount[];
+  onClose: () => void;
+  onSave: (transfer: Omit<Transaction, 'id'>) => void;
+}
+
+// Dia local (toISOString daria o dia UTC)
+const today = () => toDateKey(new Date());
+
+const TransferModal: React.FC<TransferModalProps> = ({ isOpen, accounts, onClose, onSave }) => {
+  const active = accounts.filter(a => !a.archived);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(today);
+  const [description, setDescription] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setFromId(active[0]?.id || '');
+      setToId(active[1]?.id || '');
+      setAmount('');
+      setDate(today());
+      setDescription('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const value = Number(amount);
+  const valid = fromId && toId && fromId !== toId && value > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valid) return;
+    const from = accounts.find(a => a.id === fromId)!;
+    const to = accounts.find(a => a.id === toId)!;
+    onSave({
+      date: new Date(`${date}T12:00:00`).toISOString(),
+      description: description.trim() || `Transferência ${from.name} → ${to.name}`,
+      amount: value,
+      type: 'transfer',
+      category: '',
+      accountId: fromId,
+      toAccountId: toId,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex items-center justify-center z-50 print:hidden">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-2xl border border-slate-200 w-full max-w-md">
+        <div className="h-10 px-4 flex items-center justify-between border-b border-slate-200 bg-slate-50 rounded-t-lg">
+          <span className="text-xs text-slate-600 flex items-center gap-2">
+            <ArrowRightLeft size={14} />
+            Transferência entre Contas
+          </span>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-red-500">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 text-sm">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">De</label>
+              <select value={fromId} onChange={(e) => setFromId(e.target.value)} className="w-full px-3 py-2 border border-slate-300 rounded-md bg-white">
+                {active.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Para</label>
+              <select value={toId} onChange={(e) => setToId(e.target.value)} className="w-full px-3 py-2 border border-slate-300 rounded-md bg-white">
+                {active.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Valor (MZN)</label>
+              <input type="number" step="0.01" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} className="w-full px-3 py-2 border border-slate-300 rounded-md" required />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Data</label>
+              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-full px-3 py-2 border border-slate-300 rounded-md" required />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Descrição</label>
+            <input type="text" placeholder="ex.: Depósito da caixa no BCI" value={description} onChange={(e) => setDescription(e.target.value)} className="w-full px-3 py-2 border border-slate-300 rounded-md" />
+          </div>
+          {fromId && fromId === toId && <p className="text-xs text-rose-600">Escolha contas de origem e destino diferentes.</p>}
+          {active.length < 2 && <p className="text-xs text-amber-600">Crie pelo menos duas contas em Configurações.</p>}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 rounded-b-lg flex justify-end gap-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">
+            Cancelar
+          </button>
+          <button type="submit" disabled={!valid} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50">
+            Transferir
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TransferModal;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Wand2 } from 'lucide-react';
+import { CategorizationChange } from '../services/categoryRules';
+
+interface UncategorizedReviewProps {
+  changes: CategorizationChange[];
+  uncategorizedCount: number;
+  accountLabel: (code: string) => string;
+  onApply: (changes: CategorizationChange[]) => void;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+// Pré-visualização da classificação em lote das transações em "Outros"; o utilizador desmarca o que não quer
+const UncategorizedReview: React.FC<UncategorizedReviewProps> = ({ changes, uncategorizedCount, accountLabel, onApply }) => {
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const selected = changes.filter(c => !excluded.has(c.transaction.id));
+
+  const toggle = (id: string) => {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExcluded(next);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-4">
+        <div>
+          <h3 className="font-semibold text-slate-800">Classificar Transações em "Outros"</h3>
+          <p className="text-xs text-slate-500 mt-1">
+            {uncategorizedCount} por classificar; {changes.length} com sugestão das regras ou do histórico.
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            onApply(selected);
+            setExcluded(new Set());
+          }}
+          disabled={selected.length === 0}
+          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Wand2 size={16} />
+          Aplicar ({selected.length})
+        </button>
+      </div>
+
+      {changes.length > 0 && (
+        <div className="max-h-80 overflow-y-auto divide-y divide-slate-100 text-sm">
+          {changes.map(({ transaction: t, suggestion }) => (
+            <label key={t.id} className="px-6 py-2 flex items-center gap-4 cursor-pointer hover:bg-slate-50">
+              <input
+                type="checkbox"
+                checked={!excluded.has(t.id)}
+                onChange={() => toggle(t.id)}
+                className="rounded border-slate-300"
+              />
+              <span className="w-24 shrink-0 text-slate-500">{new Date(t.date).toLocaleDateString('pt-MZ')}</span>
+              <span className="flex-1 min-w-0 truncate text-slate-800">{t.description}</span>
+              <span className="w-28 shrink-0 text-right text-slate-600">{formatMZN(t.amount)}</span>
+              <span className="w-64 shrink-0 min-w-0">
+                <span className="block truncate text-slate-800">{accountLabel(suggestion.category)}</span>
+                <span className={`block truncate text-xs ${suggestion.source === 'rule' ? 'text-blue-600' : 'text-slate-400'}`}>
+                  {suggestion.reason}
+                  {suggestion.tags.length > 0 && ` ${suggestion.tags.map(tag => `#${tag}`).join(' ')}`}
+                </span>
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UncategorizedReview;
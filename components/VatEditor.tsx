@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { Transaction, VatDetails, VatRegime } from '../types';
+import { VAT_REGIMES, vatFromGross } from '../services/vat';
+
+interface VatEditorProps {
+  transaction: Transaction;
+  onSave: (vat: VatDetails | undefined) => void;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+// Decomposição do IVA de uma transação: o valor registado é tratado como valor com IVA incluído
+const VatEditor: React.FC<VatEditorProps> = ({ transaction, onSave }) => {
+  const [regime, setRegime] = useState<VatRegime | ''>(transaction.vat?.regime || '');
+  const [tax, setTax] = useState<string>(transaction.vat ? String(transaction.vat.tax) : '');
+
+  useEffect(() => {
+    setRegime(transaction.vat?.regime || '');
+    setTax(transaction.vat ? String(transaction.vat.tax) : '');
+  }, [transaction]);
+
+  const handleRegimeChange = (value: VatRegime | '') => {
+    setRegime(value);
+    setTax(value ? String(vatFromGross(transaction.amount, value).tax) : '');
+  };
+
+  const taxValue = Number(tax.replace(',', '.')) || 0;
+  const invalid = taxValue < 0 || taxValue > transaction.amount;
+
+  const handleSave = () => {
+    if (!regime) {
+      onSave(undefined);
+      return;
+    }
+    onSave({ regime, base: Math.round((transaction.amount - taxValue) * 100) / 100, tax: taxValue });
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 text-xs">
+      <div>
+        <label className="block font-medium text-slate-500 mb-1">
+          IVA {transaction.type === 'income' ? 'liquidado' : 'dedutível'}
+        </label>
+        <select
+          value={regime}
+          onChange={(e) => handleRegimeChange(e.target.value as VatRegime | '')}
+          className="px-2 py-1.5 border border-slate-300 rounded-md bg-white"
+        >
+          <option value="">Sem IVA</option>
+          {VAT_REGIMES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+        </select>
+      </div>
+      {regime && (
+        <>
+          <div>
+            <label className="block font-medium text-slate-500 mb-1">Imposto (MZN)</label>
+            <input
+              type="number"
+              step="0.01"
+              value={tax}
+              onChange={(e) => setTax(e.target.value)}
+              className={`w-32 px-2 py-1.5 border rounded-md ${invalid ? 'border-rose-400' : 'border-slate-300'}`}
+            />
+          </div>
+          <span className="pb-2 text-slate-500">Base tributável: {formatMZN(transaction.amount - taxValue)}</span>
+        </>
+      )}
+      <button
+        onClick={handleSave}
+        disabled={invalid}
+        className="px-3 py-1.5 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+      >
+        Guardar IVA
+      </button>
+    </div>
+  );
+};
+
+export default VatEditor;
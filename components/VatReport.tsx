@@ -0,0 +1,114 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import { Transaction } from '../types';
+import { PeriodRange, isInPeriod } from '../services/periods';
+import { toDateKey } from '../services/recurring';
+import { formatPeriod, summarizeVat } from '../services/vat';
+import { csvNumber, downloadCSV } from '../services/csvExport';
+
+interface VatReportProps {
+  transactions: Transaction[];
+  range: PeriodRange;
+}
+
+const formatMZN = (val: number) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency: 'MZN' }).format(val);
+
+const VatReport: React.FC<VatReportProps> = ({ transactions, range }) => {
+  const periods = summarizeVat(transactions.filter(t => isInPeriod(t, range)));
+  const total = periods.reduce(
+    (acc, p) => ({
+      salesBase: acc.salesBase + p.salesBase,
+      vatCollected: acc.vatCollected + p.vatCollected,
+      exemptSales: acc.exemptSales + p.exemptSales,
+      purchasesBase: acc.purchasesBase + p.purchasesBase,
+      vatDeductible: acc.vatDeductible + p.vatDeductible,
+      balance: acc.balance + p.balance,
+    }),
+    { salesBase: 0, vatCollected: 0, exemptSales: 0, purchasesBase: 0, vatDeductible: 0, balance: 0 }
+  );
+
+  const handleExport = () => {
+    const headers = ["Período", "Base Tributável Vendas", "IVA Liquidado", "Operações Isentas", "Base Compras", "IVA Dedutível", "IVA a Entregar / (Recuperar)"];
+    const rows = periods.map(p => [
+      p.period,
+      csvNumber(p.salesBase),
+      csvNumber(p.vatCollected),
+      csvNumber(p.exemptSales),
+      csvNumber(p.purchasesBase),
+      csvNumber(p.vatDeductible),
+      csvNumber(p.balance),
+    ]);
+    const last = new Date(range.end.getFullYear(), range.end.getMonth(), range.end.getDate() - 1);
+    downloadCSV(`declaracao_iva_${toDateKey(range.start)}_${toDateKey(last)}.csv`, headers, rows);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center print:bg-white">
+        <h3 className="font-bold text-slate-800">
+          Resumo do IVA
+          <span className="block text-xs font-normal text-slate-500 mt-1">IVA liquidado vs. IVA dedutível por mês</span>
+        </h3>
+        <button
+          onClick={handleExport}
+          disabled={periods.length === 0}
+          className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50 print:hidden"
+        >
+          <FileText size={14} />
+          Exportar Declaração
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-3 font-semibold">Período</th>
+              <th className="px-6 py-3 font-semibold text-right">Base Vendas</th>
+              <th className="px-6 py-3 font-semibold text-right">IVA Liquidado</th>
+              <th className="px-6 py-3 font-semibold text-right">Isentas</th>
+              <th className="px-6 py-3 font-semibold text-right">Base Compras</th>
+              <th className="px-6 py-3 font-semibold text-right">IVA Dedutível</th>
+              <th className="px-6 py-3 font-semibold text-right">A Entregar / (Recuperar)</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {periods.map(p => (
+              <tr key={p.period}>
+                <td className="px-6 py-2 text-slate-700 capitalize">{formatPeriod(p.period)}</td>
+                <td className="px-6 py-2 text-right">{formatMZN(p.salesBase)}</td>
+                <td className="px-6 py-2 text-right text-emerald-600">{formatMZN(p.vatCollected)}</td>
+                <td className="px-6 py-2 text-right text-slate-500">{formatMZN(p.exemptSales)}</td>
+                <td className="px-6 py-2 text-right">{formatMZN(p.purchasesBase)}</td>
+                <td className="px-6 py-2 text-right text-rose-600">{formatMZN(p.vatDeductible)}</td>
+                <td className={`px-6 py-2 text-right font-semibold ${p.balance >= 0 ? 'text-slate-800' : 'text-blue-600'}`}>
+                  {formatMZN(p.balance)}
+                </td>
+              </tr>
+            ))}
+            {periods.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-6 py-8 text-center text-slate-400">Nenhuma transação com IVA no período.</td>
+              </tr>
+            )}
+          </tbody>
+          {periods.length > 1 && (
+            <tfoot className="bg-slate-50 border-t border-slate-200 font-bold text-slate-800">
+              <tr>
+                <td className="px-6 py-3 uppercase text-xs tracking-wider">Total</td>
+                <td className="px-6 py-3 text-right">{formatMZN(total.salesBase)}</td>
+                <td className="px-6 py-3 text-right text-emerald-600">{formatMZN(total.vatCollected)}</td>
+                <td className="px-6 py-3 text-right text-slate-500">{formatMZN(total.exemptSales)}</td>
+                <td className="px-6 py-3 text-right">{formatMZN(total.purchasesBase)}</td>
+                <td className="px-6 py-3 text-right text-rose-600">{formatMZN(total.vatDeductible)}</td>
+                <td className="px-6 py-3 text-right">{formatMZN(total.balance)}</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default VatReport;
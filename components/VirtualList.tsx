@@ -0,0 +1,103 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  itemKey: (item: T) => string;
+  estimatedHeight: number; // altura de uma linha fechada, antes de ser medida
+  renderItem: (item: T) => React.ReactNode;
+  className?: string;
+  itemClassName?: string;
+  overscan?: number;
+}
+
+/**
+ * Lista com desenho apenas das linhas visíveis, para o Histórico continuar rápido com dezenas de
+ * milhares de movimentos. As alturas reais são medidas (uma linha expandida ocupa mais espaço).
+ */
+function VirtualList<T>({ items, itemKey, estimatedHeight, renderItem, className = '', itemClassName = '', overscan = 8 }: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [measured, setMeasured] = useState(0);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Criado na primeira linha desenhada: os refs das linhas são ligados antes dos efeitos
+  const rowObserver = () => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        let changed = false;
+        entries.forEach(entry => {
+          const element = entry.target as HTMLElement;
+          const key = element.dataset.key;
+          if (key && element.offsetHeight > 0 && heights.current.get(key) !== element.offsetHeight) {
+            heights.current.set(key, element.offsetHeight);
+            changed = true;
+          }
+        });
+        if (changed) setMeasured(n => n + 1);
+      });
+    }
+    return observerRef.current;
+  };
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  // Posição do topo de cada linha (offsets[i]) e altura total (offsets[items.length])
+  const offsets = useMemo(() => {
+    const result = new Array<number>(items.length + 1);
+    result[0] = 0;
+    items.forEach((item, i) => {
+      result[i + 1] = result[i] + (heights.current.get(itemKey(item)) ?? estimatedHeight);
+    });
+    return result;
+  }, [items, measured, estimatedHeight]);
+
+  // Primeira linha visível por pesquisa binária
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= scrollTop) low = mid + 1;
+    else high = mid;
+  }
+  const start = Math.max(0, low - overscan);
+  let end = low;
+  while (end < items.length && offsets[end] < scrollTop + viewportHeight) end++;
+  end = Math.min(items.length, end + overscan);
+
+  const observe = (element: HTMLDivElement | null) => {
+    if (!element) return;
+    const observer = rowObserver();
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  };
+
+  return (
+    <div ref={containerRef} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)} className={`overflow-auto ${className}`}>
+      <div style={{ height: offsets[items.length], position: 'relative' }}>
+        <div style={{ position: 'absolute', top: offsets[start], left: 0, right: 0 }}>
+          {items.slice(start, end).map(item => {
+            const key = itemKey(item);
+            return (
+              <div key={key} data-key={key} ref={observe} className={itemClassName}>
+                {renderItem(item)}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default VirtualList;
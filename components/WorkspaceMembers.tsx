@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Trash2, UserPlus, X } from 'lucide-react';
+import { RemoteWorkspace, WorkspaceRole } from '../types';
+import { ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS, canManageMembers } from '../services/workspaces';
+
+interface WorkspaceMembersProps {
+  workspace: RemoteWorkspace;
+  uid: string;
+  onInvite: (email: string, role: WorkspaceRole) => Promise<void>;
+  onCancelInvite: (email: string) => Promise<void>;
+  onSetRole: (uid: string, role: WorkspaceRole) => Promise<void>;
+  onRemove: (uid: string) => Promise<void>;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-md bg-white';
+
+// Membros de uma empresa partilhada; só o proprietário convida, muda papéis ou remove
+const WorkspaceMembers: React.FC<WorkspaceMembersProps> = ({ workspace, uid, onInvite, onCancelInvite, onSetRole, onRemove }) => {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>('accountant');
+  const [error, setError] = useState<string | null>(null);
+  const manage = canManageMembers(workspace.members[uid]);
+
+  // As regras do Firestore rejeitam o que o papel não permite; o erro é mostrado em vez de falhar em silêncio
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError('Não foi possível guardar a alteração. Verifique a ligação e as suas permissões.');
+    }
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^\S+@\S+\.\S+$/.test(email.trim())) {
+      setError('Indique um email válido.');
+      return;
+    }
+    run(async () => {
+      await onInvite(email, role);
+      setEmail('');
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="font-semibold text-slate-800">Membros da Empresa</h3>
+        <p className="text-xs text-slate-500 mt-1">
+          {ROLES.map(r => `${ROLE_LABELS[r]}: ${ROLE_DESCRIPTIONS[r].toLowerCase()}`).join('. ')}.
+        </p>
+      </div>
+
+      <div className="divide-y divide-slate-100 text-sm">
+        {Object.entries(workspace.members).map(([memberUid, memberRole]) => (
+          <div key={memberUid} className="px-6 py-2 flex items-center justify-between gap-4">
+            <span className="text-slate-700 truncate">
+              {workspace.memberEmails[memberUid] || memberUid}
+              {memberUid === uid && <span className="text-xs text-slate-400"> (você)</span>}
+            </span>
+            <div className="flex items-center gap-3">
+              {manage && memberUid !== uid ? (
+                <>
+                  <select
+                    value={memberRole}
+                    onChange={(e) => run(() => onSetRole(memberUid, e.target.value as WorkspaceRole))}
+                    className="text-xs px-2 py-1 border border-slate-300 rounded-md bg-white"
+                  >
+                    {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                  </select>
+                  <button
+                    onClick={() => window.confirm('Retirar o acesso deste membro?') && run(() => onRemove(memberUid))}
+                    title="Remover membro"
+                    className="text-slate-400 hover:text-red-600"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </>
+              ) : (
+                <span className="text-xs text-slate-500">{ROLE_LABELS[memberRole]}</span>
+              )}
+            </div>
+          </div>
+        ))}
+        {Object.entries(workspace.invites).map(([invited, invitedRole]) => (
+          <div key={invited} className="px-6 py-2 flex items-center justify-between gap-4 text-slate-500">
+            <span className="truncate">{invited} <span className="text-xs">(convite pendente)</span></span>
+            <div className="flex items-center gap-3">
+              <span className="text-xs">{ROLE_LABELS[invitedRole]}</span>
+              {manage && (
+                <button onClick={() => run(() => onCancelInvite(invited))} title="Cancelar convite" className="text-slate-400 hover:text-red-600">
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {manage && (
+        <form onSubmit={handleInvite} className="p-4 border-t border-slate-100 grid grid-cols-1 md:grid-cols-3 gap-3 items-end text-sm">
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Email (conta Google)</label>
+            <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} required />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Papel</label>
+            <select value={role} onChange={(e) => setRole(e.target.value as WorkspaceRole)} className={inputClass}>
+              {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+            </select>
+          </div>
+          <button type="submit" className="flex items-center justify-center gap-2 px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700">
+            <UserPlus size={16} />
+            Convidar
+          </button>
+        </form>
+      )}
+      {error && <p className="px-6 pb-4 text-xs text-rose-600">{error}</p>}
+    </div>
+  );
+};
+
+export default WorkspaceMembers;
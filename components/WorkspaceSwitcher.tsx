@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Building2, Plus } from 'lucide-react';
+import { RemoteWorkspace, Workspace, WorkspaceRole } from '../types';
+import { ROLE_LABELS, normalizeEmail } from '../services/workspaces';
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[];
+  activeId: string;
+  role: WorkspaceRole | null; // null sem sessão ou na empresa principal (acesso total)
+  invites: RemoteWorkspace[];
+  userEmail: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onAcceptInvite: (workspace: RemoteWorkspace) => void;
+}
+
+// Seletor de empresa na barra lateral: cada empresa tem livro, plano de contas e definições próprios
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  workspaces, activeId, role, invites, userEmail, onSwitch, onCreate, onAcceptInvite,
+}) => {
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onCreate(name.trim());
+    setName('');
+    setCreating(false);
+  };
+
+  return (
+    <div className="px-4 pb-4 space-y-2">
+      <div className="flex items-center gap-2">
+        <Building2 size={16} className="text-slate-400 shrink-0" />
+        <select
+          value={activeId}
+          onChange={(e) => onSwitch(e.target.value)}
+          title="Empresa ativa"
+          className="flex-1 min-w-0 text-sm font-medium border border-slate-300 rounded-md px-2 py-1.5 bg-white text-slate-700"
+        >
+          {workspaces.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+        </select>
+        <button onClick={() => setCreating(!creating)} title="Nova empresa" className="text-slate-400 hover:text-blue-600">
+          <Plus size={16} />
+        </button>
+      </div>
+      {role && <p className="text-[11px] text-slate-500 pl-6">Acesso: {ROLE_LABELS[role]}</p>}
+      {creating && (
+        <form onSubmit={handleCreate} className="flex gap-1 pl-6">
+          <input
+            autoFocus
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && setCreating(false)}
+            placeholder="Nome da empresa"
+            className="flex-1 min-w-0 text-xs px-2 py-1.5 border border-slate-300 rounded-md"
+          />
+          <button type="submit" className="text-xs px-2 py-1.5 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700">Criar</button>
+        </form>
+      )}
+      {invites.map(w => (
+        <div key={w.id} className="ml-6 bg-blue-50 border border-blue-100 rounded-md px-2 py-1.5 text-[11px] text-blue-800 flex items-center justify-between gap-2">
+          <span className="min-w-0 truncate">Convite: {w.name} ({ROLE_LABELS[w.invites[normalizeEmail(userEmail)]]})</span>
+          <button onClick={() => onAcceptInvite(w)} className="font-semibold hover:underline shrink-0">Aceitar</button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
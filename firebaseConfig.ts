@@ -1,6 +1,7 @@
 import { initializeApp } from 'firebase/app';
-import { getAuth, GoogleAuthProvider } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { getAuth, GoogleAuthProvider, connectAuthEmulator } from 'firebase/auth';
+import { initializeFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { getStorage, connectStorageEmulator } from 'firebase/storage';
 
 // ------------------------------------------------------------------
 // IMPORTANTE: SUBSTITUA OS VALORES ABAIXO PELAS SUAS CHAVES DO FIREBASE
@@ -20,15 +21,31 @@ const isConfigured = firebaseConfig.apiKey !== "SUA_API_KEY_AQUI";
 let app;
 let auth;
 let db;
+let storage;
 let googleProvider;
 
 if (isConfigured) {
   app = initializeApp(firebaseConfig);
   auth = getAuth(app);
-  db = getFirestore(app);
+  // Campos opcionais vazios (undefined) são ignorados em vez de rejeitar a escrita
+  db = initializeFirestore(app, { ignoreUndefinedProperties: true });
+  storage = getStorage(app);
   googleProvider = new GoogleAuthProvider();
+
+  // Emuladores locais (ex.: FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 em .env.local), com as regras de firebase.json
+  if (process.env.FIRESTORE_EMULATOR_HOST) {
+    const [host, port] = process.env.FIRESTORE_EMULATOR_HOST.split(':');
+    connectFirestoreEmulator(db, host, Number(port));
+  }
+  if (process.env.FIREBASE_AUTH_EMULATOR_HOST) {
+    connectAuthEmulator(auth, `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST}`);
+  }
+  if (process.env.FIREBASE_STORAGE_EMULATOR_HOST) {
+    const [host, port] = process.env.FIREBASE_STORAGE_EMULATOR_HOST.split(':');
+    connectStorageEmulator(storage, host, Number(port));
+  }
 } else {
   console.warn("Firebase não configurado. Por favor, edite o arquivo firebaseConfig.ts");
 }
 
-export { auth, db, googleProvider, isConfigured };
\ No newline at end of file
+export { auth, db, storage, googleProvider, isConfigured };
\ No newline at end of file
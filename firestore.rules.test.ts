@@ -0,0 +1,145 @@
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { RulesTestEnvironment, assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import { FieldPath, deleteDoc, deleteField, doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+
+// Corre só contra o emulador: npm run test:rules (o firebase emulators:exec define FIRESTORE_EMULATOR_HOST)
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('firestore.rules', () => {
+  let env: RulesTestEnvironment;
+
+  const as = (uid: string, email = `${uid}@empresa.co.mz`) => env.authenticatedContext(uid, { email }).firestore();
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: 'fluxowin-rules',
+      firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+  });
+
+  afterAll(async () => {
+    await env?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async context => {
+      const db = context.firestore();
+      await setDoc(doc(db, 'workspaces/w1'), {
+        name: 'Empresa Lda',
+        members: { ana: 'owner', rui: 'accountant', eva: 'viewer' },
+        memberEmails: { ana: 'ana@empresa.co.mz', rui: 'rui@empresa.co.mz', eva: 'eva@empresa.co.mz' },
+        invites: { 'novo@empresa.co.mz': 'accountant' },
+      });
+      await setDoc(doc(db, 'workspaces/w1/transactions/t1'), { amount: 100, date: '2026-03-10T10:00:00.000Z' });
+      await setDoc(doc(db, 'workspaces/w1/settings/chart'), { value: [] });
+    });
+  });
+
+  describe('livro pessoal', () => {
+    it('só o próprio utilizador lê e escreve', async () => {
+      await assertSucceeds(setDoc(doc(as('ana'), 'users/ana/transactions/t1'), { amount: 1, date: '2026-05-02T10:00:00.000Z' }));
+      await assertFails(getDoc(doc(as('rui'), 'users/ana/transactions/t1')));
+      await assertFails(getDoc(doc(env.unauthenticatedContext().firestore(), 'users/ana/transactions/t1')));
+    });
+  });
+
+  describe('transações da empresa', () => {
+    it('todos os membros leem; quem não é membro não', async () => {
+      await assertSucceeds(getDoc(doc(as('eva'), 'workspaces/w1/transactions/t1')));
+      await assertFails(getDoc(doc(as('estranho'), 'workspaces/w1/transactions/t1')));
+    });
+
+    it('proprietário e contabilista escrevem; o leitor não', async () => {
+      const tx = { amount: 50, date: '2026-05-02T10:00:00.000Z' };
+      await assertSucceeds(setDoc(doc(as('ana'), 'workspaces/w1/transactions/t2'), tx));
+      await assertSucceeds(setDoc(doc(as('rui'), 'workspaces/w1/transactions/t3'), tx));
+      await assertFails(setDoc(doc(as('eva'), 'workspaces/w1/transactions/t4'), tx));
+    });
+  });
+
+  describe('períodos fechados', () => {
+    beforeEach(async () => {
+      await env.withSecurityRulesDisabled(async context => {
+        const db = context.firestore();
+        // Março fechado: o primeiro mês aberto começa em abril
+        const closed = { value: [{ month: '2026-03' }], lockedBefore: '2026-03-31T22:00:00.000Z' };
+        await setDoc(doc(db, 'workspaces/w1/settings/closedPeriods'), closed);
+        await setDoc(doc(db, 'users/ana/settings/closedPeriods'), closed);
+        await setDoc(doc(db, 'users/ana/transactions/t1'), { amount: 100, date: '2026-03-10T10:00:00.000Z' });
+      });
+    });
+
+    it('recusa criar, alterar ou eliminar transações de meses fechados', async () => {
+      const db = as('rui');
+      await assertFails(setDoc(doc(db, 'workspaces/w1/transactions/t2'), { amount: 50, date: '2026-03-20T10:00:00.000Z' }));
+      await assertFails(updateDoc(doc(db, 'workspaces/w1/transactions/t1'), { amount: 90 }));
+      await assertFails(updateDoc(doc(db, 'workspaces/w1/transactions/t1'), { date: '2026-04-02T10:00:00.000Z' }));
+      await assertFails(deleteDoc(doc(db, 'workspaces/w1/transactions/t1')));
+      await assertSucceeds(setDoc(doc(db, 'workspaces/w1/transactions/t3'), { amount: 50, date: '2026-04-02T10:00:00.000Z' }));
+    });
+
+    it('também no livro pessoal', async () => {
+      await assertFails(updateDoc(doc(as('ana'), 'users/ana/transactions/t1'), { amount: 90 }));
+      await assertSucceeds(setDoc(doc(as('ana'), 'users/ana/transactions/t2'), { amount: 50, date: '2026-04-02T10:00:00.000Z' }));
+    });
+  });
+
+  describe('definições partilhadas', () => {
+    it('o contabilista grava as coleções conhecidas; o leitor só lê', async () => {
+      for (const name of ['chart', 'accounts', 'counterparties', 'openItems', 'budgets', 'categoryRules', 'exchangeRates']) {
+        await assertSucceeds(setDoc(doc(as('rui'), `workspaces/w1/settings/${name}`), { value: [] }));
+      }
+      await assertSucceeds(getDoc(doc(as('eva'), 'workspaces/w1/settings/chart')));
+      await assertFails(setDoc(doc(as('eva'), 'workspaces/w1/settings/chart'), { value: [] }));
+      await assertFails(getDoc(doc(as('estranho'), 'workspaces/w1/settings/chart')));
+    });
+
+    it('só o proprietário fecha e reabre períodos', async () => {
+      for (const name of ['closedPeriods', 'periodLog']) {
+        await assertFails(setDoc(doc(as('rui'), `workspaces/w1/settings/${name}`), { value: [] }));
+        await assertFails(setDoc(doc(as('eva'), `workspaces/w1/settings/${name}`), { value: [] }));
+        await assertSucceeds(setDoc(doc(as('ana'), `workspaces/w1/settings/${name}`), { value: [] }));
+        await assertSucceeds(getDoc(doc(as('rui'), `workspaces/w1/settings/${name}`)));
+      }
+    });
+
+    it('o contabilista não reabre um mês fechado', async () => {
+      const closed = { value: [{ month: '2026-03' }], lockedBefore: '2026-03-31T22:00:00.000Z' };
+      await env.withSecurityRulesDisabled(context => setDoc(doc(context.firestore(), 'workspaces/w1/settings/closedPeriods'), closed));
+      await assertFails(setDoc(doc(as('rui'), 'workspaces/w1/settings/closedPeriods'), { value: [], lockedBefore: '' }));
+      await assertFails(updateDoc(doc(as('rui'), 'workspaces/w1/settings/closedPeriods'), { lockedBefore: '2026-01-31T22:00:00.000Z' }));
+      await assertSucceeds(setDoc(doc(as('ana'), 'workspaces/w1/settings/closedPeriods'), { value: [], lockedBefore: '' }));
+    });
+
+    it('recusa nomes que a aplicação não usa', async () => {
+      await assertFails(setDoc(doc(as('ana'), 'workspaces/w1/settings/outra'), { value: [] }));
+    });
+  });
+
+  describe('membros', () => {
+    it('o convidado aceita o convite com o papel convidado', async () => {
+      const db = as('novo', 'novo@empresa.co.mz');
+      await assertSucceeds(getDoc(doc(db, 'workspaces/w1')));
+      await assertSucceeds(updateDoc(
+        doc(db, 'workspaces/w1'),
+        new FieldPath('members', 'novo'), 'accountant',
+        new FieldPath('memberEmails', 'novo'), 'novo@empresa.co.mz',
+        new FieldPath('invites', 'novo@empresa.co.mz'), deleteField()
+      ));
+    });
+
+    it('o convidado não escolhe outro papel', async () => {
+      await assertFails(updateDoc(
+        doc(as('novo', 'novo@empresa.co.mz'), 'workspaces/w1'),
+        new FieldPath('members', 'novo'), 'owner',
+        new FieldPath('memberEmails', 'novo'), 'novo@empresa.co.mz',
+        new FieldPath('invites', 'novo@empresa.co.mz'), deleteField()
+      ));
+    });
+
+    it('só o proprietário gere os membros', async () => {
+      await assertFails(updateDoc(doc(as('rui'), 'workspaces/w1'), new FieldPath('members', 'eva'), 'owner'));
+      await assertSucceeds(updateDoc(doc(as('ana'), 'workspaces/w1'), new FieldPath('members', 'eva'), 'accountant'));
+    });
+  });
+});
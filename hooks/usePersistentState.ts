@@ -0,0 +1,12 @@
+import { Dispatch, SetStateAction, useEffect, useState } from 'react';
+
+// Estado guardado no localStorage da empresa: lido com `load` ao montar e gravado com `save` a cada alteração
+export const usePersistentState = <T>(load: () => T, save: (value: T) => void): [T, Dispatch<SetStateAction<T>>] => {
+  const [value, setValue] = useState<T>(load);
+
+  useEffect(() => {
+    save(value);
+  }, [value]);
+
+  return [value, setValue];
+};
@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from 'react';
+import { db } from '../firebaseConfig';
+import { SharedSettingName, saveSetting, subscribeSetting } from '../services/workspaceSettings';
+
+/**
+ * Mantém uma definição da empresa igual à guardada com o livro na nuvem (ownerPath null = sem sessão).
+ * A versão remota substitui a local. As alterações locais só são enviadas depois do primeiro snapshot,
+ * para não apagarem as de outro membro, e só por quem pode editar.
+ */
+export const useSharedSetting = <T>(
+  ownerPath: string | null,
+  name: SharedSettingName,
+  value: T,
+  setValue: (value: T) => void,
+  canWrite: boolean,
+  user: string,
+  fields?: (value: T) => Record<string, unknown>
+) => {
+  const [loaded, setLoaded] = useState(false);
+  // JSON da última versão recebida ou enviada, para não reenviar o que veio da nuvem
+  const remote = useRef<string | null>(null);
+  const latest = useRef(value);
+  latest.current = value;
+
+  useEffect(() => {
+    setLoaded(false);
+    remote.current = null;
+    if (!ownerPath) return;
+    return subscribeSetting<T>(db, ownerPath, name, items => {
+      if (items !== null) {
+        remote.current = JSON.stringify(items);
+        if (remote.current !== JSON.stringify(latest.current)) setValue(items);
+      }
+      setLoaded(true);
+    });
+  }, [ownerPath]);
+
+  useEffect(() => {
+    if (!ownerPath || !loaded || !canWrite) return;
+    const json = JSON.stringify(value);
+    if (json === remote.current) return;
+    remote.current = json;
+    saveSetting(db, ownerPath, name, value, user, fields?.(value)).catch(err => console.warn(`Não foi possível guardar "${name}" na nuvem.`, err));
+  }, [ownerPath, loaded, canWrite, value]);
+};
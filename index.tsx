@@ -1,15 +1,37 @@
-import React from 'react';
+import React, { useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { migrateStoredData } from './services/backup';
+import { activeWorkspaceId, setActiveWorkspaceId } from './services/workspaces';
+import { registerServiceWorker } from './services/desktop';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Em produção a aplicação fica guardada no navegador e abre sem internet
+registerServiceWorker();
+
+// Dados antigos deste navegador são convertidos para o esquema atual antes de a aplicação os ler
+migrateStoredData();
+
+// Trocar de empresa volta a montar a aplicação, que lê tudo das chaves da nova empresa
+const Root: React.FC = () => {
+  const [workspaceId, setWorkspaceId] = useState(activeWorkspaceId);
+
+  const handleSwitch = (id: string) => {
+    setActiveWorkspaceId(id);
+    migrateStoredData();
+    setWorkspaceId(id);
+  };
+
+  return <App key={workspaceId} onSwitchWorkspace={handleSwitch} />;
+};
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
-);
\ No newline at end of file
+);
@@ -0,0 +1,61 @@
+import { CashAccount, Transaction } from '../types';
+import { scopedKey } from './workspaces';
+
+export const ACCOUNTS_STORAGE_KEY = 'fluxowin_accounts';
+
+// Transações anteriores às contas (sem accountId) pertencem à conta principal
+export const DEFAULT_ACCOUNT_ID = 'principal';
+
+export const DEFAULT_ACCOUNTS: CashAccount[] = [
+  { id: DEFAULT_ACCOUNT_ID, name: 'Conta Principal', kind: 'bank', openingBalance: 0 },
+];
+
+export const ACCOUNT_KIND_LABELS: Record<CashAccount['kind'], string> = {
+  cash: 'Caixa',
+  bank: 'Conta bancária',
+  mobile: 'Carteira móvel',
+};
+
+export const loadAccounts = (): CashAccount[] => {
+  const saved = localStorage.getItem(scopedKey(ACCOUNTS_STORAGE_KEY));
+  return saved ? JSON.parse(saved) : DEFAULT_ACCOUNTS;
+};
+
+export const saveAccounts = (accounts: CashAccount[]) => {
+  localStorage.setItem(scopedKey(ACCOUNTS_STORAGE_KEY), JSON.stringify(accounts));
+};
+
+export const accountOf = (t: Transaction) => t.accountId || DEFAULT_ACCOUNT_ID;
+
+export const isTransfer = (t: Transaction) => t.type === 'transfer';
+
+/**
+ * Entradas e saídas de uma transação vistas de uma conta. Com 'all' as
+ * transferências anulam-se (não são receita nem despesa).
+ */
+export const flowFor = (t: Transaction, accountId: string | 'all'): { inflow: number; outflow: number } => {
+  if (t.type === 'transfer') {
+    if (accountId === 'all') return { inflow: 0, outflow: 0 };
+    return {
+      inflow: t.toAccountId === accountId ? t.amount : 0,
+      outflow: accountOf(t) === accountId ? t.amount : 0,
+    };
+  }
+  if (accountId !== 'all' && accountOf(t) !== accountId) return { inflow: 0, outflow: 0 };
+  return t.type === 'income' ? { inflow: t.amount, outflow: 0 } : { inflow: 0, outflow: t.amount };
+};
+
+export const touchesAccount = (t: Transaction, accountId: string) =>
+  accountOf(t) === accountId || (t.type === 'transfer' && t.toAccountId === accountId);
+
+// Saldo de cada conta: saldo de abertura + entradas - saídas (incluindo transferências)
+export const accountBalances = (accounts: CashAccount[], transactions: Transaction[]): Map<string, number> => {
+  const balances = new Map(accounts.map(a => [a.id, a.openingBalance]));
+  transactions.forEach(t => {
+    accounts.forEach(a => {
+      const { inflow, outflow } = flowFor(t, a.id);
+      if (inflow || outflow) balances.set(a.id, (balances.get(a.id) || 0) + inflow - outflow);
+    });
+  });
+  return balances;
+};
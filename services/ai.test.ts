@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { Counterparty } from '../types';
+import { AIProvider, askLedger, createLocalProvider } from './ai';
+import { DEFAULT_CHART } from './chartOfAccounts';
+
+const cocaCola: Counterparty = { id: 'cc', name: 'Coca-Cola Sabco', kind: 'supplier', aliases: ['Coca-Cola'] };
+
+// Fornecedor que regista a pergunta recebida e devolve uma consulta válida
+const recordingProvider = () => {
+  const asked: string[] = [];
+  const provider: AIProvider = {
+    id: 'gemini',
+    analyze: async () => [],
+    translate: async question => {
+      asked.push(question);
+      return { from: '2026-01-01', to: '2026-03-31', type: 'expense', aggregation: 'sum' };
+    },
+  };
+  return { provider, asked };
+};
+
+describe('askLedger', () => {
+  it('retira da pergunta os nomes com hífen ou pontuação antes de a enviar', async () => {
+    const { provider, asked } = recordingProvider();
+    const query = await askLedger(provider, 'Quanto paguei à Coca-Cola no 1.º trimestre?', {
+      chart: DEFAULT_CHART,
+      counterparties: [cocaCola],
+      fiscalYearStart: 0,
+    });
+    expect(asked[0]).toBe('Quanto paguei à contraparte no 1.º trimestre?');
+    expect(query?.counterpartyId).toBe('cc');
+  });
+
+  it('mascara o nome mais longo e deixa o resto da pergunta como foi escrito', async () => {
+    const { provider, asked } = recordingProvider();
+    await askLedger(provider, 'Compras à COCA-COLA SABCO, Lda. em 2025', {
+      chart: DEFAULT_CHART,
+      counterparties: [cocaCola],
+      fiscalYearStart: 0,
+    });
+    expect(asked[0]).toBe('Compras à contraparte, Lda. em 2025');
+  });
+
+  it('mantém o código de conta escrito na pergunta', async () => {
+    const query = await askLedger(createLocalProvider(), 'Total da conta 6.3.5 em 2025', {
+      chart: DEFAULT_CHART,
+      counterparties: [cocaCola],
+      fiscalYearStart: 0,
+    });
+    expect(query).toMatchObject({ category: '6.3.5', from: '2025-01-01', to: '2025-12-31' });
+  });
+});
@@ -0,0 +1,424 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { AIInsight, AIInsightKind, AIProviderId, AISettings, ChartAccount, Counterparty, LedgerQuery, Transaction } from '../types';
+import { UNCATEGORIZED_CODE, accountType, getAccount, isWithinAccount } from './chartOfAccounts';
+import { normalizeName, suggestCounterparty } from './counterparties';
+import { formatMoney } from './currency';
+import { parseQuestion, sanitizeQuery, stems } from './ledgerQuestions';
+import { PeriodRange, formatRange } from './periods';
+import { toDateKey } from './recurring';
+import { scopedKey } from './workspaces';
+
+export const AI_SETTINGS_STORAGE_KEY = 'fluxowin_ai_settings';
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+const MAX_ITEMS = 40;
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: process.env.API_KEY ? 'gemini' : 'local',
+  shareDescriptions: false,
+  shareCounterparties: false,
+};
+
+export const PROVIDER_LABELS: Record<AIProviderId, string> = {
+  gemini: 'Google Gemini (nuvem)',
+  local: 'Local (sem ligação)',
+};
+
+export const INSIGHT_LABELS: Record<AIInsightKind, string> = {
+  anomaly: 'Anomalia',
+  category: 'Sugestão de categoria',
+  saving: 'Oportunidade de poupança',
+};
+
+export const loadAISettings = (): AISettings => {
+  const saved = localStorage.getItem(scopedKey(AI_SETTINGS_STORAGE_KEY));
+  return saved ? { ...DEFAULT_AI_SETTINGS, ...JSON.parse(saved) } : DEFAULT_AI_SETTINGS;
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(scopedKey(AI_SETTINGS_STORAGE_KEY), JSON.stringify(settings));
+};
+
+// O Gemini precisa da chave definida em GEMINI_API_KEY; o fornecedor local está sempre disponível
+export const isProviderAvailable = (id: AIProviderId) => id === 'local' || !!process.env.API_KEY;
+
+// Movimento individual enviado para análise, identificado por uma referência opaca ("T1")
+export interface AIInputItem {
+  ref: string;
+  date: string; // dia local, YYYY-MM-DD
+  type: 'income' | 'expense';
+  amount: number;
+  account: string;
+  description?: string;
+  counterparty?: string;
+}
+
+export interface AIAccountTotal {
+  code: string;
+  name: string;
+  type: 'income' | 'expense';
+  total: number;
+  previousTotal: number;
+  count: number;
+}
+
+// Tudo o que o fornecedor recebe: totais do período, contas do plano e uma amostra limitada de movimentos
+export interface AIInput {
+  period: string;
+  previousPeriod: string;
+  totals: { income: number; expense: number; previousIncome: number; previousExpense: number };
+  accounts: AIAccountTotal[];
+  availableAccounts: { code: string; name: string; type: 'income' | 'expense' }[];
+  counterparties?: { alias: string; total: number; count: number }[];
+  items: AIInputItem[];
+}
+
+// O fornecedor só vê `input`; `refs` fica no navegador para ligar os resultados às transações
+export interface AIRequest {
+  input: AIInput;
+  refs: Record<string, string>; // referência -> id da transação
+}
+
+// Resultado tal como o fornecedor o devolve, antes de ser validado e ligado às transações
+export interface AIProviderInsight {
+  kind: AIInsightKind;
+  title: string;
+  detail: string;
+  refs: string[];
+  account?: string; // conta a que o resultado se refere; nas sugestões, a conta proposta
+}
+
+// Contexto das perguntas sobre o livro: só o plano de contas, nunca movimentos nem nomes de contrapartes
+export interface AIQuestionContext {
+  today: string; // YYYY-MM-DD
+  fiscalYearStart: number; // 0 = Janeiro
+  accounts: { code: string; name: string }[];
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  analyze(input: AIInput): Promise<AIProviderInsight[]>;
+  // Consulta ainda por validar (ver sanitizeQuery); a execução é sempre local
+  translate(question: string, context: AIQuestionContext): Promise<Partial<LedgerQuery>>;
+}
+
+// "Pag. fatura 2231 Vodacom joao@x.co" -> "pag fatura # contraparte email"
+export const maskDescription = (description: string, counterparties: Counterparty[]) => {
+  const names = counterparties
+    .flatMap(c => [c.name, ...c.aliases])
+    .map(normalizeName)
+    .filter(n => n.length >= 3)
+    .sort((a, b) => b.length - a.length);
+  const text = names.reduce(
+    (acc, name) => acc.split(` ${name} `).join(' contraparte '),
+    ` ${normalizeName(description.replace(/\S+@\S+/g, ' email '))} `
+  );
+  return text.replace(/\d+/g, '#').replace(/#( #)+/g, '#').trim();
+};
+
+const sum = (list: Transaction[]) => list.reduce((acc, t) => acc + t.amount, 0);
+
+const isUncategorized = (chart: ChartAccount[], t: Transaction) =>
+  t.category === UNCATEGORIZED_CODE || !getAccount(chart, t.category);
+
+// Agrega os movimentos do período (sem transferências) e escolhe a amostra que vale a pena enviar:
+// valores muito acima da média da conta, movimentos por classificar e os maiores do período
+export const buildAIRequest = (
+  current: Transaction[],
+  previous: Transaction[],
+  context: { chart: ChartAccount[]; counterparties: Counterparty[]; range: PeriodRange; previousRange: PeriodRange; settings: AISettings }
+): AIRequest => {
+  const { chart, counterparties, settings } = context;
+  const movements = current.filter(t => t.type !== 'transfer');
+  const before = previous.filter(t => t.type !== 'transfer');
+  const byAccount = (list: Transaction[], code: string) => list.filter(t => t.category === code);
+
+  const codes = Array.from(new Set(movements.map(t => t.category)));
+  const accounts: AIAccountTotal[] = codes.map(code => {
+    const rows = byAccount(movements, code);
+    return {
+      code,
+      name: getAccount(chart, code)?.name || code,
+      type: rows[0].type as 'income' | 'expense',
+      total: sum(rows),
+      previousTotal: sum(byAccount(before, code)),
+      count: rows.length,
+    };
+  }).sort((a, b) => b.total - a.total);
+
+  const outliers = movements.filter(t => {
+    const rows = byAccount(movements, t.category);
+    if (rows.length < 3) return false;
+    const othersMean = (sum(rows) - t.amount) / (rows.length - 1);
+    return t.amount >= othersMean * 3;
+  });
+  const largest = [...movements].sort((a, b) => b.amount - a.amount).slice(0, 10);
+  const uncategorized = movements.filter(t => isUncategorized(chart, t)).slice(0, 20);
+  const sample = Array.from(new Set([...outliers, ...uncategorized, ...largest]))
+    .slice(0, MAX_ITEMS)
+    .sort((a, b) => b.amount - a.amount);
+
+  // Pseudónimos pela ordem do volume: "Contraparte 1" é a de maior total
+  const partyIds = Array.from(new Set(movements.map(t => t.counterpartyId).filter(Boolean))) as string[];
+  const partyTotals = partyIds
+    .map(id => ({ id, rows: movements.filter(t => t.counterpartyId === id) }))
+    .sort((a, b) => sum(b.rows) - sum(a.rows));
+  const aliasOf = new Map(partyTotals.map((p, i) => [p.id, `Contraparte ${i + 1}`]));
+
+  const refs: Record<string, string> = {};
+  const items = sample.map((t, i): AIInputItem => {
+    const ref = `T${i + 1}`;
+    refs[ref] = t.id;
+    return {
+      ref,
+      date: toDateKey(new Date(t.date)),
+      type: t.type as 'income' | 'expense',
+      amount: t.amount,
+      account: t.category,
+      ...(settings.shareDescriptions ? { description: maskDescription(t.description, counterparties) } : {}),
+      ...(settings.shareCounterparties && t.counterpartyId ? { counterparty: aliasOf.get(t.counterpartyId) } : {}),
+    };
+  });
+
+  return {
+    input: {
+      period: formatRange(context.range),
+      previousPeriod: formatRange(context.previousRange),
+      totals: {
+        income: sum(movements.filter(t => t.type === 'income')),
+        expense: sum(movements.filter(t => t.type === 'expense')),
+        previousIncome: sum(before.filter(t => t.type === 'income')),
+        previousExpense: sum(before.filter(t => t.type === 'expense')),
+      },
+      accounts,
+      availableAccounts: chart
+        .filter(a => accountType(a.code) !== null && !chart.some(child => child.parentCode === a.code))
+        .map(a => ({ code: a.code, name: a.name, type: accountType(a.code)! as 'income' | 'expense' })),
+      ...(settings.shareCounterparties
+        ? { counterparties: partyTotals.map(p => ({ alias: aliasOf.get(p.id)!, total: sum(p.rows), count: p.rows.length })) }
+        : {}),
+      items,
+    },
+    refs,
+  };
+};
+
+const PROMPT = `És um assistente financeiro de uma PME moçambicana (valores em MZN, plano de contas PGC-NIRF:
+classe 6 gastos, classe 7 proveitos). Recebes totais agregados de um período e uma amostra de movimentos
+identificados por referências ("T1"). Devolve, em português, no máximo 8 resultados:
+- "anomaly": movimentos com valor ou padrão invulgar (refs obrigatórias);
+- "category": movimentos na conta "Outros" que devem ir para uma conta de "availableAccounts" (refs e account obrigatórios);
+- "saving": oportunidades concretas de redução de gastos (account quando se refere a uma conta).
+Usa apenas referências e códigos de conta presentes nos dados. Não inventes valores.`;
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    insights: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ['anomaly', 'category', 'saving'] },
+          title: { type: Type.STRING },
+          detail: { type: Type.STRING },
+          refs: { type: Type.ARRAY, items: { type: Type.STRING } },
+          account: { type: Type.STRING },
+        },
+        required: ['kind', 'title', 'detail', 'refs'],
+      },
+    },
+  },
+  required: ['insights'],
+};
+
+const QUESTION_PROMPT = `Converte a pergunta sobre o livro de caixa numa consulta JSON com:
+from e to (YYYY-MM-DD, inclusive), type ("income", "expense" ou "all"), category (código de uma conta da lista,
+inclui subcontas; omite se a pergunta não indicar conta) e aggregation ("sum", "count", "average", "max" ou "min").
+Períodos relativos ("último trimestre", "mês passado") contam a partir de hoje; sem período, usa o exercício em curso.
+Siglas como "FST" referem-se às iniciais do nome da conta.`;
+
+const QUESTION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    from: { type: Type.STRING },
+    to: { type: Type.STRING },
+    type: { type: Type.STRING, enum: ['all', 'income', 'expense'] },
+    category: { type: Type.STRING },
+    aggregation: { type: Type.STRING, enum: ['sum', 'count', 'average', 'max', 'min'] },
+  },
+  required: ['from', 'to', 'type', 'aggregation'],
+};
+
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  const generate = async (contents: string, responseSchema: typeof RESPONSE_SCHEMA | typeof QUESTION_SCHEMA) => {
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents,
+      config: { responseMimeType: 'application/json', responseSchema },
+    });
+    return JSON.parse(response.text || '{}');
+  };
+  return {
+    id: 'gemini',
+    async analyze(input) {
+      const parsed = await generate(`${PROMPT}\n\nDados:\n${JSON.stringify(input)}`, RESPONSE_SCHEMA);
+      return Array.isArray(parsed.insights) ? parsed.insights : [];
+    },
+    translate(question, context) {
+      return generate(`${QUESTION_PROMPT}\n\nContexto:\n${JSON.stringify(context)}\n\nPergunta: ${question}`, QUESTION_SCHEMA);
+    },
+  };
+};
+
+// Regras simples sobre os mesmos dados enviados ao Gemini: funciona sem ligação e serve para testes
+export const createLocalProvider = (): AIProvider => ({
+  id: 'local',
+  async analyze(input) {
+    const insights: AIProviderInsight[] = [];
+    const accountOf = (code: string) => input.accounts.find(a => a.code === code);
+    const format = (value: number) => formatMoney(value);
+
+    input.items.forEach(item => {
+      const account = accountOf(item.account);
+      if (!account || account.count < 3) return;
+      const othersMean = (account.total - item.amount) / (account.count - 1);
+      if (othersMean <= 0 || item.amount < othersMean * 3) return;
+      insights.push({
+        kind: 'anomaly',
+        title: `Valor invulgar em ${account.name}`,
+        detail: `${format(item.amount)} em ${item.date}, cerca de ${Math.round(item.amount / othersMean)}× a média dos restantes movimentos desta conta (${format(othersMean)}).`,
+        refs: [item.ref],
+        account: item.account,
+      });
+    });
+
+    const suggestions = new Map<string, string[]>();
+    input.items
+      .filter(item => item.account === UNCATEGORIZED_CODE && item.description)
+      .forEach(item => {
+        const words = stems(item.description!);
+        const best = input.availableAccounts
+          .filter(a => a.type === item.type)
+          .map(a => ({ code: a.code, score: stems(a.name).filter(s => words.includes(s)).length }))
+          .filter(a => a.score > 0)
+          .sort((a, b) => b.score - a.score)[0];
+        if (best) suggestions.set(best.code, [...(suggestions.get(best.code) || []), item.ref]);
+      });
+    suggestions.forEach((refs, code) => {
+      const name = input.availableAccounts.find(a => a.code === code)!.name;
+      insights.push({
+        kind: 'category',
+        title: `Classificar em ${code} - ${name}`,
+        detail: `${refs.length} movimento(s) em "Outros" têm descrições que correspondem a esta conta.`,
+        refs,
+        account: code,
+      });
+    });
+
+    // Gastos que cresceram pelo menos 25% face ao período anterior e pesam no total
+    input.accounts
+      .filter(a => a.type === 'expense' && a.previousTotal > 0)
+      .filter(a => a.total >= a.previousTotal * 1.25 && a.total - a.previousTotal >= input.totals.expense * 0.02)
+      .forEach(a => insights.push({
+        kind: 'saving',
+        title: `Gastos em ${a.name} subiram ${Math.round((a.total / a.previousTotal - 1) * 100)}%`,
+        detail: `${format(a.total)} neste período contra ${format(a.previousTotal)} no anterior. Reveja os movimentos desta conta.`,
+        refs: [],
+        account: a.code,
+      }));
+
+    return insights;
+  },
+
+  async translate(question, context) {
+    const [y, m, d] = context.today.split('-').map(Number);
+    return parseQuestion(question, { ...context, today: new Date(y, m - 1, d) });
+  },
+});
+
+export const createAIProvider = (id: AIProviderId): AIProvider =>
+  id === 'gemini' && process.env.API_KEY ? createGeminiProvider(process.env.API_KEY) : createLocalProvider();
+
+// Valida a resposta e troca as referências pelas transações; sem referências, liga aos movimentos da conta
+export const resolveInsights = (
+  raw: AIProviderInsight[],
+  request: AIRequest,
+  current: Transaction[],
+  chart: ChartAccount[]
+): AIInsight[] =>
+  raw
+    .filter(r => r && (r.kind === 'anomaly' || r.kind === 'category' || r.kind === 'saving') && typeof r.title === 'string')
+    .map(r => {
+      const account = r.account && getAccount(chart, r.account) ? r.account : undefined;
+      const linked = (Array.isArray(r.refs) ? r.refs : []).map(ref => request.refs[ref]).filter(Boolean);
+      const transactionIds = linked.length > 0 || !account || r.kind === 'category'
+        ? linked
+        : current.filter(t => t.type !== 'transfer' && isWithinAccount(t.category, account)).map(t => t.id);
+      return {
+        kind: r.kind,
+        title: r.title,
+        detail: typeof r.detail === 'string' ? r.detail : '',
+        transactionIds: Array.from(new Set(transactionIds)),
+        ...(r.kind === 'category' && account ? { suggestedCategory: account } : {}),
+      };
+    })
+    .filter(i => (i.kind === 'category' ? !!i.suggestedCategory && i.transactionIds.length > 0 : true));
+
+export const analyzeWithAI = async (
+  provider: AIProvider,
+  request: AIRequest,
+  current: Transaction[],
+  chart: ChartAccount[]
+): Promise<AIInsight[]> => resolveInsights(await provider.analyze(request.input), request, current, chart);
+
+// Troca na pergunta original os trechos cuja forma normalizada é um dos nomes ("Coca-Cola" -> "coca cola");
+// o resto do texto fica como foi escrito, para que códigos como "6.3.5" cheguem intactos ao fornecedor
+const maskNames = (question: string, names: string[]) => {
+  // Pergunta normalizada como normalizeName, com o intervalo de origem de cada carácter
+  let normalized = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let index = 0;
+  for (const char of question) {
+    for (const folded of char.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '')) {
+      const keep = /[a-z0-9]/.test(folded);
+      if (keep || (normalized && !normalized.endsWith(' '))) {
+        normalized += keep ? folded : ' ';
+        starts.push(index);
+        ends.push(index + char.length);
+      }
+    }
+    index += char.length;
+  }
+
+  const spans: [number, number][] = [];
+  [...names].sort((a, b) => b.length - a.length).forEach(name => {
+    for (const match of normalized.matchAll(new RegExp(`\\b${name}\\b`, 'g'))) {
+      const span: [number, number] = [starts[match.index!], ends[match.index! + name.length - 1]];
+      if (!spans.some(([from, to]) => span[0] < to && from < span[1])) spans.push(span);
+    }
+  });
+  return spans
+    .sort((a, b) => b[0] - a[0])
+    .reduce((text, [from, to]) => `${text.slice(0, from)}contraparte${text.slice(to)}`, question);
+};
+
+// A contraparte é reconhecida no navegador e o nome é retirado da pergunta antes de a enviar ao fornecedor
+export const askLedger = async (
+  provider: AIProvider,
+  question: string,
+  context: { chart: ChartAccount[]; counterparties: Counterparty[]; fiscalYearStart: number }
+): Promise<LedgerQuery | null> => {
+  const counterparty = suggestCounterparty(context.counterparties, question);
+  const names = counterparty ? [counterparty.name, ...counterparty.aliases].map(normalizeName).filter(Boolean) : [];
+  const masked = maskNames(question, names);
+  const raw = await provider.translate(masked, {
+    today: toDateKey(new Date()),
+    fiscalYearStart: context.fiscalYearStart,
+    accounts: context.chart.filter(a => accountType(a.code) !== null).map(a => ({ code: a.code, name: a.name })),
+  });
+  const query = sanitizeQuery(raw, context.chart);
+  return query && (counterparty ? { ...query, counterpartyId: counterparty.id } : query);
+};
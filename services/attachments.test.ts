@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { Attachment, Transaction } from '../types';
+import { MAX_ATTACHMENT_SIZE, formatFileSize, needsAttachment, validateAttachment } from './attachments';
+
+const file = (name: string, type: string, size = 1024) => new File([new Uint8Array(size)], name, { type });
+
+const tx = (fields: Partial<Transaction> = {}): Transaction => ({
+  id: 'a',
+  description: 'Compra de material',
+  amount: 8000,
+  type: 'expense',
+  category: '6.3.12',
+  date: new Date(2026, 2, 10).toISOString(),
+  ...fields,
+});
+
+const receipt: Attachment = {
+  id: 'r1',
+  name: 'recibo.pdf',
+  mimeType: 'application/pdf',
+  size: 2048,
+  uploadedAt: '2026-03-10T12:00:00.000Z',
+  storage: 'local',
+};
+
+describe('validateAttachment', () => {
+  it('aceita imagens e PDF até ao limite', () => {
+    expect(validateAttachment(file('recibo.pdf', 'application/pdf'))).toBeNull();
+    expect(validateAttachment(file('fatura.jpg', 'image/jpeg'))).toBeNull();
+  });
+
+  it('recusa outros formatos e ficheiros grandes', () => {
+    expect(validateAttachment(file('extrato.xlsx', 'application/vnd.ms-excel'))).toContain('só são aceites imagens e PDF');
+    expect(validateAttachment(file('scan.png', 'image/png', MAX_ATTACHMENT_SIZE + 1))).toContain('o limite é de 10 MB');
+  });
+});
+
+describe('needsAttachment', () => {
+  it('assinala despesas confirmadas acima do limite sem comprovativo', () => {
+    expect(needsAttachment(tx(), 5000)).toBe(true);
+    expect(needsAttachment(tx({ attachments: [receipt] }), 5000)).toBe(false);
+    expect(needsAttachment(tx({ amount: 4999 }), 5000)).toBe(false);
+  });
+
+  it('ignora receitas, pendentes, eliminadas e o limite 0', () => {
+    expect(needsAttachment(tx({ type: 'income', category: '7.2' }), 5000)).toBe(false);
+    expect(needsAttachment(tx({ pending: true }), 5000)).toBe(false);
+    expect(needsAttachment(tx({ deletedAt: '2026-03-11T10:00:00.000Z' }), 5000)).toBe(false);
+    expect(needsAttachment(tx(), 0)).toBe(false);
+  });
+});
+
+describe('formatFileSize', () => {
+  it('mostra KB abaixo de 1 MB e MB com uma casa decimal', () => {
+    expect(formatFileSize(200)).toBe('1 KB');
+    expect(formatFileSize(2048)).toBe('2 KB');
+    expect(formatFileSize(1.5 * 1024 * 1024)).toBe('1.5 MB');
+  });
+});
@@ -0,0 +1,105 @@
+import { FirebaseStorage, deleteObject, getBlob, ref, uploadBytes } from 'firebase/storage';
+import { Attachment, Transaction } from '../types';
+import { scopedKey } from './workspaces';
+
+export const ATTACHMENT_THRESHOLD_KEY = 'fluxowin_attachment_threshold';
+export const DEFAULT_ATTACHMENT_THRESHOLD = 5000;
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+const IDB_NAME = 'fluxowin';
+const IDB_STORE = 'attachments';
+
+// Contrato comum ao armazenamento local (IndexedDB) e ao Firebase Storage
+export interface AttachmentStore {
+  put(transactionId: string, file: File): Promise<Attachment>;
+  get(attachment: Attachment): Promise<Blob>;
+  remove(attachment: Attachment): Promise<void>;
+}
+
+export const loadAttachmentThreshold = (): number => {
+  const saved = localStorage.getItem(scopedKey(ATTACHMENT_THRESHOLD_KEY));
+  return saved ? Number(saved) : DEFAULT_ATTACHMENT_THRESHOLD;
+};
+
+export const saveAttachmentThreshold = (threshold: number) => {
+  localStorage.setItem(scopedKey(ATTACHMENT_THRESHOLD_KEY), String(threshold));
+};
+
+export const isPreviewable = (mimeType: string) => mimeType.startsWith('image/') || mimeType === 'application/pdf';
+
+// Devolve a mensagem de erro ou null quando o ficheiro pode ser anexado
+export const validateAttachment = (file: File): string | null => {
+  if (!isPreviewable(file.type)) return `"${file.name}": só são aceites imagens e PDF.`;
+  if (file.size > MAX_ATTACHMENT_SIZE) return `"${file.name}": o limite é de ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB.`;
+  return null;
+};
+
+// Despesas acima do limite sem comprovativo (pedido frequente da auditoria)
+export const needsAttachment = (t: Transaction, threshold: number) =>
+  t.type === 'expense' && !t.deletedAt && !t.pending && threshold > 0 && t.amount >= threshold && !(t.attachments && t.attachments.length > 0);
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const metadataFor = (file: File, storage: Attachment['storage'], path?: string): Attachment => ({
+  id: crypto.randomUUID(),
+  name: file.name,
+  mimeType: file.type,
+  size: file.size,
+  uploadedAt: new Date().toISOString(),
+  storage,
+  ...(path ? { path } : {}),
+});
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(IDB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const database = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(database.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    database.close();
+  }
+};
+
+// Anexos guardados no próprio navegador, indexados pelo id do anexo
+export const createIndexedDbStore = (): AttachmentStore => ({
+  async put(_transactionId, file) {
+    const attachment = metadataFor(file, 'local');
+    await runRequest('readwrite', store => store.put(file, attachment.id));
+    return attachment;
+  },
+  async get(attachment) {
+    const blob = await runRequest<Blob | undefined>('readonly', store => store.get(attachment.id));
+    if (!blob) throw new Error('Anexo não encontrado neste navegador.');
+    return blob;
+  },
+  async remove(attachment) {
+    await runRequest('readwrite', store => store.delete(attachment.id));
+  },
+});
+
+// Firebase Storage - {users/{uid} ou workspaces/{id}}/attachments/{transactionId}/{attachmentId}
+export const createFirebaseStore = (storage: FirebaseStorage, ownerPath: string): AttachmentStore => ({
+  async put(transactionId, file) {
+    const id = crypto.randomUUID();
+    const path = `${ownerPath}/attachments/${transactionId}/${id}`;
+    await uploadBytes(ref(storage, path), file, { contentType: file.type, customMetadata: { name: file.name } });
+    return { ...metadataFor(file, 'cloud', path), id };
+  },
+  async get(attachment) {
+    return getBlob(ref(storage, attachment.path || ''));
+  },
+  async remove(attachment) {
+    await deleteObject(ref(storage, attachment.path || ''));
+  },
+});
@@ -0,0 +1,51 @@
+import { AuditAction, AuditEntry, FieldChange, Transaction } from '../types';
+
+// Campos de metadados que não entram na comparação de valores
+const IGNORED_FIELDS = new Set(['id', 'history', 'deletedAt']);
+
+export const FIELD_LABELS: Record<string, string> = {
+  date: 'Data',
+  description: 'Descrição',
+  amount: 'Valor',
+  type: 'Tipo',
+  category: 'Categoria',
+  vat: 'IVA',
+  accountId: 'Conta',
+  pending: 'Pendente',
+  openItemId: 'Fatura',
+  counterpartyId: 'Contraparte',
+  attachments: 'Anexos',
+  tags: 'Etiquetas',
+};
+
+export const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Criada',
+  update: 'Editada',
+  delete: 'Eliminada',
+  restore: 'Restaurada',
+};
+
+export const diffTransaction = (before: Transaction, after: Partial<Transaction>): FieldChange[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof Transaction)[]);
+  const changes: FieldChange[] = [];
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const oldValue = before[field];
+    const newValue = after[field];
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  });
+  return changes;
+};
+
+export const appendAudit = (
+  transaction: Transaction,
+  action: AuditAction,
+  by: string,
+  changes?: FieldChange[]
+): Transaction => {
+  const entry: AuditEntry = { at: new Date().toISOString(), by, action };
+  if (changes && changes.length > 0) entry.changes = changes;
+  return { ...transaction, history: [...(transaction.history || []), entry] };
+};
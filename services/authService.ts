@@ -0,0 +1,18 @@
+import { User, onAuthStateChanged, signInWithPopup, signOut } from 'firebase/auth';
+import { auth, googleProvider, isConfigured } from '../firebaseConfig';
+
+export const signInWithGoogle = async (): Promise<User> => {
+  const result = await signInWithPopup(auth, googleProvider);
+  return result.user;
+};
+
+export const signOutUser = () => signOut(auth);
+
+// Sem Firebase configurado não existe sessão: o callback recebe null uma única vez.
+export const onUserChanged = (callback: (user: User | null) => void): (() => void) => {
+  if (!isConfigured) {
+    callback(null);
+    return () => {};
+  }
+  return onAuthStateChanged(auth, callback);
+};
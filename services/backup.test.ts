@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types';
+import { BACKUP_FORMAT, CURRENT_SCHEMA_VERSION, combineData, parseBackup, restoreWrites } from './backup';
+import { DEFAULT_ACCOUNT_ID } from './accounts';
+
+const tx = (id: string, date: string, extra: Partial<Transaction> = {}): Transaction => ({
+  id,
+  description: `Movimento ${id}`,
+  amount: 100,
+  type: 'expense',
+  category: '6.3',
+  date,
+  ...extra,
+});
+
+const lockedUntilMarch = (date: string) => date < '2026-04-01';
+
+describe('restoreWrites', () => {
+  it('elimina logicamente, com histórico, as transações que não estão no backup', () => {
+    const { writes, skipped } = restoreWrites([tx('a', '2026-05-02T12:00:00.000Z')], [], lockedUntilMarch, 'ana');
+    expect(skipped).toBe(0);
+    expect(writes).toHaveLength(1);
+    expect(writes[0].deletedAt).toBeDefined();
+    expect(writes[0].history?.map(h => [h.action, h.by])).toEqual([['delete', 'ana']]);
+  });
+
+  it('regista as alterações trazidas pelo backup sobre o histórico atual', () => {
+    const current = tx('a', '2026-05-02T12:00:00.000Z', { history: [{ at: '2026-05-02T12:00:00.000Z', by: 'ana', action: 'create' }] });
+    const { writes } = restoreWrites([current], [{ ...current, amount: 250, history: [] }], lockedUntilMarch, 'rui');
+    expect(writes[0].amount).toBe(250);
+    expect(writes[0].history?.map(h => h.action)).toEqual(['create', 'update']);
+    expect(writes[0].history?.[1].changes).toEqual([{ field: 'amount', oldValue: 100, newValue: 250 }]);
+  });
+
+  it('regista a criação das transações que só existem no backup', () => {
+    const history = [{ at: '2026-05-02T12:00:00.000Z', by: 'ana', action: 'create' as const }];
+    const { writes } = restoreWrites([], [tx('a', '2026-05-02T12:00:00.000Z', { history })], lockedUntilMarch, 'rui');
+    expect(writes[0].history?.map(h => [h.action, h.by])).toEqual([
+      ['create', 'ana'],
+      ['create', 'Restauro de cópia de segurança (rui)'],
+    ]);
+  });
+
+  it('não toca em transações de períodos fechados', () => {
+    const locked = tx('a', '2026-03-10T12:00:00.000Z');
+    const { writes, skipped } = restoreWrites(
+      [locked],
+      [tx('b', '2026-02-01T12:00:00.000Z'), tx('c', '2026-05-01T12:00:00.000Z')],
+      lockedUntilMarch,
+      'ana'
+    );
+    expect(writes.map(t => t.id)).toEqual(['c']);
+    expect(skipped).toBe(2);
+  });
+
+  it('ignora as transações iguais', () => {
+    const same = tx('a', '2026-05-02T12:00:00.000Z');
+    expect(restoreWrites([same], [{ ...same }], lockedUntilMarch, 'ana').writes).toEqual([]);
+  });
+});
+
+describe('parseBackup', () => {
+  it('migra a lista simples da versão 1 para o plano de contas e a conta por omissão', () => {
+    const legacy = [
+      tx('a', '2026-03-10T12:00:00.000Z', { category: '6.3 - Fornecimentos e Serviços de Terceiros' }),
+      tx('b', '2026-03-11T12:00:00.000Z', { type: 'transfer', category: 'Transferência', accountId: 'banco', toAccountId: 'caixa' }),
+    ];
+    const parsed = parseBackup(JSON.stringify(legacy));
+    if ('errors' in parsed) throw new Error(parsed.errors.join(' '));
+    expect(parsed.sourceVersion).toBe(1);
+    expect(parsed.backup.version).toBe(CURRENT_SCHEMA_VERSION);
+    expect(parsed.backup.data.transactions.map(t => [t.category, t.accountId])).toEqual([['6.3', DEFAULT_ACCOUNT_ID], ['', 'banco']]);
+    expect(parsed.backup.data.accounts.length).toBeGreaterThan(0);
+    expect(parsed.backup.data.closedPeriods).toEqual([]);
+  });
+
+  it('não volta a migrar um backup da versão atual', () => {
+    const data = { transactions: [tx('a', '2026-03-10T12:00:00.000Z', { category: '6.3.20' })] };
+    const parsed = parseBackup(JSON.stringify({ format: BACKUP_FORMAT, version: CURRENT_SCHEMA_VERSION, createdAt: '2026-04-01T10:00:00.000Z', data }));
+    if ('errors' in parsed) throw new Error(parsed.errors.join(' '));
+    expect(parsed.backup.createdAt).toBe('2026-04-01T10:00:00.000Z');
+    expect(parsed.backup.data.transactions[0].category).toBe('6.3.20');
+  });
+
+  it('recusa ficheiros inválidos, de versões futuras ou com transações mal formadas', () => {
+    expect(parseBackup('{').ok).toBe(false);
+    expect(parseBackup(JSON.stringify({ format: 'outro' })).ok).toBe(false);
+    expect(parseBackup(JSON.stringify({ format: BACKUP_FORMAT, version: CURRENT_SCHEMA_VERSION + 1, data: { transactions: [] } })).ok).toBe(false);
+    expect(parseBackup(JSON.stringify([{ id: 'a', type: 'outro' }])).ok).toBe(false);
+  });
+});
+
+describe('combineData', () => {
+  const data = (transactions: Transaction[], month?: string) => {
+    const parsed = parseBackup(JSON.stringify({ format: BACKUP_FORMAT, version: CURRENT_SCHEMA_VERSION, data: { transactions } }));
+    if ('errors' in parsed) throw new Error(parsed.errors.join(' '));
+    const closedPeriods = month ? [{ month, closedAt: '2026-04-02T10:00:00.000Z', closedBy: 'ana', balances: {} }] : [];
+    return { ...parsed.backup.data, closedPeriods };
+  };
+
+  it('substituir mantém os fechos de período atuais', () => {
+    const combined = combineData(data([tx('a', '2026-03-10T12:00:00.000Z')], '2026-03'), data([tx('b', '2026-05-10T12:00:00.000Z')]), 'replace');
+    expect(combined.transactions.map(t => t.id)).toEqual(['b']);
+    expect(combined.closedPeriods.map(p => p.month)).toEqual(['2026-03']);
+  });
+
+  it('juntar fica com a versão alterada mais recentemente', () => {
+    const older = tx('a', '2026-03-10T12:00:00.000Z', { amount: 100, history: [{ at: '2026-03-10T12:00:00.000Z', by: 'ana', action: 'create' }] });
+    const newer = { ...older, amount: 300, history: [...older.history!, { at: '2026-03-12T12:00:00.000Z', by: 'rui', action: 'update' as const }] };
+    expect(combineData(data([older]), data([newer, tx('c', '2026-03-11T12:00:00.000Z')]), 'merge').transactions.map(t => [t.id, t.amount])).toEqual([['a', 300], ['c', 100]]);
+    expect(combineData(data([newer]), data([older]), 'merge').transactions[0].amount).toBe(300);
+  });
+});
@@ -0,0 +1,392 @@
+import {
+  Budget,
+  CashAccount,
+  CategoryRule,
+  ChartAccount,
+  ClosedPeriod,
+  CompanyProfile,
+  Counterparty,
+  ExchangeRate,
+  ExpectedEntry,
+  ForecastSnapshot,
+  OpenItem,
+  PeriodLogEntry,
+  RecurringTemplate,
+  SavedView,
+  Transaction,
+} from '../types';
+import { LOCAL_STORAGE_KEY } from './transactionRepository';
+import { DEFAULT_ACCOUNTS, DEFAULT_ACCOUNT_ID, loadAccounts, saveAccounts } from './accounts';
+import { buildChart, loadCustomAccounts, resolveAccountCode, saveCustomAccounts } from './chartOfAccounts';
+import { loadTemplates, saveTemplates } from './recurring';
+import { loadBudgets, saveBudgets } from './budgets';
+import { loadOpenItems, saveOpenItems } from './openItems';
+import { loadCounterparties, saveCounterparties } from './counterparties';
+import { loadExchangeRates, saveExchangeRates } from './currency';
+import { loadExpectedEntries, loadSnapshots, saveExpectedEntries, saveSnapshots } from './forecast';
+import { ImportProfile, loadImportProfiles, saveImportProfiles } from './csvImport';
+import { loadSavedViews, saveSavedViews } from './transactionQuery';
+import { loadCategoryRules, saveCategoryRules } from './categoryRules';
+import { loadClosedPeriods, loadPeriodLog, saveClosedPeriods, savePeriodLog } from './periodClosing';
+import { DEFAULT_COMPANY, loadCompany, saveCompany } from './company';
+import { loadFiscalYearStart, saveFiscalYearStart } from './periods';
+import { scopedKey } from './workspaces';
+import { appendAudit, diffTransaction } from './auditTrail';
+
+export const BACKUP_FORMAT = 'fluxowin-backup';
+export const SCHEMA_VERSION_KEY = 'fluxowin_schema_version';
+export const BACKUP_SETTINGS_KEY = 'fluxowin_backup_settings';
+
+/**
+ * Versões do esquema de dados:
+ * 1 - livro original: lista de transações com rótulos PGC como categoria, sem contas nem versão
+ * 2 - categorias por código do plano de contas, contas/caixas, auditoria e definições no backup
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+const REMINDER_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Tudo o que o backup guarda: o livro e as definições da aplicação
+export interface BackupData {
+  transactions: Transaction[];
+  accounts: CashAccount[];
+  customAccounts: ChartAccount[];
+  templates: RecurringTemplate[];
+  budgets: Budget[];
+  openItems: OpenItem[];
+  counterparties: Counterparty[];
+  exchangeRates: ExchangeRate[];
+  expectedEntries: ExpectedEntry[];
+  forecastSnapshots: ForecastSnapshot[];
+  importProfiles: ImportProfile[];
+  savedViews: SavedView[];
+  categoryRules: CategoryRule[];
+  closedPeriods: ClosedPeriod[];
+  periodLog: PeriodLogEntry[];
+  company: CompanyProfile;
+  fiscalYearStart: number;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  data: BackupData;
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface BackupSettings {
+  reminderEnabled: boolean;
+  lastBackupAt?: string;
+}
+
+export const loadBackupSettings = (): BackupSettings => {
+  const saved = localStorage.getItem(scopedKey(BACKUP_SETTINGS_KEY));
+  return saved ? JSON.parse(saved) : { reminderEnabled: true };
+};
+
+export const saveBackupSettings = (settings: BackupSettings) => {
+  localStorage.setItem(scopedKey(BACKUP_SETTINGS_KEY), JSON.stringify(settings));
+};
+
+export const isBackupDue = (settings: BackupSettings, now: Date = new Date()) =>
+  settings.reminderEnabled && (!settings.lastBackupAt || now.getTime() - new Date(settings.lastBackupAt).getTime() > REMINDER_INTERVAL_MS);
+
+// Dados em falta nas versões antigas ficam com os valores por omissão
+const withDefaults = (data: Partial<BackupData>): BackupData => ({
+  transactions: data.transactions || [],
+  accounts: data.accounts && data.accounts.length > 0 ? data.accounts : DEFAULT_ACCOUNTS,
+  customAccounts: data.customAccounts || [],
+  templates: data.templates || [],
+  budgets: data.budgets || [],
+  openItems: data.openItems || [],
+  counterparties: data.counterparties || [],
+  exchangeRates: data.exchangeRates || [],
+  expectedEntries: data.expectedEntries || [],
+  forecastSnapshots: data.forecastSnapshots || [],
+  importProfiles: data.importProfiles || [],
+  savedViews: data.savedViews || [],
+  categoryRules: data.categoryRules || [],
+  closedPeriods: data.closedPeriods || [],
+  periodLog: data.periodLog || [],
+  company: { ...DEFAULT_COMPANY, ...data.company },
+  fiscalYearStart: typeof data.fiscalYearStart === 'number' ? data.fiscalYearStart : 0,
+});
+
+// Migrações: a função no índice N converte dados da versão N para a versão N + 1
+const MIGRATIONS: Record<number, (data: BackupData) => BackupData> = {
+  1: data => {
+    const chart = buildChart(data.customAccounts);
+    return {
+      ...data,
+      transactions: data.transactions.map(t => ({
+        ...t,
+        category: t.type === 'transfer' ? '' : resolveAccountCode(chart, t.category),
+        accountId: t.accountId || DEFAULT_ACCOUNT_ID,
+      })),
+    };
+  },
+};
+
+export const migrateData = (data: BackupData, fromVersion: number): BackupData => {
+  let migrated = data;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    migrated = MIGRATIONS[version] ? MIGRATIONS[version](migrated) : migrated;
+  }
+  return migrated;
+};
+
+export const readLocalData = (transactions: Transaction[]): BackupData => ({
+  transactions,
+  accounts: loadAccounts(),
+  customAccounts: loadCustomAccounts(),
+  templates: loadTemplates(),
+  budgets: loadBudgets(),
+  openItems: loadOpenItems(),
+  counterparties: loadCounterparties(),
+  exchangeRates: loadExchangeRates(),
+  expectedEntries: loadExpectedEntries(),
+  forecastSnapshots: loadSnapshots(),
+  importProfiles: loadImportProfiles(),
+  savedViews: loadSavedViews(),
+  categoryRules: loadCategoryRules(),
+  closedPeriods: loadClosedPeriods(),
+  periodLog: loadPeriodLog(),
+  company: loadCompany(),
+  fiscalYearStart: loadFiscalYearStart(),
+});
+
+// Grava as definições; as transações passam pelo repositório ativo (local ou Firestore)
+export const writeLocalSettings = (data: BackupData) => {
+  saveAccounts(data.accounts);
+  saveCustomAccounts(data.customAccounts);
+  saveTemplates(data.templates);
+  saveBudgets(data.budgets);
+  saveOpenItems(data.openItems);
+  saveCounterparties(data.counterparties);
+  saveExchangeRates(data.exchangeRates);
+  saveExpectedEntries(data.expectedEntries);
+  saveSnapshots(data.forecastSnapshots);
+  saveImportProfiles(data.importProfiles);
+  saveSavedViews(data.savedViews);
+  saveCategoryRules(data.categoryRules);
+  saveClosedPeriods(data.closedPeriods);
+  savePeriodLog(data.periodLog);
+  saveCompany(data.company);
+  saveFiscalYearStart(data.fiscalYearStart);
+};
+
+/**
+ * Atualiza os dados guardados neste navegador para a versão atual do esquema.
+ * Corre uma vez no arranque, antes de a aplicação ler o localStorage.
+ */
+export const migrateStoredData = () => {
+  const saved = localStorage.getItem(scopedKey(SCHEMA_VERSION_KEY));
+  const version = saved ? Number(saved) : 1;
+  if (version >= CURRENT_SCHEMA_VERSION) return;
+
+  const stored = localStorage.getItem(scopedKey(LOCAL_STORAGE_KEY));
+  if (stored) {
+    const migrated = migrateData(readLocalData(JSON.parse(stored)), version);
+    localStorage.setItem(scopedKey(LOCAL_STORAGE_KEY), JSON.stringify(migrated.transactions));
+  }
+  localStorage.setItem(scopedKey(SCHEMA_VERSION_KEY), String(CURRENT_SCHEMA_VERSION));
+};
+
+export const createBackup = (data: BackupData): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: CURRENT_SCHEMA_VERSION,
+  createdAt: new Date().toISOString(),
+  data,
+});
+
+export const downloadBackup = (backup: BackupFile) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', `fluxowin_backup_${backup.createdAt.slice(0, 10)}.json`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const TRANSACTION_TYPES = ['income', 'expense', 'transfer'];
+
+const transactionErrors = (t: unknown, index: number): string[] => {
+  const row = `Transação ${index + 1}`;
+  if (!t || typeof t !== 'object') return [`${row}: formato inválido.`];
+  const tx = t as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof tx.id !== 'string' || !tx.id) errors.push(`${row}: sem identificador.`);
+  if (typeof tx.date !== 'string' || Number.isNaN(new Date(tx.date).getTime())) errors.push(`${row}: data inválida.`);
+  if (typeof tx.amount !== 'number' || !Number.isFinite(tx.amount)) errors.push(`${row}: valor inválido.`);
+  if (!TRANSACTION_TYPES.includes(tx.type as string)) errors.push(`${row}: tipo desconhecido.`);
+  if (typeof tx.description !== 'string') errors.push(`${row}: sem descrição.`);
+  return errors;
+};
+
+export type ParsedBackup =
+  | { ok: true; backup: BackupFile; sourceVersion: number }
+  | { ok: false; errors: string[] };
+
+/**
+ * Lê e valida um ficheiro de backup. Aceita também a lista simples de transações
+ * da versão 1 (conteúdo antigo de fluxowin_transactions) e migra tudo para a versão atual.
+ */
+export const parseBackup = (text: string): ParsedBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['O ficheiro não é JSON válido.'] };
+  }
+
+  let version: number;
+  let data: Partial<BackupData>;
+  let createdAt = new Date().toISOString();
+  if (Array.isArray(raw)) {
+    version = 1;
+    data = { transactions: raw as Transaction[] };
+  } else if (raw && typeof raw === 'object' && (raw as BackupFile).format === BACKUP_FORMAT) {
+    const file = raw as BackupFile;
+    version = Number(file.version);
+    data = file.data || {};
+    createdAt = file.createdAt || createdAt;
+  } else {
+    return { ok: false, errors: ['O ficheiro não é um backup do FluxoWin.'] };
+  }
+
+  if (!Number.isInteger(version) || version < 1) return { ok: false, errors: ['Versão do backup desconhecida.'] };
+  if (version > CURRENT_SCHEMA_VERSION) {
+    return { ok: false, errors: [`O backup é da versão ${version}; atualize a aplicação antes de o restaurar.`] };
+  }
+  if (!Array.isArray(data.transactions)) return { ok: false, errors: ['O backup não contém a lista de transações.'] };
+
+  const errors = data.transactions.flatMap(transactionErrors);
+  if (errors.length > 0) return { ok: false, errors: errors.slice(0, 20) };
+
+  return {
+    ok: true,
+    sourceVersion: version,
+    backup: { format: BACKUP_FORMAT, version: CURRENT_SCHEMA_VERSION, createdAt, data: migrateData(withDefaults(data), version) },
+  };
+};
+
+const lastChange = (t: Transaction) => t.history?.[t.history.length - 1]?.at || '';
+
+const mergeBy = <T>(current: T[], incoming: T[], key: (item: T) => string): T[] => {
+  const keys = new Set(current.map(key));
+  return [...current, ...incoming.filter(item => !keys.has(key(item)))];
+};
+
+/**
+ * Substituir: o backup passa a ser o estado completo, exceto os fechos de período (reabrir fica registado
+ * no histórico e só se faz em Períodos).
+ * Juntar: acrescenta o que falta; numa transação presente nos dois fica a versão alterada mais recentemente.
+ */
+export const combineData = (current: BackupData, incoming: BackupData, mode: RestoreMode): BackupData => {
+  if (mode === 'replace') {
+    return {
+      ...incoming,
+      closedPeriods: mergeBy(current.closedPeriods, incoming.closedPeriods, p => p.month),
+      periodLog: mergeBy(current.periodLog, incoming.periodLog, e => e.id),
+    };
+  }
+
+  const byId = new Map(current.transactions.map(t => [t.id, t]));
+  incoming.transactions.forEach(t => {
+    const existing = byId.get(t.id);
+    if (!existing || lastChange(t) > lastChange(existing)) byId.set(t.id, t);
+  });
+
+  return {
+    transactions: Array.from(byId.values()),
+    accounts: mergeBy(current.accounts, incoming.accounts, a => a.id),
+    customAccounts: mergeBy(current.customAccounts, incoming.customAccounts, a => a.code),
+    templates: mergeBy(current.templates, incoming.templates, t => t.id),
+    budgets: mergeBy(current.budgets, incoming.budgets, b => b.id),
+    openItems: mergeBy(current.openItems, incoming.openItems, i => i.id),
+    counterparties: mergeBy(current.counterparties, incoming.counterparties, c => c.id),
+    exchangeRates: mergeBy(current.exchangeRates, incoming.exchangeRates, r => `${r.currency}|${r.date}`),
+    expectedEntries: mergeBy(current.expectedEntries, incoming.expectedEntries, e => e.id),
+    forecastSnapshots: mergeBy(current.forecastSnapshots, incoming.forecastSnapshots, s => s.id),
+    importProfiles: mergeBy(current.importProfiles, incoming.importProfiles, p => p.name),
+    savedViews: mergeBy(current.savedViews, incoming.savedViews, v => v.name),
+    categoryRules: mergeBy(current.categoryRules, incoming.categoryRules, r => r.id),
+    closedPeriods: mergeBy(current.closedPeriods, incoming.closedPeriods, p => p.month),
+    periodLog: mergeBy(current.periodLog, incoming.periodLog, e => e.id),
+    company: current.company.name ? current.company : incoming.company,
+    fiscalYearStart: current.fiscalYearStart,
+  };
+};
+
+/**
+ * Escritas no livro para passar de `current` às transações restauradas, com registo no histórico:
+ * as novas ficam com a criação pelo restauro, as que deixam de existir são eliminadas logicamente
+ * (nunca apagadas) e nada muda em períodos fechados.
+ */
+export const restoreWrites = (
+  current: Transaction[],
+  restored: Transaction[],
+  isLocked: (date: string) => boolean,
+  user: string,
+  now: Date = new Date()
+): { writes: Transaction[]; skipped: number } => {
+  const currentById = new Map(current.map(t => [t.id, t]));
+  const restoredIds = new Set(restored.map(t => t.id));
+  const writes: Transaction[] = [];
+  let skipped = 0;
+
+  restored.forEach(t => {
+    const existing = currentById.get(t.id);
+    if (existing && JSON.stringify(existing) === JSON.stringify(t)) return;
+    if (isLocked(t.date) || (existing && isLocked(existing.date))) {
+      skipped++;
+      return;
+    }
+    if (!existing) {
+      writes.push(appendAudit(t, 'create', `Restauro de cópia de segurança (${user})`));
+      return;
+    }
+    const action = t.deletedAt && !existing.deletedAt ? 'delete' : !t.deletedAt && existing.deletedAt ? 'restore' : 'update';
+    writes.push(appendAudit({ ...t, history: existing.history }, action, user, diffTransaction(existing, t)));
+  });
+
+  current.filter(t => !t.deletedAt && !restoredIds.has(t.id)).forEach(t => {
+    if (isLocked(t.date)) {
+      skipped++;
+      return;
+    }
+    writes.push(appendAudit({ ...t, deletedAt: now.toISOString() }, 'delete', user));
+  });
+
+  return { writes, skipped };
+};
+
+export interface RestorePreview {
+  total: number;
+  added: number;
+  updated: number;
+  removed: number; // só em "substituir"
+  firstDate?: string;
+  lastDate?: string;
+}
+
+export const previewRestore = (current: Transaction[], incoming: Transaction[], mode: RestoreMode): RestorePreview => {
+  const currentById = new Map(current.map(t => [t.id, t]));
+  const incomingIds = new Set(incoming.map(t => t.id));
+  const dates = incoming.map(t => t.date).sort();
+  return {
+    total: incoming.length,
+    added: incoming.filter(t => !currentById.has(t.id)).length,
+    updated: incoming.filter(t => {
+      const existing = currentById.get(t.id);
+      return existing && (mode === 'replace' ? JSON.stringify(existing) !== JSON.stringify(t) : lastChange(t) > lastChange(existing));
+    }).length,
+    removed: mode === 'replace' ? current.filter(t => !t.deletedAt && !incomingIds.has(t.id)).length : 0,
+    firstDate: dates[0],
+    lastDate: dates[dates.length - 1],
+  };
+};
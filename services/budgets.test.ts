@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { Budget, Transaction } from '../types';
+import { budgetActual, budgetStatus, budgetsExceededBy } from './budgets';
+
+const reference = new Date(2026, 2, 20); // 20 de março de 2026
+
+const tx = (id: string, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  description: `Movimento ${id}`,
+  amount: 1000,
+  type: 'expense',
+  category: '6.3.2',
+  date: new Date(2026, 2, 10, 12).toISOString(),
+  ...fields,
+});
+
+const budget = (fields: Partial<Budget> = {}): Budget => ({ id: 'b1', category: '6.3', period: 'monthly', amount: 5000, ...fields });
+
+describe('budgetActual', () => {
+  it('soma a conta e as subcontas dentro do mês ou do ano da referência', () => {
+    const transactions = [
+      tx('luz'),
+      tx('renda', { amount: 2500, category: '6.3.5' }),
+      tx('fevereiro', { date: new Date(2026, 1, 28, 23, 30).toISOString() }),
+      tx('pessoal', { category: '6.2.1' }),
+      tx('transferencia', { type: 'transfer', category: '6.3' }),
+    ];
+    expect(budgetActual(budget(), transactions, reference)).toBe(3500);
+    expect(budgetActual(budget({ period: 'yearly' }), transactions, reference)).toBe(4500);
+  });
+});
+
+describe('budgetStatus', () => {
+  it('nos gastos a variação é favorável abaixo do orçado e o excesso é assinalado', () => {
+    expect(budgetStatus(budget(), [tx('a', { amount: 4000 })], reference)).toMatchObject({
+      actual: 4000, variance: 1000, variancePct: 20, usedPct: 80, exceeded: false,
+    });
+    expect(budgetStatus(budget(), [tx('a', { amount: 6000 })], reference)).toMatchObject({ variance: -1000, variancePct: -20, exceeded: true });
+  });
+
+  it('nas receitas a variação é favorável acima do orçado e nunca excede', () => {
+    const sales = budget({ category: '7.1', amount: 10000 });
+    expect(budgetStatus(sales, [tx('venda', { type: 'income', category: '7.1', amount: 12000 })], reference)).toMatchObject({
+      variance: 2000, variancePct: 20, usedPct: 120, exceeded: false,
+    });
+  });
+
+  it('um orçamento a zero não divide por zero', () => {
+    expect(budgetStatus(budget({ amount: 0 }), [tx('a')], reference)).toMatchObject({ variancePct: 0, usedPct: 0, exceeded: true });
+  });
+});
+
+describe('budgetsExceededBy', () => {
+  it('devolve os orçamentos da conta que a nova despesa deixa excedidos', () => {
+    const budgets = [budget(), budget({ id: 'b2', category: '6.3.2', amount: 100000 }), budget({ id: 'b3', category: '6.2' })];
+    const exceeded = budgetsExceededBy(budgets, [tx('a', { amount: 4500 })], tx('nova', { amount: 800 }));
+    expect(exceeded.map(s => s.budget.id)).toEqual(['b1']);
+  });
+
+  it('ignora receitas', () => {
+    expect(budgetsExceededBy([budget({ category: '7.1' })], [], tx('venda', { type: 'income', category: '7.1', amount: 99999 }))).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { Budget, BudgetPeriod, Transaction } from '../types';
+import { accountType, isWithinAccount } from './chartOfAccounts';
+import { scopedKey } from './workspaces';
+
+export const BUDGETS_STORAGE_KEY = 'fluxowin_budgets';
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  monthly: 'Mensal',
+  yearly: 'Anual',
+};
+
+export const loadBudgets = (): Budget[] => {
+  const saved = localStorage.getItem(scopedKey(BUDGETS_STORAGE_KEY));
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const saveBudgets = (budgets: Budget[]) => {
+  localStorage.setItem(scopedKey(BUDGETS_STORAGE_KEY), JSON.stringify(budgets));
+};
+
+// Mês ou ano civil que contém a data de referência
+export const budgetWindow = (period: BudgetPeriod, reference: Date): { start: Date; end: Date } =>
+  period === 'monthly'
+    ? { start: new Date(reference.getFullYear(), reference.getMonth(), 1), end: new Date(reference.getFullYear(), reference.getMonth() + 1, 1) }
+    : { start: new Date(reference.getFullYear(), 0, 1), end: new Date(reference.getFullYear() + 1, 0, 1) };
+
+export interface BudgetStatus {
+  budget: Budget;
+  actual: number;
+  // Positiva quando favorável: gasto abaixo do orçado ou receita acima do orçado
+  variance: number;
+  variancePct: number;
+  usedPct: number;
+  exceeded: boolean;
+}
+
+export const budgetActual = (budget: Budget, transactions: Transaction[], reference: Date): number => {
+  const { start, end } = budgetWindow(budget.period, reference);
+  return transactions
+    .filter(t => t.type !== 'transfer' && isWithinAccount(t.category, budget.category))
+    .filter(t => {
+      const date = new Date(t.date);
+      return date >= start && date < end;
+    })
+    .reduce((acc, t) => acc + t.amount, 0);
+};
+
+export const budgetStatus = (budget: Budget, transactions: Transaction[], reference: Date): BudgetStatus => {
+  const actual = budgetActual(budget, transactions, reference);
+  const isIncome = accountType(budget.category) === 'income';
+  const variance = isIncome ? actual - budget.amount : budget.amount - actual;
+  return {
+    budget,
+    actual,
+    variance,
+    variancePct: budget.amount > 0 ? (variance / budget.amount) * 100 : 0,
+    usedPct: budget.amount > 0 ? (actual / budget.amount) * 100 : 0,
+    exceeded: !isIncome && actual > budget.amount,
+  };
+};
+
+/**
+ * Orçamentos de gastos que passam a estar excedidos com a nova transação.
+ * Os que já estavam excedidos antes também são devolvidos, para o aviso não se perder.
+ */
+export const budgetsExceededBy = (budgets: Budget[], transactions: Transaction[], candidate: Transaction): BudgetStatus[] => {
+  if (candidate.type !== 'expense') return [];
+  const reference = new Date(candidate.date);
+  return budgets
+    .filter(b => isWithinAccount(candidate.category, b.category))
+    .map(b => budgetStatus(b, [...transactions, candidate], reference))
+    .filter(s => s.exceeded);
+};
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { CategoryRule, Transaction } from '../types';
+import { UNCATEGORIZED_CODE } from './chartOfAccounts';
+import {
+  applySuggestion,
+  planUncategorized,
+  previewRule,
+  ruleError,
+  ruleMatches,
+  suggestCategory,
+  suggestLearned,
+  trainSuggester
+} from './categoryRules';
+
+const rule = (fields: Partial<CategoryRule> = {}): CategoryRule => ({
+  id: 'r1',
+  name: 'Energia',
+  enabled: true,
+  match: 'contains',
+  pattern: 'edm',
+  category: '6.3.2',
+  ...fields,
+});
+
+const tx = (id: string, description: string, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  description,
+  amount: 1500,
+  type: 'expense',
+  category: UNCATEGORIZED_CODE,
+  date: '2026-03-10T12:00:00.000Z',
+  ...fields,
+});
+
+describe('ruleError', () => {
+  it('recusa regras incompletas ou contraditórias', () => {
+    expect(ruleError(rule())).toBeNull();
+    expect(ruleError(rule({ pattern: ' ' }))).not.toBeNull();
+    expect(ruleError(rule({ match: 'regex', pattern: '(' }))).toBe('Expressão regular inválida.');
+    expect(ruleError(rule({ minAmount: 500, maxAmount: 100 }))).not.toBeNull();
+    expect(ruleError(rule({ type: 'income' }))).toBe('A conta escolhida não corresponde ao tipo de movimento.');
+  });
+});
+
+describe('ruleMatches', () => {
+  it('procura o texto sem distinguir maiúsculas nem acentos', () => {
+    expect(ruleMatches(rule({ pattern: 'Eletricidade' }), { description: 'Fatura ELETRICIDADE março', amount: 10, type: 'expense' })).toBe(true);
+    expect(ruleMatches(rule({ match: 'regex', pattern: '^edm\\s\\d+' }), { description: 'EDM 2231', amount: 10 })).toBe(true);
+  });
+
+  it('respeita o tipo, os limites de valor e ignora transferências', () => {
+    const input = { description: 'Pagamento EDM', amount: 1500 };
+    expect(ruleMatches(rule(), { ...input, type: 'income' })).toBe(false);
+    expect(ruleMatches(rule(), { ...input, type: 'transfer' })).toBe(false);
+    expect(ruleMatches(rule({ minAmount: 2000 }), input)).toBe(false);
+    expect(ruleMatches(rule({ maxAmount: 1000 }), input)).toBe(false);
+    expect(ruleMatches(rule({ minAmount: 1000, maxAmount: 2000 }), input)).toBe(true);
+  });
+});
+
+describe('suggestLearned', () => {
+  const model = trainSuggester([
+    tx('a', 'Fatura EDM 2231', { category: '6.3.2' }),
+    tx('b', 'Fatura EDM 2290', { category: '6.3.2' }),
+    tx('c', 'Renda escritório', { category: '6.3.5' }),
+    tx('d', 'Pagamento cliente Mcel', { category: '7.2', type: 'income' }),
+    tx('e', 'Fatura EDM 2301', { category: '6.3.2', deletedAt: '2026-03-11T10:00:00.000Z' }),
+  ]);
+
+  it('usa a mesma descrição sem números como o sinal mais forte', () => {
+    expect(suggestLearned(model, { description: 'Fatura EDM 2400', amount: 900, type: 'expense' })).toMatchObject({
+      category: '6.3.2',
+      source: 'learned',
+      confidence: 1,
+      reason: 'Aprendido de 2 movimento(s) com a mesma descrição',
+    });
+  });
+
+  it('recorre às palavras conhecidas e só propõe contas do mesmo tipo', () => {
+    expect(suggestLearned(model, { description: 'Renda do escritório abril', amount: 25000 })?.category).toBe('6.3.5');
+    expect(suggestLearned(model, { description: 'Renda escritório', amount: 25000, type: 'income' })).toBeNull();
+    expect(suggestLearned(model, { description: 'Compra diversa', amount: 100 })).toBeNull();
+  });
+});
+
+describe('suggestCategory', () => {
+  it('dá prioridade às regras ativas sobre o que foi aprendido', () => {
+    const model = trainSuggester([tx('a', 'EDM', { category: '6.3.5' })]);
+    const input = { description: 'EDM', amount: 100, type: 'expense' as const };
+    expect(suggestCategory(input, [rule({ tags: ['energia'] })], model)).toMatchObject({ category: '6.3.2', source: 'rule', ruleId: 'r1', tags: ['energia'] });
+    expect(suggestCategory(input, [rule({ enabled: false })], model)).toMatchObject({ category: '6.3.5', source: 'learned' });
+  });
+});
+
+describe('applySuggestion', () => {
+  it('muda a conta e junta as etiquetas sem repetir', () => {
+    const suggestion = { category: '6.3.2', tags: ['energia', 'obra'], source: 'rule' as const, confidence: 1, reason: '' };
+    expect(applySuggestion({ category: UNCATEGORIZED_CODE, tags: ['obra'] }, suggestion)).toEqual({ category: '6.3.2', tags: ['obra', 'energia'] });
+    expect(applySuggestion({ category: UNCATEGORIZED_CODE }, { ...suggestion, tags: [] })).toEqual({ category: '6.3.2', tags: undefined });
+  });
+});
+
+describe('planUncategorized', () => {
+  it('só propõe alterações às transações em "Outros" com sugestão', () => {
+    const plan = planUncategorized([
+      tx('outros', 'Pagamento EDM'),
+      tx('classificada', 'Pagamento EDM', { category: '6.3.5' }),
+      tx('sem-sugestao', 'Compra diversa'),
+      tx('transferencia', 'EDM', { type: 'transfer', category: '' }),
+    ], [rule()], trainSuggester([]));
+    expect(plan.map(c => [c.transaction.id, c.suggestion.category])).toEqual([['outros', '6.3.2']]);
+  });
+});
+
+describe('previewRule', () => {
+  it('separa o que a regra classifica do que já está noutra conta', () => {
+    const preview = previewRule(rule(), [
+      tx('a', 'Pagamento EDM'),
+      tx('b', 'EDM março', { category: '6.3.5' }),
+      tx('c', 'EDM abril', { category: '6.3.2' }),
+      tx('d', 'EDM eliminada', { deletedAt: '2026-03-11T10:00:00.000Z' }),
+    ]);
+    expect(preview.changes.map(t => t.id)).toEqual(['a']);
+    expect(preview.conflicting).toBe(1);
+  });
+});
@@ -0,0 +1,185 @@
+import { CategoryRule, Transaction } from '../types';
+import { UNCATEGORIZED_CODE, accountType } from './chartOfAccounts';
+import { normalizeName } from './counterparties';
+import { scopedKey } from './workspaces';
+
+export const CATEGORY_RULES_STORAGE_KEY = 'fluxowin_category_rules';
+
+// O sugestor aprendido só propõe quando a conta mais votada tem pelo menos esta proporção dos votos
+const MIN_CONFIDENCE = 0.6;
+
+const STOPWORDS = new Set(['para', 'com', 'dos', 'das', 'pelo', 'pela', 'ref', 'the']);
+
+export const loadCategoryRules = (): CategoryRule[] => {
+  const saved = localStorage.getItem(scopedKey(CATEGORY_RULES_STORAGE_KEY));
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const saveCategoryRules = (rules: CategoryRule[]) => {
+  localStorage.setItem(scopedKey(CATEGORY_RULES_STORAGE_KEY), JSON.stringify(rules));
+};
+
+// O que as regras e o sugestor consideram: serve para transações gravadas, importadas ou ainda a ser escritas
+export type CategorizationInput = Pick<Transaction, 'description' | 'amount'> & { type?: Transaction['type'] };
+
+export interface CategorySuggestion {
+  category: string;
+  tags: string[];
+  source: 'rule' | 'learned';
+  ruleId?: string;
+  confidence: number; // 1 nas regras; proporção dos votos no sugestor aprendido
+  reason: string;
+}
+
+// Mensagem de erro ou null; uma regra inválida não é aplicada
+export const ruleError = (rule: CategoryRule): string | null => {
+  if (!rule.pattern.trim()) return 'Indique o texto ou a expressão a procurar.';
+  if (rule.match === 'regex') {
+    try {
+      new RegExp(rule.pattern, 'i');
+    } catch (err) {
+      return 'Expressão regular inválida.';
+    }
+  }
+  if (rule.minAmount !== undefined && rule.maxAmount !== undefined && rule.minAmount > rule.maxAmount) {
+    return 'O valor mínimo é maior do que o máximo.';
+  }
+  if (!rule.category || rule.category === 'all') return 'Escolha a conta.';
+  const target = accountType(rule.category);
+  if (rule.type && target && target !== rule.type) return 'A conta escolhida não corresponde ao tipo de movimento.';
+  return null;
+};
+
+// Sem o tipo (p.ex. enquanto se escreve um modelo recorrente) só a descrição e o valor contam
+export const ruleMatches = (rule: CategoryRule, input: CategorizationInput) => {
+  if (input.type === 'transfer' || ruleError(rule)) return false;
+  const target = accountType(rule.category);
+  if (input.type && ((rule.type && rule.type !== input.type) || (target && target !== input.type))) return false;
+  if (rule.minAmount !== undefined && input.amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && input.amount > rule.maxAmount) return false;
+  return rule.match === 'regex'
+    ? new RegExp(rule.pattern, 'i').test(input.description)
+    : normalizeName(input.description).includes(normalizeName(rule.pattern));
+};
+
+// Descrições comparáveis: sem acentos, pontuação nem palavras com números ("Fatura 2231 EDM" -> "fatura edm")
+const descriptionWords = (description: string) =>
+  normalizeName(description).split(' ').filter(w => w && !/\d/.test(w));
+
+type Votes = Record<string, number>;
+
+export interface SuggesterModel {
+  exact: Map<string, Votes>; // descrição comparável -> conta -> nº de movimentos
+  words: Map<string, Votes>; // palavra -> conta -> nº de movimentos
+}
+
+// Aprende com as transações já classificadas (fora de "Outros"), sem transferências nem pendentes
+export const trainSuggester = (transactions: Transaction[]): SuggesterModel => {
+  const model: SuggesterModel = { exact: new Map(), words: new Map() };
+  const vote = (map: Map<string, Votes>, key: string, category: string) => {
+    const votes = map.get(key) || {};
+    votes[category] = (votes[category] || 0) + 1;
+    map.set(key, votes);
+  };
+  transactions
+    .filter(t => !t.deletedAt && !t.pending && t.type !== 'transfer' && t.category && t.category !== UNCATEGORIZED_CODE)
+    .forEach(t => {
+      const words = descriptionWords(t.description);
+      if (words.length === 0) return;
+      vote(model.exact, words.join(' '), t.category);
+      new Set(words.filter(w => w.length >= 3 && !STOPWORDS.has(w))).forEach(w => vote(model.words, w, t.category));
+    });
+  return model;
+};
+
+const compatible = (category: string, type?: Transaction['type']) => !type || accountType(category) === type;
+
+export const suggestLearned = (model: SuggesterModel, input: CategorizationInput): CategorySuggestion | null => {
+  if (input.type === 'transfer') return null;
+  const words = descriptionWords(input.description);
+  const best = (scores: Votes) => {
+    const entries = Object.entries(scores).filter(([category]) => compatible(category, input.type));
+    const total = entries.reduce((acc, [, n]) => acc + n, 0);
+    const [category, score] = entries.sort((a, b) => b[1] - a[1])[0] || ['', 0];
+    return { category, score, total };
+  };
+
+  // Mesma descrição já classificada: é o sinal mais forte
+  const exact = model.exact.get(words.join(' '));
+  if (exact) {
+    const { category, score, total } = best(exact);
+    if (category && score / total >= MIN_CONFIDENCE) {
+      return {
+        category,
+        tags: [],
+        source: 'learned',
+        confidence: score / total,
+        reason: `Aprendido de ${score} movimento(s) com a mesma descrição`,
+      };
+    }
+  }
+
+  // Cada palavra conhecida reparte um voto pelas contas onde apareceu
+  const scores: Votes = {};
+  const known = Array.from(new Set(words)).filter(w => model.words.has(w));
+  known.forEach(w => {
+    const votes = model.words.get(w)!;
+    const total = Object.values(votes).reduce((acc, n) => acc + n, 0);
+    Object.entries(votes).forEach(([category, n]) => {
+      scores[category] = (scores[category] || 0) + n / total;
+    });
+  });
+  const { category, score } = best(scores);
+  const confidence = known.length > 0 ? score / known.length : 0;
+  if (!category || confidence < MIN_CONFIDENCE) return null;
+  return {
+    category,
+    tags: [],
+    source: 'learned',
+    confidence,
+    reason: `Aprendido de movimentos semelhantes (${Math.round(confidence * 100)}%)`,
+  };
+};
+
+// As regras do utilizador têm prioridade sobre o que foi aprendido
+export const suggestCategory = (
+  input: CategorizationInput,
+  rules: CategoryRule[],
+  model: SuggesterModel
+): CategorySuggestion | null => {
+  const rule = rules.find(r => r.enabled && ruleMatches(r, input));
+  if (rule) {
+    return { category: rule.category, tags: rule.tags || [], source: 'rule', ruleId: rule.id, confidence: 1, reason: `Regra: ${rule.name}` };
+  }
+  return suggestLearned(model, input);
+};
+
+export const applySuggestion = <T extends Pick<Transaction, 'category' | 'tags'>>(t: T, suggestion: CategorySuggestion): T => {
+  const tags = Array.from(new Set([...(t.tags || []), ...suggestion.tags]));
+  return { ...t, category: suggestion.category, tags: tags.length > 0 ? tags : undefined };
+};
+
+export const isUncategorized = (t: Transaction) =>
+  !t.deletedAt && t.type !== 'transfer' && t.category === UNCATEGORIZED_CODE;
+
+export interface CategorizationChange {
+  transaction: Transaction;
+  suggestion: CategorySuggestion;
+}
+
+// Transações em "Outros" para as quais há uma sugestão (aplicação em lote)
+export const planUncategorized = (transactions: Transaction[], rules: CategoryRule[], model: SuggesterModel): CategorizationChange[] =>
+  transactions
+    .filter(isUncategorized)
+    .map(transaction => ({ transaction, suggestion: suggestCategory(transaction, rules, model) }))
+    .filter((c): c is CategorizationChange => c.suggestion !== null);
+
+// O que uma regra (mesmo por gravar ou desativada) mudaria: as transações em "Outros" que passa a classificar
+// e quantas já classificadas noutra conta também corresponderiam (essas não são alteradas)
+export const previewRule = (rule: CategoryRule, transactions: Transaction[]) => {
+  const matching = transactions.filter(t => !t.deletedAt && ruleMatches(rule, t));
+  return {
+    changes: matching.filter(t => t.category === UNCATEGORIZED_CODE),
+    conflicting: matching.filter(t => t.category !== UNCATEGORIZED_CODE && t.category !== rule.category).length,
+  };
+};
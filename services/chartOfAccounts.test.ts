@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types';
+import { DEFAULT_CHART, buildChart, needsCategoryMigration, resolveAccountCode } from './chartOfAccounts';
+
+const tx = (category: string, type: Transaction['type'] = 'expense'): Transaction => ({
+  id: category,
+  description: 'Movimento',
+  amount: 100,
+  type,
+  category,
+  date: '2026-03-10T12:00:00.000Z',
+});
+
+describe('needsCategoryMigration', () => {
+  it('migra rótulos antigos "código - nome" e texto livre', () => {
+    expect(needsCategoryMigration(DEFAULT_CHART, tx('6.3 - Fornecimentos e Serviços de Terceiros'))).toBe(true);
+    expect(needsCategoryMigration(DEFAULT_CHART, tx('Diversos'))).toBe(true);
+    expect(resolveAccountCode(DEFAULT_CHART, '6.3 - Fornecimentos e Serviços de Terceiros')).toBe('6.3');
+  });
+
+  it('não toca em códigos que o plano local ainda não conhece', () => {
+    expect(needsCategoryMigration(DEFAULT_CHART, tx('6.3.20'))).toBe(false);
+    expect(needsCategoryMigration(DEFAULT_CHART, tx('6.3.20 - Segurança'))).toBe(false);
+  });
+
+  it('ignora contas conhecidas e transferências', () => {
+    const chart = buildChart([{ code: '6.3.20', name: 'Segurança', parentCode: '6.3' }]);
+    expect(needsCategoryMigration(chart, tx('6.3.20'))).toBe(false);
+    expect(needsCategoryMigration(chart, tx('', 'transfer'))).toBe(false);
+  });
+});
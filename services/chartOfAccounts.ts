@@ -0,0 +1,158 @@
+import { ChartAccount, Transaction, TransactionType } from '../types';
+import { scopedKey } from './workspaces';
+
+export const CHART_STORAGE_KEY = 'fluxowin_chart_of_accounts';
+
+// Conta residual para movimentos sem classificação (mantém o rótulo histórico "Outros")
+export const UNCATEGORIZED_CODE = 'Outros';
+
+const account = (code: string, name: string): ChartAccount => {
+  const parts = code.split('.');
+  return { code, name, parentCode: parts.length > 1 ? parts.slice(0, -1).join('.') : null };
+};
+
+// Plano de contas PGC-NIRF (classes 6 e 7), com as subcontas mais usadas em fluxo de caixa.
+// As contas das classes 3, 4 e 5 servem apenas para classificar pagamentos e recebimentos
+// de investimento e de financiamento na Demonstração de Fluxos de Caixa.
+export const DEFAULT_CHART: ChartAccount[] = [
+  account('3', 'Investimentos de Capital'),
+  account('3.1', 'Investimentos Financeiros'),
+  account('3.2', 'Activos Tangíveis'),
+  account('3.3', 'Activos Intangíveis'),
+  account('4', 'Contas a Receber e a Pagar'),
+  account('4.3', 'Empréstimos Obtidos'),
+  account('5', 'Capital Próprio'),
+  account('5.1', 'Capital'),
+  account('5.9', 'Lucros Distribuídos'),
+  account('6', 'Gastos'),
+  account('6.1', 'Custo dos Inventários'),
+  account('6.1.1', 'Mercadorias'),
+  account('6.1.2', 'Matérias-Primas, Subsidiárias e de Consumo'),
+  account('6.2', 'Gastos com o Pessoal'),
+  account('6.2.1', 'Remunerações'),
+  account('6.2.2', 'Encargos sobre Remunerações (INSS)'),
+  account('6.2.3', 'Seguros de Acidentes de Trabalho'),
+  account('6.2.4', 'Gastos de Acção Social'),
+  account('6.2.8', 'Outros Gastos com o Pessoal'),
+  account('6.3', 'Fornecimentos e Serviços de Terceiros'),
+  account('6.3.1', 'Subcontratos'),
+  account('6.3.2', 'Electricidade'),
+  account('6.3.3', 'Combustíveis e Lubrificantes'),
+  account('6.3.4', 'Água'),
+  account('6.3.5', 'Rendas e Alugueres'),
+  account('6.3.6', 'Comunicações'),
+  account('6.3.7', 'Seguros'),
+  account('6.3.8', 'Deslocações e Estadas'),
+  account('6.3.9', 'Honorários'),
+  account('6.3.10', 'Conservação e Reparação'),
+  account('6.3.11', 'Publicidade e Propaganda'),
+  account('6.3.12', 'Material de Escritório'),
+  account('6.3.19', 'Outros Fornecimentos e Serviços'),
+  account('6.4', 'Amortizações e Depreciações'),
+  account('6.5', 'Perdas por Imparidade'),
+  account('6.9', 'Gastos Financeiros'),
+  account('6.9.1', 'Juros Suportados'),
+  account('6.9.2', 'Diferenças de Câmbio Desfavoráveis'),
+  account('6.9.8', 'Outros Gastos Financeiros'),
+  account('7', 'Proveitos'),
+  account('7.1', 'Vendas'),
+  account('7.2', 'Prestações de Serviços'),
+  account('7.5', 'Subsídios à Exploração'),
+  account('7.8', 'Outros Proveitos e Ganhos'),
+  account('7.8.1', 'Diferenças de Câmbio Favoráveis'),
+  account('7.8.8', 'Outros Proveitos Diversos'),
+  { code: UNCATEGORIZED_CODE, name: 'Não classificado', parentCode: null },
+];
+
+const isNumericCode = (code: string) => /^\d+(\.\d+)*$/.test(code);
+
+// Ordem natural de códigos (6.3.2 antes de 6.3.10); códigos não numéricos ficam no fim
+export const compareCodes = (a: string, b: string): number => {
+  if (!isNumericCode(a) || !isNumericCode(b)) {
+    return isNumericCode(a) ? -1 : isNumericCode(b) ? 1 : a.localeCompare(b);
+  }
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.min(pa.length, pb.length); i++) {
+    if (pa[i] !== pb[i]) return pa[i] - pb[i];
+  }
+  return pa.length - pb.length;
+};
+
+export const loadCustomAccounts = (): ChartAccount[] => {
+  const saved = localStorage.getItem(scopedKey(CHART_STORAGE_KEY));
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const saveCustomAccounts = (accounts: ChartAccount[]) => {
+  localStorage.setItem(scopedKey(CHART_STORAGE_KEY), JSON.stringify(accounts));
+};
+
+// Plano completo: contas de base mais as subcontas criadas pelo utilizador, por ordem de código
+export const buildChart = (custom: ChartAccount[]): ChartAccount[] => {
+  const codes = new Set(DEFAULT_CHART.map(a => a.code));
+  const extra = custom.filter(a => !codes.has(a.code)).map(a => ({ ...a, custom: true }));
+  return [...DEFAULT_CHART, ...extra].sort((a, b) => compareCodes(a.code, b.code));
+};
+
+export const getAccount = (chart: ChartAccount[], code: string) => chart.find(a => a.code === code);
+
+export const formatAccount = (chart: ChartAccount[], code: string): string => {
+  const found = getAccount(chart, code);
+  if (!found) return code;
+  return found.code === UNCATEGORIZED_CODE ? UNCATEGORIZED_CODE : `${found.code} - ${found.name}`;
+};
+
+export const accountDepth = (code: string) => (code === UNCATEGORIZED_CODE ? 0 : code.split('.').length - 1);
+
+// Verdadeiro se `code` é a própria conta `ancestor` ou uma das suas subcontas (6.3 inclui 6.3.2)
+export const isWithinAccount = (code: string, ancestor: string) =>
+  code === ancestor || code.startsWith(`${ancestor}.`);
+
+// Classe 6 = gastos, classe 7 = proveitos; contas fora destas classes não têm tipo implícito
+export const accountType = (code: string): TransactionType | null =>
+  code.startsWith('6') ? 'expense' : code.startsWith('7') ? 'income' : null;
+
+/**
+ * Converte um valor de categoria (código, rótulo antigo "6.3 - Fornecimentos..."
+ * ou nome da conta) para o código da conta. Valores desconhecidos vão para "Outros".
+ */
+export const resolveAccountCode = (chart: ChartAccount[], value: string): string => {
+  const trimmed = (value || '').trim();
+  if (getAccount(chart, trimmed)) return trimmed;
+
+  const prefix = trimmed.match(/^(\d+(?:\.\d+)*)\s*[-–]/);
+  if (prefix && getAccount(chart, prefix[1])) return prefix[1];
+
+  const byName = chart.find(a => a.name.toLowerCase() === trimmed.toLowerCase());
+  return byName ? byName.code : UNCATEGORIZED_CODE;
+};
+
+// Transações gravadas com os rótulos de PGC_CATEGORIES (ou texto livre) que precisam de migração.
+// Códigos que este plano não conhece (p.ex. uma subconta criada noutro posto e ainda não recebida)
+// nunca são migrados, tal como rótulos "código - nome" cujo código falta: passariam a "Outros".
+// Transferências entre contas não têm categoria.
+export const needsCategoryMigration = (chart: ChartAccount[], transaction: Transaction) => {
+  const category = (transaction.category || '').trim();
+  if (transaction.type === 'transfer' || getAccount(chart, category) || isNumericCode(category)) return false;
+  const prefix = category.match(/^(\d+(?:\.\d+)*)\s*[-–]/);
+  return !prefix || !!getAccount(chart, prefix[1]);
+};
+
+// Soma os movimentos em cada conta e propaga os totais para as contas-mãe
+export const rollupTotals = (transactions: Transaction[], chart: ChartAccount[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  transactions.forEach(t => {
+    let code: string | null = t.category;
+    while (code) {
+      totals.set(code, (totals.get(code) || 0) + t.amount);
+      code = getAccount(chart, code)?.parentCode ?? null;
+    }
+  });
+  return totals;
+};
+
+export const nextChildCode = (chart: ChartAccount[], parentCode: string): string => {
+  const children = chart.filter(a => a.parentCode === parentCode).map(a => Number(a.code.split('.').pop()) || 0);
+  return `${parentCode}.${children.length > 0 ? Math.max(...children) + 1 : 1}`;
+};
@@ -0,0 +1,18 @@
+import { CompanyProfile } from '../types';
+import { scopedKey } from './workspaces';
+
+export const COMPANY_STORAGE_KEY = 'fluxowin_company';
+
+export const DEFAULT_COMPANY: CompanyProfile = { name: '', nuit: '' };
+
+export const loadCompany = (): CompanyProfile => {
+  const saved = localStorage.getItem(scopedKey(COMPANY_STORAGE_KEY));
+  return saved ? { ...DEFAULT_COMPANY, ...JSON.parse(saved) } : DEFAULT_COMPANY;
+};
+
+export const saveCompany = (company: CompanyProfile) => {
+  localStorage.setItem(scopedKey(COMPANY_STORAGE_KEY), JSON.stringify(company));
+};
+
+// O NUIT moçambicano tem 9 dígitos
+export const isValidNuit = (nuit: string) => /^\d{9}$/.test(nuit.trim());
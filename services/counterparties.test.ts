@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { Counterparty } from '../types';
+import { findCounterparty, suggestCounterparty } from './counterparties';
+
+const counterparty = (id: string, name: string, aliases: string[] = []): Counterparty => ({ id, name, kind: 'supplier', aliases });
+
+const directory = [
+  counterparty('vodacom', 'Vodacom Moçambique', ['Vodacom']),
+  counterparty('mpesa', 'Vodacom Mpesa'),
+  counterparty('edm', 'Electricidade de Moçambique', ['EDM']),
+];
+
+describe('findCounterparty', () => {
+  it('reconhece o nome ou um nome alternativo sem distinguir maiúsculas, acentos e pontuação', () => {
+    expect(findCounterparty(directory, 'VODACOM MOCAMBIQUE')?.id).toBe('vodacom');
+    expect(findCounterparty(directory, ' edm. ')?.id).toBe('edm');
+    expect(findCounterparty(directory, 'Vodacom Moç. Lda')).toBeUndefined();
+    expect(findCounterparty(directory, '  ')).toBeUndefined();
+  });
+});
+
+describe('suggestCounterparty', () => {
+  it('sugere a contraparte mencionada na descrição', () => {
+    expect(suggestCounterparty(directory, 'Fatura EDM março')?.id).toBe('edm');
+    expect(suggestCounterparty(directory, 'Recarga vodacom')?.id).toBe('vodacom');
+  });
+
+  it('o nome mencionado mais longo ganha, mesmo que outra contraparte tenha um nome maior', () => {
+    expect(suggestCounterparty(directory, 'Carregamento Vodacom Mpesa')?.id).toBe('mpesa');
+    expect(suggestCounterparty(directory, 'Vodacom Moçambique - Mpesa')?.id).toBe('vodacom');
+  });
+
+  it('só aceita palavras inteiras', () => {
+    expect(suggestCounterparty(directory, 'Pagamento EDMUNDO')).toBeUndefined();
+  });
+});
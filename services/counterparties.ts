@@ -0,0 +1,79 @@
+import { Counterparty, CounterpartyKind, OpenItem, Transaction } from '../types';
+import { PeriodRange, isInPeriod } from './periods';
+import { scopedKey } from './workspaces';
+
+export const COUNTERPARTIES_STORAGE_KEY = 'fluxowin_counterparties';
+
+export const COUNTERPARTY_KIND_LABELS: Record<CounterpartyKind, string> = {
+  customer: 'Cliente',
+  supplier: 'Fornecedor',
+  both: 'Cliente e fornecedor',
+};
+
+export const loadCounterparties = (): Counterparty[] => {
+  const saved = localStorage.getItem(scopedKey(COUNTERPARTIES_STORAGE_KEY));
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const saveCounterparties = (counterparties: Counterparty[]) => {
+  localStorage.setItem(scopedKey(COUNTERPARTIES_STORAGE_KEY), JSON.stringify(counterparties));
+};
+
+// "VODACOM MZ", "Vodacom Moç." -> "vodacom mz", "vodacom moc"
+export const normalizeName = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const namesOf = (c: Counterparty) => [c.name, ...c.aliases].map(normalizeName).filter(Boolean);
+
+// Nome exato ou nome alternativo (sem distinguir maiúsculas, acentos e pontuação)
+export const findCounterparty = (directory: Counterparty[], text: string): Counterparty | undefined => {
+  const key = normalizeName(text);
+  return key ? directory.find(c => namesOf(c).includes(key)) : undefined;
+};
+
+// A descrição menciona o nome ou um nome alternativo como palavras inteiras ("Pagamento Vodacom Moç. março")
+export const mentionsCounterparty = (description: string, c: Counterparty) => {
+  const text = ` ${normalizeName(description)} `;
+  return namesOf(c).some(name => text.includes(` ${name} `));
+};
+
+// O nome mencionado mais longo ganha: "Vodacom Mpesa" antes de "Vodacom"
+export const suggestCounterparty = (directory: Counterparty[], description: string): Counterparty | undefined => {
+  const text = ` ${normalizeName(description)} `;
+  const mentioned = (c: Counterparty) => Math.max(0, ...namesOf(c).filter(name => text.includes(` ${name} `)).map(n => n.length));
+  return directory
+    .filter(c => mentioned(c) > 0)
+    .sort((a, b) => mentioned(b) - mentioned(a))[0];
+};
+
+// Movimentos ainda sem contraparte cuja descrição menciona esta contraparte
+export const unlinkedMatches = (c: Counterparty, transactions: Transaction[]) =>
+  transactions.filter(t => !t.counterpartyId && !t.deletedAt && t.type !== 'transfer' && mentionsCounterparty(t.description, c));
+
+export interface CounterpartyStatement {
+  movements: Transaction[];
+  received: number; // entradas (recebimentos do cliente)
+  paid: number; // saídas (pagamentos ao fornecedor)
+  openItems: OpenItem[];
+}
+
+/**
+ * Extrato de uma contraparte no período: movimentos confirmados por ordem cronológica,
+ * totais recebidos e pagos, e as faturas ainda associadas a ela.
+ */
+export const counterpartyStatement = (
+  c: Counterparty,
+  transactions: Transaction[],
+  openItems: OpenItem[],
+  range: PeriodRange
+): CounterpartyStatement => {
+  const movements = transactions
+    .filter(t => t.counterpartyId === c.id && t.type !== 'transfer' && isInPeriod(t, range))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  return {
+    movements,
+    received: movements.filter(t => t.type === 'income').reduce((acc, t) => acc + t.amount, 0),
+    paid: movements.filter(t => t.type === 'expense').reduce((acc, t) => acc + t.amount, 0),
+    openItems: openItems.filter(i => i.counterpartyId === c.id),
+  };
+};
@@ -0,0 +1,20 @@
+// Exportação CSV no formato esperado pelo Excel em pt-MZ (separador ";")
+export const csvText = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+export const csvNumber = (value: number) => value.toFixed(2).replace('.', ',');
+
+// Blob em vez de data URI (que cortava o ficheiro no primeiro "#"); o BOM faz o Excel ler UTF-8
+export const downloadCSV = (filename: string, headers: string[], rows: (string | number)[][]) => {
+  const csvContent = '\uFEFF'
+    + headers.join(";") + "\n" 
+    + rows.map(e => e.join(";")).join("\n");
+
+  const url = URL.createObjectURL(new Blob([csvContent], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types';
+import { ImportProfile, buildImportRows, detectDelimiter, findDuplicate, parseAmount, parseCSV, parseDate } from './csvImport';
+
+const tx = (id: string, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  description: 'Pagamento EDM',
+  amount: 1500,
+  type: 'expense',
+  category: '6.2',
+  date: new Date(2026, 2, 10).toISOString(),
+  ...fields,
+});
+
+const profile = (fields: Partial<ImportProfile> = {}): ImportProfile => ({
+  name: 'BCI',
+  delimiter: ';',
+  hasHeader: true,
+  mapping: { date: 0, description: 1, amount: 2 },
+  defaultCategory: '6.3',
+  ...fields,
+});
+
+describe('detectDelimiter', () => {
+  it('escolhe o separador mais frequente na primeira linha', () => {
+    expect(detectDelimiter('Data;Descrição;Valor\n10/03/2026;EDM;-1.500,00')).toBe(';');
+    expect(detectDelimiter('Data,Descrição,Valor')).toBe(',');
+    expect(detectDelimiter('Data\tDescrição\tValor')).toBe('\t');
+  });
+});
+
+describe('parseCSV', () => {
+  it('lê campos entre aspas, aspas escapadas e quebras de linha', () => {
+    const text = '\uFEFFData;Descrição\r\n10/03/2026;"Renda; ""março""\nloja"\n\n11/03/2026;EDM\n';
+    expect(parseCSV(text, ';')).toEqual([
+      ['Data', 'Descrição'],
+      ['10/03/2026', 'Renda; "março"\nloja'],
+      ['11/03/2026', 'EDM'],
+    ]);
+  });
+});
+
+describe('parseAmount', () => {
+  it('aceita o formato pt-MZ e o ponto decimal', () => {
+    expect(parseAmount('1.234,56')).toBe(1234.56);
+    expect(parseAmount('1 234,56 MZN')).toBe(1234.56);
+    expect(parseAmount('1234.56')).toBe(1234.56);
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+    expect(parseAmount('12.500')).toBe(12500);
+  });
+
+  it('reconhece negativos com sinal ou entre parênteses', () => {
+    expect(parseAmount('-500,00')).toBe(-500);
+    expect(parseAmount('500,00-')).toBe(-500);
+    expect(parseAmount('(500,00)')).toBe(-500);
+  });
+
+  it('devolve null sem dígitos', () => {
+    expect(parseAmount('')).toBeNull();
+    expect(parseAmount('MZN')).toBeNull();
+  });
+});
+
+describe('parseDate', () => {
+  it('aceita dd/mm/yyyy, dd.mm.yy e ISO na data local', () => {
+    const march10 = new Date(2026, 2, 10).toISOString();
+    expect(parseDate('10/03/2026')).toBe(march10);
+    expect(parseDate('10.03.26')).toBe(march10);
+    expect(parseDate('2026-03-10')).toBe(march10);
+  });
+
+  it('recusa datas que não existem', () => {
+    expect(parseDate('31/02/2026')).toBeNull();
+    expect(parseDate('março')).toBeNull();
+  });
+});
+
+describe('findDuplicate', () => {
+  it('encontra o mesmo valor e tipo com data próxima e descrição semelhante', () => {
+    const existing = [tx('a', { description: 'Pagamento EDM março' })];
+    const candidate = { ...tx('b'), date: new Date(2026, 2, 11).toISOString() };
+    expect(findDuplicate(candidate, existing)?.id).toBe('a');
+  });
+
+  it('ignora eliminadas, outro valor ou datas afastadas', () => {
+    const candidate = tx('b');
+    expect(findDuplicate(candidate, [tx('a', { deletedAt: '2026-03-12T10:00:00.000Z' })])).toBeNull();
+    expect(findDuplicate(candidate, [tx('a', { amount: 1600 })])).toBeNull();
+    expect(findDuplicate(candidate, [tx('a', { date: new Date(2026, 2, 13).toISOString() })])).toBeNull();
+  });
+});
+
+describe('buildImportRows', () => {
+  it('converte o sinal em tipo e assinala linhas inválidas', () => {
+    const rows = [['Data', 'Descrição', 'Valor'], ['10/03/2026', 'Cliente X', '2.000,00'], ['11/03/2026', '', '-350,00'], ['xx', 'EDM', '10']];
+    const result = buildImportRows(rows, profile({ accountId: 'banco' }), []);
+    expect(result.map(r => r.line)).toEqual([2, 3, 4]);
+    expect(result[0].transaction).toMatchObject({ type: 'income', amount: 2000, category: '6.3', accountId: 'banco' });
+    expect(result[1].transaction).toMatchObject({ type: 'expense', amount: 350, description: 'Movimento importado' });
+    expect(result[2]).toMatchObject({ transaction: null, error: 'Data inválida' });
+  });
+
+  it('usa as colunas de débito e crédito quando não há valor com sinal', () => {
+    const rows = [['10/03/2026', 'Levantamento', '500,00', ''], ['10/03/2026', 'Depósito', '', '800,00'], ['10/03/2026', 'Vazio', '', '']];
+    const result = buildImportRows(rows, profile({ hasHeader: false, mapping: { date: 0, description: 1, debit: 2, credit: 3 } }), []);
+    expect(result[0].transaction).toMatchObject({ type: 'expense', amount: 500 });
+    expect(result[1].transaction).toMatchObject({ type: 'income', amount: 800 });
+    expect(result[2].error).toBe('Valor inválido');
+  });
+
+  it('marca duplicados do livro e de linhas anteriores do mesmo ficheiro', () => {
+    const rows = [['10/03/2026', 'Pagamento EDM', '-1.500,00'], ['12/03/2026', 'Renda', '-9.000,00'], ['12/03/2026', 'Renda', '-9.000,00']];
+    const result = buildImportRows(rows, profile({ hasHeader: false }), [tx('a')]);
+    expect(result.map(r => r.duplicateOf?.id ?? null)).toEqual(['a', null, 'linha-2']);
+  });
+});
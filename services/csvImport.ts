@@ -0,0 +1,200 @@
+import { Transaction, TransactionType } from '../types';
+import { scopedKey } from './workspaces';
+
+export const IMPORT_PROFILES_KEY = 'fluxowin_import_profiles';
+
+export type CsvDelimiter = ';' | ',' | '\t';
+
+// Campos de Transaction que podem ser alimentados por uma coluna do ficheiro
+export type ImportField = 'date' | 'description' | 'amount' | 'debit' | 'credit' | 'category';
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+// Perfil de mapeamento guardado por banco / carteira móvel (BCI, Millennium, M-Pesa, e-Mola...)
+export interface ImportProfile {
+  name: string;
+  delimiter: CsvDelimiter;
+  hasHeader: boolean;
+  mapping: ColumnMapping;
+  defaultCategory: string;
+  accountId?: string; // conta/caixa de destino dos movimentos importados
+}
+
+export interface ImportRow {
+  line: number;
+  transaction: Omit<Transaction, 'id'> | null;
+  error: string | null;
+  duplicateOf: Transaction | null;
+}
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: 'Data',
+  description: 'Descrição',
+  amount: 'Valor (com sinal)',
+  debit: 'Débito (saída)',
+  credit: 'Crédito (entrada)',
+  category: 'Categoria',
+};
+
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const count = (ch: string) => firstLine.split(ch).length - 1;
+  const candidates: CsvDelimiter[] = [';', '\t', ','];
+  return candidates.reduce((best, ch) => (count(ch) > count(best) ? ch : best), ';');
+};
+
+// Leitor CSV com suporte a campos entre aspas, aspas escapadas ("") e quebras de linha dentro de aspas
+export const parseCSV = (text: string, delimiter: CsvDelimiter): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(c => c !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field.trim());
+  if (row.some(c => c !== '')) rows.push(row);
+  return rows;
+};
+
+/**
+ * Converte valores no formato pt-MZ ("1.234,56", "1 234,56 MZN", "-500,00")
+ * e também o formato com ponto decimal ("1234.56"). Devolve null se inválido.
+ */
+export const parseAmount = (raw: string): number | null => {
+  let value = raw.replace(/[^\d,.\-()]/g, '');
+  if (!value) return null;
+  const negative = value.startsWith('-') || value.endsWith('-') || /^\(.*\)$/.test(value);
+  value = value.replace(/[-()]/g, '');
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else if (lastDot > lastComma && lastComma !== -1) {
+    value = value.replace(/,/g, '');
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(value)) {
+    // Só pontos em grupos de três dígitos: separador de milhares pt-MZ ("12.500")
+    value = value.replace(/\./g, '');
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) return null;
+  return negative ? -parsed : parsed;
+};
+
+// Aceita dd/mm/yyyy, dd-mm-yyyy, dd.mm.yy e ISO (yyyy-mm-dd). Devolve ISO string ou null.
+export const parseDate = (raw: string): string | null => {
+  const value = raw.trim();
+  let match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) {
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+  match = value.match(/^(\d{1,2})[\/.\-](\d{1,2})[\/.\-](\d{4}|\d{2})/);
+  if (!match) return null;
+  const day = Number(match[1]);
+  const month = Number(match[2]);
+  const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+  const date = new Date(year, month - 1, day);
+  if (date.getDate() !== day || date.getMonth() !== month - 1) return null;
+  return date.toISOString();
+};
+
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]/g, '');
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Provável duplicado: mesmo tipo e valor, data a no máximo um dia de distância
+ * e descrição igual ou contida na outra (ignorando acentos, maiúsculas e pontuação).
+ */
+export const findDuplicate = (candidate: Omit<Transaction, 'id'>, existing: Transaction[]): Transaction | null => {
+  const when = new Date(candidate.date).getTime();
+  const desc = normalize(candidate.description);
+  return existing.find(t => {
+    if (t.deletedAt || t.type !== candidate.type) return false;
+    if (Math.abs(t.amount - candidate.amount) > 0.005) return false;
+    if (Math.abs(new Date(t.date).getTime() - when) > ONE_DAY) return false;
+    const other = normalize(t.description);
+    return !desc || !other || other.includes(desc) || desc.includes(other);
+  }) || null;
+};
+
+export const buildImportRows = (
+  rows: string[][],
+  profile: ImportProfile,
+  existing: Transaction[]
+): ImportRow[] => {
+  const { mapping } = profile;
+  const dataRows = profile.hasHeader ? rows.slice(1) : rows;
+  const accepted: Transaction[] = [];
+
+  return dataRows.map((cells, index) => {
+    const line = index + (profile.hasHeader ? 2 : 1);
+    const cell = (field: ImportField) => (mapping[field] !== undefined ? cells[mapping[field]!] || '' : '');
+
+    const date = parseDate(cell('date'));
+    if (!date) return { line, transaction: null, error: 'Data inválida', duplicateOf: null };
+
+    let signed: number | null = null;
+    if (mapping.amount !== undefined) {
+      signed = parseAmount(cell('amount'));
+    } else {
+      const credit = parseAmount(cell('credit')) || 0;
+      const debit = parseAmount(cell('debit')) || 0;
+      signed = credit !== 0 || debit !== 0 ? Math.abs(credit) - Math.abs(debit) : null;
+    }
+    if (signed === null || signed === 0) return { line, transaction: null, error: 'Valor inválido', duplicateOf: null };
+
+    const type: TransactionType = signed > 0 ? 'income' : 'expense';
+    const transaction: Omit<Transaction, 'id'> = {
+      date,
+      description: cell('description') || 'Movimento importado',
+      amount: Math.abs(signed),
+      type,
+      category: cell('category') || profile.defaultCategory,
+      accountId: profile.accountId,
+    };
+
+    // Duplicados contra o livro existente e contra linhas anteriores do mesmo ficheiro
+    const duplicateOf = findDuplicate(transaction, existing) || findDuplicate(transaction, accepted);
+    accepted.push({ ...transaction, id: `linha-${line}` });
+    return { line, transaction, error: null, duplicateOf };
+  });
+};
+
+export const loadImportProfiles = (): ImportProfile[] => {
+  const saved = localStorage.getItem(scopedKey(IMPORT_PROFILES_KEY));
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const saveImportProfiles = (profiles: ImportProfile[]) => {
+  localStorage.setItem(scopedKey(IMPORT_PROFILES_KEY), JSON.stringify(profiles));
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ExchangeRate } from '../types';
+import { currencyFields, rateOn, toBase } from './currency';
+
+const rates: ExchangeRate[] = [
+  { id: 'r1', currency: 'USD', date: '2026-03-01', rate: 63.5 },
+  { id: 'r2', currency: 'USD', date: '2026-03-15', rate: 63.9 },
+  { id: 'r3', currency: 'ZAR', date: '2026-03-10', rate: 3.45 },
+];
+
+describe('rateOn', () => {
+  it('usa a última taxa com data igual ou anterior ao dia', () => {
+    expect(rateOn(rates, 'USD', '2026-03-14')).toBe(63.5);
+    expect(rateOn(rates, 'USD', '2026-03-15T18:30:00.000Z')).toBe(63.9);
+    expect(rateOn(rates, 'USD', '2026-04-30')).toBe(63.9);
+  });
+
+  it('sem taxa anterior não há conversão; o metical vale 1', () => {
+    expect(rateOn(rates, 'USD', '2026-02-28')).toBeUndefined();
+    expect(rateOn(rates, 'EUR', '2026-03-20')).toBeUndefined();
+    expect(rateOn(rates, 'MZN', '2026-02-28')).toBe(1);
+  });
+});
+
+describe('currencyFields', () => {
+  it('converte para MZN ao cêntimo e guarda o valor original', () => {
+    expect(toBase(120.33, 63.9)).toBe(7689.09);
+    expect(currencyFields('USD', 120.33, 63.9)).toEqual({ amount: 7689.09, currency: 'USD', originalAmount: 120.33, exchangeRate: 63.9 });
+  });
+
+  it('em meticais limpa os campos de moeda', () => {
+    expect(currencyFields('MZN', 500, 63.9)).toEqual({ amount: 500, currency: undefined, originalAmount: undefined, exchangeRate: undefined });
+  });
+});
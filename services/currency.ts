@@ -0,0 +1,56 @@
+import { ExchangeRate, Transaction } from '../types';
+import { scopedKey } from './workspaces';
+
+export const BASE_CURRENCY = 'MZN';
+export const EXCHANGE_RATES_STORAGE_KEY = 'fluxowin_exchange_rates';
+
+// Moedas mais usadas com fornecedores e clientes da região
+export const CURRENCIES: { code: string; label: string }[] = [
+  { code: 'MZN', label: 'Metical' },
+  { code: 'USD', label: 'Dólar americano' },
+  { code: 'ZAR', label: 'Rand sul-africano' },
+  { code: 'EUR', label: 'Euro' },
+];
+
+// Contas usadas para as diferenças de câmbio realizadas
+export const FX_LOSS_ACCOUNT = '6.9.2';
+export const FX_GAIN_ACCOUNT = '7.8.1';
+
+export const loadExchangeRates = (): ExchangeRate[] => {
+  const saved = localStorage.getItem(scopedKey(EXCHANGE_RATES_STORAGE_KEY));
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const saveExchangeRates = (rates: ExchangeRate[]) => {
+  localStorage.setItem(scopedKey(EXCHANGE_RATES_STORAGE_KEY), JSON.stringify(rates));
+};
+
+export const isForeign = (currency?: string) => !!currency && currency !== BASE_CURRENCY;
+
+// Última taxa da tabela com data igual ou anterior à indicada
+export const rateOn = (rates: ExchangeRate[], currency: string, date: string): number | undefined => {
+  if (!isForeign(currency)) return 1;
+  return rates
+    .filter(r => r.currency === currency && r.date <= date.slice(0, 10))
+    .sort((a, b) => b.date.localeCompare(a.date))[0]?.rate;
+};
+
+export const toBase = (amount: number, rate: number) => Math.round(amount * rate * 100) / 100;
+
+export const formatMoney = (amount: number, currency: string = BASE_CURRENCY) =>
+  new Intl.NumberFormat('pt-MZ', { style: 'currency', currency }).format(amount);
+
+export const formatRate = (rate: number) =>
+  new Intl.NumberFormat('pt-MZ', { minimumFractionDigits: 2, maximumFractionDigits: 4 }).format(rate);
+
+// "USD 120,00 @ 63,90" - valor original de uma transação noutra moeda
+export const originalLabel = (t: Pick<Transaction, 'currency' | 'originalAmount' | 'exchangeRate'>) =>
+  isForeign(t.currency) && t.originalAmount !== undefined
+    ? `${formatMoney(t.originalAmount, t.currency)} @ ${formatRate(t.exchangeRate || 0)}`
+    : '';
+
+// Campos de moeda de um valor na moeda original; em MZN ficam ausentes
+export const currencyFields = (currency: string, originalAmount: number, rate: number) =>
+  isForeign(currency)
+    ? { amount: toBase(originalAmount, rate), currency, originalAmount, exchangeRate: rate }
+    : { amount: originalAmount, currency: undefined, originalAmount: undefined, exchangeRate: undefined };
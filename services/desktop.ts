@@ -0,0 +1,66 @@
+// Aplicação instalada (PWA): service worker, instalação e controlos da janela
+
+export type DisplayMode = 'browser' | 'standalone' | 'overlay';
+
+const OVERLAY_QUERY = '(display-mode: window-controls-overlay)';
+const STANDALONE_QUERY = '(display-mode: standalone)';
+
+// Evento beforeinstallprompt (ainda não faz parte dos tipos do DOM)
+export interface InstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+// Só no build de produção: em desenvolvimento a cache esconderia as alterações ao código
+export const registerServiceWorker = () => {
+  if (process.env.SERVICE_WORKER !== 'true' || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.warn('Modo offline indisponível neste navegador.', err));
+  });
+};
+
+/**
+ * 'overlay': instalada sem a barra de título do sistema (os botões nativos ficam sobre a nossa barra);
+ * 'standalone': instalada com a barra do sistema; 'browser': num separador do navegador.
+ */
+export const currentDisplayMode = (): DisplayMode => {
+  if (window.matchMedia(OVERLAY_QUERY).matches) return 'overlay';
+  return window.matchMedia(STANDALONE_QUERY).matches ? 'standalone' : 'browser';
+};
+
+export const onDisplayModeChanged = (callback: (mode: DisplayMode) => void): (() => void) => {
+  const queries = [OVERLAY_QUERY, STANDALONE_QUERY].map(query => window.matchMedia(query));
+  const listener = () => callback(currentDisplayMode());
+  queries.forEach(query => query.addEventListener('change', listener));
+  return () => queries.forEach(query => query.removeEventListener('change', listener));
+};
+
+// O navegador oferece a instalação: o evento fica guardado para o botão "Instalar"; null depois de instalada
+export const onInstallAvailable = (callback: (prompt: InstallPromptEvent | null) => void): (() => void) => {
+  const available = (e: Event) => {
+    e.preventDefault();
+    callback(e as InstallPromptEvent);
+  };
+  const installed = () => callback(null);
+  window.addEventListener('beforeinstallprompt', available);
+  window.addEventListener('appinstalled', installed);
+  return () => {
+    window.removeEventListener('beforeinstallprompt', available);
+    window.removeEventListener('appinstalled', installed);
+  };
+};
+
+// Maximizar ocupa o ecrã inteiro; o navegador não deixa uma página minimizar a própria janela
+export const isMaximized = () => document.fullscreenElement !== null;
+
+export const toggleMaximized = () =>
+  (isMaximized() ? document.exitFullscreen() : document.documentElement.requestFullscreen());
+
+export const onMaximizedChanged = (callback: (maximized: boolean) => void): (() => void) => {
+  const listener = () => callback(isMaximized());
+  document.addEventListener('fullscreenchange', listener);
+  return () => document.removeEventListener('fullscreenchange', listener);
+};
+
+// Fecha a janela da aplicação instalada; num separador do navegador não tem efeito
+export const closeWindow = () => window.close();
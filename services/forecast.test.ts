@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { ForecastSnapshot, RecurringTemplate, Transaction } from '../types';
+import { buildForecast, categoryAverages, compareWithActual, detectPatterns } from './forecast';
+import { occurrenceId } from './recurring';
+
+const today = new Date(2026, 2, 20, 15, 0); // 20 de março de 2026
+
+const at = (year: number, month: number, day: number) => new Date(year, month - 1, day, 12).toISOString();
+
+const tx = (id: string, date: string, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  description: `Movimento ${id}`,
+  amount: 1000,
+  type: 'expense',
+  category: '6.2',
+  date,
+  ...fields,
+});
+
+// Fatura mensal com o número do mês na descrição
+const phoneBills = [1, 2, 3].map(month => tx(`vodacom-${month}`, at(2026, month, 15), { description: `Fatura Vodacom ${month}/2026` }));
+
+const salary: RecurringTemplate = {
+  id: 'salario',
+  description: 'Avença cliente X',
+  amount: 5000,
+  type: 'income',
+  category: '7.2',
+  frequency: 'monthly',
+  interval: 1,
+  startDate: '2026-01-25',
+  skippedDates: [],
+  active: true,
+};
+
+describe('detectPatterns', () => {
+  it('reconhece uma despesa mensal pela descrição sem números', () => {
+    const [pattern] = detectPatterns(phoneBills);
+    expect(pattern).toMatchObject({ period: 'monthly', type: 'expense', amount: 1000, lastDate: '2026-03-15' });
+    expect(pattern.transactionIds).toHaveLength(3);
+  });
+
+  it('ignora grupos pequenos, intervalos irregulares e ocorrências de modelos', () => {
+    expect(detectPatterns(phoneBills.slice(0, 2))).toEqual([]);
+    expect(detectPatterns([...phoneBills.slice(0, 2), tx('irregular', at(2026, 2, 20), { description: 'Fatura Vodacom 2b/2026' })])).toEqual([]);
+    expect(detectPatterns(phoneBills.map(t => ({ ...t, recurringId: 'vodacom' })))).toEqual([]);
+  });
+});
+
+describe('categoryAverages', () => {
+  it('divide o total dos últimos 90 dias por categoria, sem os excluídos', () => {
+    const averages = categoryAverages([
+      tx('recente', at(2026, 3, 1), { amount: 900, category: '6.3' }),
+      tx('venda', at(2026, 2, 10), { amount: 450, type: 'income', category: '7.1' }),
+      tx('antiga', at(2025, 11, 1), { amount: 9000, category: '6.3' }),
+      tx('excluida', at(2026, 3, 2), { amount: 9000, category: '6.3' }),
+    ], new Set(['excluida']), today);
+    expect(Object.fromEntries(averages)).toEqual({ '6.3': -10, '7.1': 5 });
+  });
+});
+
+describe('buildForecast', () => {
+  it('soma pendentes, modelos, padrões e entradas esperadas ao saldo atual', () => {
+    const pending = [tx('pendente', at(2026, 3, 18), { amount: 200, pending: true })];
+    const expected = [{ id: 'e1', date: '2026-04-01', description: 'Reembolso', amount: 300, type: 'income' as const }];
+    const points = buildForecast(phoneBills, pending, 10000, [salary], expected, 30, today);
+
+    expect(points).toHaveLength(30);
+    expect(points[0]).toMatchObject({ date: '2026-03-21', balance: 9800 });
+    expect(points.find(p => p.date === '2026-03-25')?.balance).toBe(14800);
+    expect(points.find(p => p.date === '2026-04-15')?.balance).toBe(14100);
+    expect(points[points.length - 1]).toMatchObject({ date: '2026-04-19', balance: 14100 });
+  });
+
+  it('não conta de novo uma ocorrência já lançada', () => {
+    const launched = tx(occurrenceId('salario', '2026-03-25'), at(2026, 3, 25), { type: 'income', amount: 5000, recurringId: 'salario' });
+    const points = buildForecast([launched], [], 10000, [salary], [], 10, today);
+    expect(points[points.length - 1].balance).toBe(10000);
+  });
+});
+
+describe('compareWithActual', () => {
+  it('mostra o saldo real só nos dias já decorridos', () => {
+    const snapshot: ForecastSnapshot = {
+      id: 's1',
+      createdAt: at(2026, 3, 20),
+      horizonDays: 3,
+      startBalance: 1100,
+      points: ['2026-03-21', '2026-03-22', '2026-03-23'].map(date => ({ date, balance: 1100, inflow: 0, outflow: 0 })),
+    };
+    const transactions = [
+      tx('antes', at(2026, 3, 10), { type: 'income', amount: 100 }),
+      tx('durante', at(2026, 3, 22), { amount: 50 }),
+      tx('transferencia', at(2026, 3, 21), { type: 'transfer', amount: 700 }),
+    ];
+    expect(compareWithActual(snapshot, transactions, 1000, new Date(2026, 2, 22, 18, 0)).map(p => p.actual)).toEqual([1100, 1050, null]);
+  });
+});
@@ -0,0 +1,227 @@
+import { ExpectedEntry, ForecastPoint, ForecastSnapshot, RecurringTemplate, Transaction } from '../types';
+import { occurrenceId, occurrencesBetween, toDateKey } from './recurring';
+import { scopedKey } from './workspaces';
+
+export const EXPECTED_ENTRIES_KEY = 'fluxowin_expected_entries';
+export const FORECAST_SNAPSHOTS_KEY = 'fluxowin_forecast_snapshots';
+
+// Janela usada para as médias por categoria dos movimentos não periódicos
+const AVERAGE_WINDOW_DAYS = 90;
+const DAY = 24 * 60 * 60 * 1000;
+
+export const loadExpectedEntries = (): ExpectedEntry[] => {
+  const saved = localStorage.getItem(scopedKey(EXPECTED_ENTRIES_KEY));
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const saveExpectedEntries = (entries: ExpectedEntry[]) => {
+  localStorage.setItem(scopedKey(EXPECTED_ENTRIES_KEY), JSON.stringify(entries));
+};
+
+export const loadSnapshots = (): ForecastSnapshot[] => {
+  const saved = localStorage.getItem(scopedKey(FORECAST_SNAPSHOTS_KEY));
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const saveSnapshots = (snapshots: ForecastSnapshot[]) => {
+  localStorage.setItem(scopedKey(FORECAST_SNAPSHOTS_KEY), JSON.stringify(snapshots));
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const normalizeDescription = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[\d/.\-]+/g, '').replace(/\s+/g, ' ').trim();
+
+const signed = (t: { type: string; amount: number }) => (t.type === 'income' ? t.amount : -t.amount);
+
+export interface PeriodicPattern {
+  key: string;
+  description: string;
+  type: 'income' | 'expense';
+  period: 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+  amount: number;
+  lastDate: string; // YYYY-MM-DD
+  transactionIds: string[];
+}
+
+export const PATTERN_LABELS: Record<PeriodicPattern['period'], string> = {
+  weekly: 'Semanal',
+  biweekly: 'Quinzenal',
+  monthly: 'Mensal',
+  yearly: 'Anual',
+};
+
+const PERIOD_DAYS: Record<PeriodicPattern['period'], number> = { weekly: 7, biweekly: 14, monthly: 30, yearly: 365 };
+
+// Próxima data do padrão; mensal e anual avançam no calendário para não derivarem
+const nextPatternDate = (date: Date, period: PeriodicPattern['period']) => {
+  if (period === 'monthly') return new Date(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  if (period === 'yearly') return new Date(date.getFullYear() + 1, date.getMonth(), date.getDate());
+  return addDays(date, PERIOD_DAYS[period]);
+};
+
+/**
+ * Deteta movimentos periódicos: pelo menos 3 ocorrências com a mesma descrição
+ * (ignorando números e datas) e intervalos regulares — semanal, quinzenal, mensal ou anual.
+ * Ocorrências de modelos recorrentes ficam de fora porque o modelo já as prevê.
+ */
+export const detectPatterns = (transactions: Transaction[]): PeriodicPattern[] => {
+  const groups = new Map<string, Transaction[]>();
+  transactions.forEach(t => {
+    if (t.type === 'transfer' || t.recurringId) return;
+    const key = `${t.type}|${normalizeDescription(t.description)}`;
+    groups.set(key, [...(groups.get(key) || []), t]);
+  });
+
+  const patterns: PeriodicPattern[] = [];
+  groups.forEach((items, key) => {
+    if (items.length < 3) return;
+    const sorted = [...items].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const gaps = sorted.slice(1).map((t, i) => (new Date(t.date).getTime() - new Date(sorted[i].date).getTime()) / DAY);
+    const interval = median(gaps);
+    const period = (Object.keys(PERIOD_DAYS) as PeriodicPattern['period'][])
+      .find(p => Math.abs(interval - PERIOD_DAYS[p]) <= PERIOD_DAYS[p] * 0.15);
+    if (!period || gaps.some(g => Math.abs(g - interval) > Math.max(3, interval * 0.25))) return;
+    const last = sorted[sorted.length - 1];
+    patterns.push({
+      key,
+      description: last.description,
+      type: last.type as 'income' | 'expense',
+      period,
+      amount: median(sorted.map(t => t.amount)),
+      lastDate: toDateKey(new Date(last.date)),
+      transactionIds: sorted.map(t => t.id),
+    });
+  });
+  return patterns;
+};
+
+// Média diária por categoria dos últimos 90 dias (valor com sinal: receitas positivas)
+export const categoryAverages = (
+  transactions: Transaction[],
+  excludedIds: Set<string>,
+  today: Date = new Date()
+): Map<string, number> => {
+  const from = toDateKey(addDays(today, -AVERAGE_WINDOW_DAYS));
+  const until = toDateKey(today);
+  const totals = new Map<string, number>();
+  transactions.forEach(t => {
+    if (t.type === 'transfer' || t.recurringId || excludedIds.has(t.id)) return;
+    const key = toDateKey(new Date(t.date));
+    if (key <= from || key > until) return;
+    totals.set(t.category, (totals.get(t.category) || 0) + signed(t));
+  });
+  totals.forEach((total, category) => totals.set(category, total / AVERAGE_WINDOW_DAYS));
+  return totals;
+};
+
+/**
+ * Projeta o saldo diário para os próximos `horizonDays` dias combinando:
+ * modelos recorrentes (e pendentes por confirmar), padrões periódicos detetados,
+ * médias diárias por categoria dos restantes movimentos e entradas/saídas esperadas.
+ */
+export const buildForecast = (
+  transactions: Transaction[],
+  pending: Transaction[],
+  currentBalance: number,
+  templates: RecurringTemplate[],
+  expected: ExpectedEntry[],
+  horizonDays: number,
+  today: Date = new Date()
+): ForecastPoint[] => {
+  const todayKey = toDateKey(today);
+  const endKey = toDateKey(addDays(today, horizonDays));
+  const firstKey = toDateKey(addDays(today, 1));
+  const flows = new Map<string, number[]>();
+  const add = (key: string, amount: number) => {
+    if (key <= todayKey || key > endKey) return;
+    flows.set(key, [...(flows.get(key) || []), amount]);
+  };
+
+  // Pendentes já vencidos ainda não contam no saldo: entram no primeiro dia previsto
+  pending.forEach(t => add(firstKey, signed(t)));
+
+  // Ocorrências lançadas antecipadamente já estão no saldo atual
+  const existingIds = new Set([...transactions, ...pending].map(t => t.id));
+  templates.filter(t => t.active).forEach(template => {
+    occurrencesBetween(template, todayKey, endKey)
+      .filter(date => !template.skippedDates.includes(date) && !existingIds.has(occurrenceId(template.id, date)))
+      .forEach(date => add(date, signed(template)));
+  });
+
+  const patterns = detectPatterns(transactions);
+  patterns.forEach(p => {
+    const [y, m, d] = p.lastDate.split('-').map(Number);
+    for (let next = nextPatternDate(new Date(y, m - 1, d), p.period); toDateKey(next) <= endKey; next = nextPatternDate(next, p.period)) {
+      add(toDateKey(next), signed(p));
+    }
+  });
+
+  expected.forEach(e => add(e.date.slice(0, 10), signed(e)));
+
+  // Os movimentos já explicados por padrões não entram nas médias
+  const averages = categoryAverages(transactions, new Set(patterns.flatMap(p => p.transactionIds)), today);
+  const dailyIn = [...averages.values()].filter(v => v > 0).reduce((acc, v) => acc + v, 0);
+  const dailyOut = [...averages.values()].filter(v => v < 0).reduce((acc, v) => acc - v, 0);
+
+  const points: ForecastPoint[] = [];
+  let balance = currentBalance;
+  for (let i = 1; i <= horizonDays; i++) {
+    const key = toDateKey(addDays(today, i));
+    const values = flows.get(key) || [];
+    const inflow = dailyIn + values.filter(v => v > 0).reduce((acc, v) => acc + v, 0);
+    const outflow = dailyOut - values.filter(v => v < 0).reduce((acc, v) => acc + v, 0);
+    balance += inflow - outflow;
+    points.push({ date: key, balance: Math.round(balance * 100) / 100, inflow, outflow });
+  }
+  return points;
+};
+
+// Saldo real no fim de cada dia de [from, to], a partir do saldo de abertura das contas
+export const actualBalanceSeries = (
+  transactions: Transaction[],
+  openingBalance: number,
+  from: string,
+  to: string
+): { date: string; balance: number }[] => {
+  const totals = new Map<string, number>();
+  let balance = openingBalance;
+  transactions.forEach(t => {
+    if (t.type === 'transfer') return;
+    const key = toDateKey(new Date(t.date));
+    if (key < from) balance += signed(t);
+    else totals.set(key, (totals.get(key) || 0) + signed(t));
+  });
+
+  const series: { date: string; balance: number }[] = [];
+  const [y, m, d] = from.split('-').map(Number);
+  for (let day = new Date(y, m - 1, d); toDateKey(day) <= to; day = addDays(day, 1)) {
+    const key = toDateKey(day);
+    balance += totals.get(key) || 0;
+    series.push({ date: key, balance: Math.round(balance * 100) / 100 });
+  }
+  return series;
+};
+
+// Compara uma previsão guardada com o saldo real nos dias já decorridos
+export const compareWithActual = (
+  snapshot: ForecastSnapshot,
+  transactions: Transaction[],
+  openingBalance: number,
+  today: Date = new Date()
+): { date: string; forecast: number; actual: number | null }[] => {
+  if (snapshot.points.length === 0) return [];
+  const todayKey = toDateKey(today);
+  const from = snapshot.points[0].date;
+  const to = snapshot.points[snapshot.points.length - 1].date;
+  const actual = new Map(
+    actualBalanceSeries(transactions, openingBalance, from, to < todayKey ? to : todayKey).map(p => [p.date, p.balance])
+  );
+  return snapshot.points.map(p => ({ date: p.date, forecast: p.balance, actual: actual.get(p.date) ?? null }));
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { Counterparty, LedgerQuery, Transaction } from '../types';
+import { DEFAULT_CHART } from './chartOfAccounts';
+import { answerQuery, historySearchFor, parseQuestion, sanitizeQuery } from './ledgerQuestions';
+
+const today = new Date(2026, 4, 20, 15, 0); // 20 de maio de 2026
+
+const ask = (question: string, fiscalYearStart = 0) =>
+  parseQuestion(question, { accounts: DEFAULT_CHART, fiscalYearStart, today });
+
+const tx = (id: string, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  description: `Movimento ${id}`,
+  amount: 1000,
+  type: 'expense',
+  category: '6.3.2',
+  date: new Date(2026, 3, 10, 12).toISOString(),
+  ...fields,
+});
+
+const edm: Counterparty = { id: 'edm', name: 'EDM', kind: 'supplier', aliases: [] };
+
+const query = (fields: Partial<LedgerQuery> = {}): LedgerQuery => ({
+  from: '2026-04-01',
+  to: '2026-04-30',
+  type: 'all',
+  aggregation: 'sum',
+  ...fields,
+});
+
+describe('parseQuestion', () => {
+  it('reconhece a sigla da conta, o período anterior e a soma', () => {
+    expect(ask('Quanto gastámos em FST no último trimestre?')).toEqual({
+      from: '2026-01-01', to: '2026-03-31', type: 'expense', category: '6.3', aggregation: 'sum',
+    });
+  });
+
+  it('usa o mês mais recente com esse nome e conta os movimentos', () => {
+    expect(ask('Quantas vendas tivemos em março?')).toMatchObject({ from: '2026-03-01', to: '2026-03-31', category: '7.1', type: 'income', aggregation: 'count' });
+    expect(ask('Quantas vendas tivemos em junho?')).toMatchObject({ from: '2025-06-01', to: '2025-06-30' });
+  });
+
+  it('encontra a conta pelo código ou pelas palavras do nome', () => {
+    expect(ask('Total da conta 6.3.5 em 2025')).toMatchObject({ category: '6.3.5', from: '2025-01-01', to: '2025-12-31' });
+    expect(ask('Qual foi a maior despesa em combustível no mês passado?')).toMatchObject({
+      category: '6.3.3', from: '2026-04-01', to: '2026-04-30', aggregation: 'max',
+    });
+  });
+
+  it('não confunde siglas de duas letras com palavras comuns', () => {
+    // "de" é a sigla de Deslocações e Estadas (6.3.8)
+    expect(ask('Quanto gastámos de combustível em abril?').category).toBe('6.3.3');
+    expect(ask('Quanto pagámos de renda em março?').category).toBe('6.3.5');
+  });
+
+  it('sem período usa o exercício em curso', () => {
+    expect(ask('Média das receitas', 6)).toMatchObject({ from: '2025-07-01', to: '2026-06-30', type: 'income', aggregation: 'average' });
+    expect(ask('Média das receitas nos últimos 90 dias')).toMatchObject({ from: '2026-02-20', to: '2026-05-20' });
+  });
+});
+
+describe('sanitizeQuery', () => {
+  it('troca datas invertidas e substitui valores desconhecidos', () => {
+    const raw = { from: '2026-04-30', to: '2026-04-01', type: 'outro', category: '9.9', aggregation: 'mediana' } as unknown as LedgerQuery;
+    expect(sanitizeQuery(raw, DEFAULT_CHART)).toEqual(query());
+  });
+
+  it('recusa consultas sem datas válidas', () => {
+    expect(sanitizeQuery(null, DEFAULT_CHART)).toBeNull();
+    expect(sanitizeQuery({ from: 'abril', to: '2026-04-30' }, DEFAULT_CHART)).toBeNull();
+  });
+});
+
+describe('answerQuery', () => {
+  const transactions = [
+    tx('luz', { amount: 1200, counterpartyId: 'edm' }),
+    tx('renda', { amount: 25000, category: '6.3.5' }),
+    tx('venda', { amount: 4000, type: 'income', category: '7.1' }),
+    tx('pendente', { amount: 999, pending: true }),
+    tx('eliminada', { amount: 999, deletedAt: '2026-04-11T10:00:00.000Z' }),
+    tx('transferencia', { amount: 999, type: 'transfer', category: '' }),
+    tx('maio', { amount: 999, date: new Date(2026, 4, 1).toISOString() }),
+  ];
+  const context = { chart: DEFAULT_CHART, counterparties: [edm] };
+
+  it('sem tipo soma o resultado líquido dos movimentos confirmados', () => {
+    const answer = answerQuery(query(), transactions, context);
+    expect(answer.matching.map(t => t.id)).toEqual(['luz', 'renda', 'venda']);
+    expect(answer.value).toBe(-22200);
+  });
+
+  it('inclui as subcontas e filtra pela contraparte', () => {
+    expect(answerQuery(query({ type: 'expense', category: '6.3', aggregation: 'average' }), transactions, context).value).toBe(13100);
+    expect(answerQuery(query({ counterpartyId: 'edm', aggregation: 'count' }), transactions, context).value).toBe(1);
+  });
+
+  it('a maior despesa indica o movimento', () => {
+    const answer = answerQuery(query({ type: 'expense', aggregation: 'max' }), transactions, context);
+    expect(answer.value).toBe(25000);
+    expect(answer.text).toContain('Movimento renda');
+  });
+
+  it('diz quando não há movimentos', () => {
+    const answer = answerQuery(query({ from: '2025-01-01', to: '2025-01-31' }), transactions, context);
+    expect(answer.value).toBe(0);
+    expect(answer.text).toContain('nenhum movimento encontrado');
+  });
+});
+
+describe('historySearchFor', () => {
+  it('traduz a consulta para a pesquisa do Histórico', () => {
+    expect(historySearchFor(query({ type: 'expense', category: '6.3.2', counterpartyId: 'edm' }), [edm]))
+      .toBe('data:2026-04-01..2026-04-30 tipo:despesa categoria:6.3.2 contraparte:"EDM"');
+    expect(historySearchFor(query(), [])).toBe('data:2026-04-01..2026-04-30 tipo:receita,despesa');
+  });
+});
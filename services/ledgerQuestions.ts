@@ -0,0 +1,202 @@
+import { ChartAccount, Counterparty, LedgerAggregation, LedgerQuery, Transaction } from '../types';
+import { UNCATEGORIZED_CODE, accountType, formatAccount, getAccount, isWithinAccount } from './chartOfAccounts';
+import { normalizeName } from './counterparties';
+import { formatMoney } from './currency';
+import { toDateKey } from './recurring';
+
+// Perguntas sobre o livro: tradução local por regras, validação e execução exata sobre as transações
+
+export const QUESTION_EXAMPLES = [
+  'Quanto gastámos em FST no último trimestre?',
+  'Quantas vendas tivemos em março?',
+  'Qual foi a maior despesa do mês passado?',
+  'Média das receitas nos últimos 90 dias',
+];
+
+const AGGREGATIONS: LedgerAggregation[] = ['sum', 'count', 'average', 'max', 'min'];
+
+const MONTHS = ['janeiro', 'fevereiro', 'marco', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'];
+
+// Palavras com 4 ou mais letras, comparadas pelo início ("combustivel" encontra "Combustíveis")
+export const stems = (text: string) =>
+  normalizeName(text).split(' ').filter(w => w.length >= 4 && !/\d/.test(w)).map(w => w.slice(0, 5));
+
+// "Fornecimentos e Serviços de Terceiros" -> "fst"
+const acronym = (name: string) => normalizeName(name).split(' ').filter(w => w.length >= 3).map(w => w[0]).join('');
+
+// [start, end[ em datas locais -> dias inclusivos
+const span = (start: Date, end: Date) => ({
+  from: toDateKey(start),
+  to: toDateKey(new Date(end.getFullYear(), end.getMonth(), end.getDate() - 1)),
+});
+
+const parsePeriod = (text: string, today: Date, fiscalYearStart: number) => {
+  const y = today.getFullYear();
+  const m = today.getMonth();
+  const d = today.getDate();
+  const previous = (unit: string) =>
+    new RegExp(`\\b(ultim[oa]|passad[oa]) ${unit}\\b|\\b${unit} (passad[oa]|anterior)\\b`).test(text);
+  const mentions = (unit: string) => new RegExp(`\\b${unit}\\b`).test(text);
+
+  const lastDays = text.match(/\bultim[oa]s (\d+) dias\b/);
+  if (lastDays) return span(new Date(y, m, d - Number(lastDays[1]) + 1), new Date(y, m, d + 1));
+  if (mentions('hoje')) return span(new Date(y, m, d), new Date(y, m, d + 1));
+  if (mentions('ontem')) return span(new Date(y, m, d - 1), new Date(y, m, d));
+
+  // "em março" é o março mais recente; "em março de 2025" ou "em 2025" são explícitos
+  const year = text.match(/\b(20\d\d)\b/);
+  const month = MONTHS.findIndex(name => mentions(name));
+  if (month >= 0) {
+    const target = year ? Number(year[1]) : month <= m ? y : y - 1;
+    return span(new Date(target, month, 1), new Date(target, month + 1, 1));
+  }
+  if (year) return span(new Date(Number(year[1]), 0, 1), new Date(Number(year[1]) + 1, 0, 1));
+
+  if (mentions('semana')) {
+    const monday = d - ((today.getDay() + 6) % 7) - (previous('semana') ? 7 : 0);
+    return span(new Date(y, m, monday), new Date(y, m, monday + 7));
+  }
+  if (mentions('mes')) {
+    const first = m - (previous('mes') ? 1 : 0);
+    return span(new Date(y, first, 1), new Date(y, first + 1, 1));
+  }
+  if (mentions('trimestre')) {
+    const first = Math.floor(m / 3) * 3 - (previous('trimestre') ? 3 : 0);
+    return span(new Date(y, first, 1), new Date(y, first + 3, 1));
+  }
+  if (mentions('ano')) {
+    const target = y - (previous('ano') ? 1 : 0);
+    return span(new Date(target, 0, 1), new Date(target + 1, 0, 1));
+  }
+  // Sem período na pergunta: o exercício em curso (ou o anterior, se pedido)
+  const fiscalYear = (m >= fiscalYearStart ? y : y - 1) - (previous('exercicio') ? 1 : 0);
+  return span(new Date(fiscalYear, fiscalYearStart, 1), new Date(fiscalYear + 1, fiscalYearStart, 1));
+};
+
+const parseAggregation = (text: string): LedgerAggregation =>
+  /\bquant[oa]s\b/.test(text) ? 'count'
+    : /\bmedi[oa]\b/.test(text) ? 'average'
+    : /\b(maior|maxim[oa]|mais car[oa])\b/.test(text) ? 'max'
+    : /\b(menor|minim[oa]|mais barat[oa])\b/.test(text) ? 'min'
+    : 'sum';
+
+// Código escrito ("6.3.1", "classe 7"), sigla do nome ("FST") ou palavras do nome ("combustível")
+const findAccount = (accounts: { code: string; name: string }[], question: string, text: string) => {
+  const code = question.toLowerCase().match(/\b(?:conta|classe|categoria)\s+([67](?:\.\d+)*)\b|\b([67](?:\.\d+)+)\b/);
+  const written = code && (code[1] || code[2]);
+  if (written && accounts.some(a => a.code === written)) return written;
+
+  const words = text.split(' ');
+  const wordStems = stems(text);
+  return accounts
+    .filter(a => a.code !== UNCATEGORIZED_CODE && accountType(a.code) !== null)
+    .map(a => {
+      const nameStems = stems(a.name);
+      const hits = nameStems.filter(s => wordStems.includes(s)).length;
+      const initials = acronym(a.name);
+      // Siglas de 2 letras ("de" de Deslocações e Estadas) confundem-se com palavras comuns
+      const score = initials.length >= 3 && words.includes(initials) ? 100 : hits;
+      return { code: a.code, score, ratio: nameStems.length > 0 ? hits / nameStems.length : 0 };
+    })
+    .filter(a => a.score >= 100 || (a.score > 0 && a.ratio >= 0.5))
+    .sort((a, b) => b.score - a.score || b.ratio - a.ratio || b.code.length - a.code.length)[0]?.code;
+};
+
+// Tradução por regras, usada pelo fornecedor local (e sem ligação)
+export const parseQuestion = (
+  question: string,
+  context: { accounts: { code: string; name: string }[]; fiscalYearStart: number; today?: Date }
+): LedgerQuery => {
+  const text = normalizeName(question);
+  const category = findAccount(context.accounts, question, text);
+  const expense = /\b(gast\w*|despes\w*|pag\w*|compr\w*|saidas?)\b/.test(text);
+  const income = /\b(receit\w*|receb\w*|vend\w*|fatur\w*|factur\w*|ganh\w*|proveit\w*|entradas?)\b/.test(text);
+  const type = category && accountType(category)
+    ? accountType(category) as 'income' | 'expense'
+    : expense && !income ? 'expense' : income && !expense ? 'income' : 'all';
+  return {
+    ...parsePeriod(text, context.today || new Date(), context.fiscalYearStart),
+    type,
+    ...(category ? { category } : {}),
+    aggregation: parseAggregation(text),
+  };
+};
+
+// Valida uma consulta vinda do fornecedor: datas, tipo, agregação e conta existentes; null se não for utilizável
+export const sanitizeQuery = (raw: Partial<LedgerQuery> | null | undefined, chart: ChartAccount[]): LedgerQuery | null => {
+  const isDay = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+  if (!raw || !isDay(raw.from) || !isDay(raw.to)) return null;
+  const [from, to] = raw.from! <= raw.to! ? [raw.from!, raw.to!] : [raw.to!, raw.from!];
+  const category = raw.category && getAccount(chart, raw.category) ? raw.category : undefined;
+  return {
+    from,
+    to,
+    type: raw.type === 'income' || raw.type === 'expense' ? raw.type : 'all',
+    ...(category ? { category } : {}),
+    aggregation: AGGREGATIONS.includes(raw.aggregation!) ? raw.aggregation! : 'sum',
+  };
+};
+
+export interface LedgerAnswer {
+  query: LedgerQuery;
+  matching: Transaction[];
+  value: number;
+  text: string;
+}
+
+const formatDay = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('pt-MZ');
+};
+
+// Executa a consulta sobre os movimentos confirmados (sem transferências nem pendentes) e redige a resposta
+export const answerQuery = (
+  query: LedgerQuery,
+  transactions: Transaction[],
+  context: { chart: ChartAccount[]; counterparties: Counterparty[] }
+): LedgerAnswer => {
+  const matching = transactions.filter(t => {
+    if (t.type === 'transfer' || t.pending || t.deletedAt) return false;
+    const day = toDateKey(new Date(t.date));
+    return day >= query.from && day <= query.to
+      && (query.type === 'all' || t.type === query.type)
+      && (!query.category || isWithinAccount(t.category, query.category))
+      && (!query.counterpartyId || t.counterpartyId === query.counterpartyId);
+  });
+  // Sem tipo definido, as despesas contam como negativas: a soma é o resultado líquido
+  const signed = (t: Transaction) => (query.type === 'all' && t.type === 'expense' ? -t.amount : t.amount);
+  const total = matching.reduce((acc, t) => acc + signed(t), 0);
+  const sorted = [...matching].sort((a, b) => b.amount - a.amount);
+  const pick = query.aggregation === 'max' ? sorted[0] : query.aggregation === 'min' ? sorted[sorted.length - 1] : undefined;
+  const value = query.aggregation === 'count' ? matching.length
+    : query.aggregation === 'average' ? (matching.length > 0 ? total / matching.length : 0)
+    : pick ? pick.amount
+    : query.aggregation === 'sum' ? total : 0;
+
+  const subject = query.type === 'expense' ? 'Despesas' : query.type === 'income' ? 'Receitas' : 'Movimentos';
+  const scope = [
+    query.category ? `em ${formatAccount(context.chart, query.category)}` : '',
+    query.counterpartyId ? `com ${context.counterparties.find(c => c.id === query.counterpartyId)?.name || 'contraparte removida'}` : '',
+    query.from === query.to ? `em ${formatDay(query.from)}` : `de ${formatDay(query.from)} a ${formatDay(query.to)}`,
+  ].filter(Boolean).join(' ');
+  const movements = `${matching.length} ${matching.length === 1 ? 'movimento' : 'movimentos'}`;
+
+  const text = matching.length === 0 ? `${subject} ${scope}: nenhum movimento encontrado.`
+    : query.aggregation === 'count' ? `${subject} ${scope}: ${movements}.`
+    : query.aggregation === 'average' ? `Média das ${subject.toLowerCase()} ${scope}: ${formatMoney(value)} por movimento (${movements}).`
+    : pick ? `${query.aggregation === 'max' ? 'Maior' : 'Menor'} movimento ${scope}: ${formatMoney(value)} - ${pick.description}, ${new Date(pick.date).toLocaleDateString('pt-MZ')}.`
+    : `${query.type === 'all' ? 'Resultado líquido' : subject} ${scope}: ${formatMoney(value)} (${movements}).`;
+
+  return { query, matching, value, text };
+};
+
+// Pesquisa equivalente no Histórico (sintaxe de transactionQuery)
+export const historySearchFor = (query: LedgerQuery, counterparties: Counterparty[]) => {
+  const counterparty = counterparties.find(c => c.id === query.counterpartyId);
+  return [
+    `data:${query.from}..${query.to}`,
+    query.type === 'expense' ? 'tipo:despesa' : query.type === 'income' ? 'tipo:receita' : 'tipo:receita,despesa',
+    query.category ? `categoria:${query.category}` : '',
+    counterparty ? `contraparte:"${counterparty.name}"` : '',
+  ].filter(Boolean).join(' ');
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { OpenItem, Transaction } from '../types';
+import { agingBucket, agingReport, buildPayment, expectedFromOpenItems, isOverdue, openItemStatus, outstandingAmount } from './openItems';
+
+const item = (id: string, fields: Partial<OpenItem> = {}): OpenItem => ({
+  id,
+  kind: 'receivable',
+  counterparty: 'Cliente A',
+  reference: `FT ${id}`,
+  description: 'Serviços de consultoria',
+  issueDate: '2026-01-10',
+  dueDate: '2026-02-10',
+  amount: 1000,
+  category: '7.2',
+  ...fields,
+});
+
+const payment = (itemId: string, amount: number, date = '2026-02-01', fields: Partial<Transaction> = {}): Transaction => ({
+  id: `${itemId}-${amount}-${date}`,
+  description: `Recebimento ${itemId}`,
+  amount,
+  type: 'income',
+  category: '7.2',
+  date: new Date(`${date}T12:00:00`).toISOString(),
+  openItemId: itemId,
+  ...fields,
+});
+
+describe('openItemStatus', () => {
+  it('passa de em aberto a parcial e a liquidado com os pagamentos', () => {
+    const invoice = item('a');
+    expect(openItemStatus(invoice, [])).toBe('open');
+    expect(openItemStatus(invoice, [payment('a', 400)])).toBe('partial');
+    expect(outstandingAmount(invoice, [payment('a', 400)])).toBe(600);
+    expect(openItemStatus(invoice, [payment('a', 400), payment('a', 600, '2026-02-05')])).toBe('paid');
+    expect(openItemStatus({ ...invoice, cancelledAt: '2026-01-20T10:00:00.000Z' }, [])).toBe('cancelled');
+  });
+
+  it('ignora pagamentos eliminados, pendentes e diferenças de câmbio', () => {
+    const ignored = [
+      payment('a', 300, '2026-02-01', { deletedAt: '2026-02-02T10:00:00.000Z' }),
+      payment('a', 300, '2026-02-03', { pending: true }),
+      payment('a', 300, '2026-02-04', { fxDifference: true }),
+    ];
+    expect(openItemStatus(item('a'), ignored)).toBe('open');
+  });
+});
+
+describe('isOverdue', () => {
+  it('só depois do vencimento e enquanto houver saldo', () => {
+    expect(isOverdue(item('a'), [], new Date(2026, 1, 10))).toBe(false);
+    expect(isOverdue(item('a'), [], new Date(2026, 1, 11))).toBe(true);
+    expect(isOverdue(item('a'), [payment('a', 1000)], new Date(2026, 1, 11))).toBe(false);
+  });
+});
+
+describe('agingReport', () => {
+  it('distribui o saldo por escalão de dias desde o vencimento e por contraparte', () => {
+    const items = [
+      item('nao-vencida', { dueDate: '2026-05-30' }),
+      item('dez-dias', { dueDate: '2026-05-10' }),
+      item('cem-dias', { dueDate: '2026-02-09', counterparty: 'Cliente B' }),
+      item('fornecedor', { kind: 'payable', dueDate: '2026-05-10' }),
+    ];
+    const report = agingReport(items, [payment('dez-dias', 250, '2026-05-15')], 'receivable', new Date(2026, 4, 20));
+    expect(report.rows.map(r => [r.counterparty, r.total])).toEqual([['Cliente A', 1750], ['Cliente B', 1000]]);
+    expect(report.totals.buckets).toEqual({ current: 1000, d0_30: 750, d31_60: 0, d61_90: 0, d90plus: 1000 });
+  });
+
+  it('numa data passada ignora os pagamentos posteriores', () => {
+    const report = agingReport([item('a')], [payment('a', 1000, '2026-03-01')], 'receivable', new Date(2026, 1, 20));
+    expect(report.totals.buckets.d0_30).toBe(1000);
+  });
+
+  it('uma fatura paga em prestações não fica com cêntimos por liquidar', () => {
+    const payments = [payment('a', 0.7), payment('a', 0.2, '2026-02-02'), payment('a', 0.1, '2026-02-03')];
+    const report = agingReport([item('a', { amount: 1 })], payments, 'receivable', new Date(2026, 2, 1));
+    expect(report.rows).toEqual([]);
+    expect(report.totals.total).toBe(0);
+  });
+
+  it('limites dos escalões', () => {
+    expect([0, 1, 30, 31, 60, 61, 90, 91].map(agingBucket)).toEqual(['current', 'd0_30', 'd0_30', 'd31_60', 'd31_60', 'd61_90', 'd61_90', 'd90plus']);
+  });
+});
+
+describe('expectedFromOpenItems', () => {
+  it('prevê o saldo por liquidar no vencimento, ou amanhã se já venceu', () => {
+    const entries = expectedFromOpenItems(
+      [item('vencida'), item('futura', { kind: 'payable', dueDate: '2026-06-15' }), item('paga')],
+      [payment('vencida', 200), payment('paga', 1000)],
+      new Date(2026, 4, 20)
+    );
+    expect(entries.map(e => [e.id, e.date, e.amount, e.type])).toEqual([
+      ['open-item-vencida', '2026-05-21', 800, 'income'],
+      ['open-item-futura', '2026-06-15', 1000, 'expense'],
+    ]);
+  });
+});
+
+describe('buildPayment', () => {
+  const usdInvoice = item('usd', { currency: 'USD', originalAmount: 100, exchangeRate: 63.5, amount: 6350, accountId: 'banco' });
+
+  it('em meticais é um único movimento ligado à fatura', () => {
+    const [tx, ...rest] = buildPayment(item('a', { counterpartyId: 'cliente-a' }), 400, '2026-02-01', 'caixa');
+    expect(rest).toEqual([]);
+    expect(tx).toMatchObject({ amount: 400, type: 'income', category: '7.2', accountId: 'caixa', openItemId: 'a', counterpartyId: 'cliente-a' });
+    expect(tx.date).toBe(new Date(2026, 1, 1, 12).toISOString());
+  });
+
+  it('lança a diferença de câmbio à parte: recebimento a taxa mais alta é ganho', () => {
+    const [tx, fx] = buildPayment(usdInvoice, 40, '2026-03-20', undefined, 64.1);
+    expect(tx).toMatchObject({ amount: 2540, currency: 'USD', originalAmount: 40, exchangeRate: 63.5, accountId: 'banco' });
+    expect(fx).toMatchObject({ amount: 24, type: 'income', category: '7.8.1', fxDifference: true, openItemId: 'usd' });
+    expect(tx.amount + fx.amount).toBe(2564);
+  });
+
+  it('pagamento a fornecedor a taxa mais alta é perda; à mesma taxa não há diferença', () => {
+    const bill = { ...usdInvoice, kind: 'payable' as const, category: '6.3.9' };
+    const [, fx] = buildPayment(bill, 100, '2026-03-20', undefined, 64);
+    expect(fx).toMatchObject({ amount: 50, type: 'expense', category: '6.9.2' });
+    expect(buildPayment(bill, 100, '2026-03-20', undefined, 63.5)).toHaveLength(1);
+  });
+
+  it('a diferença não abate ao valor por liquidar', () => {
+    const [tx, fx] = buildPayment(usdInvoice, 100, '2026-03-20', undefined, 64.1);
+    const payments = [{ ...tx, id: 'p' }, { ...fx, id: 'fx' }];
+    expect(outstandingAmount(usdInvoice, payments)).toBe(0);
+    expect(openItemStatus(usdInvoice, payments)).toBe('paid');
+  });
+});
@@ -0,0 +1,189 @@
+import { ExpectedEntry, OpenItem, OpenItemKind, Transaction } from '../types';
+import { toDateKey } from './recurring';
+import { FX_GAIN_ACCOUNT, FX_LOSS_ACCOUNT, formatRate, isForeign, toBase } from './currency';
+import { scopedKey } from './workspaces';
+
+export const OPEN_ITEMS_STORAGE_KEY = 'fluxowin_open_items';
+
+export const OPEN_ITEM_KIND_LABELS: Record<OpenItemKind, string> = {
+  receivable: 'A receber',
+  payable: 'A pagar',
+};
+
+export type OpenItemStatus = 'open' | 'partial' | 'paid' | 'cancelled';
+
+export const OPEN_ITEM_STATUS_LABELS: Record<OpenItemStatus, string> = {
+  open: 'Em aberto',
+  partial: 'Parcialmente pago',
+  paid: 'Liquidado',
+  cancelled: 'Anulado',
+};
+
+export const loadOpenItems = (): OpenItem[] => {
+  const saved = localStorage.getItem(scopedKey(OPEN_ITEMS_STORAGE_KEY));
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const saveOpenItems = (items: OpenItem[]) => {
+  localStorage.setItem(scopedKey(OPEN_ITEMS_STORAGE_KEY), JSON.stringify(items));
+};
+
+// Só contam pagamentos confirmados e não eliminados; as diferenças de câmbio não abatem ao valor da fatura
+export const paymentsOf = (item: OpenItem, transactions: Transaction[]) =>
+  transactions.filter(t => t.openItemId === item.id && !t.deletedAt && !t.pending && !t.fxDifference);
+
+// Valores na moeda da fatura (MZN quando a fatura é em meticais)
+export const itemTotal = (item: OpenItem) => (isForeign(item.currency) ? item.originalAmount || 0 : item.amount);
+
+export const paidAmount = (item: OpenItem, transactions: Transaction[]) =>
+  paymentsOf(item, transactions).reduce((acc, t) => acc + (isForeign(item.currency) ? t.originalAmount || 0 : t.amount), 0);
+
+// Por liquidar, arredondado ao cêntimo para que as sobras de vírgula flutuante não deixem a fatura em aberto
+const remainingAmount = (item: OpenItem, transactions: Transaction[]) =>
+  Math.max(0, Math.round((itemTotal(item) - paidAmount(item, transactions)) * 100) / 100);
+
+export const outstandingAmount = (item: OpenItem, transactions: Transaction[]) =>
+  item.cancelledAt ? 0 : remainingAmount(item, transactions);
+
+// Saldo em aberto em MZN, à taxa da emissão
+export const outstandingBase = (item: OpenItem, transactions: Transaction[]) =>
+  isForeign(item.currency) ? toBase(outstandingAmount(item, transactions), item.exchangeRate || 0) : outstandingAmount(item, transactions);
+
+export const openItemStatus = (item: OpenItem, transactions: Transaction[]): OpenItemStatus => {
+  if (item.cancelledAt) return 'cancelled';
+  const paid = paidAmount(item, transactions);
+  if (paid <= 0) return 'open';
+  return outstandingAmount(item, transactions) > 0 ? 'partial' : 'paid';
+};
+
+const dayNumber = (key: string) => {
+  const [y, m, d] = key.slice(0, 10).split('-').map(Number);
+  return Date.UTC(y, m - 1, d) / 86400000;
+};
+
+// Dias desde o vencimento (negativo enquanto não vence)
+export const daysOverdue = (item: OpenItem, asOf: Date = new Date()) => dayNumber(toDateKey(asOf)) - dayNumber(item.dueDate);
+
+export const isOverdue = (item: OpenItem, transactions: Transaction[], asOf: Date = new Date()) =>
+  daysOverdue(item, asOf) > 0 && outstandingAmount(item, transactions) > 0;
+
+/**
+ * Movimentos que liquidam (parte de) uma fatura: receita para clientes, despesa para fornecedores.
+ * Numa fatura em moeda estrangeira o pagamento fica à taxa da emissão e a diferença para a taxa
+ * do dia do pagamento é lançada à parte como diferença de câmbio realizada (7.8.1 ganho, 6.9.2 perda);
+ * a soma dos dois movimentos é o valor que entrou ou saiu da conta.
+ */
+export const buildPayment = (
+  item: OpenItem,
+  amount: number,
+  date: string,
+  accountId?: string,
+  rate?: number
+): Omit<Transaction, 'id'>[] => {
+  const base = {
+    date: new Date(`${date}T12:00:00`).toISOString(),
+    accountId: accountId || item.accountId,
+    openItemId: item.id,
+    counterpartyId: item.counterpartyId,
+  };
+  const payment: Omit<Transaction, 'id'> = {
+    ...base,
+    description: `${item.kind === 'receivable' ? 'Recebimento' : 'Pagamento'} ${item.reference || item.description} - ${item.counterparty}`,
+    amount: isForeign(item.currency) ? toBase(amount, item.exchangeRate || 0) : amount,
+    type: item.kind === 'receivable' ? 'income' : 'expense',
+    category: item.category,
+    ...(isForeign(item.currency) ? { currency: item.currency, originalAmount: amount, exchangeRate: item.exchangeRate } : {}),
+  };
+  if (!isForeign(item.currency) || !rate || rate === item.exchangeRate) return [payment];
+
+  // Recebimento a taxa mais alta ou pagamento a taxa mais baixa = ganho
+  const difference = Math.round((toBase(amount, rate) - payment.amount) * 100) / 100;
+  const gain = item.kind === 'receivable' ? difference > 0 : difference < 0;
+  if (difference === 0) return [payment];
+  return [payment, {
+    ...base,
+    description: `Diferença de câmbio ${item.currency} ${formatRate(item.exchangeRate || 0)} → ${formatRate(rate)} - ${item.reference || item.description}`,
+    amount: Math.abs(difference),
+    type: gain ? 'income' : 'expense',
+    category: gain ? FX_GAIN_ACCOUNT : FX_LOSS_ACCOUNT,
+    fxDifference: true,
+  }];
+};
+
+// Saldos em aberto entram na previsão na data de vencimento (ou amanhã, se já venceram)
+export const expectedFromOpenItems = (items: OpenItem[], transactions: Transaction[], today: Date = new Date()): ExpectedEntry[] => {
+  const tomorrow = toDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1));
+  return items
+    .map(item => ({ item, outstanding: outstandingBase(item, transactions) }))
+    .filter(({ outstanding }) => outstanding > 0)
+    .map(({ item, outstanding }) => ({
+      id: `open-item-${item.id}`,
+      date: item.dueDate < tomorrow ? tomorrow : item.dueDate,
+      description: `${item.counterparty} - ${item.reference || item.description}`,
+      amount: outstanding,
+      type: item.kind === 'receivable' ? 'income' : 'expense',
+    }));
+};
+
+export type AgingBucket = 'current' | 'd0_30' | 'd31_60' | 'd61_90' | 'd90plus';
+
+export const AGING_BUCKETS: AgingBucket[] = ['current', 'd0_30', 'd31_60', 'd61_90', 'd90plus'];
+
+export const AGING_LABELS: Record<AgingBucket, string> = {
+  current: 'Não vencido',
+  d0_30: '0-30 dias',
+  d31_60: '31-60 dias',
+  d61_90: '61-90 dias',
+  d90plus: '+90 dias',
+};
+
+export const agingBucket = (days: number): AgingBucket => {
+  if (days <= 0) return 'current';
+  if (days <= 30) return 'd0_30';
+  if (days <= 60) return 'd31_60';
+  if (days <= 90) return 'd61_90';
+  return 'd90plus';
+};
+
+export interface AgingRow {
+  counterparty: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+}
+
+export interface AgingReport {
+  rows: AgingRow[];
+  totals: AgingRow;
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ current: 0, d0_30: 0, d31_60: 0, d61_90: 0, d90plus: 0 });
+
+/**
+ * Antiguidade de saldos por contraparte na data indicada: o valor por liquidar de cada fatura
+ * emitida até essa data (em MZN, à taxa da emissão) vai para o escalão dos dias decorridos desde o vencimento.
+ * Pagamentos posteriores à data não contam, para que o relatório de uma data passada se mantenha.
+ */
+export const agingReport = (items: OpenItem[], transactions: Transaction[], kind: OpenItemKind, asOf: Date = new Date()): AgingReport => {
+  const asOfKey = toDateKey(asOf);
+  const paidUntil = transactions.filter(t => toDateKey(new Date(t.date)) <= asOfKey);
+  const byParty = new Map<string, AgingRow>();
+  const totals: AgingRow = { counterparty: 'Total', buckets: emptyBuckets(), total: 0 };
+
+  items
+    .filter(item => item.kind === kind && item.issueDate <= asOfKey && !(item.cancelledAt && item.cancelledAt.slice(0, 10) <= asOfKey))
+    .forEach(item => {
+      const remaining = remainingAmount(item, paidUntil);
+      const outstanding = isForeign(item.currency) ? toBase(remaining, item.exchangeRate || 0) : remaining;
+      if (outstanding <= 0) return;
+      const key = item.counterpartyId || item.counterparty.trim().toLowerCase();
+      const row = byParty.get(key) || { counterparty: item.counterparty.trim(), buckets: emptyBuckets(), total: 0 };
+      const bucket = agingBucket(daysOverdue(item, asOf));
+      row.buckets[bucket] += outstanding;
+      row.total += outstanding;
+      totals.buckets[bucket] += outstanding;
+      totals.total += outstanding;
+      byParty.set(key, row);
+    });
+
+  return { rows: Array.from(byParty.values()).sort((a, b) => b.total - a.total), totals };
+};
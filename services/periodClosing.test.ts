@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { CashAccount, ClosedPeriod, Transaction } from '../types';
+import { closeMonths, fiscalYearEndMonth, isInClosedPeriod, lockedBefore, openingBalanceAt, planClose, planReopen } from './periodClosing';
+
+const closed = (month: string, balances: Record<string, number> = {}): ClosedPeriod => ({ month, closedAt: '2026-04-02T10:00:00.000Z', closedBy: 'ana', balances });
+
+const accounts: CashAccount[] = [
+  { id: 'caixa', name: 'Caixa', kind: 'cash', openingBalance: 1000 },
+  { id: 'banco', name: 'BCI', kind: 'bank', openingBalance: 5000 },
+];
+
+const tx = (id: string, date: Date, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  description: `Movimento ${id}`,
+  amount: 100,
+  type: 'expense',
+  category: '6.3',
+  date: date.toISOString(),
+  accountId: 'caixa',
+  ...fields,
+});
+
+const today = new Date(2026, 4, 10);
+
+describe('lockedBefore', () => {
+  it('é o início local do mês seguinte ao último fechado', () => {
+    expect(lockedBefore([closed('2026-02'), closed('2026-03')])).toBe(new Date(2026, 3, 1).toISOString());
+    expect(lockedBefore([])).toBe('');
+  });
+
+  it('coincide com isInClosedPeriod', () => {
+    const periods = [closed('2026-03')];
+    const boundary = lockedBefore(periods);
+    [new Date(2026, 2, 31, 23, 59), new Date(2026, 3, 1, 0, 0), new Date(2026, 3, 1, 12, 0)].forEach(d => {
+      const date = d.toISOString();
+      expect(date < boundary).toBe(isInClosedPeriod(periods, date));
+    });
+  });
+});
+
+describe('isInClosedPeriod', () => {
+  it('bloqueia o mês fechado e os anteriores', () => {
+    const periods = [closed('2026-03')];
+    expect(isInClosedPeriod(periods, new Date(2026, 0, 15).toISOString())).toBe(true);
+    expect(isInClosedPeriod(periods, new Date(2026, 2, 31, 23, 0).toISOString())).toBe(true);
+    expect(isInClosedPeriod(periods, new Date(2026, 3, 1).toISOString())).toBe(false);
+  });
+});
+
+describe('planClose', () => {
+  const ledger = [tx('jan', new Date(2026, 0, 20)), tx('mar', new Date(2026, 2, 5))];
+
+  it('fecha de seguida desde a primeira transação ou do último mês fechado', () => {
+    expect(planClose('2026-03', [], ledger, today)).toEqual({ months: ['2026-01', '2026-02', '2026-03'], error: null });
+    expect(planClose('2026-03', [closed('2026-01')], ledger, today)).toEqual({ months: ['2026-02', '2026-03'], error: null });
+  });
+
+  it('recusa meses já fechados ou ainda por terminar', () => {
+    expect(planClose('2026-02', [closed('2026-03')], ledger, today).error).toMatch(/já está fechado/);
+    expect(planClose('2026-05', [], ledger, today).error).toMatch(/ainda não terminou/);
+  });
+
+  it('exige que as pendentes dos meses a fechar sejam resolvidas', () => {
+    const plan = planClose('2026-03', [], [...ledger, tx('pendente', new Date(2026, 1, 25), { pending: true })], today);
+    expect(plan.months).toEqual(['2026-01', '2026-02', '2026-03']);
+    expect(plan.error).toMatch(/^Há 1 transação/);
+  });
+});
+
+describe('closeMonths', () => {
+  it('regista o saldo de fecho de cada conta sem eliminadas nem pendentes', () => {
+    const ledger = [
+      tx('despesa', new Date(2026, 2, 5)),
+      tx('venda', new Date(2026, 2, 6), { type: 'income', amount: 400, accountId: 'banco' }),
+      tx('eliminada', new Date(2026, 2, 7), { deletedAt: '2026-03-08T10:00:00.000Z' }),
+      tx('pendente', new Date(2026, 2, 8), { pending: true }),
+      tx('abril', new Date(2026, 3, 2)),
+    ];
+    const { periods, log } = closeMonths(['2026-03'], accounts, ledger, 'ana', today);
+    expect(periods).toEqual([{ month: '2026-03', closedAt: today.toISOString(), closedBy: 'ana', balances: { caixa: 900, banco: 5400 } }]);
+    expect(log.map(e => [e.month, e.action, e.by])).toEqual([['2026-03', 'close', 'ana']]);
+  });
+});
+
+describe('planReopen', () => {
+  it('reabre também os meses fechados depois', () => {
+    expect(planReopen('2026-02', [closed('2026-03'), closed('2026-01'), closed('2026-02')])).toEqual(['2026-02', '2026-03']);
+  });
+});
+
+describe('fiscalYearEndMonth', () => {
+  it('é o mês anterior ao início do exercício seguinte', () => {
+    expect(fiscalYearEndMonth(today, 0)).toBe('2026-12');
+    expect(fiscalYearEndMonth(today, 6)).toBe('2026-06');
+    expect(fiscalYearEndMonth(new Date(2026, 7, 1), 6)).toBe('2027-06');
+  });
+});
+
+describe('openingBalanceAt', () => {
+  const ledger = [tx('fev', new Date(2026, 1, 10)), tx('mar', new Date(2026, 2, 10), { accountId: 'banco', amount: 250 })];
+
+  it('usa o saldo de fecho do mês anterior quando começa no dia 1', () => {
+    const periods = [closed('2026-02', { caixa: 777, banco: 5000 })];
+    expect(openingBalanceAt(new Date(2026, 2, 1), 'caixa', accounts, ledger, periods)).toEqual({ amount: 777, carriedFrom: periods[0] });
+    expect(openingBalanceAt(new Date(2026, 2, 1), 'all', accounts, ledger, periods).amount).toBe(5777);
+  });
+
+  it('calcula a partir do livro nos restantes casos', () => {
+    expect(openingBalanceAt(new Date(2026, 2, 15), 'all', accounts, ledger, [closed('2026-02')])).toEqual({ amount: 5650, carriedFrom: null });
+    expect(openingBalanceAt(new Date(2026, 2, 1), 'banco', accounts, ledger, [])).toEqual({ amount: 5000, carriedFrom: null });
+  });
+});
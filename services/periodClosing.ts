@@ -0,0 +1,157 @@
+import { CashAccount, ClosedPeriod, PeriodLogEntry, Transaction } from '../types';
+import { accountBalances } from './accounts';
+import { toDateKey } from './recurring';
+import { scopedKey } from './workspaces';
+
+export const CLOSED_PERIODS_STORAGE_KEY = 'fluxowin_closed_periods';
+export const PERIOD_LOG_STORAGE_KEY = 'fluxowin_period_log';
+
+export const loadClosedPeriods = (): ClosedPeriod[] => {
+  const saved = localStorage.getItem(scopedKey(CLOSED_PERIODS_STORAGE_KEY));
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const saveClosedPeriods = (periods: ClosedPeriod[]) => {
+  localStorage.setItem(scopedKey(CLOSED_PERIODS_STORAGE_KEY), JSON.stringify(periods));
+};
+
+export const loadPeriodLog = (): PeriodLogEntry[] => {
+  const saved = localStorage.getItem(scopedKey(PERIOD_LOG_STORAGE_KEY));
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const savePeriodLog = (log: PeriodLogEntry[]) => {
+  localStorage.setItem(scopedKey(PERIOD_LOG_STORAGE_KEY), JSON.stringify(log));
+};
+
+// Mês (YYYY-MM) da data local da transação
+export const monthOf = (date: string) => toDateKey(new Date(date)).slice(0, 7);
+
+export const monthKey = (date: Date) => toDateKey(date).slice(0, 7);
+
+const monthStart = (month: string) => {
+  const [y, m] = month.split('-').map(Number);
+  return new Date(y, m - 1, 1);
+};
+
+const addMonths = (month: string, count: number) => {
+  const start = monthStart(month);
+  return monthKey(new Date(start.getFullYear(), start.getMonth() + count, 1));
+};
+
+export const formatMonth = (month: string) =>
+  monthStart(month).toLocaleDateString('pt-MZ', { month: 'long', year: 'numeric' });
+
+// O fecho vale até ao mês: também os meses anteriores ao primeiro fechado ficam bloqueados
+export const isInClosedPeriod = (closed: ClosedPeriod[], date: string) => {
+  const month = monthOf(date);
+  return closed.some(p => p.month >= month);
+};
+
+// Início (ISO) do primeiro mês depois do último fechado; as regras do Firestore recusam transações com data anterior
+export const lockedBefore = (closed: ClosedPeriod[]) => {
+  const last = closed.map(p => p.month).sort().pop();
+  return last ? monthStart(addMonths(last, 1)).toISOString() : '';
+};
+
+// Meses de from a to, inclusive
+const monthsThrough = (from: string, to: string) => {
+  const months: string[] = [];
+  for (let month = from; month <= to; month = addMonths(month, 1)) months.push(month);
+  return months;
+};
+
+export interface ClosePlan {
+  months: string[];
+  error: string | null;
+}
+
+/**
+ * Fecho até ao mês indicado: os meses fechados formam sempre um bloco contínuo desde o início do livro,
+ * para que nenhum saldo de fecho dependa de um mês que ainda pode mudar. Fecham-se os meses abertos
+ * entre o último fechado (ou a primeira transação) e o mês pedido.
+ */
+export const planClose = (
+  through: string,
+  closed: ClosedPeriod[],
+  transactions: Transaction[],
+  today: Date = new Date()
+): ClosePlan => {
+  if (closed.some(p => p.month === through)) return { months: [], error: `${formatMonth(through)} já está fechado.` };
+  if (monthStart(addMonths(through, 1)) > today) return { months: [], error: `${formatMonth(through)} ainda não terminou.` };
+
+  const lastClosed = closed.map(p => p.month).sort().pop();
+  const firstMonth = transactions.filter(t => !t.deletedAt).map(t => monthOf(t.date)).sort()[0];
+  const from = lastClosed ? addMonths(lastClosed, 1) : firstMonth && firstMonth < through ? firstMonth : through;
+  if (from > through) return { months: [], error: `${formatMonth(through)} já está fechado.` };
+  const months = monthsThrough(from, through);
+
+  const pending = transactions.filter(t => !t.deletedAt && t.pending && months.includes(monthOf(t.date)));
+  if (pending.length > 0) {
+    return { months, error: `Há ${pending.length} transação(ões) pendente(s) por confirmar ou ignorar em ${formatMonth(monthOf(pending[0].date))}.` };
+  }
+  return { months, error: null };
+};
+
+// Saldos de fecho de cada conta no fim do mês (transações confirmadas e não eliminadas)
+export const closingBalances = (accounts: CashAccount[], transactions: Transaction[], month: string): Record<string, number> => {
+  const end = monthStart(addMonths(month, 1));
+  const until = transactions.filter(t => !t.deletedAt && !t.pending && new Date(t.date) < end);
+  return Object.fromEntries(accountBalances(accounts, until));
+};
+
+export const closeMonths = (
+  months: string[],
+  accounts: CashAccount[],
+  transactions: Transaction[],
+  user: string,
+  now: Date = new Date()
+): { periods: ClosedPeriod[]; log: PeriodLogEntry[] } => {
+  const at = now.toISOString();
+  return {
+    periods: months.map(month => ({ month, closedAt: at, closedBy: user, balances: closingBalances(accounts, transactions, month) })),
+    log: months.map(month => ({ id: crypto.randomUUID(), month, action: 'close', at, by: user })),
+  };
+};
+
+// Reabrir um mês reabre também os fechados depois dele, pela mesma razão de continuidade
+export const planReopen = (from: string, closed: ClosedPeriod[]) =>
+  closed.map(p => p.month).filter(month => month >= from).sort();
+
+export const reopenMonths = (months: string[], reason: string, user: string, now: Date = new Date()): PeriodLogEntry[] =>
+  months.map(month => ({ id: crypto.randomUUID(), month, action: 'reopen', at: now.toISOString(), by: user, reason }));
+
+// Último mês do exercício que contém a data (o exercício começa no mês fiscalYearStart)
+export const fiscalYearEndMonth = (reference: Date, fiscalYearStart: number) => {
+  const year = reference.getMonth() >= fiscalYearStart ? reference.getFullYear() : reference.getFullYear() - 1;
+  return monthKey(new Date(year + 1, fiscalYearStart - 1, 1));
+};
+
+export interface OpeningBalance {
+  amount: number;
+  carriedFrom: ClosedPeriod | null; // mês fechado de onde vem o saldo; null quando calculado a partir do livro
+}
+
+/**
+ * Saldo de abertura na data de início (de uma conta ou de todas). Se o relatório começa no dia 1 e o mês
+ * anterior está fechado, usa o saldo de fecho registado nesse mês.
+ */
+export const openingBalanceAt = (
+  start: Date,
+  accountId: string | 'all',
+  accounts: CashAccount[],
+  transactions: Transaction[],
+  closed: ClosedPeriod[]
+): OpeningBalance => {
+  const pick = (balances: Map<string, number> | Record<string, number>) => {
+    const entries = balances instanceof Map ? Array.from(balances.entries()) : Object.entries(balances);
+    return entries
+      .filter(([id]) => accountId === 'all' || id === accountId)
+      .reduce((acc, [, value]) => acc + value, 0);
+  };
+
+  const previous = closed.find(p => p.month === addMonths(monthKey(start), -1));
+  if (previous && start.getDate() === 1) return { amount: pick(previous.balances), carriedFrom: previous };
+  const before = transactions.filter(t => !t.deletedAt && !t.pending && new Date(t.date) < start);
+  return { amount: pick(accountBalances(accounts, before)), carriedFrom: null };
+};
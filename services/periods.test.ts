@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types';
+import { PeriodPreset, PeriodRange, isInPeriod, percentChange, previousPeriod, resolvePeriod } from './periods';
+
+const today = new Date(2026, 4, 20, 15, 0); // 20 de maio de 2026
+
+const resolve = (preset: PeriodPreset, fiscalYearStart = 0, customStart = '', customEnd = '') =>
+  resolvePeriod({ preset, customStart, customEnd }, fiscalYearStart, today);
+
+const days = (range: PeriodRange) => [range.start, range.end].map(d => d.toDateString());
+
+describe('resolvePeriod', () => {
+  it('calcula o intervalo [início, fim[ de cada período em datas locais', () => {
+    expect(days(resolve('month'))).toEqual([new Date(2026, 4, 1), new Date(2026, 5, 1)].map(d => d.toDateString()));
+    expect(days(resolve('last30'))).toEqual([new Date(2026, 3, 21), new Date(2026, 4, 21)].map(d => d.toDateString()));
+    expect(days(resolve('quarter'))).toEqual([new Date(2026, 3, 1), new Date(2026, 6, 1)].map(d => d.toDateString()));
+    expect(days(resolve('ytd'))).toEqual([new Date(2026, 0, 1), new Date(2026, 4, 21)].map(d => d.toDateString()));
+  });
+
+  it('começa o exercício no mês configurado', () => {
+    expect(days(resolve('fiscalYear', 6))).toEqual([new Date(2025, 6, 1), new Date(2026, 6, 1)].map(d => d.toDateString()));
+    expect(days(resolve('fiscalYear', 3))).toEqual([new Date(2026, 3, 1), new Date(2027, 3, 1)].map(d => d.toDateString()));
+  });
+
+  it('inclui o último dia do intervalo personalizado e corrige fim anterior ao início', () => {
+    expect(days(resolve('custom', 0, '2026-03-01', '2026-03-31'))).toEqual([new Date(2026, 2, 1), new Date(2026, 3, 1)].map(d => d.toDateString()));
+    expect(days(resolve('custom', 0, '2026-03-10', '2026-03-01'))).toEqual([new Date(2026, 2, 10), new Date(2026, 2, 11)].map(d => d.toDateString()));
+  });
+});
+
+describe('previousPeriod', () => {
+  it('recua meses e trimestres no calendário', () => {
+    expect(days(previousPeriod('month', resolve('month')))).toEqual([new Date(2026, 3, 1), new Date(2026, 4, 1)].map(d => d.toDateString()));
+    expect(days(previousPeriod('quarter', resolve('quarter')))).toEqual([new Date(2026, 0, 1), new Date(2026, 3, 1)].map(d => d.toDateString()));
+  });
+
+  it('compara o ano até à data com o mesmo intervalo do ano anterior', () => {
+    expect(days(previousPeriod('ytd', resolve('ytd')))).toEqual([new Date(2025, 0, 1), new Date(2025, 4, 21)].map(d => d.toDateString()));
+  });
+
+  it('recua o mesmo número de dias nos restantes', () => {
+    expect(days(previousPeriod('last30', resolve('last30')))).toEqual([new Date(2026, 2, 22), new Date(2026, 3, 21)].map(d => d.toDateString()));
+  });
+});
+
+describe('isInPeriod', () => {
+  it('inclui o início e exclui o fim', () => {
+    const range = resolve('month');
+    const at = (date: Date) => ({ date: date.toISOString() } as Transaction);
+    expect(isInPeriod(at(new Date(2026, 4, 1)), range)).toBe(true);
+    expect(isInPeriod(at(new Date(2026, 4, 31, 23, 59)), range)).toBe(true);
+    expect(isInPeriod(at(new Date(2026, 5, 1)), range)).toBe(false);
+  });
+});
+
+describe('percentChange', () => {
+  it('usa o valor absoluto da base e devolve null sem base', () => {
+    expect(percentChange(150, 100)).toBe(50);
+    expect(percentChange(-50, -100)).toBe(50);
+    expect(percentChange(10, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import { Transaction } from '../types';
+import { scopedKey } from './workspaces';
+
+export const FISCAL_YEAR_STORAGE_KEY = 'fluxowin_fiscal_year_start';
+
+export type PeriodPreset = 'month' | 'last30' | 'quarter' | 'ytd' | 'fiscalYear' | 'custom';
+
+export interface PeriodSelection {
+  preset: PeriodPreset;
+  customStart: string; // YYYY-MM-DD, só usado em 'custom'
+  customEnd: string;
+}
+
+// Intervalo [start, end[ em datas locais
+export interface PeriodRange {
+  start: Date;
+  end: Date;
+}
+
+export const PERIOD_LABELS: Record<PeriodPreset, string> = {
+  month: 'Este Mês',
+  last30: 'Últimos 30 dias',
+  quarter: 'Este Trimestre',
+  ytd: 'Ano até à data',
+  fiscalYear: 'Exercício Fiscal',
+  custom: 'Personalizado',
+};
+
+// Texto usado na comparação: "+12% vs. mês anterior"
+export const PREVIOUS_LABELS: Record<PeriodPreset, string> = {
+  month: 'mês anterior',
+  last30: '30 dias anteriores',
+  quarter: 'trimestre anterior',
+  ytd: 'mesmo período do ano anterior',
+  fiscalYear: 'exercício anterior',
+  custom: 'período anterior',
+};
+
+// Mês de início do exercício (0 = Janeiro); em Moçambique coincide normalmente com o ano civil
+export const loadFiscalYearStart = (): number => {
+  const saved = localStorage.getItem(scopedKey(FISCAL_YEAR_STORAGE_KEY));
+  return saved ? Number(saved) : 0;
+};
+
+export const saveFiscalYearStart = (month: number) => {
+  localStorage.setItem(scopedKey(FISCAL_YEAR_STORAGE_KEY), String(month));
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const parseDay = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const resolvePeriod = (selection: PeriodSelection, fiscalYearStart: number, today: Date = new Date()): PeriodRange => {
+  const day = startOfDay(today);
+  switch (selection.preset) {
+    case 'month':
+      return { start: new Date(day.getFullYear(), day.getMonth(), 1), end: new Date(day.getFullYear(), day.getMonth() + 1, 1) };
+    case 'last30':
+      return { start: addDays(day, -29), end: addDays(day, 1) };
+    case 'quarter': {
+      const first = Math.floor(day.getMonth() / 3) * 3;
+      return { start: new Date(day.getFullYear(), first, 1), end: new Date(day.getFullYear(), first + 3, 1) };
+    }
+    case 'ytd':
+      return { start: new Date(day.getFullYear(), 0, 1), end: addDays(day, 1) };
+    case 'fiscalYear': {
+      const year = day.getMonth() >= fiscalYearStart ? day.getFullYear() : day.getFullYear() - 1;
+      return { start: new Date(year, fiscalYearStart, 1), end: new Date(year + 1, fiscalYearStart, 1) };
+    }
+    case 'custom': {
+      const start = parseDay(selection.customStart);
+      const end = addDays(parseDay(selection.customEnd), 1);
+      return end > start ? { start, end } : { start, end: addDays(start, 1) };
+    }
+  }
+};
+
+/**
+ * Período equivalente anterior: meses, trimestres e exercícios recuam no calendário;
+ * o ano até à data compara com o mesmo intervalo do ano anterior;
+ * os restantes recuam o mesmo número de dias.
+ */
+export const previousPeriod = (preset: PeriodPreset, range: PeriodRange): PeriodRange => {
+  const shiftMonths = (date: Date, months: number) => new Date(date.getFullYear(), date.getMonth() + months, date.getDate());
+  switch (preset) {
+    case 'month':
+      return { start: shiftMonths(range.start, -1), end: range.start };
+    case 'quarter':
+      return { start: shiftMonths(range.start, -3), end: range.start };
+    case 'ytd':
+    case 'fiscalYear':
+      return { start: shiftMonths(range.start, -12), end: shiftMonths(range.end, -12) };
+    default: {
+      const days = Math.round((range.end.getTime() - range.start.getTime()) / (24 * 60 * 60 * 1000));
+      return { start: addDays(range.start, -days), end: range.start };
+    }
+  }
+};
+
+export const isInPeriod = (transaction: Transaction, range: PeriodRange) => {
+  const date = new Date(transaction.date);
+  return date >= range.start && date < range.end;
+};
+
+// Variação percentual; null quando não há base de comparação
+export const percentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100;
+
+export const formatRange = (range: PeriodRange) =>
+  `${range.start.toLocaleDateString('pt-MZ')} - ${addDays(range.end, -1).toLocaleDateString('pt-MZ')}`;
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { RecurringTemplate } from '../types';
+import { buildOccurrence, dueOccurrences, occurrenceId, occurrencesBetween, toDateKey, upcomingOccurrences } from './recurring';
+
+const template = (fields: Partial<RecurringTemplate> = {}): RecurringTemplate => ({
+  id: 'renda',
+  description: 'Renda do escritório',
+  amount: 25000,
+  type: 'expense',
+  category: '6.2',
+  frequency: 'monthly',
+  interval: 1,
+  startDate: '2026-01-31',
+  skippedDates: [],
+  active: true,
+  ...fields,
+});
+
+describe('toDateKey', () => {
+  it('usa a data local', () => {
+    expect(toDateKey(new Date(2026, 0, 5, 23, 30))).toBe('2026-01-05');
+  });
+});
+
+describe('occurrencesBetween', () => {
+  it('fica no último dia dos meses curtos sem perder o dia original', () => {
+    expect(occurrencesBetween(template(), undefined, '2026-04-30')).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+  });
+
+  it('respeita o intervalo, a data final e o número de ocorrências', () => {
+    const weekly = template({ frequency: 'weekly', interval: 2, startDate: '2026-03-02' });
+    expect(occurrencesBetween(weekly, undefined, '2026-04-01')).toEqual(['2026-03-02', '2026-03-16', '2026-03-30']);
+    expect(occurrencesBetween({ ...weekly, endDate: '2026-03-20' }, undefined, '2026-04-01')).toEqual(['2026-03-02', '2026-03-16']);
+    expect(occurrencesBetween({ ...weekly, count: 1 }, undefined, '2026-04-01')).toEqual(['2026-03-02']);
+  });
+
+  it('exclui a data "after"', () => {
+    expect(occurrencesBetween(template({ frequency: 'daily', startDate: '2026-03-01' }), '2026-03-02', '2026-03-04')).toEqual(['2026-03-03', '2026-03-04']);
+  });
+});
+
+describe('dueOccurrences', () => {
+  it('gera as ocorrências em falta como pendentes e avança o modelo', () => {
+    const existing = new Set([occurrenceId('renda', '2026-01-31')]);
+    const { occurrences, templates } = dueOccurrences([template({ skippedDates: ['2026-02-28'] })], existing, '2026-03-31');
+    expect(occurrences.map(o => o.id)).toEqual(['renda_2026-03-31']);
+    expect(occurrences[0]).toMatchObject({ pending: true, recurringId: 'renda', amount: 25000 });
+    expect(templates[0].generatedThrough).toBe('2026-03-31');
+  });
+
+  it('não gera nem avança para lá das ocorrências em períodos fechados', () => {
+    const closedThroughFebruary = (date: string) => new Date(date) < new Date(2026, 2, 1);
+    const { occurrences, templates } = dueOccurrences([template()], new Set(), '2026-03-31', closedThroughFebruary);
+    expect(occurrences.map(o => o.id)).toEqual(['renda_2026-03-31']);
+    expect(templates[0].generatedThrough).toBe('2026-01-30');
+
+    const reopened = dueOccurrences(templates, new Set(occurrences.map(o => o.id)), '2026-03-31');
+    expect(reopened.occurrences.map(o => o.id)).toEqual(['renda_2026-01-31', 'renda_2026-02-28']);
+    expect(reopened.templates[0].generatedThrough).toBe('2026-03-31');
+  });
+
+  it('não toca nos modelos inativos', () => {
+    const inactive = template({ active: false });
+    const { occurrences, templates } = dueOccurrences([inactive], new Set(), '2026-03-31');
+    expect(occurrences).toEqual([]);
+    expect(templates[0]).toBe(inactive);
+  });
+});
+
+describe('buildOccurrence', () => {
+  it('tem um id determinístico e a data local do dia', () => {
+    const occurrence = buildOccurrence(template(), '2026-02-28');
+    expect(occurrence.id).toBe('renda_2026-02-28');
+    expect(occurrence.date).toBe(new Date(2026, 1, 28).toISOString());
+  });
+});
+
+describe('upcomingOccurrences', () => {
+  it('ordena por data e ignora as saltadas', () => {
+    const water = template({ id: 'agua', frequency: 'monthly', startDate: '2026-03-15', skippedDates: ['2026-04-15'] });
+    const result = upcomingOccurrences([template(), water], '2026-03-01', '2026-04-30');
+    expect(result.map(o => `${o.template.id} ${o.date}`)).toEqual(['agua 2026-03-15', 'renda 2026-03-31', 'renda 2026-04-30']);
+  });
+});
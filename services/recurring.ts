@@ -0,0 +1,106 @@
+import { RecurrenceFrequency, RecurringTemplate, Transaction } from '../types';
+import { scopedKey } from './workspaces';
+
+export const RECURRING_STORAGE_KEY = 'fluxowin_recurring';
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'Diária',
+  weekly: 'Semanal',
+  monthly: 'Mensal',
+  yearly: 'Anual',
+};
+
+export const loadTemplates = (): RecurringTemplate[] => {
+  const saved = localStorage.getItem(scopedKey(RECURRING_STORAGE_KEY));
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const saveTemplates = (templates: RecurringTemplate[]) => {
+  localStorage.setItem(scopedKey(RECURRING_STORAGE_KEY), JSON.stringify(templates));
+};
+
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const fromDateKey = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// n-ésima ocorrência a partir da data inicial; meses curtos ficam no último dia (31/01 -> 28/02)
+const nthOccurrence = (start: Date, frequency: RecurrenceFrequency, step: number): Date => {
+  if (frequency === 'daily') return new Date(start.getFullYear(), start.getMonth(), start.getDate() + step);
+  if (frequency === 'weekly') return new Date(start.getFullYear(), start.getMonth(), start.getDate() + step * 7);
+  const months = frequency === 'monthly' ? step : step * 12;
+  const target = new Date(start.getFullYear(), start.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  return new Date(target.getFullYear(), target.getMonth(), Math.min(start.getDate(), lastDay));
+};
+
+/**
+ * Datas (YYYY-MM-DD) das ocorrências do modelo no intervalo ]after, until],
+ * respeitando data final e número de ocorrências. Inclui as saltadas.
+ */
+export const occurrencesBetween = (template: RecurringTemplate, after: string | undefined, until: string): string[] => {
+  const start = fromDateKey(template.startDate);
+  const dates: string[] = [];
+  for (let i = 0; ; i++) {
+    if (template.count !== undefined && i >= template.count) break;
+    const key = toDateKey(nthOccurrence(start, template.frequency, i * Math.max(1, template.interval)));
+    if (key > until || (template.endDate && key > template.endDate)) break;
+    if (!after || key > after) dates.push(key);
+  }
+  return dates;
+};
+
+// Id determinístico: a mesma ocorrência nunca é gerada duas vezes, mesmo em vários dispositivos
+export const occurrenceId = (templateId: string, date: string) => `${templateId}_${date}`;
+
+export const buildOccurrence = (template: RecurringTemplate, date: string): Transaction => ({
+  id: occurrenceId(template.id, date),
+  date: fromDateKey(date).toISOString(),
+  description: template.description,
+  amount: template.amount,
+  type: template.type,
+  category: template.category,
+  accountId: template.accountId,
+  recurringId: template.id,
+  pending: true,
+});
+
+/**
+ * Ocorrências vencidas até hoje que ainda não existem no livro nem foram saltadas.
+ * As que caem num período fechado ficam por gerar e o modelo só avança até à véspera da primeira
+ * delas, para serem geradas quando o período for reaberto.
+ */
+export const dueOccurrences = (
+  templates: RecurringTemplate[],
+  existingIds: Set<string>,
+  today: string,
+  isClosed: (date: string) => boolean = () => false
+): { occurrences: Transaction[]; templates: RecurringTemplate[] } => {
+  const occurrences: Transaction[] = [];
+  const closed = (date: string) => isClosed(fromDateKey(date).toISOString());
+  const updated = templates.map(template => {
+    if (!template.active) return template;
+    const missing = occurrencesBetween(template, template.generatedThrough, today)
+      .filter(date => !template.skippedDates.includes(date) && !existingIds.has(occurrenceId(template.id, date)));
+    missing.filter(date => !closed(date)).forEach(date => occurrences.push(buildOccurrence(template, date)));
+    const firstClosed = missing.find(closed);
+    if (!firstClosed) return { ...template, generatedThrough: today };
+    const dayBefore = fromDateKey(firstClosed);
+    dayBefore.setDate(dayBefore.getDate() - 1);
+    return { ...template, generatedThrough: toDateKey(dayBefore) };
+  });
+  return { occurrences, templates: updated };
+};
+
+export const upcomingOccurrences = (templates: RecurringTemplate[], from: string, until: string) =>
+  templates
+    .filter(t => t.active)
+    .flatMap(template =>
+      occurrencesBetween(template, from, until)
+        .filter(date => !template.skippedDates.includes(date))
+        .map(date => ({ template, date }))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
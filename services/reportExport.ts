@@ -0,0 +1,168 @@
+import writeXlsxFile, { Cell, Row, Sheet } from 'write-excel-file/browser';
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import { CompanyProfile } from '../types';
+
+export type ColumnKind = 'text' | 'date' | 'money' | 'percent';
+
+export interface ReportColumn {
+  header: string;
+  kind: ColumnKind;
+  width?: number; // largura em caracteres na folha de cálculo
+}
+
+export type ReportValue = string | number | Date | null;
+
+export interface ReportRow {
+  cells: ReportValue[];
+  style?: 'section' | 'total';
+}
+
+// Relatório tabular independente do formato: uma folha no Excel, uma secção no PDF
+export interface ReportTable {
+  title: string;
+  subtitle?: string; // normalmente o período
+  columns: ReportColumn[];
+  rows: ReportRow[];
+}
+
+const MONEY_FORMAT = '#,##0.00;[Red]-#,##0.00';
+
+const formatNumber = (value: number) =>
+  new Intl.NumberFormat('pt-MZ', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+
+// As fontes base do PDF só cobrem WinAnsi; a seta das transferências não existe nessa codificação
+const pdfText = (text: string) => text.replace(/→/g, '->');
+
+const formatCell = (value: ReportValue, kind: ColumnKind): string => {
+  if (value === null || value === '') return '';
+  if (value instanceof Date) return value.toLocaleDateString('pt-MZ');
+  if (typeof value === 'number') return kind === 'percent' ? `${value.toFixed(1)}%` : formatNumber(value);
+  return pdfText(value);
+};
+
+// O Excel não aceita nomes de folha com mais de 31 caracteres nem com : \ / ? * [ ]
+const sheetName = (title: string, used: Set<string>) => {
+  const base = title.replace(/[:\\/?*[\]]/g, ' ').slice(0, 31).trim();
+  let name = base;
+  for (let i = 2; used.has(name); i++) name = `${base.slice(0, 28)} ${i}`;
+  used.add(name);
+  return name;
+};
+
+const companyLines = (company: CompanyProfile) =>
+  [company.name || 'Empresa sem nome', company.nuit ? `NUIT: ${company.nuit}` : '', company.address || ''].filter(Boolean);
+
+const xlsxCell = (value: ReportValue, column: ReportColumn, style?: ReportRow['style']): Cell => {
+  const bold = style ? { fontWeight: 'bold' as const } : {};
+  const fill = style === 'section' ? { backgroundColor: '#F1F5F9' } : {};
+  if (value === null || value === '') return { value: '', type: String, ...bold, ...fill };
+  if (value instanceof Date) return { value, type: Date, format: 'dd/mm/yyyy', ...bold, ...fill };
+  if (typeof value === 'number') {
+    return column.kind === 'percent'
+      ? { value: value / 100, type: Number, format: '0.0%', ...bold, ...fill }
+      : { value, type: Number, format: MONEY_FORMAT, ...bold, ...fill };
+  }
+  return { value, type: String, ...bold, ...fill };
+};
+
+/**
+ * Gera um livro Excel (.xlsx) com uma folha por relatório: cabeçalho da empresa,
+ * título, período e tabela com células numéricas e de data verdadeiras.
+ */
+export const exportXlsx = async (filename: string, company: CompanyProfile, tables: ReportTable[]) => {
+  const used = new Set<string>();
+  const sheets: Sheet<Blob>[] = tables.map(table => {
+    const header: Row[] = [
+      ...companyLines(company).map(line => [{ value: line, type: String, fontWeight: 'bold' as const }]),
+      [{ value: table.title, type: String, fontWeight: 'bold' as const, fontSize: 14 }],
+      ...(table.subtitle ? [[{ value: table.subtitle, type: String }]] : []),
+      [],
+    ];
+    const columns: Row = table.columns.map(c => ({
+      value: c.header,
+      type: String,
+      fontWeight: 'bold' as const,
+      backgroundColor: '#E2E8F0',
+      align: c.kind === 'text' ? undefined : 'right' as const,
+    }));
+    const rows: Row[] = table.rows.map(row => row.cells.map((value, i) => xlsxCell(value, table.columns[i], row.style)));
+    return {
+      sheet: sheetName(table.title, used),
+      data: [...header, columns, ...rows],
+      columns: table.columns.map(c => ({ width: c.width || (c.kind === 'text' ? 30 : 16) })),
+    };
+  });
+
+  await writeXlsxFile(sheets).toFile(filename);
+};
+
+const logoBox = (doc: jsPDF, dataUrl: string) => {
+  const { width, height } = doc.getImageProperties(dataUrl);
+  const scale = Math.min(24 / width, 14 / height);
+  return { width: width * scale, height: height * scale, format: dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG' };
+};
+
+/**
+ * Gera um PDF A4 com cabeçalho da empresa (logótipo, nome, NUIT), título e período em cada página,
+ * uma secção por relatório e numeração "Página X de Y" no rodapé.
+ */
+export const exportPdf = (filename: string, company: CompanyProfile, tables: ReportTable[]) => {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const generatedAt = new Date().toLocaleString('pt-MZ');
+  // Logótipo à esquerda do nome, numa caixa de 24 x 14 mm sem deformar a imagem
+  const logo = company.logo ? logoBox(doc, company.logo) : null;
+  const textLeft = logo ? 14 + logo.width + 4 : 14;
+
+  tables.forEach((table, index) => {
+    if (index > 0) doc.addPage();
+    const drawHeader = () => {
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(12);
+      doc.text(pdfText(company.name || 'Empresa sem nome'), textLeft, 14);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      if (company.nuit) doc.text(`NUIT: ${company.nuit}`, textLeft, 19);
+      if (logo) doc.addImage(company.logo!, logo.format, 14, 8, logo.width, logo.height);
+      doc.text(`Gerado em: ${generatedAt}`, pageWidth - 14, 14, { align: 'right' });
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(11);
+      doc.text(table.title, 14, 28);
+      if (table.subtitle) {
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(9);
+        doc.text(table.subtitle, 14, 33);
+      }
+      doc.setDrawColor(203, 213, 225);
+      doc.line(14, 36, pageWidth - 14, 36);
+    };
+
+    autoTable(doc, {
+      startY: 40,
+      margin: { top: 40, bottom: 18 },
+      head: [table.columns.map(c => c.header)],
+      body: table.rows.map(row => row.cells.map((value, i) => ({
+        content: formatCell(value, table.columns[i].kind),
+        styles: row.style ? { fontStyle: 'bold' as const, fillColor: row.style === 'section' ? [241, 245, 249] as [number, number, number] : undefined } : {},
+      }))),
+      styles: { fontSize: 8, cellPadding: 1.5 },
+      headStyles: { fillColor: [30, 41, 59] },
+      columnStyles: Object.fromEntries(
+        table.columns.map((c, i) => [i, { halign: c.kind === 'text' ? 'left' as const : 'right' as const }])
+      ),
+      didDrawPage: drawHeader,
+    });
+  });
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.text(`Página ${page} de ${pages}`, pageWidth / 2, pageHeight - 8, { align: 'center' });
+  }
+
+  doc.save(filename);
+};
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { OpenItem, Transaction } from '../types';
+import { DEFAULT_CHART } from './chartOfAccounts';
+import { PeriodRange } from './periods';
+import { accountTotalsTable, agingTable, fxDifferencesTable, incomeStatementTable, movementsTable, vatTable } from './reportTables';
+
+const march: PeriodRange = { start: new Date(2026, 2, 1), end: new Date(2026, 3, 1) };
+
+const tx = (id: string, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  description: `Movimento ${id}`,
+  amount: 1000,
+  type: 'expense',
+  category: '6.3.2',
+  date: new Date(2026, 2, 10, 12).toISOString(),
+  ...fields,
+});
+
+const labels = {
+  category: (t: Transaction) => t.category,
+  account: (id: string) => (id === 'banco' ? 'Banco' : 'Caixa'),
+  accountOf: (t: Transaction) => t.accountId || 'caixa',
+};
+
+// Só as células de texto e números, para comparar linhas sem datas nem estilos
+const values = (table: { rows: { cells: unknown[] }[] }, ...columns: number[]) =>
+  table.rows.map(row => columns.map(c => row.cells[c]));
+
+describe('movementsTable', () => {
+  const rows = [
+    tx('venda', { type: 'income', category: '7.1', amount: 5000, accountId: 'banco' }),
+    tx('luz', { amount: 1200 }),
+    tx('deposito', { type: 'transfer', category: '', amount: 3000, toAccountId: 'banco' }),
+  ];
+
+  it('em todas as contas ignora as transferências e termina no saldo líquido', () => {
+    const table = movementsTable(rows, 'all', march, labels);
+    expect(table.columns).toHaveLength(8);
+    expect(values(table, 1, 3, 4, 5)).toEqual([
+      ['Movimento venda', 'Banco', 5000, null],
+      ['Movimento luz', 'Caixa', null, 1200],
+      ['Movimento deposito', 'Caixa', null, null],
+      ['Total', '', 5000, 1200],
+      ['Saldo Líquido', '', 3800, null],
+    ]);
+  });
+
+  it('com saldo de abertura abre com ele e fecha no saldo final da conta', () => {
+    const table = movementsTable(rows, 'banco', march, labels, { amount: 10000, label: 'Saldo Inicial' });
+    expect(table.rows[0]).toMatchObject({ cells: ['', 'Saldo Inicial', '', '', 10000, null, null, ''], style: 'section' });
+    expect(values(table, 1, 4, 5).slice(-3)).toEqual([['Total', 8000, 0], ['Saldo Líquido', 8000, null], ['Saldo Final', 18000, null]]);
+  });
+
+  it('mostra o IVA e o valor na moeda original', () => {
+    const usd = tx('usd', { amount: 6390, currency: 'USD', originalAmount: 100, exchangeRate: 63.9, vat: { regime: 'normal', base: 5508.62, tax: 881.38 } });
+    const [row] = movementsTable([usd], 'all', march, labels).rows;
+    expect(row.cells[6]).toBe(881.38);
+    expect(row.cells[7]).toContain('63');
+  });
+});
+
+describe('accountTotalsTable', () => {
+  it('soma as subcontas nas contas-mãe e destaca as classes', () => {
+    const table = accountTotalsTable([tx('luz'), tx('renda', { amount: 2500, category: '6.3.5' })], DEFAULT_CHART, march);
+    expect(table.rows.map(r => [r.cells[0], r.cells[2], r.style])).toEqual([
+      ['6', 3500, 'total'],
+      ['6.3', 3500, undefined],
+      ['6.3.2', 1000, undefined],
+      ['6.3.5', 2500, undefined],
+    ]);
+    expect(table.rows[2].cells[1]).toMatch(/^ {6}\S/);
+  });
+});
+
+describe('vatTable', () => {
+  it('resume o IVA do período por mês e acrescenta o total', () => {
+    const transactions = [
+      tx('venda', { type: 'income', category: '7.1', amount: 11600, vat: { regime: 'normal', base: 10000, tax: 1600 } }),
+      tx('compra', { amount: 5800, vat: { regime: 'normal', base: 5000, tax: 800 } }),
+      tx('abril', { amount: 1160, date: new Date(2026, 3, 2).toISOString(), vat: { regime: 'normal', base: 1000, tax: 160 } }),
+    ];
+    const table = vatTable(transactions, march);
+    expect(table.rows).toHaveLength(2);
+    expect(table.rows[0].cells.slice(1)).toEqual([10000, 1600, 0, 5000, 800, 800]);
+    expect(table.rows[1]).toEqual({ cells: ['Total', 10000, 1600, 0, 5000, 800, 800], style: 'total' });
+  });
+});
+
+describe('incomeStatementTable', () => {
+  it('compara o período com o mesmo período do ano anterior', () => {
+    const transactions = [
+      tx('venda', { type: 'income', category: '7.1', amount: 9000 }),
+      tx('luz', { amount: 1500 }),
+      tx('juros', { category: '6.9.1', amount: 500 }),
+      tx('venda-2025', { type: 'income', category: '7.1', amount: 7000, date: new Date(2025, 2, 10, 12).toISOString() }),
+    ];
+    const table = incomeStatementTable(transactions, DEFAULT_CHART, march);
+    expect(table.columns.map(c => c.kind)).toEqual(['text', 'money', 'money']);
+    expect(values(table, 0, 1, 2).slice(-3)).toEqual([
+      ['Resultado Operacional', 7500, 7000],
+      ['Gastos Financeiros', -500, -0],
+      ['Resultado Líquido do Período', 7000, 7000],
+    ]);
+  });
+});
+
+describe('agingTable', () => {
+  it('uma linha por contraparte com os escalões e a linha de totais', () => {
+    const item = (id: string, fields: Partial<OpenItem>): OpenItem => ({
+      id, kind: 'payable', counterparty: 'Fornecedor A', reference: `FT ${id}`, description: 'Material',
+      issueDate: '2026-01-10', dueDate: '2026-02-10', amount: 1000, category: '6.3.12', ...fields,
+    });
+    const table = agingTable([item('a', {}), item('b', { counterparty: 'Fornecedor B', dueDate: '2026-06-01' })], [], 'payable', new Date(2026, 4, 20));
+    expect(table.title).toBe('Antiguidade de Saldos - Fornecedores');
+    expect(table.columns[0].header).toBe('Fornecedor');
+    expect(table.rows.map(r => r.cells)).toEqual([
+      ['Fornecedor A', 0, 0, 0, 0, 1000, 1000],
+      ['Fornecedor B', 1000, 0, 0, 0, 0, 1000],
+      ['Total', 1000, 0, 0, 0, 1000, 2000],
+    ]);
+  });
+});
+
+describe('fxDifferencesTable', () => {
+  it('separa ganhos e perdas do período e apura o resultado cambial', () => {
+    const transactions = [
+      tx('perda', { category: '6.9.2', amount: 50, fxDifference: true, date: new Date(2026, 2, 20).toISOString() }),
+      tx('ganho', { type: 'income', category: '7.8.1', amount: 120, fxDifference: true, date: new Date(2026, 2, 5).toISOString() }),
+      tx('fevereiro', { type: 'income', category: '7.8.1', amount: 80, fxDifference: true, date: new Date(2026, 1, 5).toISOString() }),
+      tx('luz'),
+    ];
+    expect(values(fxDifferencesTable(transactions, march), 1, 2, 3)).toEqual([
+      ['Movimento ganho', 120, null],
+      ['Movimento perda', null, 50],
+      ['Total', 120, 50],
+      ['Resultado cambial', 70, null],
+    ]);
+  });
+});
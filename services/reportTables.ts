@@ -0,0 +1,251 @@
+import { ChartAccount, Counterparty, OpenItem, OpenItemKind, Transaction } from '../types';
+import { accountDepth, isWithinAccount, rollupTotals } from './chartOfAccounts';
+import { flowFor } from './accounts';
+import { formatPeriod, summarizeVat } from './vat';
+import { PeriodRange, formatRange, isInPeriod } from './periods';
+import { ACTIVITY_LABELS, CashFlowActivity, cashFlowStatement, incomeStatement, priorYearRange } from './statements';
+import { ReportRow, ReportTable } from './reportExport';
+import { AGING_BUCKETS, AGING_LABELS, AgingRow, agingReport } from './openItems';
+import { counterpartyStatement } from './counterparties';
+import { FX_GAIN_ACCOUNT, FX_LOSS_ACCOUNT, originalLabel } from './currency';
+
+// Tabelas dos relatórios de Relatórios, prontas para exportar em Excel ou PDF
+
+const indent = (depth: number, text: string) => `${'   '.repeat(depth)}${text}`;
+
+export const movementsTable = (
+  rows: Transaction[],
+  accountId: string,
+  range: PeriodRange,
+  labels: { category: (t: Transaction) => string; account: (id: string) => string; accountOf: (t: Transaction) => string },
+  opening?: { amount: number; label: string } // saldo de abertura: com ele, a tabela termina no saldo final
+): ReportTable => {
+  const totals = rows.reduce((acc, t) => {
+    const { inflow, outflow } = flowFor(t, accountId);
+    return { inflow: acc.inflow + inflow, outflow: acc.outflow + outflow };
+  }, { inflow: 0, outflow: 0 });
+
+  return {
+    title: 'Relatório de Movimentos',
+    subtitle: formatRange(range),
+    columns: [
+      { header: 'Data', kind: 'date', width: 12 },
+      { header: 'Descrição', kind: 'text', width: 36 },
+      { header: 'Categoria (PGC)', kind: 'text', width: 34 },
+      { header: 'Conta', kind: 'text', width: 18 },
+      { header: 'Entrada', kind: 'money' },
+      { header: 'Saída', kind: 'money' },
+      { header: 'IVA', kind: 'money', width: 12 },
+      { header: 'Valor original', kind: 'text', width: 22 },
+    ],
+    rows: [
+      ...(opening ? [{ cells: ['', opening.label, '', '', opening.amount, null, null, ''], style: 'section' as const }] : []),
+      ...rows.map(t => {
+        const { inflow, outflow } = flowFor(t, accountId);
+        return {
+          cells: [
+            new Date(t.date),
+            t.description,
+            labels.category(t),
+            labels.account(labels.accountOf(t)),
+            inflow || null,
+            outflow || null,
+            t.vat ? t.vat.tax : null,
+            originalLabel(t),
+          ],
+        };
+      }),
+      { cells: ['', 'Total', '', '', totals.inflow, totals.outflow, null, ''], style: 'total' },
+      { cells: ['', 'Saldo Líquido', '', '', totals.inflow - totals.outflow, null, null, ''], style: 'total' },
+      ...(opening
+        ? [{ cells: ['', 'Saldo Final', '', '', opening.amount + totals.inflow - totals.outflow, null, null, ''], style: 'total' as const }]
+        : []),
+    ],
+  };
+};
+
+export const accountTotalsTable = (transactions: Transaction[], chart: ChartAccount[], range: PeriodRange): ReportTable => {
+  const totals = rollupTotals(transactions, chart);
+  return {
+    title: 'Totais por Conta (PGC-NIRF)',
+    subtitle: formatRange(range),
+    columns: [
+      { header: 'Código', kind: 'text', width: 10 },
+      { header: 'Conta', kind: 'text', width: 40 },
+      { header: 'Total', kind: 'money' },
+    ],
+    rows: chart
+      .filter(a => totals.has(a.code))
+      .map(a => ({
+        cells: [a.code, indent(accountDepth(a.code), a.name), totals.get(a.code) || 0],
+        style: a.parentCode === null ? 'total' : undefined,
+      })),
+  };
+};
+
+export const vatTable = (transactions: Transaction[], range: PeriodRange): ReportTable => {
+  const periods = summarizeVat(transactions.filter(t => isInPeriod(t, range)));
+  const sum = (key: 'salesBase' | 'vatCollected' | 'exemptSales' | 'purchasesBase' | 'vatDeductible' | 'balance') =>
+    periods.reduce((acc, p) => acc + p[key], 0);
+  return {
+    title: 'Resumo do IVA',
+    subtitle: formatRange(range),
+    columns: [
+      { header: 'Período', kind: 'text', width: 18 },
+      { header: 'Base Vendas', kind: 'money' },
+      { header: 'IVA Liquidado', kind: 'money' },
+      { header: 'Isentas', kind: 'money' },
+      { header: 'Base Compras', kind: 'money' },
+      { header: 'IVA Dedutível', kind: 'money' },
+      { header: 'A Entregar / (Recuperar)', kind: 'money', width: 22 },
+    ],
+    rows: [
+      ...periods.map(p => ({
+        cells: [formatPeriod(p.period), p.salesBase, p.vatCollected, p.exemptSales, p.purchasesBase, p.vatDeductible, p.balance],
+      })),
+      {
+        cells: ['Total', sum('salesBase'), sum('vatCollected'), sum('exemptSales'), sum('purchasesBase'), sum('vatDeductible'), sum('balance')],
+        style: 'total',
+      },
+    ],
+  };
+};
+
+const comparativeColumns = (range: PeriodRange, previous: PeriodRange) => [
+  { header: '', kind: 'text' as const, width: 44 },
+  { header: formatRange(range), kind: 'money' as const, width: 24 },
+  { header: formatRange(previous), kind: 'money' as const, width: 24 },
+];
+
+export const incomeStatementTable = (transactions: Transaction[], chart: ChartAccount[], range: PeriodRange): ReportTable => {
+  const previous = priorYearRange(range);
+  const dr = incomeStatement(transactions, chart, range);
+  const prev = incomeStatement(transactions, chart, previous);
+  const rows: ReportRow[] = [];
+
+  ([['7', 'Proveitos'], ['6', 'Gastos']] as const).forEach(([classCode, title]) => {
+    rows.push({ cells: [`Classe ${classCode} - ${title}`, null, null], style: 'section' });
+    chart
+      .filter(a => a.parentCode !== null && isWithinAccount(a.code, classCode) && (dr.totals.has(a.code) || prev.totals.has(a.code)))
+      .forEach(a => rows.push({
+        cells: [indent(accountDepth(a.code) - 1, `${a.code} - ${a.name}`), dr.totals.get(a.code) || 0, prev.totals.get(a.code) || 0],
+      }));
+    if (classCode === '7' && (dr.unclassifiedIncome || prev.unclassifiedIncome)) {
+      rows.push({ cells: ['Proveitos não classificados', dr.unclassifiedIncome, prev.unclassifiedIncome] });
+    }
+    if (classCode === '6' && (dr.unclassifiedExpense || prev.unclassifiedExpense)) {
+      rows.push({ cells: ['Gastos não classificados', dr.unclassifiedExpense, prev.unclassifiedExpense] });
+    }
+    rows.push({
+      cells: [`Total dos ${title}`, classCode === '7' ? dr.revenue : dr.expenses, classCode === '7' ? prev.revenue : prev.expenses],
+      style: 'total',
+    });
+  });
+  rows.push({ cells: ['Resultado Operacional', dr.operatingResult, prev.operatingResult], style: 'total' });
+  rows.push({ cells: ['Gastos Financeiros', -dr.financialExpenses, -prev.financialExpenses] });
+  rows.push({ cells: ['Resultado Líquido do Período', dr.netResult, prev.netResult], style: 'total' });
+
+  return { title: 'Demonstração de Resultados', subtitle: formatRange(range), columns: comparativeColumns(range, previous), rows };
+};
+
+export const cashFlowTable = (
+  transactions: Transaction[],
+  chart: ChartAccount[],
+  range: PeriodRange,
+  openingBalance: number,
+  accountLabel: (code: string) => string
+): ReportTable => {
+  const previous = priorYearRange(range);
+  const dfc = cashFlowStatement(transactions, chart, range, openingBalance);
+  const prev = cashFlowStatement(transactions, chart, previous, openingBalance);
+  const rows: ReportRow[] = [];
+
+  (['operating', 'investing', 'financing'] as CashFlowActivity[]).forEach(activity => {
+    rows.push({ cells: [ACTIVITY_LABELS[activity], null, null], style: 'section' });
+    Array.from(new Set([...dfc.lines[activity].keys(), ...prev.lines[activity].keys()])).forEach(code => rows.push({
+      cells: [indent(1, accountLabel(code)), dfc.lines[activity].get(code) || 0, prev.lines[activity].get(code) || 0],
+    }));
+    rows.push({ cells: [`Fluxo das ${ACTIVITY_LABELS[activity].toLowerCase()}`, dfc.net[activity], prev.net[activity]], style: 'total' });
+  });
+  rows.push({ cells: ['Variação de caixa e equivalentes', dfc.netChange, prev.netChange], style: 'total' });
+  rows.push({ cells: ['Caixa e equivalentes no início do período', dfc.openingCash, prev.openingCash] });
+  rows.push({ cells: ['Caixa e equivalentes no fim do período', dfc.closingCash, prev.closingCash], style: 'total' });
+
+  return { title: 'Demonstração de Fluxos de Caixa', subtitle: formatRange(range), columns: comparativeColumns(range, previous), rows };
+};
+
+export const agingTable = (items: OpenItem[], transactions: Transaction[], kind: OpenItemKind, asOf: Date): ReportTable => {
+  const report = agingReport(items, transactions, kind, asOf);
+  const cells = (row: AgingRow) => [row.counterparty, ...AGING_BUCKETS.map(b => row.buckets[b]), row.total];
+  return {
+    title: kind === 'receivable' ? 'Antiguidade de Saldos - Clientes' : 'Antiguidade de Saldos - Fornecedores',
+    subtitle: `Em ${asOf.toLocaleDateString('pt-MZ')}`,
+    columns: [
+      { header: kind === 'receivable' ? 'Cliente' : 'Fornecedor', kind: 'text', width: 36 },
+      ...AGING_BUCKETS.map(b => ({ header: AGING_LABELS[b], kind: 'money' as const })),
+      { header: 'Total', kind: 'money' },
+    ],
+    rows: [
+      ...report.rows.map(row => ({ cells: cells(row) })),
+      { cells: cells(report.totals), style: 'total' },
+    ],
+  };
+};
+
+export const counterpartyStatementTable = (
+  c: Counterparty,
+  transactions: Transaction[],
+  openItems: OpenItem[],
+  range: PeriodRange,
+  accountLabel: (code: string) => string
+): ReportTable => {
+  const statement = counterpartyStatement(c, transactions, openItems, range);
+  return {
+    title: `Extrato - ${c.name}`,
+    subtitle: `${c.nuit ? `NUIT ${c.nuit} • ` : ''}${formatRange(range)}`,
+    columns: [
+      { header: 'Data', kind: 'date', width: 12 },
+      { header: 'Descrição', kind: 'text', width: 40 },
+      { header: 'Categoria (PGC)', kind: 'text', width: 34 },
+      { header: 'Recebido', kind: 'money' },
+      { header: 'Pago', kind: 'money' },
+    ],
+    rows: [
+      ...statement.movements.map(t => ({
+        cells: [
+          new Date(t.date),
+          t.description,
+          accountLabel(t.category),
+          t.type === 'income' ? t.amount : null,
+          t.type === 'expense' ? t.amount : null,
+        ],
+      })),
+      { cells: ['', 'Total', '', statement.received, statement.paid], style: 'total' },
+    ],
+  };
+};
+
+export const fxDifferencesTable = (transactions: Transaction[], range: PeriodRange): ReportTable => {
+  const rows = transactions
+    .filter(t => t.fxDifference && isInPeriod(t, range))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const gains = rows.filter(t => t.type === 'income').reduce((acc, t) => acc + t.amount, 0);
+  const losses = rows.filter(t => t.type === 'expense').reduce((acc, t) => acc + t.amount, 0);
+  return {
+    title: 'Diferenças de Câmbio Realizadas',
+    subtitle: formatRange(range),
+    columns: [
+      { header: 'Data', kind: 'date', width: 12 },
+      { header: 'Descrição', kind: 'text', width: 50 },
+      { header: `Ganho (${FX_GAIN_ACCOUNT})`, kind: 'money' },
+      { header: `Perda (${FX_LOSS_ACCOUNT})`, kind: 'money' },
+    ],
+    rows: [
+      ...rows.map(t => ({
+        cells: [new Date(t.date), t.description, t.type === 'income' ? t.amount : null, t.type === 'expense' ? t.amount : null],
+      })),
+      { cells: ['', 'Total', gains, losses], style: 'total' },
+      { cells: ['', 'Resultado cambial', gains - losses, null], style: 'total' },
+    ],
+  };
+};
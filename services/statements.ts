@@ -0,0 +1,110 @@
+import { ChartAccount, Transaction } from '../types';
+import { UNCATEGORIZED_CODE, getAccount, isWithinAccount, rollupTotals } from './chartOfAccounts';
+import { PeriodRange, isInPeriod } from './periods';
+
+export type CashFlowActivity = 'operating' | 'investing' | 'financing';
+
+export const ACTIVITY_LABELS: Record<CashFlowActivity, string> = {
+  operating: 'Actividades Operacionais',
+  investing: 'Actividades de Investimento',
+  financing: 'Actividades de Financiamento',
+};
+
+// Juros suportados são apresentados em financiamento; capital e empréstimos também
+const FINANCING_CODES = ['4.3', '5', '6.9.1'];
+
+export const cashFlowActivity = (code: string): CashFlowActivity => {
+  if (isWithinAccount(code, '3')) return 'investing';
+  return FINANCING_CODES.some(c => isWithinAccount(code, c)) ? 'financing' : 'operating';
+};
+
+// Conta de segundo nível (6.3 para 6.3.2) usada como linha das demonstrações
+const statementLine = (chart: ChartAccount[], code: string): string => {
+  let current = getAccount(chart, code);
+  while (current && current.parentCode && getAccount(chart, current.parentCode)?.parentCode) {
+    current = getAccount(chart, current.parentCode);
+  }
+  return current ? current.code : code;
+};
+
+const signed = (t: Transaction) => (t.type === 'income' ? t.amount : -t.amount);
+
+export interface IncomeStatement {
+  totals: Map<string, number>; // totais por conta das classes 6 e 7, com as contas-mãe
+  unclassifiedIncome: number;
+  unclassifiedExpense: number;
+  revenue: number;
+  expenses: number;
+  financialExpenses: number;
+  operatingResult: number;
+  netResult: number;
+}
+
+/**
+ * Demonstração de Resultados: proveitos (classe 7) menos gastos (classe 6).
+ * O resultado operacional exclui os gastos financeiros (6.9); "Outros" entra pelo tipo da transação.
+ */
+export const incomeStatement = (transactions: Transaction[], chart: ChartAccount[], range: PeriodRange): IncomeStatement => {
+  const inRange = transactions.filter(t => t.type !== 'transfer' && isInPeriod(t, range));
+  const classified = inRange.filter(t => isWithinAccount(t.category, '6') || isWithinAccount(t.category, '7'));
+  const unclassified = inRange.filter(t => t.category === UNCATEGORIZED_CODE || !getAccount(chart, t.category));
+  const totals = rollupTotals(classified, chart);
+
+  const unclassifiedIncome = unclassified.filter(t => t.type === 'income').reduce((acc, t) => acc + t.amount, 0);
+  const unclassifiedExpense = unclassified.filter(t => t.type === 'expense').reduce((acc, t) => acc + t.amount, 0);
+  const revenue = (totals.get('7') || 0) + unclassifiedIncome;
+  const expenses = (totals.get('6') || 0) + unclassifiedExpense;
+  const financialExpenses = totals.get('6.9') || 0;
+
+  return {
+    totals,
+    unclassifiedIncome,
+    unclassifiedExpense,
+    revenue,
+    expenses,
+    financialExpenses,
+    operatingResult: revenue - (expenses - financialExpenses),
+    netResult: revenue - expenses,
+  };
+};
+
+export interface CashFlowStatement {
+  lines: Record<CashFlowActivity, Map<string, number>>; // valor líquido por conta (recebimentos positivos)
+  net: Record<CashFlowActivity, number>;
+  openingCash: number;
+  netChange: number;
+  closingCash: number;
+}
+
+// Demonstração de Fluxos de Caixa pelo método directo; transferências entre contas próprias não entram
+export const cashFlowStatement = (
+  transactions: Transaction[],
+  chart: ChartAccount[],
+  range: PeriodRange,
+  openingBalance: number
+): CashFlowStatement => {
+  const movements = transactions.filter(t => t.type !== 'transfer');
+  const openingCash = movements
+    .filter(t => new Date(t.date) < range.start)
+    .reduce((acc, t) => acc + signed(t), openingBalance);
+
+  const lines: Record<CashFlowActivity, Map<string, number>> = { operating: new Map(), investing: new Map(), financing: new Map() };
+  const net: Record<CashFlowActivity, number> = { operating: 0, investing: 0, financing: 0 };
+  movements.filter(t => isInPeriod(t, range)).forEach(t => {
+    const activity = cashFlowActivity(t.category);
+    // Subcontas com actividade diferente da conta-mãe (6.9.1 em 6.9) ficam em linha própria
+    const parentLine = statementLine(chart, t.category);
+    const line = cashFlowActivity(parentLine) === activity ? parentLine : t.category;
+    lines[activity].set(line, (lines[activity].get(line) || 0) + signed(t));
+    net[activity] += signed(t);
+  });
+
+  const netChange = net.operating + net.investing + net.financing;
+  return { lines, net, openingCash, netChange, closingCash: openingCash + netChange };
+};
+
+// Mesmo intervalo um ano antes, para a coluna comparativa (N-1)
+export const priorYearRange = (range: PeriodRange): PeriodRange => ({
+  start: new Date(range.start.getFullYear() - 1, range.start.getMonth(), range.start.getDate()),
+  end: new Date(range.end.getFullYear() - 1, range.end.getMonth(), range.end.getDate()),
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SavedView, Transaction } from '../types';
+import { DEFAULT_SORT, loadSavedViews, matchesQuery, parseQuery, saveSavedViews, sortTransactions } from './transactionQuery';
+
+const tx = (id: string, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  description: `Movimento ${id}`,
+  amount: 1000,
+  type: 'expense',
+  category: '6.3.2',
+  date: new Date(2026, 2, 10, 12).toISOString(),
+  ...fields,
+});
+
+const names: Record<string, string> = { vodacom: 'Vodacom Moçambique', edm: 'EDM' };
+const context = {
+  categoryLabel: (t: Transaction) => (t.category === '6.3.6' ? '6.3.6 - Comunicações' : t.category),
+  counterpartyName: (id?: string) => (id ? names[id] || '' : ''),
+};
+
+const search = (text: string, transactions: Transaction[]) =>
+  transactions.filter(t => matchesQuery(t, parseQuery(text), context)).map(t => t.id);
+
+describe('parseQuery', () => {
+  it('interpreta valores, datas, tipos, contas, contrapartes, etiquetas e moedas', () => {
+    expect(parseQuery('valor:>5000 data:2026-03 tipo:despesa,receita conta:6.3 @vodacom #Obra moeda:usd "renda escritório"')).toEqual({
+      terms: ['renda escritorio'],
+      minAmount: 5000.01,
+      from: '2026-03-01',
+      to: '2026-03-31',
+      types: ['expense', 'income'],
+      accounts: ['6.3'],
+      counterparties: ['vodacom'],
+      tags: ['obra'],
+      currencies: ['USD'],
+      errors: [],
+    });
+  });
+
+  it('aceita intervalos abertos e assinala os filtros inválidos', () => {
+    expect(parseQuery('data:>2026-06-30 valor:..500')).toMatchObject({ from: '2026-07-01', maxAmount: 500 });
+    expect(parseQuery('data:2026-13 tipo:outro conta:abc valor:muito').errors).toEqual(['data:2026-13', 'tipo:outro', 'conta:abc', 'valor:muito']);
+  });
+});
+
+describe('matchesQuery', () => {
+  const transactions = [
+    tx('luz', { amount: 1500, counterpartyId: 'edm' }),
+    tx('telefone', { amount: 800, category: '6.3.6', counterpartyId: 'vodacom', tags: ['obra-matola'] }),
+    tx('venda', { amount: 9000, type: 'income', category: '7.1', currency: 'USD', date: new Date(2026, 3, 1).toISOString() }),
+  ];
+
+  it('combina os filtros e procura o texto na descrição, conta, contraparte e etiquetas', () => {
+    expect(search('conta:6.3 valor:<1000', transactions)).toEqual(['telefone']);
+    expect(search('comunicacoes', transactions)).toEqual(['telefone']);
+    expect(search('mocambique', transactions)).toEqual(['telefone']);
+    expect(search('#obra-matola', transactions)).toEqual(['telefone']);
+    expect(search('moeda:USD data:2026-04', transactions)).toEqual(['venda']);
+    expect(search('tipo:despesa @edm', transactions)).toEqual(['luz']);
+  });
+
+  it('compara o dia local da transação', () => {
+    expect(search('data:2026-03-10', [tx('meia-noite', { date: new Date(2026, 2, 10, 0, 5).toISOString() })])).toEqual(['meia-noite']);
+  });
+});
+
+describe('sortTransactions', () => {
+  it('ordena pela coluna e desempata pela data mais recente', () => {
+    const transactions = [
+      tx('a', { amount: 500, date: new Date(2026, 2, 1).toISOString() }),
+      tx('b', { amount: 900 }),
+      tx('c', { amount: 500, date: new Date(2026, 2, 5).toISOString() }),
+    ];
+    expect(sortTransactions(transactions, DEFAULT_SORT, context.categoryLabel).map(t => t.id)).toEqual(['b', 'c', 'a']);
+    expect(sortTransactions(transactions, { key: 'amount', direction: 'asc' }, context.categoryLabel).map(t => t.id)).toEqual(['c', 'a', 'b']);
+  });
+});
+
+describe('saveSavedViews', () => {
+  it('guarda as vistas com a pesquisa, a ordenação e os filtros', () => {
+    const data = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => data.get(key) ?? null,
+      setItem: (key: string, value: string) => { data.set(key, value); },
+    });
+    const view: SavedView = {
+      id: 'v1',
+      name: 'Energia sem recibo',
+      query: '@edm valor:>1000',
+      sort: { key: 'amount', direction: 'desc' },
+      showDeleted: false,
+      onlyMissingAttachments: true,
+    };
+    saveSavedViews([view]);
+    expect(loadSavedViews()).toEqual([view]);
+    vi.unstubAllGlobals();
+  });
+});
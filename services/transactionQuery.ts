@@ -0,0 +1,260 @@
+import { HistorySort, SavedView, Transaction, TransactionType } from '../types';
+import { isWithinAccount } from './chartOfAccounts';
+import { normalizeName } from './counterparties';
+import { toDateKey } from './recurring';
+import { scopedKey } from './workspaces';
+
+export const SAVED_VIEWS_STORAGE_KEY = 'fluxowin_saved_views';
+
+export const DEFAULT_SORT: HistorySort = { key: 'date', direction: 'desc' };
+
+// Ajuda da barra de pesquisa do Histórico
+export const QUERY_HELP: { example: string; meaning: string }[] = [
+  { example: 'valor:>5000', meaning: 'valor acima de 5 000 MZN (também <, >=, <=)' },
+  { example: 'valor:1000..5000', meaning: 'valor entre 1 000 e 5 000 MZN' },
+  { example: 'data:2024-03', meaning: 'mês (ou ano: data:2024, dia: data:2024-03-15)' },
+  { example: 'data:2024-01..2024-03', meaning: 'intervalo de datas; data:>2024-06-30 a partir do dia seguinte' },
+  { example: 'tipo:despesa', meaning: 'receita, despesa ou transferencia (separados por vírgula)' },
+  { example: 'conta:6.3', meaning: 'conta do plano e subcontas; classe:7 para a classe inteira' },
+  { example: 'contraparte:vodacom', meaning: 'cliente ou fornecedor (ou @vodacom)' },
+  { example: '#obra-matola', meaning: 'etiqueta' },
+  { example: 'moeda:USD', meaning: 'moeda original' },
+  { example: '"renda escritório"', meaning: 'texto exato na descrição, categoria ou contraparte' },
+];
+
+const TYPE_ALIASES: Record<string, TransactionType> = {
+  receita: 'income',
+  receitas: 'income',
+  entrada: 'income',
+  despesa: 'expense',
+  despesas: 'expense',
+  saida: 'expense',
+  transferencia: 'transfer',
+  transferencias: 'transfer',
+};
+
+export interface TransactionQuery {
+  terms: string[]; // texto livre, normalizado
+  minAmount?: number;
+  maxAmount?: number;
+  from?: string; // YYYY-MM-DD inclusive
+  to?: string; // YYYY-MM-DD inclusive
+  types: TransactionType[];
+  accounts: string[];
+  counterparties: string[]; // nomes normalizados (correspondência parcial)
+  tags: string[];
+  currencies: string[];
+  errors: string[]; // filtros que não foi possível interpretar
+}
+
+// Campos de texto de uma transação para a pesquisa livre (rótulos resolvidos por quem chama)
+export interface QueryContext {
+  categoryLabel: (t: Transaction) => string;
+  counterpartyName: (id?: string) => string;
+}
+
+export const loadSavedViews = (): SavedView[] => {
+  const saved = localStorage.getItem(scopedKey(SAVED_VIEWS_STORAGE_KEY));
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const saveSavedViews = (views: SavedView[]) => {
+  localStorage.setItem(scopedKey(SAVED_VIEWS_STORAGE_KEY), JSON.stringify(views));
+};
+
+// "#Obra Matola" -> "obra-matola"
+export const normalizeTag = (tag: string) =>
+  normalizeName(tag.replace(/^#/, '')).replace(/ /g, '-');
+
+const parseAmount = (text: string): number | undefined => {
+  const value = Number(text.replace(/\s/g, '').replace(',', '.'));
+  return text !== '' && Number.isFinite(value) ? value : undefined;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// "2024" -> ano, "2024-03" -> mês, "2024-03-15" -> dia: devolve o primeiro e o último dia
+const parseDatePeriod = (text: string): { start: string; end: string } | undefined => {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(text);
+  if (!match) return undefined;
+  const year = Number(match[1]);
+  if (!match[2]) return { start: `${year}-01-01`, end: `${year}-12-31` };
+  const month = Number(match[2]);
+  if (month < 1 || month > 12) return undefined;
+  if (!match[3]) {
+    const lastDay = new Date(year, month, 0).getDate();
+    return { start: `${year}-${pad(month)}-01`, end: `${year}-${pad(month)}-${pad(lastDay)}` };
+  }
+  const day = Number(match[3]);
+  if (day < 1 || day > new Date(year, month, 0).getDate()) return undefined;
+  const key = `${year}-${pad(month)}-${pad(day)}`;
+  return { start: key, end: key };
+};
+
+const shiftDay = (key: string, days: number) => {
+  const [y, m, d] = key.split('-').map(Number);
+  const date = new Date(y, m - 1, d + days);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Comparação (>, <, >=, <=), intervalo (a..b) ou valor único
+const parseRange = <T>(
+  text: string,
+  parse: (value: string) => { low: T; high: T } | undefined,
+  exclusive: { after: (value: T) => T; before: (value: T) => T }
+): { min?: T; max?: T } | undefined => {
+  const comparison = /^(>=|<=|>|<)(.+)$/.exec(text);
+  if (comparison) {
+    const parsed = parse(comparison[2]);
+    if (!parsed) return undefined;
+    switch (comparison[1]) {
+      case '>': return { min: exclusive.after(parsed.high) };
+      case '>=': return { min: parsed.low };
+      case '<': return { max: exclusive.before(parsed.low) };
+      default: return { max: parsed.high };
+    }
+  }
+  const [low, high, ...rest] = text.split('..');
+  if (high !== undefined) {
+    if (rest.length > 0) return undefined;
+    const start = low ? parse(low) : undefined;
+    const end = high ? parse(high) : undefined;
+    if ((low && !start) || (high && !end) || (!start && !end)) return undefined;
+    return { min: start?.low, max: end?.high };
+  }
+  const single = parse(text);
+  return single ? { min: single.low, max: single.high } : undefined;
+};
+
+// Separa por espaços respeitando aspas: contraparte:"mcel lda" "renda escritório"
+const tokenize = (text: string) =>
+  (text.match(/[^\s"]+:"[^"]*"?|"[^"]*"?|\S+/g) || []).map(token => token.replace(/"/g, ''));
+
+export const parseQuery = (text: string): TransactionQuery => {
+  const query: TransactionQuery = {
+    terms: [], types: [], accounts: [], counterparties: [], tags: [], currencies: [], errors: [],
+  };
+
+  tokenize(text).forEach(token => {
+    if (token.startsWith('#') && token.length > 1) {
+      query.tags.push(normalizeTag(token));
+      return;
+    }
+    if (token.startsWith('@') && token.length > 1) {
+      query.counterparties.push(normalizeName(token.slice(1)));
+      return;
+    }
+
+    const separator = token.indexOf(':');
+    const field = separator > 0 ? normalizeName(token.slice(0, separator)) : '';
+    const value = separator > 0 ? token.slice(separator + 1).trim() : '';
+
+    switch (field) {
+      case 'valor': {
+        const range = parseRange(value, v => {
+          const amount = parseAmount(v);
+          return amount === undefined ? undefined : { low: amount, high: amount };
+        }, { after: v => v + 0.01, before: v => v - 0.01 });
+        if (!range) query.errors.push(token);
+        else {
+          if (range.min !== undefined) query.minAmount = range.min;
+          if (range.max !== undefined) query.maxAmount = range.max;
+        }
+        return;
+      }
+      case 'data': {
+        const range = parseRange(value, v => {
+          const period = parseDatePeriod(v);
+          return period ? { low: period.start, high: period.end } : undefined;
+        }, { after: v => shiftDay(v, 1), before: v => shiftDay(v, -1) });
+        if (!range) query.errors.push(token);
+        else {
+          if (range.min !== undefined) query.from = range.min;
+          if (range.max !== undefined) query.to = range.max;
+        }
+        return;
+      }
+      case 'tipo': {
+        const types = value.split(',').map(v => TYPE_ALIASES[normalizeName(v)]);
+        if (types.length === 0 || types.some(t => !t)) query.errors.push(token);
+        else query.types.push(...types);
+        return;
+      }
+      case 'conta':
+      case 'categoria':
+      case 'classe':
+        if (/^\d+(\.\d+)*$/.test(value)) query.accounts.push(value);
+        else query.errors.push(token);
+        return;
+      case 'contraparte':
+      case 'cliente':
+      case 'fornecedor':
+        if (value) query.counterparties.push(normalizeName(value));
+        else query.errors.push(token);
+        return;
+      case 'etiqueta':
+      case 'tag':
+        if (value) query.tags.push(normalizeTag(value));
+        else query.errors.push(token);
+        return;
+      case 'moeda':
+        if (/^[a-z]{3}$/i.test(value)) query.currencies.push(value.toUpperCase());
+        else query.errors.push(token);
+        return;
+      default: {
+        const term = normalizeName(token);
+        if (term) query.terms.push(term);
+      }
+    }
+  });
+
+  return query;
+};
+
+// Todos os filtros têm de corresponder; dentro do mesmo filtro basta um dos valores
+export const matchesQuery = (t: Transaction, query: TransactionQuery, context: QueryContext): boolean => {
+  if (query.minAmount !== undefined && t.amount < query.minAmount) return false;
+  if (query.maxAmount !== undefined && t.amount > query.maxAmount) return false;
+
+  // Dia local: as datas guardadas são instantes ISO (meia-noite local = dia anterior em UTC)
+  const day = toDateKey(new Date(t.date));
+  if (query.from && day < query.from) return false;
+  if (query.to && day > query.to) return false;
+
+  if (query.types.length > 0 && !query.types.includes(t.type)) return false;
+  if (query.accounts.length > 0 && !query.accounts.some(code => isWithinAccount(t.category, code))) return false;
+  if (query.currencies.length > 0 && !query.currencies.includes(t.currency || 'MZN')) return false;
+
+  if (query.tags.length > 0) {
+    const tags = t.tags || [];
+    if (!query.tags.every(tag => tags.includes(tag))) return false;
+  }
+
+  const counterparty = normalizeName(context.counterpartyName(t.counterpartyId));
+  if (query.counterparties.length > 0 && !query.counterparties.some(name => counterparty.includes(name))) return false;
+
+  if (query.terms.length > 0) {
+    const haystack = normalizeName([t.description, context.categoryLabel(t), counterparty, ...(t.tags || [])].join(' '));
+    if (!query.terms.every(term => haystack.includes(term))) return false;
+  }
+  return true;
+};
+
+// Ordena uma cópia; em caso de empate fica a transação mais recente primeiro
+export const sortTransactions = (
+  transactions: Transaction[],
+  sort: HistorySort,
+  categoryLabel: (t: Transaction) => string
+): Transaction[] => {
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  const byDate = (a: Transaction, b: Transaction) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0);
+  // Rótulos calculados uma vez: a ordenação compara cada transação várias vezes
+  const labels = sort.key === 'category' ? new Map(transactions.map(t => [t.id, categoryLabel(t)])) : null;
+  const compare: Record<HistorySort['key'], (a: Transaction, b: Transaction) => number> = {
+    date: byDate,
+    description: (a, b) => a.description.localeCompare(b.description, 'pt'),
+    category: (a, b) => labels!.get(a.id)!.localeCompare(labels!.get(b.id)!, 'pt', { numeric: true }),
+    amount: (a, b) => a.amount - b.amount,
+  };
+  return [...transactions].sort((a, b) => factor * compare[sort.key](a, b) || byDate(b, a));
+};
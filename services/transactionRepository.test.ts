@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Transaction } from '../types';
+import {
+  TransactionRepository,
+  createMemoryRepository,
+  localOnlyTransactions,
+  syncQueueKey,
+  withOfflineQueue,
+} from './transactionRepository';
+
+const tx = (id: string, amount = 100): Transaction => ({
+  id,
+  description: `Movimento ${id}`,
+  amount,
+  type: 'expense',
+  category: '6.3',
+  date: '2026-03-10T12:00:00.000Z',
+});
+
+const memoryStorage = (): Storage => {
+  const data = new Map<string, string>();
+  return {
+    get length() { return data.size; },
+    clear: () => data.clear(),
+    getItem: key => data.get(key) ?? null,
+    key: index => Array.from(data.keys())[index] ?? null,
+    removeItem: key => { data.delete(key); },
+    setItem: (key, value) => { data.set(key, value); },
+  };
+};
+
+// Repositório remoto que falha com o código indicado enquanto `failWith` estiver definido (só para `onlyId`, se indicado)
+const flakyRemote = (seed: Transaction[] = []) => {
+  const memory = createMemoryRepository(seed);
+  const state = { failWith: null as string | null, onlyId: null as string | null };
+  const guard = async (id: string) => {
+    if (state.failWith && (!state.onlyId || state.onlyId === id)) throw Object.assign(new Error(state.failWith), { code: state.failWith });
+  };
+  const remote: TransactionRepository = {
+    subscribe: listener => memory.subscribe(listener),
+    save: async t => { await guard(t.id); await memory.save(t); },
+    saveMany: async list => { await Promise.all(list.map(t => guard(t.id))); await memory.saveMany(list); },
+    remove: async id => { await guard(id); await memory.remove(id); },
+  };
+  return { remote, memory, state };
+};
+
+beforeEach(() => {
+  vi.stubGlobal('window', new EventTarget());
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('withOfflineQueue', () => {
+  it('guarda as escritas sem ligação e envia-as pela ordem original quando volta a ligação', async () => {
+    const { remote, memory } = flakyRemote();
+    let online = false;
+    const repo = withOfflineQueue(remote, memoryStorage(), 'q', () => online);
+    const views: Transaction[][] = [];
+    repo.subscribe(list => views.push(list));
+
+    await repo.save(tx('a'));
+    await repo.save(tx('a', 250));
+    expect(repo.pendingCount()).toBe(2);
+    expect(views[views.length - 1].map(t => t.amount)).toEqual([250]);
+
+    online = true;
+    await repo.flush();
+    expect(repo.pendingCount()).toBe(0);
+    const remoteView: Transaction[][] = [];
+    memory.subscribe(list => remoteView.push(list));
+    expect(remoteView[0].map(t => t.amount)).toEqual([250]);
+  });
+
+  it('retira da fila as operações recusadas sem bloquear as seguintes', async () => {
+    const { remote, memory, state } = flakyRemote();
+    let online = false;
+    const repo = withOfflineQueue(remote, memoryStorage(), 'q', () => online);
+    repo.subscribe(() => {});
+    await repo.save(tx('recusada'));
+    await repo.save(tx('aceite'));
+
+    online = true;
+    state.failWith = 'permission-denied';
+    state.onlyId = 'recusada';
+    await repo.flush();
+
+    expect(repo.pendingCount()).toBe(0);
+    expect(repo.rejected().map(r => [r.code, r.op.kind === 'save' && r.op.transaction.id])).toEqual([['permission-denied', 'recusada']]);
+    const remoteView: Transaction[][] = [];
+    memory.subscribe(list => remoteView.push(list));
+    expect(remoteView[0].map(t => t.id)).toEqual(['aceite']);
+  });
+
+  it('mantém na fila as operações com erros temporários', async () => {
+    const { remote, state } = flakyRemote();
+    const repo = withOfflineQueue(remote, memoryStorage(), 'q', () => true);
+    repo.subscribe(() => {});
+    state.failWith = 'unavailable';
+    await repo.save(tx('a'));
+    expect(repo.pendingCount()).toBe(1);
+    expect(repo.rejected()).toEqual([]);
+
+    state.failWith = null;
+    await repo.flush();
+    expect(repo.pendingCount()).toBe(0);
+  });
+
+  it('só emite depois do primeiro snapshot remoto', async () => {
+    let deliver: (list: Transaction[]) => void = () => {};
+    const remote: TransactionRepository = {
+      subscribe: listener => { deliver = listener; return () => {}; },
+      save: async () => {},
+      saveMany: async () => {},
+      remove: async () => {},
+    };
+    const repo = withOfflineQueue(remote, memoryStorage(), 'q', () => false);
+    const views: Transaction[][] = [];
+    repo.subscribe(list => views.push(list));
+    await repo.save(tx('local'));
+    expect(views).toEqual([]);
+
+    deliver([tx('remota')]);
+    expect(views).toHaveLength(1);
+    expect(views[0].map(t => t.id).sort()).toEqual(['local', 'remota']);
+  });
+
+  it('usa uma fila própria por utilizador', async () => {
+    const storage = memoryStorage();
+    const first = withOfflineQueue(flakyRemote().remote, storage, syncQueueKey('uid-1'), () => false);
+    await first.save(tx('a'));
+    const second = withOfflineQueue(flakyRemote().remote, storage, syncQueueKey('uid-2'), () => false);
+    expect(second.pendingCount()).toBe(0);
+  });
+});
+
+describe('localOnlyTransactions', () => {
+  it('devolve só as transações locais que ainda não estão na nuvem', () => {
+    expect(localOnlyTransactions([tx('a'), tx('b')], [tx('b')]).map(t => t.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,243 @@
+import {
+  Firestore,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  setDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import { Transaction } from '../types';
+
+export const LOCAL_STORAGE_KEY = 'fluxowin_transactions';
+export const SYNC_QUEUE_KEY = 'fluxowin_sync_queue';
+export const LOCAL_UPLOAD_KEY = 'fluxowin_local_uploaded';
+
+// Fila de cada utilizador: o que um utilizador deixou por enviar nunca vai para o livro de outro
+export const syncQueueKey = (uid: string) => `${SYNC_QUEUE_KEY}:${uid}`;
+
+type Listener = (transactions: Transaction[]) => void;
+
+// Contrato comum a todas as fontes de dados do livro de transações.
+export interface TransactionRepository {
+  subscribe(listener: Listener): () => void;
+  save(transaction: Transaction): Promise<void>;
+  saveMany(transactions: Transaction[]): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export type PendingOperation =
+  | { kind: 'save'; transaction: Transaction }
+  | { kind: 'remove'; id: string };
+
+const applyOperation = (transactions: Transaction[], op: PendingOperation): Transaction[] => {
+  if (op.kind === 'remove') {
+    return transactions.filter(t => t.id !== op.id);
+  }
+  const exists = transactions.some(t => t.id === op.transaction.id);
+  return exists
+    ? transactions.map(t => (t.id === op.transaction.id ? op.transaction : t))
+    : [op.transaction, ...transactions];
+};
+
+// Repositório em memória - usado quando não há persistência e como substituto do Firestore em testes.
+export const createMemoryRepository = (seed: Transaction[] = []): TransactionRepository => {
+  let state = [...seed];
+  const listeners = new Set<Listener>();
+  const emit = () => listeners.forEach(l => l(state));
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      listener(state);
+      return () => { listeners.delete(listener); };
+    },
+    async save(transaction) {
+      state = applyOperation(state, { kind: 'save', transaction });
+      emit();
+    },
+    async saveMany(transactions) {
+      state = transactions.reduce((acc, transaction) => applyOperation(acc, { kind: 'save', transaction }), state);
+      emit();
+    },
+    async remove(id) {
+      state = applyOperation(state, { kind: 'remove', id });
+      emit();
+    },
+  };
+};
+
+// Repositório local (navegador) - mantém o formato histórico da chave 'fluxowin_transactions'.
+export const createLocalRepository = (storage: Storage = localStorage, key = LOCAL_STORAGE_KEY): TransactionRepository => {
+  const saved = storage.getItem(key);
+  const memory = createMemoryRepository(saved ? JSON.parse(saved) : []);
+  memory.subscribe(transactions => storage.setItem(key, JSON.stringify(transactions)));
+  return memory;
+};
+
+// Repositório Firestore - o livro em {ownerPath}/transactions (users/{uid} ou workspaces/{id}).
+export const createFirestoreRepository = (db: Firestore, ownerPath: string): TransactionRepository => {
+  const transactionsRef = collection(db, ownerPath, 'transactions');
+
+  return {
+    subscribe(listener) {
+      return onSnapshot(transactionsRef, snapshot => {
+        listener(snapshot.docs.map(d => ({ ...d.data(), id: d.id }) as Transaction));
+      });
+    },
+    async save(transaction) {
+      const { id, ...data } = transaction;
+      await setDoc(doc(transactionsRef, id), data);
+    },
+    async saveMany(transactions) {
+      // Limite do Firestore: 500 operações por lote
+      for (let i = 0; i < transactions.length; i += 500) {
+        const batch = writeBatch(db);
+        transactions.slice(i, i + 500).forEach(({ id, ...data }) => batch.set(doc(transactionsRef, id), data));
+        await batch.commit();
+      }
+    },
+    async remove(id) {
+      await deleteDoc(doc(transactionsRef, id));
+    },
+  };
+};
+
+// Erros que não passam com nova tentativa (p.ex. permission-denied): a operação sai da fila
+const RETRYABLE_CODES = new Set(['unavailable', 'deadline-exceeded', 'resource-exhausted', 'aborted', 'internal', 'unknown', 'cancelled']);
+
+export const isRetryable = (err: unknown) => {
+  const code = (err as { code?: unknown } | null)?.code;
+  return typeof code !== 'string' || RETRYABLE_CODES.has(code.replace(/^firestore\//, ''));
+};
+
+export interface RejectedOperation {
+  op: PendingOperation;
+  code: string;
+  at: string; // ISO
+}
+
+/**
+ * Envolve um repositório remoto com uma fila persistente de alterações.
+ * Sem ligação (ou se a escrita falhar) a operação fica guardada em `storage`
+ * e é reenviada, pela ordem original, quando o evento 'online' dispara.
+ * Operações recusadas pelo servidor ficam à parte em `${key}:rejected`, sem bloquear as seguintes.
+ */
+export const withOfflineQueue = (
+  remote: TransactionRepository,
+  storage: Storage = localStorage,
+  key = SYNC_QUEUE_KEY,
+  isOnline: () => boolean = () => navigator.onLine,
+): TransactionRepository & { flush(): Promise<void>; pendingCount(): number; rejected(): RejectedOperation[] } => {
+  const saved = storage.getItem(key);
+  const savedRejected = storage.getItem(`${key}:rejected`);
+  let queue: PendingOperation[] = saved ? JSON.parse(saved) : [];
+  let rejected: RejectedOperation[] = savedRejected ? JSON.parse(savedRejected) : [];
+  // Até ao primeiro snapshot não se sabe o que está na nuvem: nada é emitido
+  let remoteState: Transaction[] | null = null;
+  let flushing = false;
+  const listeners = new Set<Listener>();
+
+  const persist = () => storage.setItem(key, JSON.stringify(queue));
+  const emit = () => {
+    if (remoteState === null) return;
+    const view = queue.reduce(applyOperation, remoteState);
+    listeners.forEach(l => l(view));
+  };
+  const reject = (ops: PendingOperation[], err: unknown) => {
+    const code = String((err as { code?: unknown } | null)?.code ?? 'unknown');
+    console.warn('Alteração recusada pelo servidor e retirada da fila de sincronização.', err);
+    rejected = [...rejected, ...ops.map(op => ({ op, code, at: new Date().toISOString() }))];
+    storage.setItem(`${key}:rejected`, JSON.stringify(rejected));
+  };
+  const send = (op: PendingOperation) =>
+    op.kind === 'save' ? remote.save(op.transaction) : remote.remove(op.id);
+
+  const enqueue = (op: PendingOperation) => {
+    queue = [...queue, op];
+    persist();
+    emit();
+  };
+
+  const flush = async () => {
+    if (flushing) return;
+    flushing = true;
+    try {
+      while (queue.length > 0 && isOnline()) {
+        try {
+          await send(queue[0]);
+        } catch (err) {
+          if (isRetryable(err)) throw err;
+          reject([queue[0]], err);
+        }
+        queue = queue.slice(1);
+        persist();
+      }
+    } catch (err) {
+      console.warn('Sincronização interrompida, nova tentativa quando houver ligação.', err);
+    } finally {
+      flushing = false;
+      emit();
+    }
+  };
+
+  const run = async (op: PendingOperation) => {
+    if (!isOnline() || queue.length > 0) {
+      enqueue(op);
+      if (isOnline()) flush();
+      return;
+    }
+    try {
+      await send(op);
+    } catch (err) {
+      if (isRetryable(err)) enqueue(op);
+      else reject([op], err);
+    }
+  };
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      const unsubscribeRemote = remote.subscribe(transactions => {
+        remoteState = transactions;
+        emit();
+      });
+      window.addEventListener('online', flush);
+      flush();
+      return () => {
+        listeners.delete(listener);
+        unsubscribeRemote();
+        window.removeEventListener('online', flush);
+      };
+    },
+    save: transaction => run({ kind: 'save', transaction }),
+    async saveMany(transactions) {
+      if (isOnline() && queue.length === 0) {
+        try {
+          await remote.saveMany(transactions);
+          return;
+        } catch (err) {
+          if (!isRetryable(err)) {
+            reject(transactions.map(transaction => ({ kind: 'save' as const, transaction })), err);
+            return;
+          }
+          // segue para a fila, uma operação por transação
+        }
+      }
+      queue = [...queue, ...transactions.map(transaction => ({ kind: 'save' as const, transaction }))];
+      persist();
+      emit();
+      if (isOnline()) flush();
+    },
+    remove: id => run({ kind: 'remove', id }),
+    flush,
+    pendingCount: () => queue.length,
+    rejected: () => rejected,
+  };
+};
+
+// Transações deste navegador que ainda não estão na nuvem (oferecidas para envio na primeira sessão)
+export const localOnlyTransactions = (local: Transaction[], remote: Transaction[]) => {
+  const remoteIds = new Set(remote.map(t => t.id));
+  return local.filter(t => !remoteIds.has(t.id));
+};
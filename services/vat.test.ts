@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types';
+import { summarizeVat, vatFromGross } from './vat';
+
+const tx = (id: string, fields: Partial<Transaction>): Transaction => ({
+  id,
+  description: `Movimento ${id}`,
+  amount: 0,
+  type: 'income',
+  category: '7.2',
+  date: new Date(2026, 2, 10).toISOString(),
+  ...fields,
+});
+
+describe('vatFromGross', () => {
+  it('separa a base e o imposto de um valor com IVA incluído', () => {
+    expect(vatFromGross(1160, 'normal')).toEqual({ regime: 'normal', base: 1000, tax: 160 });
+    expect(vatFromGross(1050, 'reduzida')).toEqual({ regime: 'reduzida', base: 1000, tax: 50 });
+    expect(vatFromGross(500, 'isento')).toEqual({ regime: 'isento', base: 500, tax: 0 });
+  });
+
+  it('arredonda ao cêntimo e a soma dá o valor bruto', () => {
+    const vat = vatFromGross(99.99, 'normal');
+    expect(vat).toEqual({ regime: 'normal', base: 86.2, tax: 13.79 });
+    expect(vat.base + vat.tax).toBeCloseTo(99.99, 2);
+  });
+});
+
+describe('summarizeVat', () => {
+  it('agrupa por mês o IVA liquidado, o dedutível e as vendas isentas', () => {
+    const summary = summarizeVat([
+      tx('venda', { amount: 1160, vat: vatFromGross(1160, 'normal') }),
+      tx('isenta', { amount: 300, vat: vatFromGross(300, 'isento') }),
+      tx('compra', { type: 'expense', category: '6.2', amount: 580, vat: vatFromGross(580, 'normal') }),
+      tx('sem-iva', { amount: 999 }),
+      tx('abril', { amount: 116, vat: vatFromGross(116, 'normal'), date: new Date(2026, 3, 2).toISOString() }),
+    ]);
+    expect(summary).toEqual([
+      { period: '2026-03', salesBase: 1000, vatCollected: 160, purchasesBase: 500, vatDeductible: 80, exemptSales: 300, balance: 80 },
+      { period: '2026-04', salesBase: 100, vatCollected: 16, purchasesBase: 0, vatDeductible: 0, exemptSales: 0, balance: 16 },
+    ]);
+  });
+
+  it('um saldo negativo é crédito a recuperar', () => {
+    const [march] = summarizeVat([tx('compra', { type: 'expense', amount: 2320, vat: vatFromGross(2320, 'normal') })]);
+    expect(march.balance).toBe(-320);
+  });
+});
@@ -0,0 +1,71 @@
+import { Transaction, VatDetails, VatRegime } from '../types';
+
+export interface VatRegimeInfo {
+  id: VatRegime;
+  label: string;
+  rate: number;
+}
+
+// Taxas do IVA em Moçambique (Código do IVA, Lei n.º 22/2022)
+export const VAT_REGIMES: VatRegimeInfo[] = [
+  { id: 'normal', label: 'Taxa normal (16%)', rate: 0.16 },
+  { id: 'reduzida', label: 'Taxa reduzida (5%)', rate: 0.05 },
+  { id: 'zero', label: 'Taxa zero (0%)', rate: 0 },
+  { id: 'isento', label: 'Isento', rate: 0 },
+];
+
+export const getVatRegime = (id: VatRegime) => VAT_REGIMES.find(r => r.id === id) || VAT_REGIMES[0];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Decompõe um valor com IVA incluído (o `amount` da transação) em base tributável e imposto
+export const vatFromGross = (gross: number, regime: VatRegime): VatDetails => {
+  const { rate } = getVatRegime(regime);
+  const base = round2(gross / (1 + rate));
+  return { regime, base, tax: round2(gross - base) };
+};
+
+export interface VatPeriodSummary {
+  period: string; // YYYY-MM
+  salesBase: number;
+  vatCollected: number; // IVA liquidado (vendas/prestações - classe 7)
+  purchasesBase: number;
+  vatDeductible: number; // IVA dedutível (compras/gastos - classe 6)
+  exemptSales: number;
+  balance: number; // positivo = a entregar ao Estado; negativo = crédito a recuperar
+}
+
+const periodKey = (date: string) => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Resumo mensal para preenchimento da declaração periódica do IVA (Modelo A)
+export const summarizeVat = (transactions: Transaction[]): VatPeriodSummary[] => {
+  const byPeriod = new Map<string, VatPeriodSummary>();
+
+  transactions.forEach(t => {
+    if (!t.vat) return;
+    const key = periodKey(t.date);
+    const entry = byPeriod.get(key) || {
+      period: key, salesBase: 0, vatCollected: 0, purchasesBase: 0, vatDeductible: 0, exemptSales: 0, balance: 0,
+    };
+    if (t.type === 'income') {
+      if (t.vat.regime === 'isento') entry.exemptSales += t.vat.base;
+      else entry.salesBase += t.vat.base;
+      entry.vatCollected += t.vat.tax;
+    } else {
+      entry.purchasesBase += t.vat.base;
+      entry.vatDeductible += t.vat.tax;
+    }
+    entry.balance = entry.vatCollected - entry.vatDeductible;
+    byPeriod.set(key, entry);
+  });
+
+  return [...byPeriod.values()].sort((a, b) => a.period.localeCompare(b.period));
+};
+
+export const formatPeriod = (period: string) => {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString('pt-MZ', { month: 'long', year: 'numeric' });
+};
@@ -0,0 +1,36 @@
+import { Firestore, doc, onSnapshot, setDoc } from 'firebase/firestore';
+
+// Definições guardadas com o livro na nuvem: um documento por coleção em {livro}/settings/{nome}
+// (os mesmos nomes que firestore.rules aceita)
+export type SharedSettingName =
+  | 'chart'
+  | 'accounts'
+  | 'counterparties'
+  | 'openItems'
+  | 'budgets'
+  | 'closedPeriods'
+  | 'periodLog'
+  | 'categoryRules'
+  | 'exchangeRates';
+
+// null quando a definição ainda não foi gravada na nuvem
+export const subscribeSetting = <T>(
+  db: Firestore,
+  ownerPath: string,
+  name: SharedSettingName,
+  listener: (value: T | null) => void
+): (() => void) =>
+  onSnapshot(doc(db, ownerPath, 'settings', name), snapshot => {
+    listener(snapshot.exists() ? (snapshot.data().value as T) : null);
+  });
+
+// `fields` são campos extra lidos pelas regras (p.ex. o limite dos meses fechados)
+export const saveSetting = <T>(
+  db: Firestore,
+  ownerPath: string,
+  name: SharedSettingName,
+  value: T,
+  user: string,
+  fields: Record<string, unknown> = {}
+) =>
+  setDoc(doc(db, ownerPath, 'settings', name), { ...fields, value, updatedAt: new Date().toISOString(), updatedBy: user });
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeEmail, toRemote } from './workspaces';
+
+describe('toRemote', () => {
+  it('lê o documento da empresa com os papéis e emails dos membros', () => {
+    const data = {
+      name: 'Construções Matola',
+      members: { u1: 'owner', u2: 'accountant' },
+      memberEmails: { u1: 'ana@exemplo.co.mz', u2: 'rui@exemplo.co.mz' },
+      invites: { 'leitor@exemplo.co.mz': 'viewer' },
+    };
+    expect(toRemote('w1', data)).toEqual({ id: 'w1', ...data });
+  });
+
+  it('descarta campos em falta e valores inválidos', () => {
+    expect(toRemote('w1', { name: 42, members: { u1: 'admin', u2: 'viewer' }, memberEmails: 'x', invites: null })).toEqual({
+      id: 'w1', name: '', members: { u2: 'viewer' }, memberEmails: {}, invites: {},
+    });
+  });
+});
+
+describe('normalizeEmail', () => {
+  it('os convites usam o email sem espaços e em minúsculas', () => {
+    expect(normalizeEmail('  Rui@Exemplo.co.MZ ')).toBe('rui@exemplo.co.mz');
+  });
+});
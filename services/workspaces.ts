@@ -0,0 +1,159 @@
+import {
+  DocumentData,
+  FieldPath,
+  Firestore,
+  collection,
+  deleteField,
+  doc,
+  onSnapshot,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { RemoteWorkspace, Workspace, WorkspaceRole } from '../types';
+
+export const WORKSPACES_STORAGE_KEY = 'fluxowin_workspaces';
+export const ACTIVE_WORKSPACE_KEY = 'fluxowin_active_workspace';
+
+// A empresa principal mantém as chaves locais e o livro pessoal na nuvem anteriores às empresas
+export const DEFAULT_WORKSPACE_ID = 'principal';
+
+export const DEFAULT_WORKSPACES: Workspace[] = [{ id: DEFAULT_WORKSPACE_ID, name: 'Empresa principal' }];
+
+export const ROLES: WorkspaceRole[] = ['owner', 'accountant', 'viewer'];
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Proprietário',
+  accountant: 'Contabilista',
+  viewer: 'Leitor',
+};
+
+export const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: 'Tudo, incluindo gerir os membros e fechar períodos',
+  accountant: 'Lança e edita movimentos e definições, sem fechar nem reabrir períodos',
+  viewer: 'Apenas consulta os relatórios',
+};
+
+// Permissões de cada papel; as mesmas regras são impostas em firestore.rules
+export const canEdit = (role: WorkspaceRole) => role !== 'viewer';
+export const canManageMembers = (role: WorkspaceRole) => role === 'owner';
+export const canClosePeriods = (role: WorkspaceRole) => role === 'owner';
+
+export const loadWorkspaces = (): Workspace[] => {
+  const saved = localStorage.getItem(WORKSPACES_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : DEFAULT_WORKSPACES;
+};
+
+export const saveWorkspaces = (workspaces: Workspace[]) => {
+  localStorage.setItem(WORKSPACES_STORAGE_KEY, JSON.stringify(workspaces));
+};
+
+let activeId: string | null = null;
+
+export const activeWorkspaceId = (): string => {
+  if (activeId === null) activeId = localStorage.getItem(ACTIVE_WORKSPACE_KEY) || DEFAULT_WORKSPACE_ID;
+  return activeId;
+};
+
+export const setActiveWorkspaceId = (id: string) => {
+  activeId = id;
+  localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+};
+
+/**
+ * Chave do localStorage na empresa ativa. Os dados de cada empresa ficam em chaves próprias
+ * ("fluxowin_transactions:<id>"); a empresa principal usa as chaves sem sufixo.
+ */
+export const scopedKey = (key: string) => {
+  const id = activeWorkspaceId();
+  return id === DEFAULT_WORKSPACE_ID ? key : `${key}:${id}`;
+};
+
+// Caminho no Firestore/Storage do livro da empresa: a principal continua em users/{uid}
+export const workspacePath = (workspaceId: string, uid: string) =>
+  workspaceId === DEFAULT_WORKSPACE_ID ? `users/${uid}` : `workspaces/${workspaceId}`;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const isRole = (value: unknown): value is WorkspaceRole => ROLES.includes(value as WorkspaceRole);
+
+// Mapa do documento reduzido às entradas com valores válidos; um campo em falta ou corrompido fica vazio
+const entriesOf = <T>(value: unknown, valid: (v: unknown) => v is T): Record<string, T> => {
+  if (!value || typeof value !== 'object') return {};
+  const result: Record<string, T> = {};
+  Object.entries(value).forEach(([key, v]) => {
+    if (valid(v)) result[key] = v;
+  });
+  return result;
+};
+
+export const toRemote = (id: string, data: DocumentData): RemoteWorkspace => ({
+  id,
+  name: typeof data.name === 'string' ? data.name : '',
+  members: entriesOf(data.members, isRole),
+  memberEmails: entriesOf(data.memberEmails, (v): v is string => typeof v === 'string'),
+  invites: entriesOf(data.invites, isRole),
+});
+
+// Empresas partilhadas de que o utilizador é membro (com qualquer papel)
+export const subscribeMemberships = (
+  db: Firestore,
+  uid: string,
+  listener: (workspaces: RemoteWorkspace[]) => void
+): (() => void) =>
+  onSnapshot(
+    query(collection(db, 'workspaces'), where(new FieldPath('members', uid), 'in', ROLES)),
+    snapshot => listener(snapshot.docs.map(d => toRemote(d.id, d.data())))
+  );
+
+// Convites pendentes para o email da sessão
+export const subscribeInvites = (
+  db: Firestore,
+  email: string,
+  listener: (workspaces: RemoteWorkspace[]) => void
+): (() => void) =>
+  onSnapshot(
+    query(collection(db, 'workspaces'), where(new FieldPath('invites', normalizeEmail(email)), 'in', ROLES)),
+    snapshot => listener(snapshot.docs.map(d => toRemote(d.id, d.data())))
+  );
+
+// Regista na nuvem uma empresa criada neste navegador, com o utilizador como proprietário
+export const createRemoteWorkspace = (db: Firestore, workspace: Workspace, uid: string, email: string) =>
+  setDoc(doc(db, 'workspaces', workspace.id), {
+    name: workspace.name,
+    members: { [uid]: 'owner' },
+    memberEmails: { [uid]: normalizeEmail(email) },
+    invites: {},
+  });
+
+export const renameRemoteWorkspace = (db: Firestore, id: string, name: string) =>
+  updateDoc(doc(db, 'workspaces', id), { name });
+
+// Os emails contêm pontos: os campos dos mapas são indicados com FieldPath
+export const inviteMember = (db: Firestore, id: string, email: string, role: WorkspaceRole) =>
+  updateDoc(doc(db, 'workspaces', id), new FieldPath('invites', normalizeEmail(email)), role);
+
+export const cancelInvite = (db: Firestore, id: string, email: string) =>
+  updateDoc(doc(db, 'workspaces', id), new FieldPath('invites', normalizeEmail(email)), deleteField());
+
+export const setMemberRole = (db: Firestore, id: string, uid: string, role: WorkspaceRole) =>
+  updateDoc(doc(db, 'workspaces', id), new FieldPath('members', uid), role);
+
+export const removeMember = (db: Firestore, id: string, uid: string) =>
+  updateDoc(
+    doc(db, 'workspaces', id),
+    new FieldPath('members', uid), deleteField(),
+    new FieldPath('memberEmails', uid), deleteField()
+  );
+
+// O convidado torna-se membro com o papel do convite, que é consumido na mesma escrita
+export const acceptInvite = (db: Firestore, workspace: RemoteWorkspace, uid: string, email: string) => {
+  const key = normalizeEmail(email);
+  return updateDoc(
+    doc(db, 'workspaces', workspace.id),
+    new FieldPath('members', uid), workspace.invites[key],
+    new FieldPath('memberEmails', uid), key,
+    new FieldPath('invites', key), deleteField()
+  );
+};
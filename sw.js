@@ -0,0 +1,47 @@
+// Service worker: guarda a aplicação na instalação para que abra sem internet.
+// A lista de ficheiros e a versão são preenchidas no build (ver vite.config.ts); em desenvolvimento não é registado.
+const PRECACHE_FILES = '__PRECACHE_FILES__';
+const CACHE_NAME = 'fluxowin-__CACHE_VERSION__';
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(PRECACHE_FILES))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Versões anteriores são apagadas assim que esta fica ativa
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('fluxowin-') && key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Firebase, Gemini e restantes serviços externos vão sempre à rede; o livro tem a sua própria fila offline
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Páginas: a rede primeiro, para receber atualizações; sem ligação, a cópia guardada da aplicação
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match('/', { cacheName: CACHE_NAME }))
+    );
+    return;
+  }
+
+  // Ficheiros do build têm o conteúdo no nome, por isso a cópia guardada nunca fica desatualizada
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE_NAME }).then(cached => cached || fetch(request).then(response => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+      }
+      return response;
+    }))
+  );
+});
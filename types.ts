@@ -1,12 +1,196 @@
-export type TransactionType = 'income' | 'expense';
+// 'transfer' move dinheiro entre contas próprias e não conta como receita nem despesa
+export type TransactionType = 'income' | 'expense' | 'transfer';
 
 export interface Transaction {
   id: string;
   date: string; // ISO string
   description: string;
-  amount: number;
+  amount: number; // sempre em MZN (convertido à taxa de câmbio quando a moeda é outra)
   type: TransactionType;
+  category: string; // Código da conta no plano de contas (ex.: "6.2.1")
+  currency?: string; // moeda original (ISO 4217); ausente = MZN
+  originalAmount?: number; // valor na moeda original
+  exchangeRate?: number; // MZN por unidade da moeda original
+  fxDifference?: boolean; // diferença de câmbio realizada na liquidação de uma fatura (6.9.2 / 7.8.1)
+  vat?: VatDetails; // IVA incluído em `amount`
+  accountId?: string; // conta/caixa de origem (ausente = conta principal)
+  toAccountId?: string; // conta de destino, apenas em transferências
+  recurringId?: string; // modelo recorrente que gerou esta transação
+  pending?: boolean; // gerada automaticamente, aguarda confirmação (fora dos totais)
+  openItemId?: string; // fatura ou conta a pagar liquidada (total ou parcialmente) por este movimento
+  counterpartyId?: string; // cliente ou fornecedor do diretório
+  attachments?: Attachment[]; // comprovativos (o conteúdo fica no armazenamento de anexos)
+  tags?: string[]; // etiquetas livres em minúsculas, sem '#' (ex.: "obra-matola")
+  deletedAt?: string; // ISO string - eliminação lógica (pode ser restaurada)
+  history?: AuditEntry[];
+}
+
+// Recibo ou fatura digitalizados: metadados no livro, conteúdo no IndexedDB ou no Firebase Storage
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // bytes
+  uploadedAt: string; // ISO
+  storage: 'local' | 'cloud';
+  path?: string; // caminho no Firebase Storage
+}
+
+export type VatRegime = 'normal' | 'reduzida' | 'zero' | 'isento';
+
+export interface VatDetails {
+  regime: VatRegime;
+  base: number; // valor tributável (sem IVA)
+  tax: number; // IVA liquidado (receitas) ou dedutível (despesas)
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// Registo de auditoria: quem, quando e o que mudou numa transação
+export interface AuditEntry {
+  at: string; // ISO string
+  by: string;
+  action: AuditAction;
+  changes?: FieldChange[];
+}
+
+// Conta bancária, caixa ou carteira móvel (M-Pesa, e-Mola)
+export interface CashAccount {
+  id: string;
+  name: string;
+  kind: 'cash' | 'bank' | 'mobile';
+  openingBalance: number;
+  archived?: boolean;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Modelo de lançamento recorrente (renda, salários, internet, prestações de empréstimos...)
+export interface RecurringTemplate {
+  id: string;
+  description: string;
+  amount: number;
+  type: 'income' | 'expense';
   category: string;
+  accountId?: string;
+  frequency: RecurrenceFrequency;
+  interval: number; // a cada N dias/semanas/meses/anos
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+  count?: number; // número total de ocorrências
+  skippedDates: string[]; // ocorrências saltadas (YYYY-MM-DD)
+  generatedThrough?: string; // última data já processada (YYYY-MM-DD)
+  active: boolean;
+}
+
+export type BudgetPeriod = 'monthly' | 'yearly';
+
+// Orçamento de uma conta do plano (inclui as subcontas), repetido todos os meses ou anos
+export interface Budget {
+  id: string;
+  category: string; // código da conta, ex.: 6.3
+  period: BudgetPeriod;
+  amount: number;
+}
+
+// Entrada ou saída esperada introduzida manualmente na previsão (ex.: pagamento de um cliente)
+export interface ExpectedEntry {
+  id: string;
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number;
+  type: 'income' | 'expense';
+}
+
+// Saldo projetado no fim do dia
+export interface ForecastPoint {
+  date: string; // YYYY-MM-DD
+  balance: number;
+  inflow: number;
+  outflow: number;
+}
+
+// Previsão guardada para comparar mais tarde com o saldo real
+export interface ForecastSnapshot {
+  id: string;
+  createdAt: string; // ISO
+  horizonDays: number;
+  startBalance: number;
+  points: ForecastPoint[];
+}
+
+// Câmbio de referência introduzido pelo utilizador: 1 unidade da moeda = `rate` MZN a partir de `date`
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  date: string; // YYYY-MM-DD
+  rate: number;
+}
+
+export type OpenItemKind = 'receivable' | 'payable';
+
+// Fatura emitida a um cliente ou conta de fornecedor por liquidar; os pagamentos são transações com `openItemId`
+export interface OpenItem {
+  id: string;
+  kind: OpenItemKind;
+  counterparty: string; // nome tal como aparece na fatura
+  counterpartyId?: string;
+  reference?: string; // número da fatura
+  description: string;
+  issueDate: string; // YYYY-MM-DD
+  dueDate: string; // YYYY-MM-DD
+  amount: number; // em MZN à taxa da data de emissão
+  currency?: string; // moeda da fatura; ausente = MZN
+  originalAmount?: number;
+  exchangeRate?: number;
+  category: string; // conta do plano usada nos pagamentos
+  accountId?: string; // conta/caixa habitual dos pagamentos
+  cancelledAt?: string; // ISO - anulada, deixa de contar como em aberto
+}
+
+export type CounterpartyKind = 'customer' | 'supplier' | 'both';
+
+// Cliente ou fornecedor; os nomes alternativos agrupam as variações que aparecem nas descrições e extratos
+export interface Counterparty {
+  id: string;
+  name: string;
+  kind: CounterpartyKind;
+  nuit?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  aliases: string[];
+}
+
+// Identificação da empresa usada no cabeçalho dos relatórios exportados
+export interface CompanyProfile {
+  name: string;
+  nuit: string; // Número Único de Identificação Tributária (9 dígitos)
+  address?: string;
+  logo?: string; // imagem (data URL) para o cabeçalho dos PDF
+}
+
+export type WorkspaceRole = 'owner' | 'accountant' | 'viewer';
+
+// Empresa com livro e definições próprios; a lista e a empresa ativa ficam neste navegador
+export interface Workspace {
+  id: string;
+  name: string;
+}
+
+// Documento workspaces/{id} no Firestore: quem tem acesso a uma empresa e com que papel
+export interface RemoteWorkspace {
+  id: string;
+  name: string;
+  members: Record<string, WorkspaceRole>; // uid -> papel
+  memberEmails: Record<string, string>; // uid -> email, apenas para apresentação
+  invites: Record<string, WorkspaceRole>; // email (minúsculas) -> papel
 }
 
 export interface FinancialSummary {
@@ -15,8 +199,72 @@ export interface FinancialSummary {
   balance: number;
 }
 
+// Regra de categorização do utilizador; a ordem da lista é a prioridade (ganha a primeira ativa que corresponde)
+export interface CategoryRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: 'contains' | 'regex'; // texto contido na descrição (sem distinguir maiúsculas e acentos) ou expressão regular
+  pattern: string;
+  type?: 'income' | 'expense'; // ausente = ambos
+  minAmount?: number;
+  maxAmount?: number;
+  category: string; // código do plano de contas
+  tags?: string[]; // etiquetas acrescentadas às que a transação já tem
+}
+
+// Mês fechado (já declarado): as transações com data nesse mês ficam bloqueadas até à reabertura
+export interface ClosedPeriod {
+  month: string; // YYYY-MM
+  closedAt: string; // ISO
+  closedBy: string;
+  balances: Record<string, number>; // saldo de fecho de cada conta (id -> valor)
+}
+
+// Registo dos fechos e reaberturas; a reabertura exige um motivo
+export interface PeriodLogEntry {
+  id: string;
+  month: string; // YYYY-MM
+  action: 'close' | 'reopen';
+  at: string; // ISO
+  by: string;
+  reason?: string;
+}
+
+export type AIProviderId = 'gemini' | 'local';
+
+// O que a análise por IA pode partilhar com o fornecedor; os valores vão sempre agregados por período
+export interface AISettings {
+  provider: AIProviderId;
+  shareDescriptions: boolean; // descrições mascaradas (sem números, emails nem nomes de contrapartes)
+  shareCounterparties: boolean; // totais por contraparte, com pseudónimos
+}
+
+export type AIInsightKind = 'anomaly' | 'category' | 'saving';
+
+// Resultado estruturado da análise, ligado às transações de origem
+export interface AIInsight {
+  kind: AIInsightKind;
+  title: string;
+  detail: string;
+  transactionIds: string[];
+  suggestedCategory?: string; // código do plano de contas, apenas em sugestões de categoria
+}
+
+export type LedgerAggregation = 'sum' | 'count' | 'average' | 'max' | 'min';
+
+// Pergunta em linguagem natural já traduzida; é executada no navegador sobre o livro, por isso os valores são exatos
+export interface LedgerQuery {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  type: 'all' | 'income' | 'expense';
+  category?: string; // código da conta (inclui subcontas)
+  counterpartyId?: string;
+  aggregation: LedgerAggregation;
+}
+
 export interface AIAnalysisResult {
-  analysis: string;
+  insights: AIInsight[] | null; // null enquanto não houver análise
   loading: boolean;
   error: string | null;
 }
@@ -26,9 +274,40 @@ export interface ReportFilters {
   endDate: string;
   type: 'all' | 'income' | 'expense';
   category: string;
+  accountId: string; // 'all' ou id da conta
+}
+
+export type HistorySortKey = 'date' | 'description' | 'category' | 'amount';
+
+export interface HistorySort {
+  key: HistorySortKey;
+  direction: 'asc' | 'desc';
+}
+
+// Pesquisa, ordenação e filtros aplicados ao Histórico
+export interface HistoryFilters {
+  query: string;
+  sort: HistorySort;
+  showDeleted: boolean;
+  onlyMissingAttachments: boolean;
+}
+
+// Pesquisa guardada do Histórico: consulta, ordenação e filtros reutilizáveis pelo nome
+export interface SavedView extends HistoryFilters {
+  id: string;
+  name: string;
+}
+
+// Conta do plano PGC-NIRF: classe (6), conta (6.2) ou subconta (6.2.1)
+export interface ChartAccount {
+  code: string;
+  name: string;
+  parentCode: string | null;
+  custom?: boolean; // criada pelo utilizador
 }
 
 // Categorias baseadas no PGC-NIRF Moçambicano (Simplificado para Fluxo de Caixa)
+// Rótulos antigos: as transações que os usam são migradas para códigos do plano de contas
 export const PGC_CATEGORIES = [
   // Classe 7 - Proveitos
   "7.1 - Vendas",
@@ -1,18 +1,41 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { Plugin, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+// Ficheiros de public/ que a aplicação instalada também precisa sem internet
+const PUBLIC_FILES = ['/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg'];
+
+// Gera o sw.js com a lista de todos os ficheiros do build; a versão muda sempre que algum deles muda
+const serviceWorker = (): Plugin => ({
+  name: 'fluxowin-service-worker',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const files = ['/', ...Object.keys(bundle).filter(file => file !== 'index.html').map(file => `/${file}`), ...PUBLIC_FILES];
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8')
+      .replace("'__PRECACHE_FILES__'", JSON.stringify(files))
+      .replace('__CACHE_VERSION__', version);
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
+
+export default defineConfig(({ mode, command }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.FIRESTORE_EMULATOR_HOST': JSON.stringify(env.FIRESTORE_EMULATOR_HOST || ''),
+        'process.env.FIREBASE_AUTH_EMULATOR_HOST': JSON.stringify(env.FIREBASE_AUTH_EMULATOR_HOST || ''),
+        'process.env.FIREBASE_STORAGE_EMULATOR_HOST': JSON.stringify(env.FIREBASE_STORAGE_EMULATOR_HOST || ''),
+        'process.env.SERVICE_WORKER': JSON.stringify(command === 'build' ? 'true' : '')
       },
       resolve: {
         alias: {